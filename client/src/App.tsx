@@ -16,6 +16,9 @@ import AdminMessagesPage from "@/pages/admin-messages";
 import AdminLoginPage from "@/pages/admin-login";
 import LoginPage from "@/pages/login";
 import RegisterPage from "@/pages/register";
+import ForgotPasswordPage from "@/pages/forgot-password";
+import ResetPasswordPage from "@/pages/reset-password";
+import VerifyEmailPage from "@/pages/verify-email";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -28,6 +31,9 @@ function Router() {
       <Route path="/appointments" component={AppointmentsPage} />
       <Route path="/login" component={LoginPage} />
       <Route path="/register" component={RegisterPage} />
+      <Route path="/forgot-password" component={ForgotPasswordPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
+      <Route path="/verify-email" component={VerifyEmailPage} />
       <Route path="/admin/login" component={AdminLoginPage} />
       <Route path="/admin/settings" component={AdminSettingsPage} />
       <Route path="/admin/appointments" component={AdminAppointmentsPage} />
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, getErrorBody } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -17,13 +17,30 @@ import {
     DropdownMenuItem,
     DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Calendar, Clock, MapPin, Search, User, Phone, Mail, MoreVertical, Loader2, ChevronLeft, Eye, Settings, MessageCircle } from "lucide-react";
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Calendar, Clock, MapPin, Search, User, Phone, Mail, MoreVertical, Loader2, ChevronLeft, Eye, Settings, MessageCircle, History } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { format, parseISO } from "date-fns";
 import { zhCN } from "date-fns/locale";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
-import type { Appointment } from "@shared/schema";
+import WelfareProofReview from "@/components/WelfareProofReview";
+import AppointmentStatusTimeline from "@/components/AppointmentStatusTimeline";
+import ClientAttendance from "@/components/ClientAttendance";
+import AppointmentPayments from "@/components/AppointmentPayments";
+import ReceiptDownloadButton from "@/components/ReceiptDownloadButton";
+import type { Appointment, AppointmentStatusChange } from "@shared/schema";
+import { appointmentStatusLabels, appointmentStatusTransitions } from "@shared/appointmentStatus";
+import type { AdminSessionInfo } from "@shared/permissions";
 
 const STATUS_OPTIONS = [
     { value: "all", label: "全部状态" },
@@ -32,16 +49,9 @@ const STATUS_OPTIONS = [
     { value: "confirmed", label: "待咨询" },
     { value: "completed", label: "已结束" },
     { value: "cancelled", label: "已取消" },
+    { value: "no_show", label: "未到场" },
 ];
 
-const STATUS_LABELS: Record<string, string> = {
-    pending: "待确认",
-    pending_payment: "待付款",
-    confirmed: "待咨询",
-    completed: "已结束",
-    cancelled: "已取消",
-};
-
 const getStatusBadge = (status: string) => {
     switch (status) {
         case "pending":
@@ -54,6 +64,8 @@ const getStatusBadge = (status: string) => {
             return <Badge className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400 border-green-200 dark:border-green-800">已结束</Badge>;
         case "cancelled":
             return <Badge variant="outline" className="text-muted-foreground">已取消</Badge>;
+        case "no_show":
+            return <Badge variant="outline" className="text-destructive border-destructive/40">未到场</Badge>;
         default:
             return <Badge variant="secondary">{status}</Badge>;
     }
@@ -64,21 +76,36 @@ export default function AppointmentManager() {
     const [, setLocation] = useLocation();
     const [statusFilter, setStatusFilter] = useState("all");
     const [searchTerm, setSearchTerm] = useState("");
+    const [statusChange, setStatusChange] = useState<{ appointment: Appointment; status: Appointment["status"] } | null>(null);
+    const [statusReason, setStatusReason] = useState("");
+    const [historyId, setHistoryId] = useState<string | null>(null);
 
     const { data: appointments = [], isLoading } = useQuery<Appointment[]>({
         queryKey: ["/api/appointments"],
     });
 
+    const { data: authData } = useQuery<AdminSessionInfo>({
+        queryKey: ["/api/admin/me"],
+    });
+    const canManage = !!authData?.permissions.includes("appointments:manage");
+    const canMessage = !!authData?.permissions.includes("messages:manage");
+    const canReviewProof = !!authData?.permissions.includes("welfare:review");
+    const canReconcile = !!authData?.permissions.includes("payments:reconcile");
+
     const updateStatusMutation = useMutation({
-        mutationFn: async ({ id, status }: { id: string; status: string }) => {
-            return apiRequest("PATCH", `/api/appointments/${id}/status`, { status });
+        mutationFn: async ({ id, ...data }: AppointmentStatusChange & { id: string }) => {
+            return apiRequest("PATCH", `/api/appointments/${id}/status`, data);
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+            setStatusChange(null);
+            setStatusReason("");
+            queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
             toast({ title: "成功", description: "预约状态已更新" });
         },
-        onError: () => {
-            toast({ title: "错误", description: "更新状态失败", variant: "destructive" });
+        onError: (error: Error) => {
+            const body = getErrorBody<{ message?: string }>(error);
+            toast({ title: "错误", description: body?.message || "更新状态失败", variant: "destructive" });
         },
     });
 
@@ -118,8 +145,13 @@ export default function AppointmentManager() {
             return dateB.getTime() - dateA.getTime();
         });
 
-    const handleUpdateStatus = (id: string, status: string) => {
-        updateStatusMutation.mutate({ id, status });
+    const handleUpdateStatus = () => {
+        if (!statusChange) return;
+        updateStatusMutation.mutate({
+            id: statusChange.appointment.id,
+            status: statusChange.status,
+            reason: statusReason.trim() || undefined,
+        });
     };
 
     const handleViewDetail = (appointment: Appointment) => {
@@ -207,6 +239,22 @@ export default function AppointmentManager() {
                                                 {appointment.contactPhone}
                                             </div>
                                         </div>
+
+                                        <WelfareProofReview appointment={appointment} canReview={canReviewProof} />
+
+                                        {historyId === appointment.id && (
+                                            <div className="space-y-3 pt-2">
+                                                <ClientAttendance appointmentId={appointment.id} />
+                                                <AppointmentPayments
+                                                    appointmentId={appointment.id}
+                                                    canRecord={canReconcile && appointment.status !== "cancelled"}
+                                                />
+                                                {(appointment.status === "confirmed" || appointment.status === "completed" || appointment.status === "no_show") && (
+                                                    <ReceiptDownloadButton appointmentId={appointment.id} />
+                                                )}
+                                                <AppointmentStatusTimeline appointmentId={appointment.id} />
+                                            </div>
+                                        )}
                                     </div>
 
                                     <div className="flex items-center gap-2 justify-end pt-2 lg:pt-0 border-t lg:border-t-0 mt-2 lg:mt-0">
@@ -216,37 +264,50 @@ export default function AppointmentManager() {
                                             </Badge>
                                         </div>
 
-                                        <DropdownMenu>
-                                            <DropdownMenuTrigger asChild>
-                                                <Button variant="outline" size="sm" data-testid={`button-status-${appointment.id}`}>
-                                                    <MoreVertical className="h-4 w-4 mr-1 sm:hidden" />
-                                                    <span className="hidden sm:inline">更新状态</span>
-                                                </Button>
-                                            </DropdownMenuTrigger>
-                                            <DropdownMenuContent align="end">
-                                                {Object.entries(STATUS_LABELS).map(([value, label]) => (
-                                                    <DropdownMenuItem
-                                                        key={value}
-                                                        onClick={() => handleUpdateStatus(appointment.id, value)}
-                                                        disabled={appointment.status === value}
-                                                    >
-                                                        标记为 {label}
-                                                    </DropdownMenuItem>
-                                                ))}
-                                            </DropdownMenuContent>
-                                        </DropdownMenu>
-
                                         <Button
-                                            variant="outline"
+                                            variant="ghost"
                                             size="sm"
-                                            onClick={() => appointment.contactEmail && initiateChatMutation.mutate(appointment)}
-                                            disabled={!appointment.contactEmail}
-                                            title={!appointment.contactEmail ? "无联系邮箱" : "发起对话"}
+                                            onClick={() => setHistoryId(historyId === appointment.id ? null : appointment.id)}
+                                            data-testid={`button-history-${appointment.id}`}
                                         >
-                                            <MessageCircle className="h-4 w-4 mr-1" />
-                                            对话
+                                            <History className="h-4 w-4 mr-1" />
+                                            记录
                                         </Button>
 
+                                        {canManage && appointmentStatusTransitions[appointment.status].length > 0 && (
+                                            <DropdownMenu>
+                                                <DropdownMenuTrigger asChild>
+                                                    <Button variant="outline" size="sm" data-testid={`button-status-${appointment.id}`}>
+                                                        <MoreVertical className="h-4 w-4 mr-1 sm:hidden" />
+                                                        <span className="hidden sm:inline">更新状态</span>
+                                                    </Button>
+                                                </DropdownMenuTrigger>
+                                                <DropdownMenuContent align="end">
+                                                    {appointmentStatusTransitions[appointment.status].map((status) => (
+                                                        <DropdownMenuItem
+                                                            key={status}
+                                                            onClick={() => setStatusChange({ appointment, status })}
+                                                        >
+                                                            标记为 {appointmentStatusLabels[status]}
+                                                        </DropdownMenuItem>
+                                                    ))}
+                                                </DropdownMenuContent>
+                                            </DropdownMenu>
+                                        )}
+
+                                        {canMessage && (
+                                            <Button
+                                                variant="outline"
+                                                size="sm"
+                                                onClick={() => appointment.contactEmail && initiateChatMutation.mutate(appointment)}
+                                                disabled={!appointment.contactEmail}
+                                                title={!appointment.contactEmail ? "无联系邮箱" : "发起对话"}
+                                            >
+                                                <MessageCircle className="h-4 w-4 mr-1" />
+                                                对话
+                                            </Button>
+                                        )}
+
                                         <Button
                                             variant="outline"
                                             size="sm"
@@ -263,6 +324,44 @@ export default function AppointmentManager() {
                     )}
                 </CardContent>
             </Card>
+
+            <Dialog
+                open={!!statusChange}
+                onOpenChange={(open) => {
+                    if (!open) {
+                        setStatusChange(null);
+                        setStatusReason("");
+                    }
+                }}
+            >
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>标记为{statusChange && appointmentStatusLabels[statusChange.status]}</DialogTitle>
+                        <DialogDescription>
+                            {statusChange && `${statusChange.appointment.name}的预约将从“${appointmentStatusLabels[statusChange.appointment.status]}”改为“${appointmentStatusLabels[statusChange.status]}”，并记入状态记录`}
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2">
+                        <Label htmlFor="status-reason">原因（可选）</Label>
+                        <Textarea
+                            id="status-reason"
+                            value={statusReason}
+                            onChange={(e) => setStatusReason(e.target.value)}
+                            maxLength={500}
+                            data-testid="input-status-reason"
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button variant="ghost" onClick={() => setStatusChange(null)}>
+                            取消
+                        </Button>
+                        <Button onClick={handleUpdateStatus} disabled={updateStatusMutation.isPending} data-testid="button-confirm-status">
+                            {updateStatusMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                            确认
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
         </div>
     );
 }
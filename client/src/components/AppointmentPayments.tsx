@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient, getErrorBody } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Plus } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { formatAmount } from "@shared/payments";
+import type { OnsitePayment, Payment } from "@shared/schema";
+
+const STATUS_LABELS: Record<Payment["status"], string> = {
+  pending: "待支付",
+  succeeded: "已支付",
+  failed: "支付失败",
+  expired: "已失效",
+};
+
+// Transfer screenshots reconciled by staff
+const MANUAL_STATUS_LABELS: Record<Payment["status"], string> = {
+  pending: "待核对",
+  succeeded: "已核对",
+  failed: "未通过",
+  expired: "已失效",
+};
+
+const PROVIDER_LABELS: Record<string, string> = {
+  manual: "转账",
+  onsite: "线下收款",
+};
+
+interface AppointmentPaymentsProps {
+  appointmentId: string;
+  // Staff who reconcile payments can record money taken on site, so that it can be receipted
+  canRecord?: boolean;
+}
+
+// Payment attempts for an appointment, newest first
+export default function AppointmentPayments({ appointmentId, canRecord = false }: AppointmentPaymentsProps) {
+  const { toast } = useToast();
+  // In yuan as typed
+  const [amount, setAmount] = useState("");
+
+  const { data: payments = [], isLoading } = useQuery<Payment[]>({
+    queryKey: ["/api/appointments", appointmentId, "payments"],
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: async (data: OnsitePayment) => {
+      return apiRequest("POST", `/api/appointments/${appointmentId}/payments`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      setAmount("");
+      toast({ title: "成功", description: "已登记线下收款" });
+    },
+    onError: (error: Error) => {
+      const body = getErrorBody<{ message?: string }>(error);
+      toast({ title: "错误", description: body?.message || "登记失败", variant: "destructive" });
+    },
+  });
+
+  const handleRecord = () => {
+    const fen = Math.round(parseFloat(amount) * 100);
+    if (!Number.isFinite(fen) || fen <= 0) {
+      toast({ title: "错误", description: "请填写实收金额", variant: "destructive" });
+      return;
+    }
+    recordMutation.mutate({ amount: fen });
+  };
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+
+  const recordForm = canRecord && (
+    <div className="flex flex-wrap items-center gap-2">
+      <Label htmlFor={`onsite-amount-${appointmentId}`} className="sr-only">线下实收金额（元）</Label>
+      <Input
+        id={`onsite-amount-${appointmentId}`}
+        type="number"
+        min={0}
+        step="0.01"
+        placeholder="线下实收金额（元）"
+        className="w-44"
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        data-testid={`input-onsite-amount-${appointmentId}`}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleRecord}
+        disabled={recordMutation.isPending}
+        data-testid={`button-record-onsite-payment-${appointmentId}`}
+      >
+        {recordMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+        登记线下收款
+      </Button>
+    </div>
+  );
+  if (payments.length === 0) return recordForm || null;
+
+  return (
+    <div className="space-y-2">
+      <ul className="space-y-1 text-sm" data-testid={`payments-${appointmentId}`}>
+        {payments.map((payment) => (
+          <li key={payment.id} className="flex flex-wrap items-center gap-2">
+            <Badge
+              variant={payment.status === "succeeded" ? "default" : "outline"}
+              className={payment.status === "succeeded" ? "" : "text-muted-foreground"}
+            >
+              {(payment.provider === "manual" ? MANUAL_STATUS_LABELS : STATUS_LABELS)[payment.status]}
+            </Badge>
+            <span>{formatAmount(payment.amount)}</span>
+            <span className="text-muted-foreground">
+              {PROVIDER_LABELS[payment.provider] ?? payment.provider}
+              {payment.paidAt
+                ? ` · ${format(new Date(payment.paidAt), "yyyy-MM-dd HH:mm")} 到账`
+                : payment.createdAt && ` · ${format(new Date(payment.createdAt), "yyyy-MM-dd HH:mm")} 发起`}
+              {payment.reviewNote && ` · ${payment.reviewNote}`}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {recordForm}
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { appointmentStatusLabels } from "@shared/appointmentStatus";
+import type { AppointmentStatusTimelineEntry } from "@shared/schema";
+
+const ACTOR_LABELS: Record<AppointmentStatusTimelineEntry["actorType"], string> = {
+  staff: "工作人员",
+  client: "来访者",
+  system: "系统",
+};
+
+interface AppointmentStatusTimelineProps {
+  appointmentId: string;
+}
+
+export default function AppointmentStatusTimeline({ appointmentId }: AppointmentStatusTimelineProps) {
+  const { data: entries = [], isLoading } = useQuery<AppointmentStatusTimelineEntry[]>({
+    queryKey: ["/api/appointments", appointmentId, "status-history"],
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">暂无状态记录</p>;
+  }
+
+  return (
+    <ol className="relative border-l ml-1.5 space-y-3" data-testid={`status-timeline-${appointmentId}`}>
+      {entries.map((entry) => (
+        <li key={entry.id} className="ml-4 text-sm">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+          <div className="font-medium">
+            {entry.fromStatus
+              ? `${appointmentStatusLabels[entry.fromStatus]} → ${appointmentStatusLabels[entry.toStatus]}`
+              : `提交预约（${appointmentStatusLabels[entry.toStatus]}）`}
+          </div>
+          <div className="text-muted-foreground">
+            {entry.createdAt && format(new Date(entry.createdAt), "yyyy-MM-dd HH:mm")} ·{" "}
+            {ACTOR_LABELS[entry.actorType]}
+            {entry.actorName && ` ${entry.actorName}`}
+          </div>
+          {entry.reason && <div className="text-muted-foreground">原因：{entry.reason}</div>}
+        </li>
+      ))}
+    </ol>
+  );
+}
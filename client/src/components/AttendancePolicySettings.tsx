@@ -0,0 +1,142 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Loader2, UserX } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { AttendancePolicy } from "@shared/schema";
+
+type NumericField = "noShowThreshold" | "lateCancelThreshold" | "lateCancelHours" | "lookbackDays";
+
+const NUMERIC_FIELDS: { key: NumericField; label: string; hint: string; min: number; max: number }[] = [
+  { key: "noShowThreshold", label: "未到场次数上限", hint: "达到该次数后触发下方限制，0 表示不限制", min: 0, max: 20 },
+  { key: "lateCancelThreshold", label: "临时取消次数上限", hint: "达到该次数后触发下方限制，0 表示不限制", min: 0, max: 20 },
+  { key: "lateCancelHours", label: "临时取消（开始前小时数）", hint: "距咨询开始不足该时间取消即算临时取消", min: 1, max: 168 },
+  { key: "lookbackDays", label: "统计范围（天）", hint: "只统计最近这些天内的预约", min: 30, max: 730 },
+];
+
+const ACTION_OPTIONS: { value: AttendancePolicy["action"]; label: string; hint: string }[] = [
+  { value: "prepayment", label: "需先付款", hint: "新预约进入待付款状态，付款后再确认" },
+  { value: "approval", label: "需咨询师安排", hint: "来访者不能自行预约，需联系咨询师代为预约" },
+];
+
+export default function AttendancePolicySettings() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<AttendancePolicy | null>(null);
+
+  const { data: policy, isLoading } = useQuery<AttendancePolicy>({
+    queryKey: ["/api/attendance-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setDraft(policy);
+    }
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: AttendancePolicy) => {
+      return apiRequest("PUT", "/api/attendance-policy", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/attendance-policy"] });
+      toast({ title: "成功", description: "出勤规则已保存" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "错误", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !draft) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const handleSave = () => {
+    const invalid = NUMERIC_FIELDS.find(
+      ({ key, min, max }) => !Number.isInteger(draft[key]) || draft[key] < min || draft[key] > max
+    );
+    if (invalid) {
+      toast({
+        title: "错误",
+        description: `${invalid.label}应为${invalid.min}到${invalid.max}之间的整数`,
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(draft);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserX className="w-5 h-5" />
+          出勤规则
+        </CardTitle>
+        <CardDescription>
+          来访者多次未到场或临时取消后，对其新的预约加以限制；管理员代为预约时不受限制
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-6">
+          {NUMERIC_FIELDS.map(({ key, label, hint, min, max }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`attendance-${key}`}>{label}</Label>
+              <Input
+                id={`attendance-${key}`}
+                type="number"
+                min={min}
+                max={max}
+                value={Number.isNaN(draft[key]) ? "" : draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: parseInt(e.target.value, 10) })}
+                data-testid={`input-attendance-${key}`}
+              />
+              <p className="text-xs text-muted-foreground">{hint}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <Label>达到上限后</Label>
+          <RadioGroup
+            value={draft.action}
+            onValueChange={(value) => setDraft({ ...draft, action: value as AttendancePolicy["action"] })}
+            className="space-y-2"
+          >
+            {ACTION_OPTIONS.map((option) => (
+              <div key={option.value} className="flex items-start gap-2">
+                <RadioGroupItem
+                  value={option.value}
+                  id={`attendance-action-${option.value}`}
+                  className="mt-0.5"
+                  data-testid={`radio-attendance-action-${option.value}`}
+                />
+                <Label htmlFor={`attendance-action-${option.value}`} className="font-normal">
+                  {option.label}
+                  <span className="block text-xs text-muted-foreground">{option.hint}</span>
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        <Button
+          onClick={handleSave}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-attendance-policy"
+        >
+          {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          保存设置
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
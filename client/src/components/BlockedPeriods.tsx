@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, CalendarX, Loader2, Plus, Repeat, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+import { zhCN } from "date-fns/locale";
+import type { Appointment, BlockedDate, InsertBlockedDate } from "@shared/schema";
+
+type AffectedAppointment = Pick<
+  Appointment,
+  "id" | "name" | "appointmentDate" | "appointmentTime" | "consultationMode" | "status"
+>;
+
+const STATUS_LABELS: Partial<Record<Appointment["status"], string>> = {
+  pending: "待确认",
+  pending_payment: "待付款",
+  confirmed: "已确认",
+};
+
+interface CreatedBlockedDate extends BlockedDate {
+  affectedAppointments: AffectedAppointment[];
+}
+
+function describeDates(blocked: BlockedDate): string {
+  const pattern = blocked.recursAnnually ? "M月d日" : "yyyy年M月d日";
+  const start = format(parseISO(blocked.startDate), pattern, { locale: zhCN });
+  const end = blocked.endDate && blocked.endDate !== blocked.startDate
+    ? format(parseISO(blocked.endDate), pattern, { locale: zhCN })
+    : null;
+  const dates = end ? `${start} 至 ${end}` : start;
+  return blocked.recursAnnually ? `每年 ${dates}` : dates;
+}
+
+export default function BlockedPeriods() {
+  const { toast } = useToast();
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [partialDay, setPartialDay] = useState(false);
+  const [startTime, setStartTime] = useState("12:00");
+  const [endTime, setEndTime] = useState("18:00");
+  const [recursAnnually, setRecursAnnually] = useState(false);
+  const [reason, setReason] = useState("");
+  const [affected, setAffected] = useState<AffectedAppointment[]>([]);
+
+  const { data: blockedDates = [], isLoading } = useQuery<BlockedDate[]>({
+    queryKey: ["/api/blocked-dates"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertBlockedDate): Promise<CreatedBlockedDate> => {
+      const res = await apiRequest("POST", "/api/blocked-dates", data);
+      return res.json();
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/blocked-dates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/available"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/availability"] });
+      setStartDate("");
+      setEndDate("");
+      setReason("");
+      setAffected(created.affectedAppointments);
+      toast({
+        title: "成功",
+        description: created.affectedAppointments.length
+          ? `已添加不可预约时间，其中有${created.affectedAppointments.length}个已有预约`
+          : "已添加不可预约时间",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "错误", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/blocked-dates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/blocked-dates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/available"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/availability"] });
+      toast({ title: "成功", description: "已删除不可预约时间" });
+    },
+    onError: () => {
+      toast({ title: "错误", description: "删除失败", variant: "destructive" });
+    },
+  });
+
+  const handleAdd = () => {
+    if (!startDate) {
+      toast({ title: "错误", description: "请选择开始日期", variant: "destructive" });
+      return;
+    }
+    if (endDate && endDate < startDate && !recursAnnually) {
+      toast({ title: "错误", description: "结束日期不能早于开始日期", variant: "destructive" });
+      return;
+    }
+    if (partialDay && startTime >= endTime) {
+      toast({ title: "错误", description: "结束时间需晚于开始时间", variant: "destructive" });
+      return;
+    }
+    createMutation.mutate({
+      startDate,
+      endDate: endDate || null,
+      startTime: partialDay ? startTime : null,
+      endTime: partialDay ? endTime : null,
+      recursAnnually,
+      reason: reason || undefined,
+    });
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarX className="w-5 h-5" />
+            添加不可预约时间
+          </CardTitle>
+          <CardDescription>
+            可关闭一天、连续多天或每天的部分时段；已有预约不会自动取消
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-4 items-end">
+            <div className="space-y-2">
+              <Label>开始日期</Label>
+              <Input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                min={recursAnnually ? undefined : format(new Date(), "yyyy-MM-dd")}
+                className="w-40"
+                data-testid="input-blocked-start-date"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>结束日期（可选）</Label>
+              <Input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                min={recursAnnually ? undefined : startDate || format(new Date(), "yyyy-MM-dd")}
+                className="w-40"
+                data-testid="input-blocked-end-date"
+              />
+            </div>
+            <div className="space-y-2 flex-1 min-w-[200px]">
+              <Label>原因（可选）</Label>
+              <Input
+                placeholder="如：节假日、出差等"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                data-testid="input-blocked-reason"
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-6 items-center">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="blocked-partial-day"
+                checked={partialDay}
+                onCheckedChange={setPartialDay}
+                data-testid="switch-blocked-partial-day"
+              />
+              <Label htmlFor="blocked-partial-day">仅关闭部分时段</Label>
+            </div>
+            {partialDay && (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="time"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                  className="w-32"
+                  data-testid="input-blocked-start-time"
+                />
+                <span className="text-muted-foreground">至</span>
+                <Input
+                  type="time"
+                  value={endTime}
+                  onChange={(e) => setEndTime(e.target.value)}
+                  className="w-32"
+                  data-testid="input-blocked-end-time"
+                />
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Switch
+                id="blocked-recurs-annually"
+                checked={recursAnnually}
+                onCheckedChange={setRecursAnnually}
+                data-testid="switch-blocked-recurs-annually"
+              />
+              <Label htmlFor="blocked-recurs-annually">每年重复</Label>
+            </div>
+          </div>
+
+          <Button
+            onClick={handleAdd}
+            disabled={createMutation.isPending}
+            data-testid="button-add-blocked"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            添加
+          </Button>
+        </CardContent>
+      </Card>
+
+      {affected.length > 0 && (
+        <Card className="border-amber-300 bg-amber-50 dark:bg-amber-950/30" data-testid="card-blocked-affected">
+          <CardHeader>
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <CardTitle className="flex items-center gap-2 text-amber-800 dark:text-amber-300">
+                  <AlertTriangle className="w-5 h-5" />
+                  以下预约在新关闭的时间内
+                </CardTitle>
+                <CardDescription>
+                  这些预约仍然有效，请联系来访者改期或取消
+                </CardDescription>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setAffected([])}
+                data-testid="button-dismiss-affected"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {affected.map((appointment) => (
+                <div
+                  key={appointment.id}
+                  className="flex items-center gap-3 text-sm"
+                  data-testid={`affected-appointment-${appointment.id}`}
+                >
+                  <span className="font-medium">{appointment.name}</span>
+                  <span>
+                    {format(parseISO(appointment.appointmentDate), "yyyy年M月d日 EEEE", { locale: zhCN })}{" "}
+                    {appointment.appointmentTime.substring(0, 5)}
+                  </span>
+                  <Badge variant="outline">{appointment.consultationMode === "online" ? "线上" : "线下"}</Badge>
+                  <Badge variant="secondary">{STATUS_LABELS[appointment.status] ?? appointment.status}</Badge>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>不可预约时间列表</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center p-8">
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            </div>
+          ) : blockedDates.length ? (
+            <div className="space-y-2">
+              {blockedDates.map((blocked) => (
+                <div
+                  key={blocked.id}
+                  className="flex items-center justify-between p-3 rounded-md border bg-card"
+                  data-testid={`blocked-${blocked.id}`}
+                >
+                  <div className="flex items-center gap-3 flex-wrap">
+                    {blocked.recursAnnually ? (
+                      <Repeat className="w-4 h-4 text-destructive" />
+                    ) : (
+                      <CalendarX className="w-4 h-4 text-destructive" />
+                    )}
+                    <span className="font-medium">{describeDates(blocked)}</span>
+                    <span className="text-sm text-muted-foreground">
+                      {blocked.startTime && blocked.endTime
+                        ? `${blocked.startTime}-${blocked.endTime}`
+                        : "全天"}
+                    </span>
+                    {blocked.reason && (
+                      <Badge variant="secondary">
+                        {blocked.reason}
+                      </Badge>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(blocked.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-blocked-${blocked.id}`}
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center text-muted-foreground py-8">
+              暂无不可预约时间
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
@@ -5,8 +5,10 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Clock, MapPin, Video, Loader2 } from "lucide-react";
-import { format, addDays } from "date-fns";
+import { format } from "date-fns";
 import { zhCN } from "date-fns/locale";
+import { getLatestBookableDate } from "@shared/bookingPolicy";
+import type { BookingPolicy, SessionDurations } from "@shared/schema";
 
 interface AvailableSlot {
   time: string;
@@ -20,6 +22,13 @@ interface ScheduleResponse {
   isBlocked: boolean;
 }
 
+interface DayAvailability {
+  date: string;
+  isBlocked: boolean;
+  online: number;
+  offline: number;
+}
+
 interface TimeSlot {
   time: string;
   available: boolean;
@@ -34,14 +43,32 @@ interface BookingCalendarProps {
 export default function BookingCalendar({ consultationType, consultationMode, onSelectSlot }: BookingCalendarProps) {
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
   const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [displayedMonth, setDisplayedMonth] = useState<Date>(() => new Date());
 
   const dateString = selectedDate ? format(selectedDate, "yyyy-MM-dd") : null;
 
+  const { data: policy } = useQuery<BookingPolicy>({
+    queryKey: ["/api/booking-policy"],
+  });
+
+  const { data: sessionDurations } = useQuery<SessionDurations>({
+    queryKey: ["/api/session-durations"],
+  });
+
   const { data: scheduleData, isLoading } = useQuery<ScheduleResponse>({
-    queryKey: ["/api/schedule/available", dateString],
+    queryKey: ["/api/schedule/available", `${dateString}?type=${consultationType}`],
     enabled: !!dateString,
   });
 
+  // Open slot counts for every day of the displayed month, so full or closed days can be disabled
+  const { data: monthAvailability } = useQuery<{ days: DayAvailability[] }>({
+    queryKey: ["/api/schedule/availability", `${format(displayedMonth, "yyyy-MM")}?type=${consultationType}`],
+  });
+
+  const openSlotsByDate = new Map(
+    (monthAvailability?.days ?? []).map((day) => [day.date, day[consultationMode]])
+  );
+
   const getAvailableSlots = (): TimeSlot[] => {
     if (!selectedDate || !scheduleData) return [];
     if (scheduleData.isBlocked) return [];
@@ -76,12 +103,13 @@ export default function BookingCalendar({ consultationType, consultationMode, on
 
   const today = new Date();
   today.setHours(0, 0, 0, 0);
-  const maxDate = addDays(today, 14);
+  const maxDate = policy ? getLatestBookableDate(policy) : null;
 
   const disabledDays = (date: Date) => {
     const d = new Date(date);
     d.setHours(0, 0, 0, 0);
-    return d < today || d > maxDate;
+    if (d < today || (maxDate !== null && d > maxDate)) return true;
+    return openSlotsByDate.get(format(d, "yyyy-MM-dd")) === 0;
   };
 
   const timeSlots = getAllSlots();
@@ -99,7 +127,9 @@ export default function BookingCalendar({ consultationType, consultationMode, on
         <CardHeader>
           <CardTitle className="text-lg">选择日期</CardTitle>
           <CardDescription>
-            可预约未来30天内的时间
+            {policy
+              ? `可预约未来${policy.bookingHorizonDays}天内的时间${policy.minNoticeHours > 0 ? `，需至少提前${policy.minNoticeHours}小时` : ""}`
+              : "请选择咨询日期"}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -111,6 +141,8 @@ export default function BookingCalendar({ consultationType, consultationMode, on
               setSelectedTime(null);
             }}
             disabled={disabledDays}
+            month={displayedMonth}
+            onMonthChange={setDisplayedMonth}
             locale={zhCN}
             className="rounded-md border"
             data-testid="calendar-booking"
@@ -185,7 +217,8 @@ export default function BookingCalendar({ consultationType, consultationMode, on
                   <span>
                     {consultationType === "regular" ? "一般咨询" : "公益低价咨询"} ·
                     {consultationMode === "online" ? "线上" : "线下"} ·
-                    {consultationType === "regular" ? "¥300" : "¥150"}/50分钟
+                    {consultationType === "regular" ? "¥300" : "¥150"}
+                    {sessionDurations && `/${sessionDurations[consultationType]}分钟`}
                   </span>
                 </div>
               </div>
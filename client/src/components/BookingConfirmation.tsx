@@ -1,6 +1,6 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { CheckCircle, Calendar, Clock, MapPin, ArrowLeft, History } from "lucide-react";
+import { CheckCircle, Calendar, Clock, MapPin, ArrowLeft, History, AlertCircle } from "lucide-react";
 import { Link } from "wouter";
 import { format } from "date-fns";
 import { zhCN } from "date-fns/locale";
@@ -12,6 +12,8 @@ interface BookingConfirmationProps {
     consultationType: "regular" | "welfare";
     name: string;
     consultationMode: "online" | "offline";
+    // Set when the booking must be paid before it is confirmed
+    paymentDueAt?: string | null;
   };
 }
 
@@ -47,6 +49,15 @@ export default function BookingConfirmation({ bookingDetails }: BookingConfirmat
             </div>
           </div>
 
+          {bookingDetails.paymentDueAt && (
+            <div className="flex items-start gap-2 text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 rounded-md p-3" data-testid="text-payment-due">
+              <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+              <span className="text-sm">
+                该预约需先付款：请在 {format(new Date(bookingDetails.paymentDueAt), "M月d日 HH:mm", { locale: zhCN })} 前通过“查看预约”或确认邮件中的链接完成在线支付，逾期预约将自动取消
+              </span>
+            </div>
+          )}
+
           <div className="rounded-lg border p-4 space-y-2">
             <h3 className="font-medium">温馨提示</h3>
             <ul className="text-sm text-muted-foreground space-y-1">
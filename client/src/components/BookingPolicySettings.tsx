@@ -0,0 +1,128 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { CalendarCheck, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { describeChangeCutoff } from "@shared/bookingPolicy";
+import type { BookingPolicy } from "@shared/schema";
+
+type NumericField = "bookingHorizonDays" | "minNoticeHours" | "changeCutoffDaysBefore" | "maxActiveBookings";
+
+const NUMERIC_FIELDS: { key: NumericField; label: string; hint: string; min: number; max: number }[] = [
+  { key: "bookingHorizonDays", label: "可预约范围（天）", hint: "来访者最多可预约多少天以内的时间", min: 1, max: 365 },
+  { key: "minNoticeHours", label: "最短提前时间（小时）", hint: "0 表示只要时间未过即可预约", min: 0, max: 336 },
+  { key: "changeCutoffDaysBefore", label: "更改/取消截止（提前天数）", hint: "0 表示咨询当天", min: 0, max: 30 },
+  { key: "maxActiveBookings", label: "每人最多未完成预约数", hint: "0 表示不限制", min: 0, max: 20 },
+];
+
+export default function BookingPolicySettings() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<BookingPolicy | null>(null);
+
+  const { data: policy, isLoading } = useQuery<BookingPolicy>({
+    queryKey: ["/api/booking-policy"],
+  });
+
+  useEffect(() => {
+    if (policy) {
+      setDraft(policy);
+    }
+  }, [policy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: BookingPolicy) => {
+      return apiRequest("PUT", "/api/booking-policy", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/booking-policy"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/available"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/availability"] });
+      toast({ title: "成功", description: "预约规则已保存" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "错误", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !draft) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const handleSave = () => {
+    const invalid = NUMERIC_FIELDS.find(
+      ({ key, min, max }) => !Number.isInteger(draft[key]) || draft[key] < min || draft[key] > max
+    );
+    if (invalid) {
+      toast({
+        title: "错误",
+        description: `${invalid.label}应为${invalid.min}到${invalid.max}之间的整数`,
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(draft);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarCheck className="w-5 h-5" />
+          预约规则
+        </CardTitle>
+        <CardDescription>
+          适用于来访者的预约、改期和取消；管理员代为操作时不受限制
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-6">
+          {NUMERIC_FIELDS.map(({ key, label, hint, min, max }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`policy-${key}`}>{label}</Label>
+              <Input
+                id={`policy-${key}`}
+                type="number"
+                min={min}
+                max={max}
+                value={Number.isNaN(draft[key]) ? "" : draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: parseInt(e.target.value, 10) })}
+                data-testid={`input-policy-${key}`}
+              />
+              <p className="text-xs text-muted-foreground">{hint}</p>
+            </div>
+          ))}
+          <div className="space-y-2">
+            <Label htmlFor="policy-changeCutoffTime">更改/取消截止时刻</Label>
+            <Input
+              id="policy-changeCutoffTime"
+              type="time"
+              value={draft.changeCutoffTime}
+              onChange={(e) => setDraft({ ...draft, changeCutoffTime: e.target.value })}
+              data-testid="input-policy-changeCutoffTime"
+            />
+            <p className="text-xs text-muted-foreground">
+              当前规则：{describeChangeCutoff(draft)}可在线更改或取消
+            </p>
+          </div>
+        </div>
+
+        <Button
+          onClick={handleSave}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-booking-policy"
+        >
+          {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          保存设置
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
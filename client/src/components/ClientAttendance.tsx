@@ -0,0 +1,39 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Loader2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import type { AttendanceRecord } from "@shared/schema";
+
+const REQUIREMENT_LABELS: Record<NonNullable<AttendanceRecord["requirement"]>, string> = {
+  prepayment: "新预约需先付款",
+  approval: "新预约需咨询师安排",
+};
+
+interface ClientAttendanceProps {
+  appointmentId: string;
+}
+
+// Attendance of the client behind an appointment, over the attendance policy's lookback window
+export default function ClientAttendance({ appointmentId }: ClientAttendanceProps) {
+  const { data: record, isLoading } = useQuery<AttendanceRecord>({
+    queryKey: ["/api/appointments", appointmentId, "attendance"],
+  });
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+  if (!record) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm" data-testid={`attendance-${appointmentId}`}>
+      <span className="text-muted-foreground">
+        {format(parseISO(record.since), "yyyy年M月d日")}以来：完成 {record.completed} 次 · 未到场 {record.noShows} 次 · 临时取消 {record.lateCancellations} 次
+      </span>
+      {record.requirement && (
+        <Badge variant="outline" className="text-destructive border-destructive/40">
+          {REQUIREMENT_LABELS[record.requirement]}
+        </Badge>
+      )}
+    </div>
+  );
+}
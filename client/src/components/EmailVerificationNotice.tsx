@@ -0,0 +1,46 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { MailWarning, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+export default function EmailVerificationNotice({ email }: { email: string | null }) {
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", "/api/auth/resend-verification");
+    },
+    onSuccess: () => {
+      toast({ title: "已发送", description: "验证邮件已重新发送，请查收" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "发送失败", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card className="border-amber-500/40 bg-amber-500/5" data-testid="card-email-unverified">
+      <CardContent className="py-4 flex items-start gap-3 flex-wrap">
+        <MailWarning className="w-5 h-5 text-amber-600 mt-0.5 shrink-0" />
+        <div className="flex-1 min-w-[200px] space-y-1">
+          <p className="font-medium">邮箱尚未验证</p>
+          <p className="text-sm text-muted-foreground">
+            请点击发送至 {email} 的验证链接。验证后，您之前使用该邮箱提交的预约和留言将显示在此处。
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => resendMutation.mutate()}
+          disabled={resendMutation.isPending}
+          data-testid="button-resend-verification"
+        >
+          {resendMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          重新发送
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,192 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { CreditCard, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { PaymentSettings, PublicPaymentSettings } from "@shared/schema";
+
+type FeeKey = { type: keyof PaymentSettings["fees"]; mode: "online" | "offline"; label: string };
+
+const FEE_FIELDS: FeeKey[] = [
+  { type: "regular", mode: "online", label: "一般咨询 · 线上" },
+  { type: "regular", mode: "offline", label: "一般咨询 · 线下" },
+  { type: "welfare", mode: "online", label: "公益咨询 · 线上" },
+  { type: "welfare", mode: "offline", label: "公益咨询 · 线下" },
+];
+
+const MAX_FEE_YUAN = 100000;
+
+// Fees are edited in yuan and stored in fen
+export default function FeeSettings() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<PaymentSettings | null>(null);
+
+  const { data: settings, isLoading } = useQuery<PublicPaymentSettings>({
+    queryKey: ["/api/payment-settings"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setDraft({
+        fees: settings.fees,
+        requirePrepayment: settings.requirePrepayment,
+        paymentWindowHours: settings.paymentWindowHours,
+        manualPaymentInstructions: settings.manualPaymentInstructions,
+        counselorName: settings.counselorName,
+      });
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: PaymentSettings) => {
+      return apiRequest("PUT", "/api/payment-settings", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payment-settings"] });
+      toast({ title: "成功", description: "收费设置已保存" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "错误", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !draft) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const setFee = ({ type, mode }: FeeKey, yuan: string) => {
+    const amount = Math.round(parseFloat(yuan) * 100);
+    setDraft({ ...draft, fees: { ...draft.fees, [type]: { ...draft.fees[type], [mode]: amount } } });
+  };
+
+  const handleSave = () => {
+    const invalidFee = FEE_FIELDS.find(({ type, mode }) => {
+      const amount = draft.fees[type][mode];
+      return Number.isNaN(amount) || amount < 0 || amount > MAX_FEE_YUAN * 100;
+    });
+    if (invalidFee) {
+      toast({
+        title: "错误",
+        description: `${invalidFee.label}的费用应为0到${MAX_FEE_YUAN}元之间`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!Number.isInteger(draft.paymentWindowHours) || draft.paymentWindowHours < 1 || draft.paymentWindowHours > 168) {
+      toast({ title: "错误", description: "付款期限应为1到168之间的整数", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate(draft);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CreditCard className="w-5 h-5" />
+          收费与付款
+        </CardTitle>
+        <CardDescription>
+          每次咨询的费用；开启预付后，来访者的新预约需在付款期限内完成付款，逾期自动取消并释放时段
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-6">
+          {FEE_FIELDS.map((field) => {
+            const amount = draft.fees[field.type][field.mode];
+            return (
+              <div key={`${field.type}-${field.mode}`} className="space-y-2">
+                <Label htmlFor={`fee-${field.type}-${field.mode}`}>{field.label}（元）</Label>
+                <Input
+                  id={`fee-${field.type}-${field.mode}`}
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={Number.isNaN(amount) ? "" : amount / 100}
+                  onChange={(e) => setFee(field, e.target.value)}
+                  data-testid={`input-fee-${field.type}-${field.mode}`}
+                />
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-xs text-muted-foreground">费用为 0 的咨询无需付款</p>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="require-prepayment">预约需先付款</Label>
+            <p className="text-xs text-muted-foreground">
+              关闭时只有触发出勤规则的来访者需要先付款；管理员代为预约时不受影响
+            </p>
+          </div>
+          <Switch
+            id="require-prepayment"
+            checked={draft.requirePrepayment}
+            onCheckedChange={(checked) => setDraft({ ...draft, requirePrepayment: checked })}
+            data-testid="switch-require-prepayment"
+          />
+        </div>
+
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="payment-window-hours">付款期限（小时）</Label>
+          <Input
+            id="payment-window-hours"
+            type="number"
+            min={1}
+            max={168}
+            value={Number.isNaN(draft.paymentWindowHours) ? "" : draft.paymentWindowHours}
+            onChange={(e) => setDraft({ ...draft, paymentWindowHours: parseInt(e.target.value, 10) })}
+            data-testid="input-payment-window-hours"
+          />
+          <p className="text-xs text-muted-foreground">从预约提交起计算，最晚不超过咨询开始时间</p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="manual-payment-instructions">转账付款说明</Label>
+          <Textarea
+            id="manual-payment-instructions"
+            value={draft.manualPaymentInstructions}
+            onChange={(e) => setDraft({ ...draft, manualPaymentInstructions: e.target.value })}
+            maxLength={1000}
+            placeholder="例如：请转账至 XX 银行 XXXX XXXX XXXX，户名 XXX；或扫描微信/支付宝收款码后上传付款截图"
+            data-testid="input-manual-payment-instructions"
+          />
+          <p className="text-xs text-muted-foreground">
+            填写后，待付款的来访者可按说明转账并上传付款截图，由工作人员核对；留空则不开放转账付款
+          </p>
+        </div>
+
+        <div className="space-y-2 max-w-xs">
+          <Label htmlFor="receipt-counselor-name">收据上的咨询师姓名</Label>
+          <Input
+            id="receipt-counselor-name"
+            value={draft.counselorName}
+            onChange={(e) => setDraft({ ...draft, counselorName: e.target.value })}
+            maxLength={50}
+            data-testid="input-receipt-counselor-name"
+          />
+          <p className="text-xs text-muted-foreground">来访者可为已付款的咨询下载收据；留空则无法开具收据。已开具的收据不受修改影响</p>
+        </div>
+
+        {settings && !settings.onlinePaymentAvailable && (
+          <p className="text-sm text-destructive">未配置在线支付服务，来访者暂时无法在线付款</p>
+        )}
+
+        <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-fee-settings">
+          {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          保存设置
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarDays, Eye, Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+import { zhCN } from "date-fns/locale";
+import type { HolidayImportPlan, HolidayImportRequest } from "@shared/schema";
+
+const DAY_NAMES = ["周日", "周一", "周二", "周三", "周四", "周五", "周六"];
+
+interface HolidayImportResult {
+  blockedPeriods: number;
+  workdays: number;
+  affectedAppointments: number;
+}
+
+function formatDay(date: string): string {
+  return format(parseISO(date), "yyyy年M月d日 EEEE", { locale: zhCN });
+}
+
+export default function HolidayCalendarImport() {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState("");
+  const [content, setContent] = useState("");
+  const [workdayTemplateDay, setWorkdayTemplateDay] = useState(1);
+  const [plan, setPlan] = useState<HolidayImportPlan | null>(null);
+
+  const previewMutation = useMutation({
+    mutationFn: async (data: HolidayImportRequest): Promise<HolidayImportPlan> => {
+      const res = await apiRequest("POST", "/api/holiday-calendar/preview", data);
+      return res.json();
+    },
+    onSuccess: setPlan,
+    onError: (error: Error) => {
+      toast({ title: "错误", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (data: HolidayImportRequest): Promise<HolidayImportResult> => {
+      const res = await apiRequest("POST", "/api/holiday-calendar/import", data);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/blocked-dates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-overrides"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/available"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/availability"] });
+      setPlan(null);
+      setContent("");
+      setFileName("");
+      const summary = `新增${result.blockedPeriods}个假期、${result.workdays}个补班日`;
+      toast({
+        title: "导入完成",
+        description: result.affectedAppointments
+          ? `${summary}；有${result.affectedAppointments}个已有预约落在假期内，请在预约管理中处理`
+          : summary,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "错误", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    setContent(await file.text());
+    setPlan(null);
+  };
+
+  const newHolidays = plan?.holidays.filter((h) => !h.applied).length ?? 0;
+  const newWorkdays = plan?.workdays.filter((w) => !w.applied).length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5" />
+          导入法定节假日
+        </CardTitle>
+        <CardDescription>
+          上传节假日日历（ICS、JSON 或 CSV），假日设为不可预约，调休补班日按所选星期的时段开放。重复导入同一文件不会产生重复记录
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="holiday-calendar-file">日历文件</Label>
+            <Input
+              id="holiday-calendar-file"
+              type="file"
+              accept=".ics,.json,.csv,.txt,text/calendar,application/json,text/csv"
+              onChange={handleFileChange}
+              className="w-64"
+              data-testid="input-holiday-file"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>补班日时段参照</Label>
+            <Select
+              value={String(workdayTemplateDay)}
+              onValueChange={(value) => {
+                setWorkdayTemplateDay(parseInt(value, 10));
+                setPlan(null);
+              }}
+            >
+              <SelectTrigger className="w-28" data-testid="select-workday-template">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DAY_NAMES.map((name, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => previewMutation.mutate({ content, workdayTemplateDay })}
+            disabled={!content || previewMutation.isPending}
+            data-testid="button-preview-holidays"
+          >
+            {previewMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Eye className="w-4 h-4 mr-2" />
+            )}
+            预览
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          CSV 每行一天：日期,名称,类型（类型留空或“休”为假日，“班”为补班日）
+          {fileName && `；已选择 ${fileName}`}
+        </p>
+
+        {plan && (
+          <div className="space-y-4 border-t pt-4" data-testid="holiday-import-preview">
+            <div className="text-sm">
+              将新增 <span className="font-medium">{newHolidays}</span> 个假日（合并为 {plan.blockedPeriods.length} 个不可预约时间）和{" "}
+              <span className="font-medium">{newWorkdays}</span> 个补班日
+              {plan.skippedPastDates > 0 && `，忽略 ${plan.skippedPastDates} 个已过去的日期`}
+            </div>
+
+            {plan.holidays.length > 0 && (
+              <div className="space-y-2">
+                <Label>假日</Label>
+                {plan.holidays.map((holiday) => (
+                  <div key={holiday.date} className="flex items-center gap-3 text-sm" data-testid={`preview-holiday-${holiday.date}`}>
+                    <span className={holiday.applied ? "text-muted-foreground" : ""}>{formatDay(holiday.date)}</span>
+                    {holiday.name && <span className="text-muted-foreground">{holiday.name}</span>}
+                    {holiday.applied ? (
+                      <Badge variant="outline">已存在</Badge>
+                    ) : (
+                      <Badge variant="destructive">不可预约</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {plan.workdays.length > 0 && (
+              <div className="space-y-2">
+                <Label>补班日</Label>
+                {plan.workdays.map((workday) => (
+                  <div key={workday.date} className="flex items-center gap-3 text-sm flex-wrap" data-testid={`preview-workday-${workday.date}`}>
+                    <span className={workday.applied ? "text-muted-foreground" : ""}>{formatDay(workday.date)}</span>
+                    {workday.name && <span className="text-muted-foreground">{workday.name}</span>}
+                    {workday.applied ? (
+                      <Badge variant="outline">已有时段</Badge>
+                    ) : (
+                      <Badge className="bg-primary/10 text-primary border-primary/20">
+                        开放 {workday.timeSlots.join("、")}
+                      </Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <Button
+              onClick={() => importMutation.mutate({ content, workdayTemplateDay })}
+              disabled={(newHolidays === 0 && newWorkdays === 0) || importMutation.isPending}
+              data-testid="button-import-holidays"
+            >
+              {importMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4 mr-2" />
+              )}
+              {newHolidays === 0 && newWorkdays === 0 ? "无需导入" : "确认导入"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
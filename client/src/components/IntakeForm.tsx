@@ -83,6 +83,8 @@ interface IntakeFormProps {
   onSubmit: (data: IntakeFormValues & { consultationMode: string }) => void;
   onBack: () => void;
   isSubmitting?: boolean;
+  // Prefills the contact fields, e.g. from the waitlist entry when booking through a claim link
+  initialContact?: { name: string; contactEmail: string; contactPhone?: string | null };
 }
 
 export default function IntakeForm({ 
@@ -90,7 +92,8 @@ export default function IntakeForm({
   consultationMode,
   onSubmit, 
   onBack, 
-  isSubmitting = false 
+  isSubmitting = false,
+  initialContact,
 }: IntakeFormProps) {
   const isWelfare = consultationType === "welfare";
   const intakeFormSchema = createIntakeFormSchema(isWelfare);
@@ -100,15 +103,15 @@ export default function IntakeForm({
   const form = useForm<IntakeFormValues>({
     resolver: zodResolver(intakeFormSchema),
     defaultValues: {
-      name: "",
+      name: initialContact?.name ?? "",
       birthDate: "",
       occupation: "",
       hobbies: "",
       currentMedication: "",
       concernTopics: [],
       detailedDescription: "",
-      contactEmail: "",
-      contactPhone: "",
+      contactEmail: initialContact?.contactEmail ?? "",
+      contactPhone: initialContact?.contactPhone ?? "",
       dataCollectionConsent: false,
       confidentialityConsent: false,
       welfareProofFile: "",
@@ -137,10 +140,10 @@ export default function IntakeForm({
     setIsUploading(true);
 
     try {
-      const response = await fetch('/api/upload', {
+      const response = await fetch('/api/welfare-proof/upload-url', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ filename: file.name, contentType: file.type }),
+        body: JSON.stringify({ contentType: file.type }),
       });
 
       if (!response.ok) throw new Error('Failed to get upload URL');
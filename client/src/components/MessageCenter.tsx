@@ -35,6 +35,12 @@ interface AuthResponse {
 
 type VisitorView = "loading" | "email_prompt" | "new_conversation" | "chat";
 
+// Magic links from the access email open the messages page with ?email=...&access=<token>
+function getGuestAccessFromUrl() {
+  const params = new URLSearchParams(window.location.search);
+  return { email: params.get("email") || "", token: params.get("access") || "" };
+}
+
 export default function MessageCenter({ isAdmin = false }: MessageCenterProps) {
   const { toast } = useToast();
   // Common State
@@ -49,6 +55,9 @@ export default function MessageCenter({ isAdmin = false }: MessageCenterProps) {
   const [visitorEmail, setVisitorEmail] = useState("");
   const [visitorName, setVisitorName] = useState("");
   const [visitorSubject, setVisitorSubject] = useState("");
+  const [guestAccess] = useState(getGuestAccessFromUrl);
+  const [accessLinkEmail, setAccessLinkEmail] = useState("");
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
 
   // Admin Specific State
   const [adminSearchTerm, setAdminSearchTerm] = useState("");
@@ -75,8 +84,20 @@ export default function MessageCenter({ isAdmin = false }: MessageCenterProps) {
     enabled: !isAdmin && !!authData?.isLoggedIn,
   });
 
+  // Guests without a session authorize every request with the token from their access link
+  const guestToken = !isAdmin && !authData?.isLoggedIn && guestAccess.token ? guestAccess.token : null;
+
+  const { data: guestConversation, isLoading: loadingGuestConversation, isError: guestAccessFailed } = useQuery<ConversationWithMessages>({
+    queryKey: [`/api/conversations/by-email/${encodeURIComponent(guestAccess.email)}?token=${encodeURIComponent(guestAccess.token)}`],
+    enabled: !!guestToken && !!guestAccess.email,
+  });
+
+  const conversationDetailKey = guestToken
+    ? ["/api/conversations", `${selectedConversationId}?token=${encodeURIComponent(guestToken)}`]
+    : ["/api/conversations", selectedConversationId];
+
   const { data: conversationDetail, isLoading: loadingDetail } = useQuery<ConversationWithMessages>({
-    queryKey: ["/api/conversations", selectedConversationId],
+    queryKey: conversationDetailKey,
     enabled: !!selectedConversationId,
   });
 
@@ -92,8 +113,13 @@ export default function MessageCenter({ isAdmin = false }: MessageCenterProps) {
   useEffect(() => {
     // Visitor Layout Logic
     if (!isAdmin) {
-      if (authLoading || (authData?.isLoggedIn && loadingMyConversations)) {
+      if (authLoading || (authData?.isLoggedIn && loadingMyConversations) || (guestToken && loadingGuestConversation)) {
         setVisitorView("loading");
+      } else if (guestToken && guestConversation) {
+        setVisitorEmail(guestConversation.visitorEmail || guestAccess.email);
+        setVisitorName(guestConversation.visitorName);
+        setSelectedConversationId(guestConversation.id);
+        setVisitorView("chat");
       } else if (authData?.isLoggedIn && authData.user?.email) {
         setVisitorEmail(authData.user.email);
         setVisitorName(authData.user.name || "");
@@ -107,7 +133,7 @@ export default function MessageCenter({ isAdmin = false }: MessageCenterProps) {
         setVisitorView("email_prompt");
       }
     }
-  }, [isAdmin, authLoading, loadingMyConversations, authData, myConversations]);
+  }, [isAdmin, authLoading, loadingMyConversations, authData, myConversations, guestToken, loadingGuestConversation, guestConversation, guestAccess.email]);
 
   // Mutations
   const sendMessageMutation = useMutation({
@@ -116,7 +142,7 @@ export default function MessageCenter({ isAdmin = false }: MessageCenterProps) {
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/conversations", selectedConversationId] });
+      queryClient.invalidateQueries({ queryKey: conversationDetailKey });
       queryClient.invalidateQueries({ queryKey: ["/api/conversations"] }); // Refresh list for last message update
       setNewMessage("");
       handleRemoveFile();
@@ -147,6 +173,14 @@ export default function MessageCenter({ isAdmin = false }: MessageCenterProps) {
     },
   });
 
+  const accessLinkMutation = useMutation({
+    mutationFn: async (email: string) => {
+      return apiRequest("POST", "/api/auth/access-link", { email, scope: "conversations" });
+    },
+    onSuccess: (_, email) => setLinkSentTo(email),
+    onError: (error: Error) => toast({ title: "发送失败", description: error.message, variant: "destructive" }),
+  });
+
   const adminInitiateMutation = useMutation({
     mutationFn: async (data: any) => {
       const response = await apiRequest("POST", "/api/admin/conversations/initiate", data);
@@ -215,8 +249,8 @@ export default function MessageCenter({ isAdmin = false }: MessageCenterProps) {
       imageUrl: uploadData?.url,
       contentType: uploadData?.contentType,
       senderType: isAdmin ? "admin" : "visitor",
-      // Important: if visitor, they might not be logged in, so we pass verifyEmail if needed by backend logic
-      verifyEmail: !isAdmin && !authData?.isLoggedIn ? visitorEmail : undefined,
+      // Guests without a session prove ownership with their access link token
+      accessToken: guestToken || undefined,
       senderName: isAdmin ? "咨询师" : (authData?.user?.name || conversationDetail?.visitorName || visitorName || "来访者"),
       isFromAdmin: isAdmin
     };
@@ -428,6 +462,33 @@ export default function MessageCenter({ isAdmin = false }: MessageCenterProps) {
             <Link href="/login"><Button variant="outline" className="w-full">登录</Button></Link>
             <Link href="/register"><Button className="w-full">注册</Button></Link>
           </div>
+          <div className="border-t pt-6 space-y-3">
+            <div className="text-sm text-muted-foreground">
+              {guestAccessFailed ? "访问链接无效或已过期，请重新获取。" : "已有留言记录？输入留言时使用的邮箱，我们将发送访问链接。"}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                type="email"
+                placeholder="留言时使用的邮箱"
+                value={accessLinkEmail}
+                onChange={e => setAccessLinkEmail(e.target.value)}
+                data-testid="input-access-link-email"
+              />
+              <Button
+                variant="outline"
+                onClick={() => accessLinkMutation.mutate(accessLinkEmail.trim())}
+                disabled={!accessLinkEmail.trim() || accessLinkMutation.isPending}
+                data-testid="button-send-access-link"
+              >
+                {accessLinkMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Mail className="w-4 h-4" />}
+              </Button>
+            </div>
+            {linkSentTo && (
+              <div className="text-xs text-muted-foreground" data-testid="text-access-link-sent">
+                如果 {linkSentTo} 有留言记录，访问链接已发送至该邮箱（7天内有效）
+              </div>
+            )}
+          </div>
         </CardContent>
       </Card>
     );
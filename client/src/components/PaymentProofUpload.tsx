@@ -0,0 +1,110 @@
+import { useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient, getErrorBody } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Loader2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import type { Appointment, PaymentProofStatus } from "@shared/schema";
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+interface PaymentProofUploadProps {
+  appointment: Appointment;
+  // Guest access token; signed-in clients are authorized by their session
+  accessToken?: string;
+  instructions: string;
+}
+
+// Transfer instructions and screenshot upload for an appointment awaiting payment
+export default function PaymentProofUpload({ appointment, accessToken, instructions }: PaymentProofUploadProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const proofsKey = [
+    "/api/appointments",
+    appointment.id,
+    accessToken ? `payment-proofs?token=${encodeURIComponent(accessToken)}` : "payment-proofs",
+  ];
+
+  const { data: proofs = [] } = useQuery<PaymentProofStatus[]>({
+    queryKey: proofsKey,
+  });
+  const latest = proofs[0];
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const urlResponse = await apiRequest("POST", `/api/appointments/${appointment.id}/payment-proof/upload-url`, {
+        contentType: file.type,
+        accessToken,
+      });
+      const { uploadUrl, fileKey } = await urlResponse.json();
+
+      const uploadResponse = await fetch(uploadUrl, {
+        method: "PUT",
+        body: file,
+        headers: { "Content-Type": file.type },
+      });
+      if (!uploadResponse.ok) throw new Error("Upload failed");
+
+      return apiRequest("POST", `/api/appointments/${appointment.id}/payment-proof`, {
+        proofFile: fileKey,
+        accessToken,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: proofsKey });
+      toast({ title: "已提交", description: "付款凭证已提交，核对后预约会自动确认" });
+    },
+    onError: (error: Error) => {
+      const body = getErrorBody<{ message?: string }>(error);
+      toast({ title: "上传失败", description: body?.message || "请稍后重试", variant: "destructive" });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (file.size > MAX_FILE_SIZE) {
+      toast({ title: "错误", description: "文件大小不能超过10MB", variant: "destructive" });
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  return (
+    <div className="space-y-2 text-xs" data-testid={`payment-proof-${appointment.id}`}>
+      <p className="whitespace-pre-line">{instructions}</p>
+      {latest?.status === "pending" ? (
+        <p>付款凭证已于 {latest.createdAt && format(new Date(latest.createdAt), "M月d日 HH:mm")} 提交，正在核对</p>
+      ) : (
+        <>
+          {latest?.status === "failed" && (
+            <p>上次提交的凭证未通过核对{latest.reviewNote && `：${latest.reviewNote}`}</p>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/gif,application/pdf"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+            data-testid={`button-upload-payment-proof-${appointment.id}`}
+          >
+            {uploadMutation.isPending ? (
+              <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="mr-1 h-4 w-4" />
+            )}
+            上传付款截图
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient, getErrorBody } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, FileText, Loader2, Receipt, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+import { zhCN } from "date-fns/locale";
+import { formatAmount } from "@shared/payments";
+import type { PaymentReview, PaymentReviewItem } from "@shared/schema";
+
+// Queue of transfer screenshots; approving records the amount received and confirms the booking
+export default function PaymentReconciliation() {
+  const { toast } = useToast();
+  // Amount received per payment, in yuan as typed
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const [rejecting, setRejecting] = useState<PaymentReviewItem | null>(null);
+  const [note, setNote] = useState("");
+
+  const { data: items = [], isLoading } = useQuery<PaymentReviewItem[]>({
+    queryKey: ["/api/payments/review-queue"],
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, ...data }: PaymentReview & { id: string }) => {
+      return apiRequest("PATCH", `/api/payments/${id}/review`, data);
+    },
+    onSuccess: (_res, data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payments/review-queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      setRejecting(null);
+      setNote("");
+      toast({
+        title: "成功",
+        description: data.decision === "approved" ? "已核对，预约状态已更新" : "已驳回，并已邮件告知来访者",
+      });
+    },
+    onError: (error: Error) => {
+      const body = getErrorBody<{ message?: string }>(error);
+      toast({ title: "错误", description: body?.message || "核对失败", variant: "destructive" });
+    },
+  });
+
+  const handleApprove = (item: PaymentReviewItem) => {
+    const typed = amounts[item.id] ?? (item.amount > 0 ? (item.amount / 100).toString() : "");
+    const amount = Math.round(parseFloat(typed) * 100);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      toast({ title: "错误", description: "请填写实收金额", variant: "destructive" });
+      return;
+    }
+    reviewMutation.mutate({ id: item.id, decision: "approved", amount });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Receipt className="w-5 h-5" />
+          转账核对
+        </CardTitle>
+        <CardDescription>
+          来访者转账后上传的付款截图；请对照收款记录填写实收金额并通过，预约会自动确认。待核对期间预约不会因超时被释放
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : items.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">暂无待核对的付款</p>
+        ) : (
+          <div className="space-y-3">
+            {items.map((item) => (
+              <div
+                key={item.id}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border rounded-lg"
+                data-testid={`payment-review-${item.id}`}
+              >
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 flex-wrap font-medium">
+                    {item.appointment.name}
+                    <Badge variant="outline">
+                      {item.appointment.consultationType === "regular" ? "一般咨询" : "公益咨询"} · {item.appointment.consultationMode === "online" ? "线上" : "线下"}
+                    </Badge>
+                  </div>
+                  <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+                    <span>
+                      {format(parseISO(item.appointment.appointmentDate), "M月d日 EEE", { locale: zhCN })} {item.appointment.appointmentTime.substring(0, 5)}
+                    </span>
+                    <span>应付 {formatAmount(item.amount)}</span>
+                    <span>提交于 {item.createdAt && format(new Date(item.createdAt), "M月d日 HH:mm")}</span>
+                    {item.appointment.paymentDueAt && (
+                      <span>付款期限 {format(new Date(item.appointment.paymentDueAt), "M月d日 HH:mm")}</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  {item.proofFile && (
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={item.proofFile} target="_blank" rel="noopener noreferrer" data-testid={`link-payment-proof-${item.id}`}>
+                        <FileText className="h-4 w-4 mr-1" />
+                        查看凭证
+                      </a>
+                    </Button>
+                  )}
+                  <Label htmlFor={`received-${item.id}`} className="sr-only">实收金额（元）</Label>
+                  <Input
+                    id={`received-${item.id}`}
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    placeholder="实收金额（元）"
+                    className="w-36"
+                    value={amounts[item.id] ?? (item.amount > 0 ? item.amount / 100 : "")}
+                    onChange={(e) => setAmounts({ ...amounts, [item.id]: e.target.value })}
+                    data-testid={`input-received-amount-${item.id}`}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleApprove(item)}
+                    disabled={reviewMutation.isPending}
+                    data-testid={`button-approve-payment-${item.id}`}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    通过
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setRejecting(item)}
+                    disabled={reviewMutation.isPending}
+                    data-testid={`button-reject-payment-${item.id}`}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    驳回
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>驳回付款凭证</DialogTitle>
+            <DialogDescription>
+              原因会通过邮件告知{rejecting?.appointment.name}，来访者可以重新付款或上传凭证
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-payment-note">原因</Label>
+            <Textarea
+              id="reject-payment-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              placeholder="例如：未查到该笔转账，请核实收款账户后重新上传"
+              data-testid="input-reject-payment-note"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setRejecting(null)}>
+              取消
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => rejecting && reviewMutation.mutate({ id: rejecting.id, decision: "rejected", note: note.trim() })}
+              disabled={!note.trim() || reviewMutation.isPending}
+              data-testid="button-confirm-reject-payment"
+            >
+              {reviewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              驳回
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,54 @@
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, getErrorBody } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { FileDown, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface ReceiptDownloadButtonProps {
+  appointmentId: string;
+  // Guest access token; signed-in clients and staff are authorized by their session
+  accessToken?: string;
+}
+
+// Fetches the receipt PDF first so a refusal (not paid, receipts not configured) shows as a toast
+export default function ReceiptDownloadButton({ appointmentId, accessToken }: ReceiptDownloadButtonProps) {
+  const { toast } = useToast();
+
+  const downloadMutation = useMutation({
+    mutationFn: async () => {
+      const query = accessToken ? `?token=${encodeURIComponent(accessToken)}` : "";
+      const res = await apiRequest("GET", `/api/appointments/${appointmentId}/receipt${query}`);
+      const filename = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? "receipt.pdf";
+      return { blob: await res.blob(), filename };
+    },
+    onSuccess: ({ blob, filename }) => {
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url));
+    },
+    onError: (error: Error) => {
+      const body = getErrorBody<{ message?: string }>(error);
+      toast({ title: "无法下载收据", description: body?.message || "请稍后重试", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => downloadMutation.mutate()}
+      disabled={downloadMutation.isPending}
+      data-testid={`button-download-receipt-${appointmentId}`}
+    >
+      {downloadMutation.isPending ? (
+        <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+      ) : (
+        <FileDown className="mr-1 h-4 w-4" />
+      )}
+      下载收据
+    </Button>
+  );
+}
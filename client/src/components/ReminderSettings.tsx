@@ -0,0 +1,149 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Bell, Plus, X, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { ReminderSettings as ReminderSettingsValue } from "@shared/schema";
+
+function formatOffset(hours: number): string {
+  if (hours % 24 === 0) {
+    return `提前 ${hours / 24} 天`;
+  }
+  return `提前 ${hours} 小时`;
+}
+
+export default function ReminderSettings() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<ReminderSettingsValue | null>(null);
+  const [newOffset, setNewOffset] = useState("");
+
+  const { data: settings, isLoading } = useQuery<ReminderSettingsValue>({
+    queryKey: ["/api/reminder-settings"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setDraft(settings);
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ReminderSettingsValue) => {
+      return apiRequest("PUT", "/api/reminder-settings", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reminder-settings"] });
+      toast({ title: "成功", description: "提醒设置已保存" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "错误", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !draft) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const handleAddOffset = () => {
+    const hours = parseInt(newOffset, 10);
+    if (!Number.isInteger(hours) || hours < 1 || hours > 168) {
+      toast({ title: "错误", description: "请输入1到168之间的小时数", variant: "destructive" });
+      return;
+    }
+    if (!draft.offsetsHours.includes(hours)) {
+      setDraft({ ...draft, offsetsHours: [...draft.offsetsHours, hours].sort((a, b) => b - a) });
+    }
+    setNewOffset("");
+  };
+
+  const handleRemoveOffset = (hours: number) => {
+    setDraft({ ...draft, offsetsHours: draft.offsetsHours.filter((h) => h !== hours) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="w-5 h-5" />
+          预约提醒
+        </CardTitle>
+        <CardDescription>
+          在已确认的咨询开始前，自动向来访者发送提醒邮件，包含咨询方式和更改截止时间
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-3">
+          <Switch
+            id="reminders-enabled"
+            checked={draft.enabled}
+            onCheckedChange={(checked) => setDraft({ ...draft, enabled: checked })}
+            data-testid="switch-reminders-enabled"
+          />
+          <Label htmlFor="reminders-enabled">启用提醒邮件</Label>
+        </div>
+
+        <div className="space-y-3">
+          <Label>提醒时间</Label>
+          <div className="flex flex-wrap gap-2" data-testid="list-reminder-offsets">
+            {draft.offsetsHours.length === 0 ? (
+              <span className="text-sm text-muted-foreground">暂未设置提醒时间</span>
+            ) : (
+              draft.offsetsHours.map((hours) => (
+                <Badge key={hours} variant="secondary" className="gap-1 pr-1">
+                  {formatOffset(hours)}
+                  <button
+                    onClick={() => handleRemoveOffset(hours)}
+                    className="rounded-full p-0.5 hover:bg-muted-foreground/20"
+                    data-testid={`button-remove-offset-${hours}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </Badge>
+              ))
+            )}
+          </div>
+          <div className="flex items-center gap-2 max-w-xs">
+            <Input
+              type="number"
+              min={1}
+              max={168}
+              placeholder="小时数"
+              value={newOffset}
+              onChange={(e) => setNewOffset(e.target.value)}
+              data-testid="input-reminder-offset"
+            />
+            <Button
+              variant="outline"
+              onClick={handleAddOffset}
+              disabled={!newOffset || draft.offsetsHours.length >= 5}
+              data-testid="button-add-offset"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              添加
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">最多5个，单位为小时（1-168）</p>
+        </div>
+
+        <Button
+          onClick={() => saveMutation.mutate(draft)}
+          disabled={saveMutation.isPending}
+          data-testid="button-save-reminders"
+        >
+          {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          保存设置
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
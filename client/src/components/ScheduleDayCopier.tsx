@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Copy } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { CopyScheduleDay } from "@shared/schema";
+
+const DAY_NAMES = ["周日", "周一", "周二", "周三", "周四", "周五", "周六"];
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+interface ScheduleDayCopierProps {
+  templateId: string | null;
+}
+
+export default function ScheduleDayCopier({ templateId }: ScheduleDayCopierProps) {
+  const { toast } = useToast();
+  const [fromDay, setFromDay] = useState(1);
+  const [toDays, setToDays] = useState<number[]>([]);
+
+  const copyMutation = useMutation({
+    mutationFn: async (data: CopyScheduleDay) => {
+      return apiRequest("POST", "/api/schedule-settings/copy-day", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule-settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/available"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/availability"] });
+      setToDays([]);
+      toast({ title: "成功", description: "已复制时段" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "错误", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggleDay = (day: number, checked: boolean) => {
+    setToDays(checked ? [...toDays, day] : toDays.filter((d) => d !== day));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Copy className="w-5 h-5" />
+          复制到其他日期
+        </CardTitle>
+        <CardDescription>
+          用所选星期的时段替换目标星期的全部时段（仅限当前时间表）
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-4 items-end">
+          <div className="space-y-2">
+            <Label>复制</Label>
+            <select
+              value={fromDay}
+              onChange={(e) => {
+                setFromDay(Number(e.target.value));
+                setToDays([]);
+              }}
+              className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              data-testid="select-copy-from-day"
+            >
+              {WEEK_ORDER.map((day) => (
+                <option key={day} value={day}>
+                  {DAY_NAMES[day]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <Label>到</Label>
+            <div className="flex flex-wrap gap-3 h-9 items-center">
+              {WEEK_ORDER.filter((day) => day !== fromDay).map((day) => (
+                <div key={day} className="flex items-center gap-1.5">
+                  <Checkbox
+                    id={`copy-to-${day}`}
+                    checked={toDays.includes(day)}
+                    onCheckedChange={(checked) => toggleDay(day, checked === true)}
+                    data-testid={`checkbox-copy-to-${day}`}
+                  />
+                  <Label htmlFor={`copy-to-${day}`} className="font-normal">
+                    {DAY_NAMES[day]}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <Button
+            onClick={() => copyMutation.mutate({ templateId, fromDay, toDays })}
+            disabled={toDays.length === 0 || copyMutation.isPending}
+            data-testid="button-copy-day"
+          >
+            <Copy className="w-4 h-4 mr-2" />
+            复制
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,318 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { CalendarCog, Clock, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO, startOfDay } from "date-fns";
+import { zhCN } from "date-fns/locale";
+import { findActiveTemplate } from "@shared/scheduleTemplates";
+import type { InsertScheduleOverride, ScheduleOverride, ScheduleSetting, ScheduleTemplate } from "@shared/schema";
+
+type SlotValues = Pick<ScheduleSetting, "timeSlot" | "isOnlineAvailable" | "isOfflineAvailable" | "durationMinutes" | "bufferMinutes">;
+
+// One time on the selected date: the weekly slot, the override for it, or both
+interface DayRow {
+  timeSlot: string;
+  weekly?: ScheduleSetting;
+  override?: ScheduleOverride;
+}
+
+function getDayRows(
+  date: Date,
+  templates: ScheduleTemplate[],
+  settings: ScheduleSetting[],
+  overrides: ScheduleOverride[]
+): DayRow[] {
+  const dateString = format(date, "yyyy-MM-dd");
+  const templateId = findActiveTemplate(templates, dateString)?.id ?? null;
+  const rows = new Map<string, DayRow>();
+  for (const setting of settings) {
+    if (setting.isActive && setting.templateId === templateId && setting.dayOfWeek === date.getDay()) {
+      rows.set(setting.timeSlot, { timeSlot: setting.timeSlot, weekly: setting });
+    }
+  }
+  for (const override of overrides) {
+    if (override.date === dateString) {
+      rows.set(override.timeSlot, { ...rows.get(override.timeSlot), timeSlot: override.timeSlot, override });
+    }
+  }
+  return Array.from(rows.values()).sort((a, b) => a.timeSlot.localeCompare(b.timeSlot));
+}
+
+function getRowBadge(row: DayRow) {
+  if (row.override && !row.override.isAvailable) {
+    return <Badge variant="outline" className="text-muted-foreground">本日关闭</Badge>;
+  }
+  if (row.override && row.weekly) {
+    return <Badge variant="secondary">本日调整</Badge>;
+  }
+  if (row.override) {
+    return <Badge className="bg-primary/10 text-primary border-primary/20">临时新增</Badge>;
+  }
+  return <Badge variant="outline">每周</Badge>;
+}
+
+export default function ScheduleOverrideEditor() {
+  const { toast } = useToast();
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+  const [newTime, setNewTime] = useState("10:00");
+  const [newDuration, setNewDuration] = useState("60");
+  const [newBuffer, setNewBuffer] = useState("10");
+
+  const { data: settings = [] } = useQuery<ScheduleSetting[]>({
+    queryKey: ["/api/schedule-settings"],
+  });
+
+  const { data: templates = [] } = useQuery<ScheduleTemplate[]>({
+    queryKey: ["/api/schedule-templates"],
+  });
+
+  const { data: overrides = [] } = useQuery<ScheduleOverride[]>({
+    queryKey: ["/api/schedule-overrides"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule-overrides"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule/available"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule/availability"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertScheduleOverride) => {
+      return apiRequest("POST", "/api/schedule-overrides", data);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "成功", description: "已保存本日时段" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "错误", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/schedule-overrides/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "成功", description: "已恢复每周设置" });
+    },
+    onError: () => {
+      toast({ title: "错误", description: "操作失败", variant: "destructive" });
+    },
+  });
+
+  const dateString = selectedDate ? format(selectedDate, "yyyy-MM-dd") : null;
+  const rows = selectedDate ? getDayRows(selectedDate, templates, settings, overrides) : [];
+  const overriddenDates = Array.from(new Set(overrides.map((o) => o.date))).map((d) => parseISO(d));
+
+  const saveSlot = (values: SlotValues, isAvailable = true) => {
+    if (!dateString) return;
+    saveMutation.mutate({
+      date: dateString,
+      timeSlot: values.timeSlot,
+      isAvailable,
+      isOnlineAvailable: values.isOnlineAvailable,
+      isOfflineAvailable: values.isOfflineAvailable,
+      durationMinutes: values.durationMinutes,
+      bufferMinutes: values.bufferMinutes,
+    });
+  };
+
+  const handleAddSlot = () => {
+    const durationMinutes = parseInt(newDuration, 10);
+    const bufferMinutes = parseInt(newBuffer, 10);
+    if (!Number.isInteger(durationMinutes) || durationMinutes < 15 || durationMinutes > 480) {
+      toast({ title: "错误", description: "时段时长应为15到480分钟", variant: "destructive" });
+      return;
+    }
+    if (!Number.isInteger(bufferMinutes) || bufferMinutes < 0 || bufferMinutes > 120) {
+      toast({ title: "错误", description: "间隔时间应为0到120分钟", variant: "destructive" });
+      return;
+    }
+    saveSlot({ timeSlot: newTime, isOnlineAvailable: true, isOfflineAvailable: true, durationMinutes, bufferMinutes });
+  };
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[auto_1fr]">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarCog className="w-5 h-5" />
+            选择日期
+          </CardTitle>
+          <CardDescription>加粗的日期有单独调整</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Calendar
+            mode="single"
+            selected={selectedDate}
+            onSelect={setSelectedDate}
+            disabled={(date) => date < startOfDay(new Date())}
+            modifiers={{ overridden: overriddenDates }}
+            modifiersClassNames={{ overridden: "font-bold text-primary" }}
+            locale={zhCN}
+            className="rounded-md border"
+            data-testid="calendar-overrides"
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {selectedDate ? format(selectedDate, "yyyy年M月d日 EEEE", { locale: zhCN }) : "特定日期时段"}
+          </CardTitle>
+          <CardDescription>
+            在每周时段的基础上，为某一天临时增加、关闭或调整时段；不影响其他日期
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!selectedDate ? (
+            <div className="text-center text-muted-foreground py-8">请先在左侧选择日期</div>
+          ) : (
+            <>
+              <div className="space-y-3">
+                {rows.length === 0 && (
+                  <div className="text-center text-muted-foreground py-4">本日暂无时段</div>
+                )}
+                {rows.map((row) => {
+                  const removed = !!row.override && !row.override.isAvailable;
+                  // What applies on this date; a closed weekly slot keeps its weekly values for display
+                  const effective: SlotValues = row.override && (row.override.isAvailable || !row.weekly)
+                    ? row.override
+                    : row.weekly!;
+                  return (
+                    <div
+                      key={row.timeSlot}
+                      className={`p-3 rounded-md border space-y-2 ${removed ? "bg-muted/50 opacity-60" : "bg-card"}`}
+                      data-testid={`override-row-${row.timeSlot}`}
+                    >
+                      <div className="flex items-center justify-between gap-2 flex-wrap">
+                        <div className="flex items-center gap-2">
+                          <Clock className="w-4 h-4 text-muted-foreground" />
+                          <span className={`font-medium ${removed ? "line-through" : ""}`}>{row.timeSlot}</span>
+                          <span className="text-sm text-muted-foreground">{effective.durationMinutes}分钟</span>
+                          {getRowBadge(row)}
+                        </div>
+                        <div className="flex items-center gap-1">
+                          {row.override && row.weekly && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteMutation.mutate(row.override!.id)}
+                              disabled={deleteMutation.isPending}
+                              data-testid={`button-restore-${row.timeSlot}`}
+                            >
+                              <RotateCcw className="w-4 h-4 mr-1" />
+                              恢复
+                            </Button>
+                          )}
+                          {row.override && !row.weekly && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => deleteMutation.mutate(row.override!.id)}
+                              disabled={deleteMutation.isPending}
+                              data-testid={`button-delete-override-${row.timeSlot}`}
+                            >
+                              <Trash2 className="w-4 h-4 text-destructive" />
+                            </Button>
+                          )}
+                          {row.weekly && !removed && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => saveSlot(effective, false)}
+                              disabled={saveMutation.isPending}
+                              data-testid={`button-close-${row.timeSlot}`}
+                            >
+                              本日关闭
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                      {!removed && (
+                        <div className="flex items-center gap-6 text-sm">
+                          <div className="flex items-center gap-2">
+                            <Switch
+                              checked={effective.isOnlineAvailable}
+                              onCheckedChange={(checked) => saveSlot({ ...effective, isOnlineAvailable: checked })}
+                              data-testid={`switch-override-online-${row.timeSlot}`}
+                            />
+                            <Label className="text-muted-foreground">线上</Label>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Switch
+                              checked={effective.isOfflineAvailable}
+                              onCheckedChange={(checked) => saveSlot({ ...effective, isOfflineAvailable: checked })}
+                              data-testid={`switch-override-offline-${row.timeSlot}`}
+                            />
+                            <Label className="text-muted-foreground">线下</Label>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="flex flex-wrap gap-4 items-end border-t pt-4">
+                <div className="space-y-2">
+                  <Label>新增时间</Label>
+                  <Input
+                    type="time"
+                    value={newTime}
+                    onChange={(e) => setNewTime(e.target.value)}
+                    className="w-32"
+                    data-testid="input-override-time"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>时长（分钟）</Label>
+                  <Input
+                    type="number"
+                    min={15}
+                    max={480}
+                    value={newDuration}
+                    onChange={(e) => setNewDuration(e.target.value)}
+                    className="w-28"
+                    data-testid="input-override-duration"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>间隔（分钟）</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={120}
+                    value={newBuffer}
+                    onChange={(e) => setNewBuffer(e.target.value)}
+                    className="w-28"
+                    data-testid="input-override-buffer"
+                  />
+                </div>
+                <Button
+                  onClick={handleAddSlot}
+                  disabled={saveMutation.isPending}
+                  data-testid="button-add-override"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  添加
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { CalendarRange, Pencil, Plus, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+import { templateCoversDate } from "@shared/scheduleTemplates";
+import type { InsertScheduleTemplate, ScheduleTemplate } from "@shared/schema";
+
+interface ScheduleTemplateManagerProps {
+  selectedTemplateId: string | null; // null = regular schedule
+  onSelect: (templateId: string | null) => void;
+}
+
+function describeRange(template: ScheduleTemplate): string {
+  const from = format(parseISO(template.effectiveFrom), "yyyy年M月d日");
+  return template.effectiveTo
+    ? `${from} 至 ${format(parseISO(template.effectiveTo), "yyyy年M月d日")}`
+    : `${from} 起`;
+}
+
+export default function ScheduleTemplateManager({ selectedTemplateId, onSelect }: ScheduleTemplateManagerProps) {
+  const { toast } = useToast();
+  // null = form closed, "" = creating, otherwise the id of the template being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [effectiveTo, setEffectiveTo] = useState("");
+  const [copyRegularSlots, setCopyRegularSlots] = useState(true);
+
+  const { data: templates = [] } = useQuery<ScheduleTemplate[]>({
+    queryKey: ["/api/schedule-templates"],
+  });
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const currentTemplate = templates.find((t) => templateCoversDate(t, today));
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule-templates"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule-settings"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule/available"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule/availability"] });
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setName("");
+    setEffectiveFrom("");
+    setEffectiveTo("");
+    setCopyRegularSlots(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: InsertScheduleTemplate & { copyRegularSlots?: boolean }): Promise<ScheduleTemplate> => {
+      const res = editingId
+        ? await apiRequest("PUT", `/api/schedule-templates/${editingId}`, data)
+        : await apiRequest("POST", "/api/schedule-templates", data);
+      return res.json();
+    },
+    onSuccess: (template) => {
+      invalidate();
+      onSelect(template.id);
+      toast({ title: "成功", description: editingId ? "已更新时间表" : "已创建时间表" });
+      closeForm();
+    },
+    onError: (error: Error) => {
+      toast({ title: "错误", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/schedule-templates/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      onSelect(null);
+      toast({ title: "成功", description: "已删除时间表" });
+    },
+    onError: () => {
+      toast({ title: "错误", description: "删除时间表失败", variant: "destructive" });
+    },
+  });
+
+  const startEdit = (template: ScheduleTemplate) => {
+    setEditingId(template.id);
+    setName(template.name);
+    setEffectiveFrom(template.effectiveFrom);
+    setEffectiveTo(template.effectiveTo ?? "");
+  };
+
+  const handleSave = () => {
+    if (!name.trim() || !effectiveFrom) {
+      toast({ title: "错误", description: "请填写名称和开始日期", variant: "destructive" });
+      return;
+    }
+    if (effectiveTo && effectiveTo < effectiveFrom) {
+      toast({ title: "错误", description: "结束日期不能早于开始日期", variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate({
+      name: name.trim(),
+      effectiveFrom,
+      effectiveTo: effectiveTo || null,
+      ...(editingId ? {} : { copyRegularSlots }),
+    });
+  };
+
+  const selectedTemplate = templates.find((t) => t.id === selectedTemplateId);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarRange className="w-5 h-5" />
+          时间表
+        </CardTitle>
+        <CardDescription>
+          常规时间表适用于所有未被季节时间表覆盖的日期；季节时间表只在其日期范围内生效，范围不能重叠
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant={selectedTemplateId === null ? "default" : "outline"}
+            size="sm"
+            onClick={() => onSelect(null)}
+            data-testid="button-template-regular"
+          >
+            常规时间表
+            {!currentTemplate && <Badge variant="secondary" className="ml-2">当前生效</Badge>}
+          </Button>
+          {templates.map((template) => (
+            <Button
+              key={template.id}
+              variant={selectedTemplateId === template.id ? "default" : "outline"}
+              size="sm"
+              onClick={() => onSelect(template.id)}
+              data-testid={`button-template-${template.id}`}
+            >
+              {template.name}
+              {currentTemplate?.id === template.id && <Badge variant="secondary" className="ml-2">当前生效</Badge>}
+            </Button>
+          ))}
+          {editingId === null && (
+            <Button variant="ghost" size="sm" onClick={() => setEditingId("")} data-testid="button-new-template">
+              <Plus className="w-4 h-4 mr-1" />
+              新建季节时间表
+            </Button>
+          )}
+        </div>
+
+        {selectedTemplate && editingId === null && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span>{describeRange(selectedTemplate)}</span>
+            <Button variant="ghost" size="icon" onClick={() => startEdit(selectedTemplate)} data-testid="button-edit-template">
+              <Pencil className="w-4 h-4" />
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="icon" data-testid="button-delete-template">
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>确认删除</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    删除“{selectedTemplate.name}”及其全部时段后，这些日期将恢复使用常规时间表。
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>取消</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => deleteMutation.mutate(selectedTemplate.id)}>
+                    删除
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+
+        {editingId !== null && (
+          <div className="space-y-4 border-t pt-4">
+            <div className="flex flex-wrap gap-4 items-end">
+              <div className="space-y-2">
+                <Label>名称</Label>
+                <Input
+                  placeholder="如：暑期时间"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="w-48"
+                  data-testid="input-template-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>开始日期</Label>
+                <Input
+                  type="date"
+                  value={effectiveFrom}
+                  onChange={(e) => setEffectiveFrom(e.target.value)}
+                  className="w-40"
+                  data-testid="input-template-from"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>结束日期（可选）</Label>
+                <Input
+                  type="date"
+                  value={effectiveTo}
+                  onChange={(e) => setEffectiveTo(e.target.value)}
+                  min={effectiveFrom || undefined}
+                  className="w-40"
+                  data-testid="input-template-to"
+                />
+              </div>
+            </div>
+            {!editingId && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="template-copy-regular"
+                  checked={copyRegularSlots}
+                  onCheckedChange={setCopyRegularSlots}
+                  data-testid="switch-template-copy-regular"
+                />
+                <Label htmlFor="template-copy-regular">以常规时间表的时段为起点</Label>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-template">
+                保存
+              </Button>
+              <Button variant="ghost" onClick={closeForm}>
+                <X className="w-4 h-4 mr-1" />
+                取消
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
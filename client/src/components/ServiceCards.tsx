@@ -1,9 +1,15 @@
 import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ArrowRight, Sparkles, Heart } from "lucide-react";
+import type { SessionDurations } from "@shared/schema";
 
 export default function ServiceCards() {
+  const { data: sessionDurations } = useQuery<SessionDurations>({
+    queryKey: ["/api/session-durations"],
+  });
+
   return (
     <section className="py-16 bg-muted/30">
       <div className="container mx-auto px-4">
@@ -31,7 +37,9 @@ export default function ServiceCards() {
               <div className="space-y-4">
                 <div className="flex items-baseline gap-2">
                   <span className="text-3xl font-semibold">¥300</span>
-                  <span className="text-muted-foreground">/ 50分钟</span>
+                  {sessionDurations && (
+                    <span className="text-muted-foreground">/ {sessionDurations.regular}分钟</span>
+                  )}
                 </div>
                 <ul className="space-y-2 text-sm text-muted-foreground">
                   <li className="flex items-center gap-2">
@@ -71,7 +79,9 @@ export default function ServiceCards() {
               <div className="space-y-4">
                 <div className="flex items-baseline gap-2">
                   <span className="text-3xl font-semibold">¥150</span>
-                  <span className="text-muted-foreground">/ 50分钟</span>
+                  {sessionDurations && (
+                    <span className="text-muted-foreground">/ {sessionDurations.welfare}分钟</span>
+                  )}
                 </div>
                 <ul className="space-y-2 text-sm text-muted-foreground">
                   <li className="flex items-center gap-2">
@@ -0,0 +1,105 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Timer, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { SessionDurations } from "@shared/schema";
+
+const TYPE_LABELS: Record<keyof SessionDurations, string> = {
+  regular: "一般咨询",
+  welfare: "公益低价咨询",
+};
+
+export default function SessionDurationSettings() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<SessionDurations | null>(null);
+
+  const { data: durations, isLoading } = useQuery<SessionDurations>({
+    queryKey: ["/api/session-durations"],
+  });
+
+  useEffect(() => {
+    if (durations) {
+      setDraft(durations);
+    }
+  }, [durations]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SessionDurations) => {
+      return apiRequest("PUT", "/api/session-durations", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/session-durations"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/available"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/availability"] });
+      toast({ title: "成功", description: "咨询时长已保存" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "错误", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !draft) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const handleSave = () => {
+    const invalid = (Object.keys(TYPE_LABELS) as (keyof SessionDurations)[]).find(
+      (type) => !Number.isInteger(draft[type]) || draft[type] < 15 || draft[type] > 240
+    );
+    if (invalid) {
+      toast({ title: "错误", description: `${TYPE_LABELS[invalid]}时长应为15到240分钟`, variant: "destructive" });
+      return;
+    }
+    saveMutation.mutate(draft);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Timer className="w-5 h-5" />
+          咨询时长
+        </CardTitle>
+        <CardDescription>
+          每类咨询的时长；只在时长足够的时段提供预约。已有预约保持预约时的时长
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-4 items-end">
+          {(Object.keys(TYPE_LABELS) as (keyof SessionDurations)[]).map((type) => (
+            <div key={type} className="space-y-2">
+              <Label htmlFor={`duration-${type}`}>{TYPE_LABELS[type]}（分钟）</Label>
+              <Input
+                id={`duration-${type}`}
+                type="number"
+                min={15}
+                max={240}
+                value={Number.isNaN(draft[type]) ? "" : draft[type]}
+                onChange={(e) => setDraft({ ...draft, [type]: parseInt(e.target.value, 10) })}
+                className="w-32"
+                data-testid={`input-duration-${type}`}
+              />
+            </div>
+          ))}
+          <Button
+            onClick={handleSave}
+            disabled={saveMutation.isPending}
+            data-testid="button-save-durations"
+          >
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            保存
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
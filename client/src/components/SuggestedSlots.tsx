@@ -0,0 +1,50 @@
+import { Button } from "@/components/ui/button";
+import { CalendarClock } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { zhCN } from "date-fns/locale";
+
+// An open slot as returned by /api/schedule/next-available and in the alternatives of a booking 409
+export interface SuggestedSlot {
+  date: string;
+  time: string;
+  durationMinutes: number;
+}
+
+interface SuggestedSlotsProps {
+  title: string;
+  slots: SuggestedSlot[];
+  onPick: (slot: SuggestedSlot) => void;
+  disabled?: boolean;
+  emptyText?: string;
+}
+
+export default function SuggestedSlots({ title, slots, onPick, disabled, emptyText }: SuggestedSlotsProps) {
+  if (slots.length === 0 && !emptyText) return null;
+
+  return (
+    <div className="p-4 rounded-lg border bg-muted/30 space-y-3" data-testid="suggested-slots">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <CalendarClock className="h-4 w-4 text-primary" />
+        {title}
+      </div>
+      {slots.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{emptyText}</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {slots.map((slot) => (
+            <Button
+              key={`${slot.date}-${slot.time}`}
+              variant="outline"
+              size="sm"
+              onClick={() => onPick(slot)}
+              disabled={disabled}
+              data-testid={`button-suggested-${slot.date}-${slot.time}`}
+            >
+              {format(parseISO(slot.date), "M月d日 EEE", { locale: zhCN })} {slot.time}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { ShieldCheck, ShieldOff, KeyRound, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+function CodeInput({ value, onChange, testId }: { value: string; onChange: (value: string) => void; testId: string }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} data-testid={testId}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+export default function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/admin/2fa"],
+  });
+
+  const onError = (error: Error) => {
+    setCode("");
+    toast({ title: "错误", description: error.message, variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/2fa/setup");
+      return response.json() as Promise<TwoFactorSetup>;
+    },
+    onSuccess: (result) => {
+      setSetup(result);
+      setRecoveryCodes(null);
+      setCode("");
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/admin/2fa/enable", { code });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (result) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/2fa"] });
+      toast({ title: "成功", description: "已启用两步验证" });
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const response = await apiRequest("POST", "/api/admin/2fa/recovery-codes", { code });
+      return response.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (result) => {
+      setCode("");
+      setRecoveryCodes(result.recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/2fa"] });
+      toast({ title: "成功", description: "已生成新的恢复码，旧恢复码已失效" });
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async (data: { password: string; code: string }) => {
+      return apiRequest("POST", "/api/admin/2fa/disable", data);
+    },
+    onSuccess: () => {
+      setCode("");
+      setPassword("");
+      setRecoveryCodes(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/2fa"] });
+      toast({ title: "成功", description: "已关闭两步验证" });
+    },
+    onError,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            {status?.enabled ? (
+              <ShieldCheck className="w-5 h-5 text-primary" />
+            ) : (
+              <ShieldOff className="w-5 h-5 text-muted-foreground" />
+            )}
+            两步验证
+            <Badge variant={status?.enabled ? "default" : "secondary"}>
+              {status?.enabled ? "已启用" : "未启用"}
+            </Badge>
+          </CardTitle>
+          <CardDescription>
+            登录时除密码外，还需输入身份验证器应用（如 Google Authenticator、Microsoft Authenticator）生成的6位验证码
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!status?.enabled && !setup && (
+            <Button
+              onClick={() => setupMutation.mutate()}
+              disabled={setupMutation.isPending}
+              data-testid="button-setup-2fa"
+            >
+              {setupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              开始设置
+            </Button>
+          )}
+
+          {!status?.enabled && setup && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                1. 使用身份验证器应用扫描下方二维码，或手动输入密钥：
+              </p>
+              <div className="flex flex-col sm:flex-row gap-6 items-start">
+                <img
+                  src={setup.qrCodeDataUrl}
+                  alt="两步验证二维码"
+                  className="w-48 h-48 rounded-md border bg-white p-2"
+                  data-testid="img-2fa-qr"
+                />
+                <div className="space-y-2">
+                  <Label>密钥</Label>
+                  <code className="block break-all rounded-md bg-muted px-3 py-2 font-mono text-sm" data-testid="text-2fa-secret">
+                    {setup.secret}
+                  </code>
+                </div>
+              </div>
+              <p className="text-sm text-muted-foreground">2. 输入应用中显示的6位验证码以完成设置：</p>
+              <div className="flex flex-wrap items-center gap-4">
+                <CodeInput value={code} onChange={setCode} testId="input-2fa-enable-code" />
+                <Button
+                  onClick={() => enableMutation.mutate(code)}
+                  disabled={code.length !== 6 || enableMutation.isPending}
+                  data-testid="button-enable-2fa"
+                >
+                  确认启用
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {recoveryCodes && (
+            <div className="space-y-3 p-4 rounded-lg border border-primary/20 bg-primary/5">
+              <div className="flex items-center gap-2 font-medium">
+                <KeyRound className="w-4 h-4" />
+                恢复码
+              </div>
+              <p className="text-sm text-muted-foreground">
+                请妥善保存以下恢复码。无法使用身份验证器时，每个恢复码可代替验证码登录一次。恢复码只显示这一次。
+              </p>
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm" data-testid="list-recovery-codes">
+                {recoveryCodes.map((recoveryCode) => (
+                  <code key={recoveryCode} className="rounded bg-background px-2 py-1 border">
+                    {recoveryCode}
+                  </code>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {status?.enabled && (
+            <div className="space-y-6">
+              <p className="text-sm text-muted-foreground">
+                剩余可用恢复码：{status.recoveryCodesRemaining} 个
+              </p>
+              <div className="space-y-3">
+                <Label>当前验证码</Label>
+                <CodeInput value={code} onChange={setCode} testId="input-2fa-manage-code" />
+              </div>
+              <div className="space-y-2 max-w-xs">
+                <Label htmlFor="disable-2fa-password">密码（关闭两步验证时需要）</Label>
+                <Input
+                  id="disable-2fa-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  data-testid="input-2fa-password"
+                />
+              </div>
+              <div className="flex flex-wrap gap-3">
+                <Button
+                  variant="outline"
+                  onClick={() => regenerateMutation.mutate(code)}
+                  disabled={code.length !== 6 || regenerateMutation.isPending}
+                  data-testid="button-regenerate-recovery"
+                >
+                  重新生成恢复码
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => disableMutation.mutate({ password, code })}
+                  disabled={code.length !== 6 || !password || disableMutation.isPending}
+                  data-testid="button-disable-2fa"
+                >
+                  关闭两步验证
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
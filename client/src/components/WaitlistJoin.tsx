@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { BellRing, CheckCircle2, Loader2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { addDays, addWeeks, format, parseISO, startOfWeek } from "date-fns";
+import { zhCN } from "date-fns/locale";
+import type { InsertWaitlistEntry, WaitlistEntry } from "@shared/schema";
+
+interface WaitlistJoinProps {
+  consultationType: "regular" | "welfare";
+  consultationMode: "online" | "offline";
+}
+
+type RangeChoice = "date" | "next-week";
+
+function getNextWeek(): { startDate: string; endDate: string } {
+  const monday = startOfWeek(addWeeks(new Date(), 1), { weekStartsOn: 1 });
+  return { startDate: format(monday, "yyyy-MM-dd"), endDate: format(addDays(monday, 6), "yyyy-MM-dd") };
+}
+
+function describeRange(entry: Pick<WaitlistEntry, "startDate" | "endDate">): string {
+  const start = format(parseISO(entry.startDate), "M月d日", { locale: zhCN });
+  return entry.startDate === entry.endDate
+    ? start
+    : `${start}至${format(parseISO(entry.endDate), "M月d日", { locale: zhCN })}`;
+}
+
+export default function WaitlistJoin({ consultationType, consultationMode }: WaitlistJoinProps) {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [rangeChoice, setRangeChoice] = useState<RangeChoice>("date");
+  const [date, setDate] = useState("");
+  const [name, setName] = useState("");
+  const [contactEmail, setContactEmail] = useState("");
+  const [contactPhone, setContactPhone] = useState("");
+  const [joined, setJoined] = useState<WaitlistEntry | null>(null);
+
+  const joinMutation = useMutation({
+    mutationFn: async (data: InsertWaitlistEntry): Promise<WaitlistEntry> => {
+      const res = await apiRequest("POST", "/api/waitlist", data);
+      return res.json();
+    },
+    onSuccess: (entry) => {
+      setJoined(entry);
+      setIsOpen(false);
+      toast({ title: "已加入候补", description: "有空位时我们会通过邮件通知您" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "加入候补失败", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleSubmit = () => {
+    if (!name.trim() || !contactEmail.trim()) {
+      toast({ title: "错误", description: "请填写姓名和邮箱", variant: "destructive" });
+      return;
+    }
+    if (rangeChoice === "date" && !date) {
+      toast({ title: "错误", description: "请选择候补日期", variant: "destructive" });
+      return;
+    }
+    const range = rangeChoice === "date" ? { startDate: date, endDate: date } : getNextWeek();
+    joinMutation.mutate({
+      ...range,
+      name: name.trim(),
+      contactEmail: contactEmail.trim(),
+      contactPhone: contactPhone.trim() || null,
+      consultationType,
+      consultationMode,
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <BellRing className="h-5 w-5 text-primary" />
+          没有合适的时间？
+        </CardTitle>
+        <CardDescription>
+          加入候补名单，有人取消预约时我们会按登记顺序邮件通知您，并为您保留该时段一段时间
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {joined && (
+          <div className="flex items-center gap-2 text-sm" data-testid="text-waitlist-joined">
+            <CheckCircle2 className="h-4 w-4 text-primary" />
+            已登记{describeRange(joined)}的候补，通知将发送至 {joined.contactEmail}
+          </div>
+        )}
+
+        {!isOpen ? (
+          <Button variant="outline" onClick={() => setIsOpen(true)} data-testid="button-open-waitlist">
+            加入候补
+          </Button>
+        ) : (
+          <div className="space-y-4">
+            <RadioGroup
+              value={rangeChoice}
+              onValueChange={(value) => setRangeChoice(value as RangeChoice)}
+              className="flex flex-wrap gap-4"
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="date" id="waitlist-date" data-testid="radio-waitlist-date" />
+                <Label htmlFor="waitlist-date" className="font-normal">指定日期</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="next-week" id="waitlist-next-week" data-testid="radio-waitlist-next-week" />
+                <Label htmlFor="waitlist-next-week" className="font-normal">
+                  下周任意时间（{describeRange(getNextWeek())}）
+                </Label>
+              </div>
+            </RadioGroup>
+
+            <div className="grid md:grid-cols-2 gap-4">
+              {rangeChoice === "date" && (
+                <div className="space-y-2">
+                  <Label htmlFor="waitlist-date-input">日期</Label>
+                  <Input
+                    id="waitlist-date-input"
+                    type="date"
+                    value={date}
+                    min={format(new Date(), "yyyy-MM-dd")}
+                    onChange={(e) => setDate(e.target.value)}
+                    data-testid="input-waitlist-date"
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="waitlist-name">姓名</Label>
+                <Input
+                  id="waitlist-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  data-testid="input-waitlist-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="waitlist-email">邮箱</Label>
+                <Input
+                  id="waitlist-email"
+                  type="email"
+                  value={contactEmail}
+                  onChange={(e) => setContactEmail(e.target.value)}
+                  data-testid="input-waitlist-email"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="waitlist-phone">电话（可选）</Label>
+                <Input
+                  id="waitlist-phone"
+                  value={contactPhone}
+                  onChange={(e) => setContactPhone(e.target.value)}
+                  data-testid="input-waitlist-phone"
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSubmit} disabled={joinMutation.isPending} data-testid="button-join-waitlist">
+                {joinMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                提交候补
+              </Button>
+              <Button variant="ghost" onClick={() => setIsOpen(false)}>
+                取消
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,140 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { BellRing, Loader2, Mail, Phone, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format, parseISO } from "date-fns";
+import { zhCN } from "date-fns/locale";
+import type { WaitlistEntry } from "@shared/schema";
+import type { AdminSessionInfo } from "@shared/permissions";
+
+const STATUS_LABELS: Record<WaitlistEntry["status"], string> = {
+  waiting: "候补中",
+  offered: "已通知",
+  claimed: "已预约",
+  expired: "已过期",
+  cancelled: "已移除",
+};
+
+function describeRange(entry: WaitlistEntry): string {
+  const start = format(parseISO(entry.startDate), "M月d日 EEE", { locale: zhCN });
+  return entry.startDate === entry.endDate
+    ? start
+    : `${start} 至 ${format(parseISO(entry.endDate), "M月d日 EEE", { locale: zhCN })}`;
+}
+
+function getStatusBadge(status: WaitlistEntry["status"]) {
+  switch (status) {
+    case "waiting":
+      return <Badge variant="secondary">{STATUS_LABELS[status]}</Badge>;
+    case "offered":
+      return <Badge className="bg-primary/10 text-primary border-primary/20">{STATUS_LABELS[status]}</Badge>;
+    case "claimed":
+      return <Badge className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400 border-green-200 dark:border-green-800">{STATUS_LABELS[status]}</Badge>;
+    default:
+      return <Badge variant="outline" className="text-muted-foreground">{STATUS_LABELS[status]}</Badge>;
+  }
+}
+
+export default function WaitlistManager() {
+  const { toast } = useToast();
+
+  const { data: entries = [], isLoading } = useQuery<WaitlistEntry[]>({
+    queryKey: ["/api/waitlist"],
+  });
+
+  const { data: authData } = useQuery<AdminSessionInfo>({
+    queryKey: ["/api/admin/me"],
+  });
+  const canManage = !!authData?.permissions.includes("appointments:manage");
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/waitlist/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/waitlist"] });
+      toast({ title: "成功", description: "已移出候补名单" });
+    },
+    onError: () => {
+      toast({ title: "错误", description: "移除失败", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="w-5 h-5" />
+          候补名单
+        </CardTitle>
+        <CardDescription>
+          有预约取消时，空出的时段会按登记顺序提供给合适的候补来访者，并为其保留一段时间；逾期未预约则顺延给下一位
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-center py-6 text-muted-foreground">暂无候补</p>
+        ) : (
+          <div className="space-y-3">
+            {entries.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 border rounded-lg"
+                data-testid={`waitlist-entry-${entry.id}`}
+              >
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2 flex-wrap font-medium">
+                    {entry.name}
+                    {getStatusBadge(entry.status)}
+                    <Badge variant="outline">
+                      {entry.consultationType === "regular" ? "一般咨询" : "公益咨询"} · {entry.consultationMode === "online" ? "线上" : "线下"}
+                    </Badge>
+                  </div>
+                  <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+                    <span>{describeRange(entry)}</span>
+                    <span className="flex items-center gap-1">
+                      <Mail className="h-4 w-4" />
+                      {entry.contactEmail}
+                    </span>
+                    {entry.contactPhone && (
+                      <span className="flex items-center gap-1">
+                        <Phone className="h-4 w-4" />
+                        {entry.contactPhone}
+                      </span>
+                    )}
+                    <span>登记于 {entry.createdAt && format(new Date(entry.createdAt), "M月d日 HH:mm")}</span>
+                  </div>
+                  {entry.status === "offered" && entry.offeredDate && entry.offeredTime && entry.offerExpiresAt && (
+                    <div className="text-sm">
+                      已提供 {format(parseISO(entry.offeredDate), "M月d日", { locale: zhCN })} {entry.offeredTime.substring(0, 5)}，
+                      保留至 {format(new Date(entry.offerExpiresAt), "M月d日 HH:mm")}
+                    </div>
+                  )}
+                </div>
+                {canManage && (entry.status === "waiting" || entry.status === "offered") && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => removeMutation.mutate(entry.id)}
+                    disabled={removeMutation.isPending}
+                    data-testid={`button-remove-waitlist-${entry.id}`}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    移出
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
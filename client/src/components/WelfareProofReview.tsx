@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient, getErrorBody } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, FileText, Loader2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import type { Appointment, WelfareProofReview as WelfareProofReviewData } from "@shared/schema";
+
+interface WelfareProofReviewProps {
+  appointment: Appointment;
+  canReview: boolean;
+}
+
+function getProofBadge(status: Appointment["welfareProofStatus"], hasFile: boolean) {
+  switch (status) {
+    case "approved":
+      return <Badge className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400 border-green-200 dark:border-green-800">证明已通过</Badge>;
+    case "rejected":
+      return <Badge variant="outline" className="text-destructive border-destructive/40">证明未通过</Badge>;
+    default:
+      if (!hasFile) {
+        return <Badge variant="outline" className="text-muted-foreground">未上传证明</Badge>;
+      }
+      return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400 border-yellow-200 dark:border-yellow-800">证明待审核</Badge>;
+  }
+}
+
+// Welfare proof status for one appointment, with the document link and approve/reject for reviewers.
+// A welfare booking must be approved before it can be confirmed, also when no document was uploaded.
+export default function WelfareProofReview({ appointment, canReview }: WelfareProofReviewProps) {
+  const { toast } = useToast();
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [note, setNote] = useState("");
+
+  const reviewMutation = useMutation({
+    mutationFn: async (data: WelfareProofReviewData) => {
+      return apiRequest("PATCH", `/api/appointments/${appointment.id}/welfare-proof`, data);
+    },
+    onSuccess: (_res, data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
+      setIsRejecting(false);
+      setNote("");
+      toast({
+        title: "成功",
+        description: data.decision === "approved" ? "证明材料已通过，可以确认预约" : "已驳回，并已邮件告知来访者",
+      });
+    },
+    onError: (error: Error) => {
+      const body = getErrorBody<{ message?: string }>(error);
+      toast({ title: "错误", description: body?.message || "审核失败", variant: "destructive" });
+    },
+  });
+
+  if (appointment.consultationType !== "welfare") return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm" data-testid={`welfare-proof-${appointment.id}`}>
+      {getProofBadge(appointment.welfareProofStatus, !!appointment.welfareProofFile)}
+      {appointment.welfareProofReviewedAt && (
+        <span className="text-muted-foreground">
+          {format(new Date(appointment.welfareProofReviewedAt), "M月d日 HH:mm")} 审核
+          {appointment.welfareProofReviewNote && `：${appointment.welfareProofReviewNote}`}
+        </span>
+      )}
+      {canReview && (
+        <>
+          {appointment.welfareProofFile && (
+            <Button variant="ghost" size="sm" asChild>
+              <a href={appointment.welfareProofFile} target="_blank" rel="noopener noreferrer" data-testid={`link-welfare-proof-${appointment.id}`}>
+                <FileText className="h-4 w-4 mr-1" />
+                查看证明
+              </a>
+            </Button>
+          )}
+          {appointment.welfareProofStatus !== "approved" && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => reviewMutation.mutate({ decision: "approved" })}
+              disabled={reviewMutation.isPending}
+              data-testid={`button-approve-proof-${appointment.id}`}
+            >
+              <Check className="h-4 w-4 mr-1" />
+              通过
+            </Button>
+          )}
+          {appointment.welfareProofFile && appointment.welfareProofStatus !== "rejected" && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsRejecting(true)}
+              disabled={reviewMutation.isPending}
+              data-testid={`button-reject-proof-${appointment.id}`}
+            >
+              <X className="h-4 w-4 mr-1" />
+              驳回
+            </Button>
+          )}
+        </>
+      )}
+
+      <Dialog open={isRejecting} onOpenChange={setIsRejecting}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>驳回证明材料</DialogTitle>
+            <DialogDescription>
+              驳回后该预约无法确认，原因会通过邮件告知{appointment.name}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor={`reject-note-${appointment.id}`}>原因</Label>
+            <Textarea
+              id={`reject-note-${appointment.id}`}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              placeholder="例如：证明材料不清晰，请补充学生证照片"
+              data-testid="input-reject-proof-note"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setIsRejecting(false)}>
+              取消
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => reviewMutation.mutate({ decision: "rejected", note: note.trim() })}
+              disabled={!note.trim() || reviewMutation.isPending}
+              data-testid="button-confirm-reject-proof"
+            >
+              {reviewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              驳回
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
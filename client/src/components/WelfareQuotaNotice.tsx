@@ -0,0 +1,46 @@
+import { useQuery } from "@tanstack/react-query";
+import { HeartHandshake } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import type { WelfareQuotaStatus } from "@shared/schema";
+
+const DAY_NAMES = ["周日", "周一", "周二", "周三", "周四", "周五", "周六"];
+
+interface WelfareQuotaNoticeProps {
+  date: string; // yyyy-MM-dd; the week and month containing it are shown
+}
+
+function formatDay(date: string): string {
+  return format(parseISO(date), "M月d日");
+}
+
+export default function WelfareQuotaNotice({ date }: WelfareQuotaNoticeProps) {
+  const { data: status } = useQuery<WelfareQuotaStatus>({
+    queryKey: ["/api/welfare-quota/status", date],
+  });
+
+  if (!status || (!status.weekly && !status.monthly && status.designatedSlots.length === 0)) {
+    return null;
+  }
+
+  const remaining = [
+    status.weekly &&
+      `${formatDay(status.weekly.from)}至${formatDay(status.weekly.to)}这一周剩余 ${status.weekly.remaining}/${status.weekly.limit} 个`,
+    status.monthly && `${parseISO(status.monthly.from).getMonth() + 1}月剩余 ${status.monthly.remaining}/${status.monthly.limit} 个`,
+  ].filter(Boolean);
+
+  return (
+    <div className="p-4 rounded-lg border bg-primary/5 border-primary/20 space-y-1 text-sm" data-testid="welfare-quota-notice">
+      <div className="flex items-center gap-2 font-medium">
+        <HeartHandshake className="h-4 w-4 text-primary" />
+        公益低价咨询名额有限
+      </div>
+      {remaining.length > 0 && <p className="text-muted-foreground">{remaining.join("，")}</p>}
+      {status.designatedSlots.length > 0 && (
+        <p className="text-muted-foreground">
+          开放时段：
+          {status.designatedSlots.map((slot) => `${DAY_NAMES[slot.dayOfWeek]} ${slot.time}`).join("、")}
+        </p>
+      )}
+    </div>
+  );
+}
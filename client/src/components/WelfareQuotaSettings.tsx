@@ -0,0 +1,183 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { HeartHandshake, Loader2, Plus, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { WelfareQuota } from "@shared/schema";
+
+const DAY_NAMES = ["周日", "周一", "周二", "周三", "周四", "周五", "周六"];
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const LIMIT_FIELDS: { key: "weeklyLimit" | "monthlyLimit"; label: string; max: number }[] = [
+  { key: "weeklyLimit", label: "每周名额", max: 100 },
+  { key: "monthlyLimit", label: "每月名额", max: 400 },
+];
+
+export default function WelfareQuotaSettings() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<WelfareQuota | null>(null);
+  const [newDay, setNewDay] = useState(1);
+  const [newTime, setNewTime] = useState("");
+
+  const { data: quota, isLoading } = useQuery<WelfareQuota>({
+    queryKey: ["/api/welfare-quota"],
+  });
+
+  useEffect(() => {
+    if (quota) {
+      setDraft(quota);
+    }
+  }, [quota]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: WelfareQuota): Promise<WelfareQuota> => {
+      const res = await apiRequest("PUT", "/api/welfare-quota", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/welfare-quota"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/welfare-quota/status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/available"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/availability"] });
+      toast({ title: "成功", description: "公益名额设置已保存" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "错误", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !draft) {
+    return (
+      <div className="flex justify-center p-8">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  const handleAddSlot = () => {
+    if (!newTime) return;
+    if (draft.designatedSlots.some((slot) => slot.dayOfWeek === newDay && slot.time === newTime)) {
+      toast({ title: "错误", description: "该时段已在列表中", variant: "destructive" });
+      return;
+    }
+    setDraft({ ...draft, designatedSlots: [...draft.designatedSlots, { dayOfWeek: newDay, time: newTime }] });
+    setNewTime("");
+  };
+
+  const handleSave = () => {
+    const invalid = LIMIT_FIELDS.find(
+      ({ key, max }) => !Number.isInteger(draft[key]) || draft[key] < 0 || draft[key] > max
+    );
+    if (invalid) {
+      toast({
+        title: "错误",
+        description: `${invalid.label}应为0到${invalid.max}之间的整数`,
+        variant: "destructive",
+      });
+      return;
+    }
+    saveMutation.mutate(draft);
+  };
+
+  const sortedSlots = [...draft.designatedSlots].sort(
+    (a, b) => WEEK_ORDER.indexOf(a.dayOfWeek) - WEEK_ORDER.indexOf(b.dayOfWeek) || a.time.localeCompare(b.time)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <HeartHandshake className="w-5 h-5" />
+          公益低价咨询名额
+        </CardTitle>
+        <CardDescription>
+          限制每周（周一至周日）和每月可预约的公益咨询次数，已取消的预约不计入；管理员代为预约时不受限制
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-2 gap-6">
+          {LIMIT_FIELDS.map(({ key, label, max }) => (
+            <div key={key} className="space-y-2">
+              <Label htmlFor={`welfare-${key}`}>{label}</Label>
+              <Input
+                id={`welfare-${key}`}
+                type="number"
+                min={0}
+                max={max}
+                value={Number.isNaN(draft[key]) ? "" : draft[key]}
+                onChange={(e) => setDraft({ ...draft, [key]: parseInt(e.target.value, 10) })}
+                data-testid={`input-welfare-${key}`}
+              />
+              <p className="text-xs text-muted-foreground">0 表示不限制</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <Label>指定时段</Label>
+          <p className="text-xs text-muted-foreground">
+            设置后，公益咨询只能预约以下每周时段；不设置则所有开放时段均可预约
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {sortedSlots.map((slot) => (
+              <Badge key={`${slot.dayOfWeek}-${slot.time}`} variant="secondary" className="gap-1">
+                {DAY_NAMES[slot.dayOfWeek]} {slot.time}
+                <button
+                  type="button"
+                  onClick={() =>
+                    setDraft({
+                      ...draft,
+                      designatedSlots: draft.designatedSlots.filter(
+                        (s) => s.dayOfWeek !== slot.dayOfWeek || s.time !== slot.time
+                      ),
+                    })
+                  }
+                  aria-label="移除"
+                  data-testid={`button-remove-welfare-slot-${slot.dayOfWeek}-${slot.time}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+            {sortedSlots.length === 0 && <span className="text-sm text-muted-foreground">未指定</span>}
+          </div>
+          <div className="flex flex-wrap gap-2 items-center">
+            <select
+              value={newDay}
+              onChange={(e) => setNewDay(Number(e.target.value))}
+              className="flex h-9 rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+              data-testid="select-welfare-slot-day"
+            >
+              {WEEK_ORDER.map((day) => (
+                <option key={day} value={day}>
+                  {DAY_NAMES[day]}
+                </option>
+              ))}
+            </select>
+            <Input
+              type="time"
+              value={newTime}
+              onChange={(e) => setNewTime(e.target.value)}
+              className="w-32"
+              data-testid="input-welfare-slot-time"
+            />
+            <Button variant="outline" size="sm" onClick={handleAddSlot} disabled={!newTime} data-testid="button-add-welfare-slot">
+              <Plus className="w-4 h-4 mr-1" />
+              添加
+            </Button>
+          </div>
+        </div>
+
+        <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-welfare-quota">
+          {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          保存设置
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
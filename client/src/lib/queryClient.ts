@@ -7,6 +7,15 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// JSON body of a response that made apiRequest throw (its message is "<status>: <body>"), if any
+export function getErrorBody<T>(error: Error): T | null {
+  try {
+    return JSON.parse(error.message.replace(/^\d{3}: /, "")) as T;
+  } catch {
+    return null;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
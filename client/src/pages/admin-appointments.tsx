@@ -5,14 +5,17 @@ import { Button } from "@/components/ui/button";
 import { LogOut, ArrowLeft, ClipboardList } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import AppointmentManager from "@/components/AppointmentManager";
+import WaitlistManager from "@/components/WaitlistManager";
+import PaymentReconciliation from "@/components/PaymentReconciliation";
 import { useEffect } from "react";
 import { useMutation } from "@tanstack/react-query";
+import type { AdminSessionInfo } from "@shared/permissions";
 
 export default function AdminAppointmentsPage() {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
 
-  const { data: authData, isLoading: authLoading } = useQuery<{ isAdmin: boolean }>({
+  const { data: authData, isLoading: authLoading } = useQuery<AdminSessionInfo>({
     queryKey: ["/api/admin/me"],
   });
 
@@ -79,7 +82,11 @@ export default function AdminAppointmentsPage() {
         </p>
       </div>
 
-      <AppointmentManager />
+      <div className="space-y-6">
+        <AppointmentManager />
+        {authData.permissions.includes("payments:reconcile") && <PaymentReconciliation />}
+        <WaitlistManager />
+      </div>
     </div>
   );
 }
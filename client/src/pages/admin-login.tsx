@@ -7,22 +7,36 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { Lock, User, Shield } from "lucide-react";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Lock, User, Shield, KeyRound } from "lucide-react";
 
 export default function AdminLoginPage() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  const [needsTwoFactor, setNeedsTwoFactor] = useState(false);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+
+  const onLoggedIn = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/me"] });
+    toast({ title: "登录成功", description: "欢迎回来" });
+    setLocation("/admin/settings");
+  };
 
   const loginMutation = useMutation({
     mutationFn: async (data: { username: string; password: string }) => {
-      return apiRequest("POST", "/api/admin/login", data);
+      const response = await apiRequest("POST", "/api/admin/login", data);
+      return response.json() as Promise<{ requiresTwoFactor?: boolean }>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/admin/me"] });
-      toast({ title: "登录成功", description: "欢迎回来" });
-      setLocation("/admin/settings");
+    onSuccess: (result) => {
+      if (result.requiresTwoFactor) {
+        setNeedsTwoFactor(true);
+        return;
+      }
+      onLoggedIn();
     },
     onError: (error: Error) => {
       toast({
@@ -33,6 +47,36 @@ export default function AdminLoginPage() {
     },
   });
 
+  const twoFactorMutation = useMutation({
+    mutationFn: async (data: { code?: string; recoveryCode?: string }) => {
+      return apiRequest("POST", "/api/admin/login/2fa", data);
+    },
+    onSuccess: onLoggedIn,
+    onError: (error: Error) => {
+      setCode("");
+      if (error.message.startsWith("429") || error.message.includes("请重新登录")) {
+        setNeedsTwoFactor(false);
+        setPassword("");
+      }
+      toast({
+        title: "验证失败",
+        description: error.message || "验证码错误",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleTwoFactorSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (useRecoveryCode) {
+      if (!recoveryCode.trim()) return;
+      twoFactorMutation.mutate({ recoveryCode: recoveryCode.trim() });
+    } else {
+      if (code.length !== 6) return;
+      twoFactorMutation.mutate({ code });
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!username.trim() || !password.trim()) {
@@ -57,50 +101,109 @@ export default function AdminLoginPage() {
           </div>
           <CardTitle className="text-2xl">管理员登录</CardTitle>
           <CardDescription>
-            请输入管理员账号和密码
+            {needsTwoFactor
+              ? useRecoveryCode
+                ? "请输入一个未使用过的恢复码"
+                : "请输入身份验证器应用中的6位验证码"
+              : "请输入管理员账号和密码"}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="username">用户名</Label>
-              <div className="relative">
-                <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                <Input
-                  id="username"
-                  type="text"
-                  placeholder="请输入用户名"
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  className="pl-10"
-                  data-testid="input-username"
-                />
+          {needsTwoFactor ? (
+            <form onSubmit={handleTwoFactorSubmit} className="space-y-4">
+              {useRecoveryCode ? (
+                <div className="space-y-2">
+                  <Label htmlFor="recovery-code">恢复码</Label>
+                  <div className="relative">
+                    <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      id="recovery-code"
+                      placeholder="XXXXX-XXXXX"
+                      value={recoveryCode}
+                      onChange={(e) => setRecoveryCode(e.target.value)}
+                      className="pl-10 font-mono"
+                      autoComplete="off"
+                      data-testid="input-recovery-code"
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP
+                    maxLength={6}
+                    value={code}
+                    onChange={setCode}
+                    autoFocus
+                    data-testid="input-totp-code"
+                  >
+                    <InputOTPGroup>
+                      {[0, 1, 2, 3, 4, 5].map((index) => (
+                        <InputOTPSlot key={index} index={index} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={twoFactorMutation.isPending}
+                data-testid="button-verify-totp"
+              >
+                {twoFactorMutation.isPending ? "验证中..." : "验证"}
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                data-testid="button-toggle-recovery"
+              >
+                {useRecoveryCode ? "使用验证码" : "无法使用验证器？使用恢复码"}
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">用户名</Label>
+                <div className="relative">
+                  <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="username"
+                    type="text"
+                    placeholder="请输入用户名"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    className="pl-10"
+                    data-testid="input-username"
+                  />
+                </div>
               </div>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">密码</Label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="请输入密码"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  className="pl-10"
-                  data-testid="input-password"
-                />
+              <div className="space-y-2">
+                <Label htmlFor="password">密码</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="请输入密码"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="pl-10"
+                    data-testid="input-password"
+                  />
+                </div>
               </div>
-            </div>
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={loginMutation.isPending}
-              data-testid="button-login"
-            >
-              {loginMutation.isPending ? "登录中..." : "登录"}
-            </Button>
-          </form>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={loginMutation.isPending}
+                data-testid="button-login"
+              >
+                {loginMutation.isPending ? "登录中..." : "登录"}
+              </Button>
+            </form>
+          )}
         </CardContent>
       </Card>
     </div>
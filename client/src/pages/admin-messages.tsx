@@ -6,12 +6,13 @@ import { LogOut, ArrowLeft, MessageSquare } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import MessageCenter from "@/components/MessageCenter";
 import { useEffect } from "react";
+import type { AdminSessionInfo } from "@shared/permissions";
 
 export default function AdminMessagesPage() {
     const { toast } = useToast();
     const [, setLocation] = useLocation();
 
-    const { data: authData, isLoading: authLoading } = useQuery<{ isAdmin: boolean }>({
+    const { data: authData, isLoading: authLoading } = useQuery<AdminSessionInfo>({
         queryKey: ["/api/admin/me"],
     });
 
@@ -78,7 +79,13 @@ export default function AdminMessagesPage() {
                 </p>
             </div>
 
-            <MessageCenter isAdmin={true} />
+            {authData.permissions.includes("messages:manage") ? (
+                <MessageCenter isAdmin={true} />
+            ) : (
+                <div className="text-center py-10 text-muted-foreground border rounded-md border-dashed">
+                    当前账号无权查看留言
+                </div>
+            )}
         </div>
     );
 }
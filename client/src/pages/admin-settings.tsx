@@ -9,25 +9,43 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Calendar, Clock, Plus, Trash2, CalendarX, Settings, Megaphone, MessageSquare, LogOut, ClipboardList } from "lucide-react";
+import { Calendar, Clock, Plus, Trash2, CalendarX, Settings, Megaphone, MessageSquare, LogOut, ClipboardList, ShieldCheck, Bell, CalendarCheck, CalendarCog } from "lucide-react";
 import { Link } from "wouter";
 import { useToast } from "@/hooks/use-toast";
-import { format } from "date-fns";
-import { zhCN } from "date-fns/locale";
-import type { ScheduleSetting, BlockedDate } from "@shared/schema";
+import type { ScheduleSetting } from "@shared/schema";
+import type { AdminSessionInfo, Permission } from "@shared/permissions";
 import AnnouncementList from "@/components/AnnouncementList";
 import MessageCenter from "@/components/MessageCenter";
 import AppointmentManager from "@/components/AppointmentManager";
+import TwoFactorSettings from "@/components/TwoFactorSettings";
+import ReminderSettings from "@/components/ReminderSettings";
+import BookingPolicySettings from "@/components/BookingPolicySettings";
+import WelfareQuotaSettings from "@/components/WelfareQuotaSettings";
+import AttendancePolicySettings from "@/components/AttendancePolicySettings";
+import FeeSettings from "@/components/FeeSettings";
+import SessionDurationSettings from "@/components/SessionDurationSettings";
+import ScheduleOverrideEditor from "@/components/ScheduleOverrideEditor";
+import BlockedPeriods from "@/components/BlockedPeriods";
+import ScheduleTemplateManager from "@/components/ScheduleTemplateManager";
+import ScheduleDayCopier from "@/components/ScheduleDayCopier";
+import HolidayCalendarImport from "@/components/HolidayCalendarImport";
 
 const DAY_NAMES = ["周日", "周一", "周二", "周三", "周四", "周五", "周六"];
 
+function formatSlotEnd(timeSlot: string, minutes: number): string {
+  const [hours, mins] = timeSlot.split(":").map(Number);
+  const end = hours * 60 + mins + minutes;
+  return `${String(Math.floor(end / 60) % 24).padStart(2, "0")}:${String(end % 60).padStart(2, "0")}`;
+}
+
 export default function AdminSettingsPage() {
   const { toast } = useToast();
   const [, setLocation] = useLocation();
 
-  const { data: authData, isLoading: authLoading } = useQuery<{ isAdmin: boolean }>({
+  const { data: authData, isLoading: authLoading } = useQuery<AdminSessionInfo>({
     queryKey: ["/api/admin/me"],
   });
+  const can = (permission: Permission) => !!authData?.permissions.includes(permission);
 
   const logoutMutation = useMutation({
     mutationFn: async () => {
@@ -50,22 +68,23 @@ export default function AdminSettingsPage() {
   }, [authLoading, authData, setLocation]);
   const [newSlotDay, setNewSlotDay] = useState(1);
   const [newSlotTime, setNewSlotTime] = useState("10:00");
-  const [newBlockedDate, setNewBlockedDate] = useState("");
-  const [newBlockedReason, setNewBlockedReason] = useState("");
+  const [newSlotDuration, setNewSlotDuration] = useState("60");
+  const [newSlotBuffer, setNewSlotBuffer] = useState("10");
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
 
   const { data: scheduleSettings = [], isLoading: loadingSettings } = useQuery<ScheduleSetting[]>({
     queryKey: ["/api/schedule-settings"],
-  });
-
-  const { data: blockedDates = [], isLoading: loadingBlocked } = useQuery<BlockedDate[]>({
-    queryKey: ["/api/blocked-dates"],
+    enabled: can("schedule:manage"),
   });
 
   const createSettingMutation = useMutation({
-    mutationFn: async (data: { dayOfWeek: number; timeSlot: string }) => {
+    mutationFn: async (data: { dayOfWeek: number; timeSlot: string; durationMinutes: number; bufferMinutes: number }) => {
       return apiRequest("POST", "/api/schedule-settings", {
+        templateId: selectedTemplateId,
         dayOfWeek: data.dayOfWeek,
         timeSlot: data.timeSlot,
+        durationMinutes: data.durationMinutes,
+        bufferMinutes: data.bufferMinutes,
         isOnlineAvailable: true,
         isOfflineAvailable: true,
         isActive: true,
@@ -106,35 +125,9 @@ export default function AdminSettingsPage() {
     },
   });
 
-  const createBlockedDateMutation = useMutation({
-    mutationFn: async (data: { date: string; reason?: string }) => {
-      return apiRequest("POST", "/api/blocked-dates", data);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/blocked-dates"] });
-      setNewBlockedDate("");
-      setNewBlockedReason("");
-      toast({ title: "成功", description: "已添加不可预约日期" });
-    },
-    onError: () => {
-      toast({ title: "错误", description: "添加日期失败", variant: "destructive" });
-    },
-  });
+  const templateSettings = scheduleSettings.filter((s) => s.templateId === selectedTemplateId);
 
-  const deleteBlockedDateMutation = useMutation({
-    mutationFn: async (id: string) => {
-      return apiRequest("DELETE", `/api/blocked-dates/${id}`);
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/blocked-dates"] });
-      toast({ title: "成功", description: "已删除不可预约日期" });
-    },
-    onError: () => {
-      toast({ title: "错误", description: "删除日期失败", variant: "destructive" });
-    },
-  });
-
-  const groupedSettings = scheduleSettings.reduce((acc, setting) => {
+  const groupedSettings = templateSettings.reduce((acc, setting) => {
     const day = setting.dayOfWeek;
     if (!acc[day]) acc[day] = [];
     acc[day].push(setting);
@@ -142,25 +135,37 @@ export default function AdminSettingsPage() {
   }, {} as Record<number, ScheduleSetting[]>);
 
   const handleAddSlot = () => {
-    const existing = scheduleSettings.find(
+    const existing = templateSettings.find(
       (s) => s.dayOfWeek === newSlotDay && s.timeSlot === newSlotTime
     );
     if (existing) {
       toast({ title: "错误", description: "该时段已存在", variant: "destructive" });
       return;
     }
-    createSettingMutation.mutate({ dayOfWeek: newSlotDay, timeSlot: newSlotTime });
-  };
-
-  const handleAddBlockedDate = () => {
-    if (!newBlockedDate) {
-      toast({ title: "错误", description: "请选择日期", variant: "destructive" });
+    const durationMinutes = parseInt(newSlotDuration, 10);
+    const bufferMinutes = parseInt(newSlotBuffer, 10);
+    if (!Number.isInteger(durationMinutes) || durationMinutes < 15 || durationMinutes > 480) {
+      toast({ title: "错误", description: "时段时长应为15到480分钟", variant: "destructive" });
       return;
     }
-    createBlockedDateMutation.mutate({ date: newBlockedDate, reason: newBlockedReason || undefined });
+    if (!Number.isInteger(bufferMinutes) || bufferMinutes < 0 || bufferMinutes > 120) {
+      toast({ title: "错误", description: "间隔时间应为0到120分钟", variant: "destructive" });
+      return;
+    }
+    createSettingMutation.mutate({ dayOfWeek: newSlotDay, timeSlot: newSlotTime, durationMinutes, bufferMinutes });
+  };
+
+  const handleSlotLengthChange = (
+    setting: ScheduleSetting,
+    field: "durationMinutes" | "bufferMinutes",
+    value: string
+  ) => {
+    const minutes = parseInt(value, 10);
+    if (!Number.isInteger(minutes) || minutes === setting[field]) return;
+    updateSettingMutation.mutate({ id: setting.id, data: { [field]: minutes } });
   };
 
-  if (authLoading || loadingSettings || loadingBlocked) {
+  if (authLoading || loadingSettings) {
     return (
       <div className="container mx-auto px-4 py-8 max-w-6xl">
         <div className="flex justify-center items-center min-h-[400px]">
@@ -174,6 +179,8 @@ export default function AdminSettingsPage() {
     return null;
   }
 
+  const defaultTab = can("schedule:manage") ? "schedule" : can("announcements:manage") ? "announcements" : "appointments";
+
   return (
     <div className="container mx-auto px-4 py-8 max-w-6xl">
       <div className="mb-8">
@@ -200,288 +207,341 @@ export default function AdminSettingsPage() {
         </p>
       </div>
 
-      <Tabs defaultValue="schedule" className="space-y-6">
+      <Tabs defaultValue={defaultTab} className="space-y-6">
         <TabsList className="flex-wrap h-auto gap-1">
-          <TabsTrigger value="schedule" className="gap-2" data-testid="tab-schedule">
-            <Clock className="w-4 h-4" />
-            咨询时间
-          </TabsTrigger>
-          <TabsTrigger value="blocked" className="gap-2" data-testid="tab-blocked">
-            <CalendarX className="w-4 h-4" />
-            不可预约日期
-          </TabsTrigger>
-          <TabsTrigger value="announcements" className="gap-2" data-testid="tab-announcements">
-            <Megaphone className="w-4 h-4" />
-            公告管理
-          </TabsTrigger>
-          <TabsTrigger value="messages" className="gap-2" data-testid="tab-messages">
-            <MessageSquare className="w-4 h-4" />
-            留言管理
-          </TabsTrigger>
-          <TabsTrigger value="appointments" className="gap-2" data-testid="tab-appointments">
-            <ClipboardList className="w-4 h-4" />
-            预约管理
+          {can("schedule:manage") && (
+            <>
+              <TabsTrigger value="schedule" className="gap-2" data-testid="tab-schedule">
+                <Clock className="w-4 h-4" />
+                咨询时间
+              </TabsTrigger>
+              <TabsTrigger value="overrides" className="gap-2" data-testid="tab-overrides">
+                <CalendarCog className="w-4 h-4" />
+                特定日期
+              </TabsTrigger>
+              <TabsTrigger value="blocked" className="gap-2" data-testid="tab-blocked">
+                <CalendarX className="w-4 h-4" />
+                不可预约日期
+              </TabsTrigger>
+              <TabsTrigger value="booking-policy" className="gap-2" data-testid="tab-booking-policy">
+                <CalendarCheck className="w-4 h-4" />
+                预约规则
+              </TabsTrigger>
+              <TabsTrigger value="reminders" className="gap-2" data-testid="tab-reminders">
+                <Bell className="w-4 h-4" />
+                提醒设置
+              </TabsTrigger>
+            </>
+          )}
+          {can("announcements:manage") && (
+            <TabsTrigger value="announcements" className="gap-2" data-testid="tab-announcements">
+              <Megaphone className="w-4 h-4" />
+              公告管理
+            </TabsTrigger>
+          )}
+          {can("messages:manage") && (
+            <TabsTrigger value="messages" className="gap-2" data-testid="tab-messages">
+              <MessageSquare className="w-4 h-4" />
+              留言管理
+            </TabsTrigger>
+          )}
+          {can("appointments:read") && (
+            <TabsTrigger value="appointments" className="gap-2" data-testid="tab-appointments">
+              <ClipboardList className="w-4 h-4" />
+              预约管理
+            </TabsTrigger>
+          )}
+          <TabsTrigger value="security" className="gap-2" data-testid="tab-security">
+            <ShieldCheck className="w-4 h-4" />
+            账号安全
           </TabsTrigger>
         </TabsList>
 
-        <TabsContent value="schedule" className="space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Plus className="w-5 h-5" />
-                添加新时段
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="flex flex-wrap gap-4 items-end">
-                <div className="space-y-2">
-                  <Label>星期</Label>
-                  <select
-                    value={newSlotDay}
-                    onChange={(e) => setNewSlotDay(Number(e.target.value))}
-                    className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
-                    data-testid="select-day"
+        {can("schedule:manage") && (
+          <TabsContent value="schedule" className="space-y-6">
+            <SessionDurationSettings />
+            <ScheduleTemplateManager selectedTemplateId={selectedTemplateId} onSelect={setSelectedTemplateId} />
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Plus className="w-5 h-5" />
+                  添加新时段
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-4 items-end">
+                  <div className="space-y-2">
+                    <Label>星期</Label>
+                    <select
+                      value={newSlotDay}
+                      onChange={(e) => setNewSlotDay(Number(e.target.value))}
+                      className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-1 text-sm shadow-sm transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring"
+                      data-testid="select-day"
+                    >
+                      {[0, 1, 2, 3, 4, 5, 6].map((day) => (
+                        <option key={day} value={day}>
+                          {DAY_NAMES[day]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>时间</Label>
+                    <Input
+                      type="time"
+                      value={newSlotTime}
+                      onChange={(e) => setNewSlotTime(e.target.value)}
+                      className="w-32"
+                      data-testid="input-time"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>时长（分钟）</Label>
+                    <Input
+                      type="number"
+                      min={15}
+                      max={480}
+                      value={newSlotDuration}
+                      onChange={(e) => setNewSlotDuration(e.target.value)}
+                      className="w-28"
+                      data-testid="input-slot-duration"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>间隔（分钟）</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={120}
+                      value={newSlotBuffer}
+                      onChange={(e) => setNewSlotBuffer(e.target.value)}
+                      className="w-28"
+                      data-testid="input-slot-buffer"
+                    />
+                  </div>
+                  <Button
+                    onClick={handleAddSlot}
+                    disabled={createSettingMutation.isPending}
+                    data-testid="button-add-slot"
                   >
-                    {[0, 1, 2, 3, 4, 5, 6].map((day) => (
-                      <option key={day} value={day}>
-                        {DAY_NAMES[day]}
-                      </option>
-                    ))}
-                  </select>
+                    <Plus className="w-4 h-4 mr-2" />
+                    添加
+                  </Button>
                 </div>
-                <div className="space-y-2">
-                  <Label>时间</Label>
-                  <Input
-                    type="time"
-                    value={newSlotTime}
-                    onChange={(e) => setNewSlotTime(e.target.value)}
-                    className="w-32"
-                    data-testid="input-time"
-                  />
-                </div>
-                <Button
-                  onClick={handleAddSlot}
-                  disabled={createSettingMutation.isPending}
-                  data-testid="button-add-slot"
-                >
-                  <Plus className="w-4 h-4 mr-2" />
-                  添加
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-
-          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {[1, 2, 3, 4, 5, 6, 0].map((day) => (
-              <Card key={day}>
-                <CardHeader className="pb-3">
-                  <CardTitle className="flex items-center gap-2 text-lg">
-                    <Calendar className="w-4 h-4" />
-                    {DAY_NAMES[day]}
-                    <Badge variant="secondary">
-                      {groupedSettings[day]?.filter((s) => s.isActive).length || 0} 个时段
-                    </Badge>
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3">
-                  {groupedSettings[day]?.length ? (
-                    groupedSettings[day]
-                      .sort((a, b) => a.timeSlot.localeCompare(b.timeSlot))
-                      .map((setting) => (
-                        <div
-                          key={setting.id}
-                          className={`p-3 rounded-md border ${setting.isActive
-                              ? "bg-card"
-                              : "bg-muted/50 opacity-60"
-                            }`}
-                          data-testid={`slot-${setting.id}`}
-                        >
-                          <div className="flex items-center justify-between mb-2">
-                            <div className="flex items-center gap-2">
-                              <Clock className="w-4 h-4 text-muted-foreground" />
-                              <span className="font-medium">{setting.timeSlot}</span>
-                            </div>
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              onClick={() => deleteSettingMutation.mutate(setting.id)}
-                              disabled={deleteSettingMutation.isPending}
-                              data-testid={`button-delete-${setting.id}`}
-                            >
-                              <Trash2 className="w-4 h-4 text-destructive" />
-                            </Button>
-                          </div>
-                          <div className="space-y-2 text-sm">
-                            <div className="flex items-center justify-between">
-                              <Label className="text-muted-foreground">启用</Label>
-                              <Switch
-                                checked={setting.isActive}
-                                onCheckedChange={(checked) =>
-                                  updateSettingMutation.mutate({
-                                    id: setting.id,
-                                    data: { isActive: checked },
-                                  })
-                                }
-                                data-testid={`switch-active-${setting.id}`}
-                              />
-                            </div>
-                            <div className="flex items-center justify-between">
-                              <Label className="text-muted-foreground">线上咨询</Label>
-                              <Switch
-                                checked={setting.isOnlineAvailable}
-                                onCheckedChange={(checked) =>
-                                  updateSettingMutation.mutate({
-                                    id: setting.id,
-                                    data: { isOnlineAvailable: checked },
-                                  })
-                                }
-                                data-testid={`switch-online-${setting.id}`}
-                              />
+              </CardContent>
+            </Card>
+
+            <ScheduleDayCopier templateId={selectedTemplateId} />
+
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+              {[1, 2, 3, 4, 5, 6, 0].map((day) => (
+                <Card key={day}>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="flex items-center gap-2 text-lg">
+                      <Calendar className="w-4 h-4" />
+                      {DAY_NAMES[day]}
+                      <Badge variant="secondary">
+                        {groupedSettings[day]?.filter((s) => s.isActive).length || 0} 个时段
+                      </Badge>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {groupedSettings[day]?.length ? (
+                      groupedSettings[day]
+                        .sort((a, b) => a.timeSlot.localeCompare(b.timeSlot))
+                        .map((setting) => (
+                          <div
+                            key={setting.id}
+                            className={`p-3 rounded-md border ${setting.isActive
+                                ? "bg-card"
+                                : "bg-muted/50 opacity-60"
+                              }`}
+                            data-testid={`slot-${setting.id}`}
+                          >
+                            <div className="flex items-center justify-between mb-2">
+                              <div className="flex items-center gap-2">
+                                <Clock className="w-4 h-4 text-muted-foreground" />
+                                <span className="font-medium">{setting.timeSlot}</span>
+                                <span className="text-sm text-muted-foreground">
+                                  – {formatSlotEnd(setting.timeSlot, setting.durationMinutes)}
+                                </span>
+                              </div>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => deleteSettingMutation.mutate(setting.id)}
+                                disabled={deleteSettingMutation.isPending}
+                                data-testid={`button-delete-${setting.id}`}
+                              >
+                                <Trash2 className="w-4 h-4 text-destructive" />
+                              </Button>
                             </div>
-                            <div className="flex items-center justify-between">
-                              <Label className="text-muted-foreground">线下咨询</Label>
-                              <Switch
-                                checked={setting.isOfflineAvailable}
-                                onCheckedChange={(checked) =>
-                                  updateSettingMutation.mutate({
-                                    id: setting.id,
-                                    data: { isOfflineAvailable: checked },
-                                  })
-                                }
-                                data-testid={`switch-offline-${setting.id}`}
-                              />
+                            <div className="space-y-2 text-sm">
+                              <div className="flex items-center justify-between">
+                                <Label className="text-muted-foreground">启用</Label>
+                                <Switch
+                                  checked={setting.isActive}
+                                  onCheckedChange={(checked) =>
+                                    updateSettingMutation.mutate({
+                                      id: setting.id,
+                                      data: { isActive: checked },
+                                    })
+                                  }
+                                  data-testid={`switch-active-${setting.id}`}
+                                />
+                              </div>
+                              <div className="flex items-center justify-between gap-2">
+                                <Label className="text-muted-foreground">时长 / 间隔（分钟）</Label>
+                                <div className="flex items-center gap-1">
+                                  <Input
+                                    key={`duration-${setting.durationMinutes}`}
+                                    type="number"
+                                    min={15}
+                                    max={480}
+                                    defaultValue={setting.durationMinutes}
+                                    onBlur={(e) => handleSlotLengthChange(setting, "durationMinutes", e.target.value)}
+                                    className="h-8 w-16"
+                                    data-testid={`input-duration-${setting.id}`}
+                                  />
+                                  <span className="text-muted-foreground">/</span>
+                                  <Input
+                                    key={`buffer-${setting.bufferMinutes}`}
+                                    type="number"
+                                    min={0}
+                                    max={120}
+                                    defaultValue={setting.bufferMinutes}
+                                    onBlur={(e) => handleSlotLengthChange(setting, "bufferMinutes", e.target.value)}
+                                    className="h-8 w-16"
+                                    data-testid={`input-buffer-${setting.id}`}
+                                  />
+                                </div>
+                              </div>
+                              <div className="flex items-center justify-between">
+                                <Label className="text-muted-foreground">线上咨询</Label>
+                                <Switch
+                                  checked={setting.isOnlineAvailable}
+                                  onCheckedChange={(checked) =>
+                                    updateSettingMutation.mutate({
+                                      id: setting.id,
+                                      data: { isOnlineAvailable: checked },
+                                    })
+                                  }
+                                  data-testid={`switch-online-${setting.id}`}
+                                />
+                              </div>
+                              <div className="flex items-center justify-between">
+                                <Label className="text-muted-foreground">线下咨询</Label>
+                                <Switch
+                                  checked={setting.isOfflineAvailable}
+                                  onCheckedChange={(checked) =>
+                                    updateSettingMutation.mutate({
+                                      id: setting.id,
+                                      data: { isOfflineAvailable: checked },
+                                    })
+                                  }
+                                  data-testid={`switch-offline-${setting.id}`}
+                                />
+                              </div>
                             </div>
                           </div>
-                        </div>
-                      ))
-                  ) : (
-                    <div className="text-center text-muted-foreground py-4">
-                      暂无时段
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        </TabsContent>
-
-        <TabsContent value="blocked" className="space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <CalendarX className="w-5 h-5" />
-                添加不可预约日期
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="flex flex-wrap gap-4 items-end">
-                <div className="space-y-2">
-                  <Label>日期</Label>
-                  <Input
-                    type="date"
-                    value={newBlockedDate}
-                    onChange={(e) => setNewBlockedDate(e.target.value)}
-                    min={format(new Date(), "yyyy-MM-dd")}
-                    className="w-40"
-                    data-testid="input-blocked-date"
-                  />
-                </div>
-                <div className="space-y-2 flex-1 min-w-[200px]">
-                  <Label>原因（可选）</Label>
-                  <Input
-                    placeholder="如：节假日、出差等"
-                    value={newBlockedReason}
-                    onChange={(e) => setNewBlockedReason(e.target.value)}
-                    data-testid="input-blocked-reason"
-                  />
-                </div>
-                <Button
-                  onClick={handleAddBlockedDate}
-                  disabled={createBlockedDateMutation.isPending}
-                  data-testid="button-add-blocked"
-                >
-                  <Plus className="w-4 h-4 mr-2" />
-                  添加
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader>
-              <CardTitle>不可预约日期列表</CardTitle>
-            </CardHeader>
-            <CardContent>
-              {blockedDates.length ? (
-                <div className="space-y-2">
-                  {blockedDates.map((blocked) => (
-                    <div
-                      key={blocked.id}
-                      className="flex items-center justify-between p-3 rounded-md border bg-card"
-                      data-testid={`blocked-${blocked.id}`}
-                    >
-                      <div className="flex items-center gap-3">
-                        <CalendarX className="w-4 h-4 text-destructive" />
-                        <span className="font-medium">
-                          {format(new Date(blocked.date), "yyyy年M月d日 EEEE", {
-                            locale: zhCN,
-                          })}
-                        </span>
-                        {blocked.reason && (
-                          <Badge variant="secondary">
-                            {blocked.reason}
-                          </Badge>
-                        )}
+                        ))
+                    ) : (
+                      <div className="text-center text-muted-foreground py-4">
+                        暂无时段
                       </div>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => deleteBlockedDateMutation.mutate(blocked.id)}
-                        disabled={deleteBlockedDateMutation.isPending}
-                        data-testid={`button-delete-blocked-${blocked.id}`}
-                      >
-                        <Trash2 className="w-4 h-4 text-destructive" />
-                      </Button>
-                    </div>
-                  ))}
-                </div>
-              ) : (
-                <div className="text-center text-muted-foreground py-8">
-                  暂无不可预约日期
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        </TabsContent>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          </TabsContent>
+        )}
 
-        <TabsContent value="announcements" className="space-y-6">
-          <div className="mb-4">
-            <h2 className="text-xl font-semibold mb-2">公告管理</h2>
-            <p className="text-muted-foreground text-sm">
-              发布和管理咨询师公告，来访者可以在公告栏页面查看
-            </p>
-          </div>
-          <AnnouncementList isAdmin={true} />
-        </TabsContent>
+        {can("schedule:manage") && (
+          <TabsContent value="overrides" className="space-y-6">
+            <ScheduleOverrideEditor />
+          </TabsContent>
+        )}
 
-        <TabsContent value="messages" className="space-y-6">
-          <div className="mb-4">
-            <h2 className="text-xl font-semibold mb-2">留言管理</h2>
-            <p className="text-muted-foreground text-sm">
-              查看和回复来访者留言
-            </p>
-          </div>
-          <MessageCenter isAdmin={true} />
-        </TabsContent>
+        {can("schedule:manage") && (
+          <TabsContent value="blocked" className="space-y-6">
+            <BlockedPeriods />
+            <HolidayCalendarImport />
+          </TabsContent>
+        )}
+
+        {can("schedule:manage") && (
+          <TabsContent value="booking-policy" className="space-y-6">
+            <div className="mb-4">
+              <h2 className="text-xl font-semibold mb-2">预约规则</h2>
+              <p className="text-muted-foreground text-sm">
+                设置可预约范围、最短提前时间、更改/取消截止时间、每人预约上限、公益咨询名额、出勤规则和收费
+              </p>
+            </div>
+            <BookingPolicySettings />
+            <WelfareQuotaSettings />
+            <AttendancePolicySettings />
+            <FeeSettings />
+          </TabsContent>
+        )}
+
+        {can("schedule:manage") && (
+          <TabsContent value="reminders" className="space-y-6">
+            <div className="mb-4">
+              <h2 className="text-xl font-semibold mb-2">提醒设置</h2>
+              <p className="text-muted-foreground text-sm">
+                设置咨询开始前向来访者发送提醒邮件的时间
+              </p>
+            </div>
+            <ReminderSettings />
+          </TabsContent>
+        )}
+
+        {can("announcements:manage") && (
+          <TabsContent value="announcements" className="space-y-6">
+            <div className="mb-4">
+              <h2 className="text-xl font-semibold mb-2">公告管理</h2>
+              <p className="text-muted-foreground text-sm">
+                发布和管理咨询师公告，来访者可以在公告栏页面查看
+              </p>
+            </div>
+            <AnnouncementList isAdmin={true} />
+          </TabsContent>
+        )}
+
+        {can("messages:manage") && (
+          <TabsContent value="messages" className="space-y-6">
+            <div className="mb-4">
+              <h2 className="text-xl font-semibold mb-2">留言管理</h2>
+              <p className="text-muted-foreground text-sm">
+                查看和回复来访者留言
+              </p>
+            </div>
+            <MessageCenter isAdmin={true} />
+          </TabsContent>
+        )}
+
+        {can("appointments:read") && (
+          <TabsContent value="appointments" className="space-y-6">
+            <div className="mb-4">
+              <h2 className="text-xl font-semibold mb-2">预约管理</h2>
+              <p className="text-muted-foreground text-sm">
+                查看和管理来访者的预约申请
+              </p>
+            </div>
+            <AppointmentManager />
+          </TabsContent>
+        )}
 
-        <TabsContent value="appointments" className="space-y-6">
+        <TabsContent value="security" className="space-y-6">
           <div className="mb-4">
-            <h2 className="text-xl font-semibold mb-2">预约管理</h2>
+            <h2 className="text-xl font-semibold mb-2">账号安全</h2>
             <p className="text-muted-foreground text-sm">
-              查看和管理来访者的预约申请
+              为您的管理账号设置两步验证
             </p>
           </div>
-          <AppointmentManager />
+          <TwoFactorSettings />
         </TabsContent>
       </Tabs>
     </div>
@@ -25,18 +25,24 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-import { Calendar, Clock, MapPin, Search, Edit, X, AlertCircle, CheckCircle, Loader2, ArrowRight, User } from "lucide-react";
-import { format, parseISO, isAfter, setHours, setMinutes, subDays, addDays, isBefore, startOfDay } from "date-fns";
+import { Calendar, Clock, MapPin, Search, Edit, X, AlertCircle, CheckCircle, Loader2, ArrowRight, User, CreditCard } from "lucide-react";
+import { format, parseISO, isAfter, isBefore, startOfDay } from "date-fns";
 import { zhCN } from "date-fns/locale";
 import Footer from "@/components/Footer";
+import EmailVerificationNotice from "@/components/EmailVerificationNotice";
+import PaymentProofUpload from "@/components/PaymentProofUpload";
+import ReceiptDownloadButton from "@/components/ReceiptDownloadButton";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import type { Appointment } from "@shared/schema";
+import { apiRequest, queryClient, getErrorBody } from "@/lib/queryClient";
+import type { Appointment, BookingPolicy, PublicPaymentSettings } from "@shared/schema";
+import { describeChangeCutoff, getChangeDeadline, getLatestBookableDate } from "@shared/bookingPolicy";
+import { formatAmount, getAppointmentFee } from "@shared/payments";
 
 interface AuthUser {
   id: string;
   email: string | null;
   name: string | null;
+  emailVerified: boolean;
 }
 
 interface AuthResponse {
@@ -56,15 +62,8 @@ interface ScheduleResponse {
   isBlocked: boolean;
 }
 
-function getModificationDeadline(appointmentDate: string): Date {
-  const date = parseISO(appointmentDate);
-  const deadline = subDays(date, 1);
-  return setMinutes(setHours(deadline, 22), 0);
-}
-
-function canModifyAppointment(appointmentDate: string): boolean {
-  const deadline = getModificationDeadline(appointmentDate);
-  return isAfter(deadline, new Date());
+function canModifyAppointment(policy: BookingPolicy, appointmentDate: string): boolean {
+  return isAfter(getChangeDeadline(policy, appointmentDate), new Date());
 }
 
 function getStatusBadge(status: string) {
@@ -79,14 +78,24 @@ function getStatusBadge(status: string) {
       return <Badge variant="outline" className="text-muted-foreground" data-testid="badge-status-cancelled">已取消</Badge>;
     case "completed":
       return <Badge className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400 border-green-200 dark:border-green-800" data-testid="badge-status-completed">咨询结束</Badge>;
+    case "no_show":
+      return <Badge variant="outline" className="text-muted-foreground" data-testid="badge-status-no-show">未到场</Badge>;
     default:
       return <Badge variant="outline">{status}</Badge>;
   }
 }
 
+// Magic links from the access email open this page with ?email=...&access=<token>
+function getGuestAccessFromUrl() {
+  const params = new URLSearchParams(window.location.search);
+  return { email: params.get("email") || "", token: params.get("access") || "" };
+}
+
 export default function AppointmentsPage() {
+  const [guestAccess] = useState(getGuestAccessFromUrl);
   const [email, setEmail] = useState("");
-  const [searchedEmail, setSearchedEmail] = useState("");
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null);
+  const searchedEmail = guestAccess.token ? guestAccess.email : "";
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
   const [modifyDialogOpen, setModifyDialogOpen] = useState(false);
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
@@ -101,10 +110,28 @@ export default function AppointmentsPage() {
   const isLoggedIn = authData?.isLoggedIn;
   const user = authData?.user;
 
+  const { data: policy } = useQuery<BookingPolicy>({
+    queryKey: ["/api/booking-policy"],
+  });
+
+  const { data: paymentSettings } = useQuery<PublicPaymentSettings>({
+    queryKey: ["/api/payment-settings"],
+  });
+
+  // The payment provider sends the client back here with ?payment=success|cancelled
+  useEffect(() => {
+    const payment = new URLSearchParams(window.location.search).get("payment");
+    if (payment === "success") {
+      toast({ title: "付款已提交", description: "到账后预约状态会自动更新，请稍后刷新查看" });
+    } else if (payment === "cancelled") {
+      toast({ title: "付款未完成", description: "请在付款期限前重新支付，逾期预约将自动取消", variant: "destructive" });
+    }
+  }, [toast]);
+
   const dateString = newDate ? format(newDate, "yyyy-MM-dd") : null;
 
   const { data: scheduleData, isLoading: loadingSlots } = useQuery<ScheduleResponse>({
-    queryKey: ["/api/schedule/available", dateString],
+    queryKey: ["/api/schedule/available", `${dateString}?type=${selectedAppointment?.consultationType ?? "regular"}`],
     enabled: !!dateString && modifyDialogOpen,
   });
 
@@ -151,15 +178,33 @@ export default function AppointmentsPage() {
 
   const timeSlots = getAvailableSlots();
 
+  const guestAppointmentsKey = `/api/appointments/by-email/${encodeURIComponent(searchedEmail)}?token=${encodeURIComponent(guestAccess.token)}`;
+
   const { data: appointments, isLoading, error } = useQuery<Appointment[]>({
-    queryKey: [`/api/appointments/by-email/${encodeURIComponent(searchedEmail)}`],
+    queryKey: [guestAppointmentsKey],
     enabled: !!searchedEmail,
   });
 
+  const accessLinkMutation = useMutation({
+    mutationFn: async (email: string) => {
+      return apiRequest("POST", "/api/auth/access-link", { email, scope: "appointments" });
+    },
+    onSuccess: (_, email) => {
+      setLinkSentTo(email);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "发送失败",
+        description: error.message || "请稍后重试",
+        variant: "destructive",
+      });
+    },
+  });
+
   const cancelMutation = useMutation({
-    mutationFn: async ({ appointmentId, email }: { appointmentId: string; email: string }) => {
+    mutationFn: async ({ appointmentId }: { appointmentId: string }) => {
       const response = await apiRequest("POST", `/api/appointments/${appointmentId}/cancel`, {
-        verifyEmail: email,
+        accessToken: accessTokenForMutation,
       });
       return response.json();
     },
@@ -167,9 +212,10 @@ export default function AppointmentsPage() {
       if (isLoggedIn) {
         queryClient.invalidateQueries({ queryKey: ["/api/appointments/my"] });
       } else {
-        queryClient.invalidateQueries({ queryKey: [`/api/appointments/by-email/${encodeURIComponent(searchedEmail)}`] });
+        queryClient.invalidateQueries({ queryKey: [guestAppointmentsKey] });
       }
       queryClient.invalidateQueries({ queryKey: ["/api/schedule/available"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/availability"] });
       toast({
         title: "预约已取消",
         description: "您的预约已成功取消",
@@ -180,21 +226,40 @@ export default function AppointmentsPage() {
     onError: (error: any) => {
       toast({
         title: "取消失败",
-        description: error?.message || "取消截止时间已过（咨询前一天22:00前）",
+        description: error?.message || (policy ? `取消截止时间已过（${describeChangeCutoff(policy)}）` : "取消预约失败"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const checkoutMutation = useMutation({
+    mutationFn: async (appointmentId: string): Promise<{ url: string }> => {
+      const response = await apiRequest("POST", `/api/appointments/${appointmentId}/checkout`, {
+        accessToken: accessTokenForMutation,
+      });
+      return response.json();
+    },
+    onSuccess: ({ url }) => {
+      window.location.href = url;
+    },
+    onError: (error: Error) => {
+      const body = getErrorBody<{ message?: string }>(error);
+      toast({
+        title: "无法支付",
+        description: body?.message || "发起支付失败，请稍后重试",
         variant: "destructive",
       });
     },
   });
 
   const modifyMutation = useMutation({
-    mutationFn: async ({ appointmentId, email, appointmentDate, appointmentTime }: { 
+    mutationFn: async ({ appointmentId, appointmentDate, appointmentTime }: { 
       appointmentId: string; 
-      email: string; 
       appointmentDate: string;
       appointmentTime: string;
     }) => {
       const response = await apiRequest("PATCH", `/api/appointments/${appointmentId}`, {
-        verifyEmail: email,
+        accessToken: accessTokenForMutation,
         appointmentDate,
         appointmentTime,
       });
@@ -204,9 +269,10 @@ export default function AppointmentsPage() {
       if (isLoggedIn) {
         queryClient.invalidateQueries({ queryKey: ["/api/appointments/my"] });
       } else {
-        queryClient.invalidateQueries({ queryKey: [`/api/appointments/by-email/${encodeURIComponent(searchedEmail)}`] });
+        queryClient.invalidateQueries({ queryKey: [guestAppointmentsKey] });
       }
       queryClient.invalidateQueries({ queryKey: ["/api/schedule/available"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/schedule/availability"] });
       toast({
         title: "预约已更改",
         description: "您的预约时间已成功更新",
@@ -228,7 +294,7 @@ export default function AppointmentsPage() {
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     if (email.trim()) {
-      setSearchedEmail(email.trim());
+      accessLinkMutation.mutate(email.trim());
     }
   };
 
@@ -243,19 +309,15 @@ export default function AppointmentsPage() {
   };
 
   const confirmCancel = () => {
-    if (selectedAppointment && emailForMutation) {
-      cancelMutation.mutate({ 
-        appointmentId: selectedAppointment.id, 
-        email: emailForMutation 
-      });
+    if (selectedAppointment) {
+      cancelMutation.mutate({ appointmentId: selectedAppointment.id });
     }
   };
 
   const confirmModify = () => {
-    if (selectedAppointment && newDate && newTime && emailForMutation) {
+    if (selectedAppointment && newDate && newTime) {
       modifyMutation.mutate({
         appointmentId: selectedAppointment.id,
-        email: emailForMutation,
         appointmentDate: format(newDate, "yyyy-MM-dd"),
         appointmentTime: newTime,
       });
@@ -264,7 +326,7 @@ export default function AppointmentsPage() {
 
   const isDateDisabled = (date: Date) => {
     const today = startOfDay(new Date());
-    return isBefore(date, addDays(today, 1));
+    return isBefore(date, today) || (!!policy && isAfter(date, getLatestBookableDate(policy)));
   };
 
   const hasChanges = () => {
@@ -277,7 +339,8 @@ export default function AppointmentsPage() {
   const displayAppointments = isLoggedIn ? myAppointments : appointments;
   const displayLoading = isLoggedIn ? loadingMyAppointments : isLoading;
   const showResults = isLoggedIn || searchedEmail;
-  const emailForMutation = isLoggedIn && user?.email ? user.email : searchedEmail;
+  // Signed-in users are authorized by their session
+  const accessTokenForMutation = isLoggedIn ? undefined : guestAccess.token;
 
   if (authLoading) {
     return (
@@ -304,11 +367,15 @@ export default function AppointmentsPage() {
               </p>
             ) : (
               <p className="text-muted-foreground">
-                登录后可自动查看您的预约记录，或输入邮箱地址查询
+                登录后可自动查看您的预约记录，或输入预约邮箱获取查询链接
               </p>
             )}
           </div>
 
+          {isLoggedIn && user && !user.emailVerified && (
+            <EmailVerificationNotice email={user.email} />
+          )}
+
           {!isLoggedIn && (
             <>
               <Card>
@@ -325,11 +392,21 @@ export default function AppointmentsPage() {
                         data-testid="input-email-search"
                       />
                     </div>
-                    <Button type="submit" disabled={!email.trim()} data-testid="button-search">
-                      <Search className="mr-2 h-4 w-4" />
-                      查询预约
+                    <Button type="submit" disabled={!email.trim() || accessLinkMutation.isPending} data-testid="button-search">
+                      {accessLinkMutation.isPending ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <Search className="mr-2 h-4 w-4" />
+                      )}
+                      发送查询链接
                     </Button>
                   </form>
+                  {linkSentTo && (
+                    <p className="mt-3 text-sm text-muted-foreground flex items-center gap-2" data-testid="text-access-link-sent">
+                      <CheckCircle className="h-4 w-4 text-primary shrink-0" />
+                      如果 {linkSentTo} 有预约记录，查询链接已发送至该邮箱，请点击邮件中的链接查看和管理预约（7天内有效）
+                    </p>
+                  )}
                 </CardContent>
               </Card>
 
@@ -368,7 +445,7 @@ export default function AppointmentsPage() {
             <Card>
               <CardContent className="py-8 text-center">
                 <AlertCircle className="h-12 w-12 mx-auto text-destructive mb-4" />
-                <p className="text-muted-foreground">查询失败，请稍后重试</p>
+                <p className="text-muted-foreground">查询链接无效或已过期，请重新获取</p>
               </CardContent>
             </Card>
           )}
@@ -381,9 +458,12 @@ export default function AppointmentsPage() {
                     {isLoggedIn ? "我的预约" : "查询结果"} <span className="text-muted-foreground font-normal">({displayAppointments.length} 条记录)</span>
                   </h2>
                   {displayAppointments.map((appointment) => {
-                    const canModify = canModifyAppointment(appointment.appointmentDate);
+                    const canModify = !!policy && canModifyAppointment(policy, appointment.appointmentDate);
                     const isActiveAppointment = appointment.status === "pending" || appointment.status === "pending_payment" || appointment.status === "confirmed";
-                    const deadline = getModificationDeadline(appointment.appointmentDate);
+                    const deadline = policy ? getChangeDeadline(policy, appointment.appointmentDate) : null;
+                    const fee = paymentSettings ? getAppointmentFee(paymentSettings, appointment) : 0;
+                    // Whether it was actually paid is checked by the server when the receipt is requested
+                    const mayHaveReceipt = fee > 0 && (appointment.status === "confirmed" || appointment.status === "completed" || appointment.status === "no_show");
                     
                     return (
                       <Card key={appointment.id} data-testid={`card-appointment-${appointment.id}`}>
@@ -441,15 +521,46 @@ export default function AppointmentsPage() {
                               <MapPin className="h-4 w-4" />
                               <span>{appointment.consultationMode === "online" ? "线上咨询" : "线下咨询"}</span>
                             </div>
+                            {mayHaveReceipt && (
+                              <div>
+                                <ReceiptDownloadButton appointmentId={appointment.id} accessToken={accessTokenForMutation} />
+                              </div>
+                            )}
                             {appointment.status === "pending_payment" && (
                               <div className="flex items-start gap-2 text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 rounded-md p-2 mt-2">
                                 <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
-                                <span className="text-xs">
-                                  请确认咨询师的留言，并在咨询开始前24小时完成支付
-                                </span>
+                                <div className="space-y-2">
+                                  <span className="text-xs block">
+                                    {appointment.paymentDueAt
+                                      ? `请在 ${format(new Date(appointment.paymentDueAt), "M月d日 HH:mm", { locale: zhCN })} 前完成付款，逾期预约将自动取消`
+                                      : "请确认咨询师的留言，并在咨询开始前24小时完成支付"}
+                                  </span>
+                                  {fee > 0 && paymentSettings?.onlinePaymentAvailable && (
+                                    <Button
+                                      size="sm"
+                                      onClick={() => checkoutMutation.mutate(appointment.id)}
+                                      disabled={checkoutMutation.isPending}
+                                      data-testid={`button-pay-${appointment.id}`}
+                                    >
+                                      {checkoutMutation.isPending ? (
+                                        <Loader2 className="mr-1 h-4 w-4 animate-spin" />
+                                      ) : (
+                                        <CreditCard className="mr-1 h-4 w-4" />
+                                      )}
+                                      在线支付 {formatAmount(fee)}
+                                    </Button>
+                                  )}
+                                  {paymentSettings?.manualPaymentInstructions && (
+                                    <PaymentProofUpload
+                                      appointment={appointment}
+                                      accessToken={accessTokenForMutation}
+                                      instructions={paymentSettings.manualPaymentInstructions}
+                                    />
+                                  )}
+                                </div>
                               </div>
                             )}
-                            {isActiveAppointment && !canModify && (
+                            {isActiveAppointment && deadline && !canModify && (
                               <div className="flex items-center gap-2 text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 rounded-md p-2 mt-2">
                                 <AlertCircle className="h-4 w-4 flex-shrink-0" />
                                 <span className="text-xs">
@@ -457,7 +568,7 @@ export default function AppointmentsPage() {
                                 </span>
                               </div>
                             )}
-                            {isActiveAppointment && canModify && (
+                            {isActiveAppointment && deadline && canModify && (
                               <div className="flex items-center gap-2 text-muted-foreground bg-muted/50 rounded-md p-2 mt-2">
                                 <AlertCircle className="h-4 w-4 flex-shrink-0" />
                                 <span className="text-xs">
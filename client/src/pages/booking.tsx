@@ -1,6 +1,6 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useSearch } from "wouter";
-import { useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -17,23 +17,59 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { ArrowLeft, Sparkles, Heart, Loader2, Monitor, MapPin } from "lucide-react";
+import { ArrowLeft, Sparkles, Heart, Loader2, Monitor, MapPin, Timer } from "lucide-react";
 import BookingCalendar from "@/components/BookingCalendar";
 import IntakeForm from "@/components/IntakeForm";
 import BookingConfirmation from "@/components/BookingConfirmation";
+import SuggestedSlots, { type SuggestedSlot } from "@/components/SuggestedSlots";
+import WaitlistJoin from "@/components/WaitlistJoin";
+import WelfareQuotaNotice from "@/components/WelfareQuotaNotice";
 import Footer from "@/components/Footer";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, getErrorBody } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
+import type { SessionDurations } from "@shared/schema";
 
 type BookingStep = "select-type" | "select-mode" | "welfare-confirm" | "select-time" | "fill-form" | "confirmation";
 type ConsultationType = "regular" | "welfare";
 type ConsultationMode = "online" | "offline";
 
+interface SlotHold {
+  id: string;
+  expiresAt: string;
+}
+
+// A slot offered from the waitlist, as returned for a claim link
+interface WaitlistOffer {
+  name: string;
+  contactEmail: string;
+  contactPhone: string | null;
+  consultationType: ConsultationType;
+  consultationMode: ConsultationMode;
+  appointmentDate: string;
+  appointmentTime: string;
+  holdId: string;
+  expiresAt: string;
+}
+
+// 409 body when the chosen slot cannot be held or booked
+interface SlotConflict {
+  message?: string;
+  alternatives?: SuggestedSlot[];
+}
+
+function formatCountdown(ms: number) {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
 export default function BookingPage() {
   const search = useSearch();
   const params = new URLSearchParams(search);
   const initialType = params.get("type") as ConsultationType | null;
+  const claimToken = params.get("claim");
   const { toast } = useToast();
   
   const [step, setStep] = useState<BookingStep>(initialType ? (initialType === "welfare" ? "welfare-confirm" : "select-mode") : "select-type");
@@ -43,6 +79,72 @@ export default function BookingPage() {
   const [selectedTime, setSelectedTime] = useState<string | null>(null);
   const [formData, setFormData] = useState<any>(null);
   const [showWelfareConfirm, setShowWelfareConfirm] = useState(initialType === "welfare");
+  const [slotHold, setSlotHold] = useState<SlotHold | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // Open slots offered after the chosen one was rejected
+  const [alternatives, setAlternatives] = useState<SuggestedSlot[] | null>(null);
+
+  const { data: sessionDurations } = useQuery<SessionDurations>({
+    queryKey: ["/api/session-durations"],
+  });
+
+  // Arriving from a waitlist claim link: the offered slot is already held, go straight to the form
+  const { data: waitlistOffer, error: waitlistOfferError } = useQuery<WaitlistOffer>({
+    queryKey: ["/api/waitlist/claim", claimToken],
+    enabled: !!claimToken,
+  });
+
+  useEffect(() => {
+    if (!waitlistOffer) return;
+    setConsultationType(waitlistOffer.consultationType);
+    setConsultationMode(waitlistOffer.consultationMode);
+    setShowWelfareConfirm(false);
+    setSelectedDate(parseISO(waitlistOffer.appointmentDate));
+    setSelectedTime(waitlistOffer.appointmentTime);
+    setSlotHold({ id: waitlistOffer.holdId, expiresAt: waitlistOffer.expiresAt });
+    setNow(Date.now());
+    setStep("fill-form");
+  }, [waitlistOffer]);
+
+  useEffect(() => {
+    if (!waitlistOfferError) return;
+    toast({
+      title: "候补链接已失效",
+      description: "该时段的保留已过期或已被领取，请重新选择时间",
+      variant: "destructive",
+    });
+  }, [waitlistOfferError]);
+
+  const nextAvailableKey = `/api/schedule/next-available?mode=${consultationMode}&type=${consultationType}&limit=3`;
+  const { data: nextAvailable } = useQuery<{ slots: SuggestedSlot[] }>({
+    queryKey: [nextAvailableKey],
+    enabled: step === "select-time" && !!consultationType && !!consultationMode,
+  });
+
+  const refreshAvailability = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule/available"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule/availability"] });
+    queryClient.invalidateQueries({ queryKey: [nextAvailableKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/welfare-quota/status"] });
+  };
+
+  const showConflict = (error: Error, title: string) => {
+    const conflict = error.message.startsWith("409") ? getErrorBody<SlotConflict>(error) : null;
+    setAlternatives(conflict?.alternatives ?? null);
+    toast({
+      title,
+      description: conflict?.message ?? "操作失败，请稍后重试",
+      variant: "destructive",
+    });
+  };
+
+  useEffect(() => {
+    if (!slotHold) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [slotHold]);
+
+  const holdRemainingMs = slotHold ? new Date(slotHold.expiresAt).getTime() - now : 0;
 
   const getStepProgress = () => {
     if (consultationType === "welfare") {
@@ -82,6 +184,40 @@ export default function BookingPage() {
     return steps.indexOf(step);
   };
 
+  const holdSlotMutation = useMutation({
+    mutationFn: async (data: {
+      appointmentDate: string;
+      appointmentTime: string;
+      consultationType: ConsultationType;
+      consultationMode: ConsultationMode;
+    }) => {
+      const response = await apiRequest("POST", "/api/schedule/holds", data);
+      return response.json() as Promise<SlotHold>;
+    },
+    onSuccess: (hold) => {
+      setSlotHold(hold);
+      setNow(Date.now());
+      setAlternatives(null);
+      setStep("fill-form");
+      refreshAvailability();
+    },
+    onError: (error: Error) => {
+      refreshAvailability();
+      showConflict(error, "无法保留该时段");
+    },
+  });
+
+  const releaseSlotHold = () => {
+    if (!slotHold) return;
+    // A slot offered from the waitlist stays held for the client until the offer expires
+    if (slotHold.id !== waitlistOffer?.holdId) {
+      apiRequest("DELETE", `/api/schedule/holds/${slotHold.id}`).catch(() => {});
+    }
+    setSlotHold(null);
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule/available"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/schedule/availability"] });
+  };
+
   const createAppointmentMutation = useMutation({
     mutationFn: async (data: any) => {
       const response = await apiRequest("POST", "/api/appointments", data);
@@ -89,23 +225,19 @@ export default function BookingPage() {
     },
     onSuccess: (result) => {
       setFormData(result);
+      setSlotHold(null);
+      setAlternatives(null);
       setStep("confirmation");
-      queryClient.invalidateQueries({ queryKey: ["/api/schedule/available"] });
+      refreshAvailability();
       queryClient.invalidateQueries({ queryKey: ["/api/appointments"] });
       toast({
         title: "预约成功",
         description: "您的预约申请已提交，咨询师将尽快确认",
       });
     },
-    onError: (error: any) => {
-      const message = error.message.includes("409") 
-        ? "该时间段已被预约，请选择其他时间" 
-        : "预约失败，请稍后重试";
-      toast({
-        title: "预约失败",
-        description: message,
-        variant: "destructive",
-      });
+    onError: (error: Error) => {
+      refreshAvailability();
+      showConflict(error, "预约失败");
     },
   });
 
@@ -145,11 +277,31 @@ export default function BookingPage() {
   const handleSelectSlot = (date: Date, time: string) => {
     setSelectedDate(date);
     setSelectedTime(time);
+    setAlternatives(null);
+  };
+
+  // Holds a suggested slot in place of the rejected one; the intake form keeps what was entered
+  const handlePickAlternative = (slot: SuggestedSlot) => {
+    if (!consultationType || !consultationMode) return;
+    releaseSlotHold();
+    setSelectedDate(parseISO(slot.date));
+    setSelectedTime(slot.time);
+    holdSlotMutation.mutate({
+      appointmentDate: slot.date,
+      appointmentTime: slot.time,
+      consultationType,
+      consultationMode,
+    });
   };
 
   const handleContinueToForm = () => {
-    if (selectedDate && selectedTime) {
-      setStep("fill-form");
+    if (selectedDate && selectedTime && consultationType && consultationMode) {
+      holdSlotMutation.mutate({
+        appointmentDate: format(selectedDate, "yyyy-MM-dd"),
+        appointmentTime: selectedTime,
+        consultationType,
+        consultationMode,
+      });
     }
   };
 
@@ -179,6 +331,9 @@ export default function BookingPage() {
       dataCollectionConsent: data.dataCollectionConsent,
       confidentialityConsent: data.confidentialityConsent,
       welfareProofDescription: data.welfareProofDescription || null,
+      welfareProofFile: data.welfareProofFile || null,
+      // The server books the slot this session holds, or the one offered through the claim link
+      ...(slotHold && slotHold.id === waitlistOffer?.holdId && { claimToken }),
     };
     
     createAppointmentMutation.mutate(appointmentData);
@@ -201,6 +356,7 @@ export default function BookingPage() {
         setStep("select-mode");
       }
     } else if (step === "fill-form") {
+      releaseSlotHold();
       setStep("select-time");
     }
   };
@@ -256,7 +412,9 @@ export default function BookingPage() {
                   <CardContent>
                     <div className="flex items-baseline gap-2 mb-6">
                       <span className="text-3xl font-semibold">¥300</span>
-                      <span className="text-muted-foreground">/ 50分钟</span>
+                      {sessionDurations && (
+                        <span className="text-muted-foreground">/ {sessionDurations.regular}分钟</span>
+                      )}
                     </div>
                     <Button className="w-full">
                       选择此类型
@@ -281,7 +439,9 @@ export default function BookingPage() {
                   <CardContent>
                     <div className="flex items-baseline gap-2 mb-6">
                       <span className="text-3xl font-semibold">¥150</span>
-                      <span className="text-muted-foreground">/ 50分钟</span>
+                      {sessionDurations && (
+                        <span className="text-muted-foreground">/ {sessionDurations.welfare}分钟</span>
+                      )}
                     </div>
                     <Button variant="outline" className="w-full">
                       选择此类型
@@ -411,6 +571,27 @@ export default function BookingPage() {
                   </div>
                 </div>
 
+                {consultationType === "welfare" && (
+                  <WelfareQuotaNotice date={format(selectedDate ?? new Date(), "yyyy-MM-dd")} />
+                )}
+
+                {alternatives ? (
+                  <SuggestedSlots
+                    title="该时段已不可预约，以下时间仍可预约"
+                    slots={alternatives}
+                    onPick={handlePickAlternative}
+                    disabled={holdSlotMutation.isPending}
+                    emptyText="近期暂无其他可预约时间"
+                  />
+                ) : (
+                  <SuggestedSlots
+                    title="最近可预约时间"
+                    slots={nextAvailable?.slots ?? []}
+                    onPick={handlePickAlternative}
+                    disabled={holdSlotMutation.isPending}
+                  />
+                )}
+
                 <BookingCalendar
                   consultationType={consultationType}
                   consultationMode={consultationMode}
@@ -419,11 +600,18 @@ export default function BookingPage() {
 
                 {selectedDate && selectedTime && (
                   <div className="flex justify-end">
-                    <Button onClick={handleContinueToForm} data-testid="button-continue-form">
+                    <Button
+                      onClick={handleContinueToForm}
+                      disabled={holdSlotMutation.isPending}
+                      data-testid="button-continue-form"
+                    >
+                      {holdSlotMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                       继续填写申请表
                     </Button>
                   </div>
                 )}
+
+                <WaitlistJoin consultationType={consultationType} consultationMode={consultationMode} />
               </div>
             )}
 
@@ -448,12 +636,43 @@ export default function BookingPage() {
                   </div>
                 </div>
 
+                {slotHold && (
+                  <div
+                    className={`flex items-center gap-2 p-4 rounded-lg border text-sm ${
+                      holdRemainingMs > 0
+                        ? "bg-primary/5 border-primary/20"
+                        : "bg-destructive/5 border-destructive/20 text-destructive"
+                    }`}
+                    data-testid="text-hold-countdown"
+                  >
+                    <Timer className="h-4 w-4 shrink-0" />
+                    {holdRemainingMs > 0 ? (
+                      <span>
+                        已为您保留该时段，请在 <span className="font-medium">{formatCountdown(holdRemainingMs)}</span> 内提交申请表
+                      </span>
+                    ) : (
+                      <span>时段保留已过期，提交时将重新确认该时段是否仍可预约</span>
+                    )}
+                  </div>
+                )}
+
+                {alternatives && (
+                  <SuggestedSlots
+                    title="该时段已不可预约，可改约以下时间后重新提交"
+                    slots={alternatives}
+                    onPick={handlePickAlternative}
+                    disabled={holdSlotMutation.isPending}
+                    emptyText="近期暂无其他可预约时间，请返回重新选择"
+                  />
+                )}
+
                 <IntakeForm
                   consultationType={consultationType}
                   consultationMode={consultationMode}
                   onSubmit={handleFormSubmit}
                   onBack={handleBack}
                   isSubmitting={createAppointmentMutation.isPending}
+                  initialContact={waitlistOffer}
                 />
               </div>
             )}
@@ -466,6 +685,7 @@ export default function BookingPage() {
                   consultationType: consultationType!,
                   name: formData.name,
                   consultationMode: consultationMode!,
+                  paymentDueAt: formData.paymentDueAt,
                 }}
               />
             )}
@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Mail, KeyRound, CheckCircle } from "lucide-react";
+
+export default function ForgotPasswordPage() {
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [submitted, setSubmitted] = useState(false);
+
+  const forgotMutation = useMutation({
+    mutationFn: async (data: { email: string }) => {
+      return apiRequest("POST", "/api/auth/forgot-password", data);
+    },
+    onSuccess: () => {
+      setSubmitted(true);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "请求失败",
+        description: error.message || "请稍后重试",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) {
+      toast({
+        title: "请填写邮箱",
+        description: "邮箱不能为空",
+        variant: "destructive",
+      });
+      return;
+    }
+    forgotMutation.mutate({ email: email.trim() });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center space-y-2">
+          <div className="flex justify-center mb-2">
+            <div className="p-3 rounded-full bg-primary/10">
+              <KeyRound className="w-8 h-8 text-primary" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl">忘记密码</CardTitle>
+          <CardDescription>
+            输入注册时使用的邮箱，我们将发送重置密码的链接
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {submitted ? (
+            <div className="text-center space-y-3 py-4" data-testid="text-forgot-submitted">
+              <CheckCircle className="w-10 h-10 mx-auto text-primary" />
+              <p className="text-muted-foreground">
+                如果该邮箱已注册，您将很快收到重置密码的邮件。链接1小时内有效。
+              </p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="email">邮箱</Label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="请输入邮箱"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="pl-10"
+                    data-testid="input-email"
+                  />
+                </div>
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={forgotMutation.isPending}
+                data-testid="button-send-reset"
+              >
+                {forgotMutation.isPending ? "发送中..." : "发送重置链接"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-center">
+          <Link href="/login" className="text-sm text-primary hover:underline" data-testid="link-back-login">
+            返回登录
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
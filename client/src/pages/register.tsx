@@ -23,7 +23,7 @@ export default function RegisterPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
-      toast({ title: "注册成功", description: "欢迎使用秩序心理" });
+      toast({ title: "注册成功", description: "验证邮件已发送，请查收邮件完成邮箱验证" });
       setLocation("/appointments");
     },
     onError: (error: Error) => {
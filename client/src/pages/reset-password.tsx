@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useLocation, Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Lock, KeyRound, AlertCircle } from "lucide-react";
+
+export default function ResetPasswordPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: { token: string; password: string }) => {
+      return apiRequest("POST", "/api/auth/reset-password", data);
+    },
+    onSuccess: () => {
+      toast({ title: "密码已重置", description: "请使用新密码登录" });
+      setLocation("/login");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "重置失败",
+        description: error.message || "重置链接无效或已过期",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password.length < 6) {
+      toast({
+        title: "密码太短",
+        description: "密码至少需要6个字符",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (password !== confirmPassword) {
+      toast({
+        title: "密码不匹配",
+        description: "两次输入的密码不一致",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (token) {
+      resetMutation.mutate({ token, password });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center space-y-2">
+          <div className="flex justify-center mb-2">
+            <div className="p-3 rounded-full bg-primary/10">
+              <KeyRound className="w-8 h-8 text-primary" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl">设置新密码</CardTitle>
+          <CardDescription>
+            请输入您的新密码
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!token ? (
+            <div className="text-center space-y-3 py-4">
+              <AlertCircle className="w-10 h-10 mx-auto text-destructive" />
+              <p className="text-muted-foreground">重置链接无效，请重新申请</p>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="password">新密码</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="至少6个字符"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="pl-10"
+                    data-testid="input-password"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">确认新密码</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    placeholder="请再次输入新密码"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    className="pl-10"
+                    data-testid="input-confirm-password"
+                  />
+                </div>
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={resetMutation.isPending}
+                data-testid="button-reset-password"
+              >
+                {resetMutation.isPending ? "提交中..." : "重置密码"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-center">
+          <Link href="/forgot-password" className="text-sm text-primary hover:underline" data-testid="link-request-again">
+            重新申请重置链接
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
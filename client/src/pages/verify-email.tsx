@@ -0,0 +1,68 @@
+import { useEffect } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, AlertCircle, Loader2 } from "lucide-react";
+
+export default function VerifyEmailPage() {
+  const token = new URLSearchParams(window.location.search).get("token");
+
+  const verifyMutation = useMutation({
+    mutationFn: async (token: string) => {
+      return apiRequest("POST", "/api/auth/verify-email", { token });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/appointments/my"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations/my"] });
+    },
+  });
+
+  useEffect(() => {
+    if (token) {
+      verifyMutation.mutate(token);
+    }
+  }, [token]);
+
+  const failed = !token || verifyMutation.isError;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">邮箱验证</CardTitle>
+        </CardHeader>
+        <CardContent className="text-center space-y-4 py-4">
+          {failed ? (
+            <>
+              <AlertCircle className="w-10 h-10 mx-auto text-destructive" />
+              <p className="text-muted-foreground" data-testid="text-verify-failed">
+                验证链接无效或已过期。请登录后在“我的预约”页面重新发送验证邮件。
+              </p>
+              <Link href="/login">
+                <Button variant="outline" data-testid="button-goto-login">前往登录</Button>
+              </Link>
+            </>
+          ) : verifyMutation.isSuccess ? (
+            <>
+              <CheckCircle className="w-10 h-10 mx-auto text-primary" />
+              <p className="text-muted-foreground" data-testid="text-verify-success">
+                邮箱验证成功，您之前使用该邮箱提交的预约和留言已关联到您的账户。
+              </p>
+              <Link href="/appointments">
+                <Button data-testid="button-goto-appointments">查看我的预约</Button>
+              </Link>
+            </>
+          ) : (
+            <>
+              <Loader2 className="w-10 h-10 mx-auto animate-spin text-muted-foreground" />
+              <p className="text-muted-foreground">正在验证...</p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import "dotenv/config";
+import bcrypt from "bcrypt";
+import { storage } from "../server/storage";
+import { pool } from "../server/db";
+import type { User } from "../shared/schema";
+
+// Creates a staff account, or resets the password of an existing one.
+//
+//   npm run admin:create -- <username> [--role admin|assistant] [--name <display name>] [--email <email>]
+//
+// The role defaults to admin; see shared/permissions.ts for what each role may do.
+//
+// The password is read from ADMIN_PASSWORD if set, otherwise prompted for.
+
+type StaffRole = Extract<User["role"], "admin" | "assistant">;
+const OPTIONS = ["--role", "--name", "--email"];
+
+function parseArgs(argv: string[]) {
+  const [username, ...rest] = argv;
+  if (!username || username.startsWith("--")) {
+    throw new Error(
+      "Usage: npm run admin:create -- <username> [--role admin|assistant] [--name <display name>] [--email <email>]"
+    );
+  }
+
+  const options: { role?: string; name?: string; email?: string } = {};
+  for (let i = 0; i < rest.length; i += 2) {
+    const flag = rest[i];
+    const value = rest[i + 1];
+    if (!OPTIONS.includes(flag) || !value) {
+      throw new Error(`Unknown or incomplete option: ${flag}`);
+    }
+    options[flag.slice(2) as keyof typeof options] = value;
+  }
+
+  const role = options.role ?? "admin";
+  if (role !== "admin" && role !== "assistant") {
+    throw new Error(`Unknown role: ${role}`);
+  }
+  return { username, name: options.name, email: options.email, role: role as StaffRole };
+}
+
+function promptPassword(question: string): Promise<string> {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) {
+    throw new Error("No terminal available; set ADMIN_PASSWORD instead");
+  }
+
+  process.stdout.write(question);
+  stdin.setRawMode(true);
+  stdin.resume();
+  stdin.setEncoding("utf8");
+
+  return new Promise((resolve, reject) => {
+    let input = "";
+    const onData = (char: string) => {
+      if (char === "\r" || char === "\n") {
+        stdin.setRawMode(false);
+        stdin.pause();
+        stdin.off("data", onData);
+        process.stdout.write("\n");
+        resolve(input);
+      } else if (char === "\u0003") {
+        stdin.setRawMode(false);
+        reject(new Error("Aborted"));
+      } else if (char === "\u007f") {
+        input = input.slice(0, -1);
+      } else {
+        input += char;
+      }
+    };
+    stdin.on("data", onData);
+  });
+}
+
+async function main() {
+  const { username, name, email, role } = parseArgs(process.argv.slice(2));
+
+  const password = process.env.ADMIN_PASSWORD || (await promptPassword("Password: "));
+  if (password.length < 8) {
+    throw new Error("Password must be at least 8 characters");
+  }
+  const hashedPassword = await bcrypt.hash(password, 10);
+
+  const existing = await storage.getUserByUsername(username);
+  if (existing) {
+    await storage.updateUser(existing.id, {
+      password: hashedPassword,
+      role,
+      ...(name !== undefined && { name }),
+      ...(email !== undefined && { email }),
+    });
+    console.log(`Reset ${role} "${username}"`);
+  } else {
+    await storage.createUser({
+      username,
+      password: hashedPassword,
+      role,
+      name: name ?? null,
+      email: email ?? null,
+    });
+    console.log(`Created ${role} "${username}"`);
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { addDays, format, subDays } from "date-fns";
+import { defaultAttendancePolicy, type Appointment, type AttendancePolicy, type StatusChangeActor } from "@shared/schema";
+import { booking } from "../test/fixtures";
+import { getAttendanceRecord } from "./attendance";
+import { saveAttendancePolicy } from "./settings";
+import { storage, type ClientIdentity } from "./storage";
+import { pool } from "./db";
+
+const client: StatusChangeActor = { actorType: "client", actorId: null, reason: null };
+const staff: StatusChangeActor = { actorType: "staff", actorId: null, reason: null };
+
+// A cancellation counts as late up to a week before the session
+const policy: AttendancePolicy = {
+  lateCancelHours: 168,
+  lookbackDays: 365,
+  noShowThreshold: 2,
+  lateCancelThreshold: 1,
+  action: "approval",
+};
+
+// The status history is stamped by the database clock, so sessions are dated from today. Each gets
+// its own hour so that none of them overlap.
+let sessionCount = 0;
+
+async function outcome(
+  who: ClientIdentity,
+  daysFromToday: number,
+  statuses: Appointment["status"][],
+  canceller: StatusChangeActor = client
+): Promise<Appointment> {
+  const time = `${String(sessionCount++).padStart(2, "0")}:00`;
+  const appointment = await storage.createAppointment(
+    booking(format(addDays(new Date(), daysFromToday), "yyyy-MM-dd"), time, {
+      contactEmail: who.email ?? "someone-else@example.com",
+      contactPhone: who.phone ?? "13900000000",
+    }),
+    client
+  );
+  for (const status of statuses) {
+    await storage.updateAppointmentStatus(appointment.id, status, status === "cancelled" ? canceller : staff);
+  }
+  return appointment;
+}
+
+beforeAll(async () => {
+  await saveAttendancePolicy(policy);
+});
+
+afterAll(async () => {
+  await saveAttendancePolicy(defaultAttendancePolicy);
+  await pool.end();
+});
+
+describe("getAttendanceRecord", () => {
+  it("counts the client's completed sessions, no-shows and late cancellations in the lookback window", async () => {
+    const who = { email: "attendance-1@example.com", phone: "13900000001" };
+    await outcome(who, -10, ["confirmed", "completed"]);
+    await outcome(who, -400, ["confirmed", "completed"]);
+    await outcome(who, -9, ["confirmed", "no_show"]);
+    await outcome(who, 2, ["cancelled"]);
+    await outcome(who, 30, ["cancelled"]);
+    await outcome(who, 3, ["confirmed", "cancelled"], staff);
+    await outcome(who, 4, ["confirmed"]);
+
+    expect(await getAttendanceRecord(who)).toEqual({
+      since: format(subDays(new Date(), 365), "yyyy-MM-dd"),
+      completed: 1,
+      noShows: 1,
+      lateCancellations: 1,
+      requirement: "approval",
+    });
+  });
+
+  it("matches sessions booked under any of the client's email and phone", async () => {
+    await outcome({ email: "attendance-2@example.com" }, -8, ["confirmed", "no_show"]);
+    await outcome({ phone: "13900000002" }, -7, ["confirmed", "no_show"]);
+
+    const record = await getAttendanceRecord({ email: "attendance-2@example.com", phone: "13900000002" });
+    expect(record).toMatchObject({ noShows: 2, requirement: "approval" });
+    expect(await getAttendanceRecord({ email: "attendance-2@example.com" })).toMatchObject({ noShows: 1, requirement: null });
+  });
+
+  it("goes by the last cancellation, which the client may not have made", async () => {
+    const who = { email: "attendance-3@example.com", phone: "13900000003" };
+    const restored = await outcome(who, 5, ["cancelled", "pending"]);
+    await storage.updateAppointmentStatus(restored.id, "cancelled", staff);
+
+    expect(await getAttendanceRecord(who)).toMatchObject({ lateCancellations: 0, requirement: null });
+  });
+
+  it("requires nothing while the thresholds are not enforced", async () => {
+    await saveAttendancePolicy({ ...policy, noShowThreshold: 0, lateCancelThreshold: 0 });
+
+    expect(await getAttendanceRecord({ email: "attendance-1@example.com" })).toMatchObject({ noShows: 1, lateCancellations: 1, requirement: null });
+  });
+});
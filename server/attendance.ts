@@ -0,0 +1,34 @@
+import { format, subDays } from "date-fns";
+import type { AttendanceRecord } from "@shared/schema";
+import { getSessionStart } from "@shared/bookingPolicy";
+import { storage, type ClientIdentity } from "./storage";
+import { getAttendancePolicy } from "./settings";
+
+// No-shows and late cancellations over the attendance policy's lookback window. A client who
+// reaches a threshold must prepay new bookings, or have the counselor book for them.
+
+export async function getAttendanceRecord(client: ClientIdentity, now: Date = new Date()): Promise<AttendanceRecord> {
+  const policy = await getAttendancePolicy();
+  const since = format(subDays(now, policy.lookbackDays), "yyyy-MM-dd");
+  const outcomes = await storage.getAttendanceOutcomes(client, since);
+
+  const lateCancelMs = policy.lateCancelHours * 60 * 60 * 1000;
+  const record = { since, completed: 0, noShows: 0, lateCancellations: 0 };
+  for (const outcome of outcomes) {
+    if (outcome.status === "completed") {
+      record.completed++;
+    } else if (outcome.status === "no_show") {
+      record.noShows++;
+    } else if (
+      outcome.cancelledAt &&
+      getSessionStart(outcome.appointmentDate, outcome.appointmentTime).getTime() - outcome.cancelledAt.getTime() < lateCancelMs
+    ) {
+      record.lateCancellations++;
+    }
+  }
+
+  const reached =
+    (policy.noShowThreshold > 0 && record.noShows >= policy.noShowThreshold) ||
+    (policy.lateCancelThreshold > 0 && record.lateCancellations >= policy.lateCancelThreshold);
+  return { ...record, requirement: reached ? policy.action : null };
+}
@@ -0,0 +1,158 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { weeklySlots } from "../test/fixtures";
+import {
+  applyHolidayImport,
+  HolidayCalendarParseError,
+  parseHolidayCalendar,
+  planHolidayImport,
+  type HolidayEntry,
+} from "./holidayCalendar";
+import { storage } from "./storage";
+import { pool } from "./db";
+
+const MONDAY = 1;
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe("parseHolidayCalendar", () => {
+  it("reads ICS events, expanding multi-day events and unfolding long lines", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "BEGIN:VEVENT",
+      "DTSTART;VALUE=DATE:20310210",
+      "DTEND;VALUE=DATE:20310213",
+      "SUMMARY:春节",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "DTSTART;VALUE=DATE:20310208",
+      "SUMMARY:春节补班",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "DTSTART:20310501T000000",
+      "SUMMARY:劳动节\\,国际",
+      " 劳动节",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+    expect(parseHolidayCalendar(ics)).toEqual([
+      { date: "2031-02-08", name: "春节补班", kind: "workday" },
+      { date: "2031-02-10", name: "春节", kind: "holiday" },
+      { date: "2031-02-11", name: "春节", kind: "holiday" },
+      { date: "2031-02-12", name: "春节", kind: "holiday" },
+      { date: "2031-05-01", name: "劳动节,国际劳动节", kind: "holiday" },
+    ]);
+  });
+
+  it("reads the holiday-cn JSON layout and plain arrays of days", () => {
+    const holidayCn = JSON.stringify({
+      year: 2031,
+      days: [
+        { name: "春节", date: "2031-02-10", isOffDay: true },
+        { name: "春节", date: "2031-02-08", isOffDay: false },
+      ],
+    });
+    expect(parseHolidayCalendar(holidayCn)).toEqual([
+      { date: "2031-02-08", name: "春节", kind: "workday" },
+      { date: "2031-02-10", name: "春节", kind: "holiday" },
+    ]);
+
+    const array = JSON.stringify([{ date: "2031/05/01", name: " 劳动节 ", type: "holiday" }, { date: "2031-04-27", type: "workday" }]);
+    expect(parseHolidayCalendar(array)).toEqual([
+      { date: "2031-04-27", name: "", kind: "workday" },
+      { date: "2031-05-01", name: "劳动节", kind: "holiday" },
+    ]);
+  });
+
+  it("reads CSV with a header line, a byte order mark and Chinese type names", () => {
+    const csv = "\uFEFFdate,name,type\n2031-02-08,春节,班\n\"2031-02-10\",春节,休\n20310211,春节,\n";
+
+    expect(parseHolidayCalendar(csv)).toEqual([
+      { date: "2031-02-08", name: "春节", kind: "workday" },
+      { date: "2031-02-10", name: "春节", kind: "holiday" },
+      { date: "2031-02-11", name: "春节", kind: "holiday" },
+    ]);
+  });
+
+  it("keeps one entry for a date listed twice", () => {
+    expect(parseHolidayCalendar("2031-02-10,春节,休\n2031-02-10,春节,holiday")).toHaveLength(1);
+  });
+
+  it.each([
+    ["a date that is both a holiday and a make-up day", "2031-02-10,春节,休\n2031-02-10,春节,班"],
+    ["an unknown day type", "2031-02-10,春节,maybe"],
+    ["an invalid date after the first line", "2031-02-10,春节,休\n2031-02-30,春节,休"],
+    ["a file without dates", "date,name,type\n"],
+    ["malformed JSON", "{\"days\": ["],
+    ["JSON without a list of days", "{\"year\": 2031}"],
+    ["an ICS event without a start date", "BEGIN:VCALENDAR\nBEGIN:VEVENT\nSUMMARY:春节\nEND:VEVENT\nEND:VCALENDAR"],
+  ])("rejects %s", (_, content) => {
+    expect(() => parseHolidayCalendar(content)).toThrow(HolidayCalendarParseError);
+  });
+});
+
+describe("planHolidayImport", () => {
+  // 2031-02-08 is a Saturday; make-up days copy Monday's slots
+  const entries: HolidayEntry[] = [
+    { date: "2020-01-25", name: "春节", kind: "holiday" },
+    { date: "2031-02-08", name: "春节", kind: "workday" },
+    { date: "2031-02-10", name: "春节", kind: "holiday" },
+    { date: "2031-02-11", name: "春节", kind: "holiday" },
+    { date: "2031-02-12", name: "春节", kind: "holiday" },
+    { date: "2031-02-14", name: "春节", kind: "holiday" },
+    { date: "2031-02-20", name: "元宵节", kind: "holiday" },
+    { date: "2031-02-21", name: "元宵节", kind: "holiday" },
+  ];
+
+  beforeAll(async () => {
+    await weeklySlots("2031-02-01", "2031-02-28", [
+      { dayOfWeek: MONDAY, timeSlot: "09:00" },
+      { dayOfWeek: MONDAY, timeSlot: "10:00" },
+      { dayOfWeek: MONDAY, timeSlot: "14:00" },
+      { dayOfWeek: 6, timeSlot: "09:00" },
+    ]);
+    await storage.upsertScheduleOverride({ date: "2031-02-08", timeSlot: "10:00", isAvailable: true });
+    await storage.createBlockedDate({ startDate: "2031-02-20", endDate: null, reason: "已关闭" });
+    await storage.createBlockedDate({ startDate: "2031-02-21", endDate: null, startTime: "14:00", endTime: "18:00", reason: "下午关闭" });
+  });
+
+  it("plans only what the schedule does not already have", async () => {
+    const plan = await planHolidayImport(entries, MONDAY);
+
+    expect(plan.skippedPastDates).toBe(1);
+    expect(plan.holidays).toEqual([
+      { date: "2031-02-10", name: "春节", applied: false },
+      { date: "2031-02-11", name: "春节", applied: false },
+      { date: "2031-02-12", name: "春节", applied: false },
+      { date: "2031-02-14", name: "春节", applied: false },
+      { date: "2031-02-20", name: "元宵节", applied: true },
+      { date: "2031-02-21", name: "元宵节", applied: false },
+    ]);
+    // Consecutive days with the same name are one period; a day closed only in part gets a whole-day block
+    expect(plan.blockedPeriods).toEqual([
+      { startDate: "2031-02-10", endDate: "2031-02-12", reason: "春节" },
+      { startDate: "2031-02-14", endDate: null, reason: "春节" },
+      { startDate: "2031-02-21", endDate: null, reason: "元宵节" },
+    ]);
+    // Saturday's own 09:00 slot and the 10:00 override are already offered
+    expect(plan.workdays).toEqual([{ date: "2031-02-08", name: "春节", applied: false, timeSlots: ["14:00"] }]);
+  });
+
+  it("finds nothing left to do once the plan is applied", async () => {
+    await applyHolidayImport(await planHolidayImport(entries, MONDAY), MONDAY);
+
+    const plan = await planHolidayImport(entries, MONDAY);
+    expect(plan.blockedPeriods).toEqual([]);
+    expect(plan.holidays.every(holiday => holiday.applied)).toBe(true);
+    expect(plan.workdays).toEqual([{ date: "2031-02-08", name: "春节", applied: true, timeSlots: [] }]);
+
+    const overrides = await storage.getScheduleOverrides("2031-02-08");
+    expect(overrides.find(o => o.date === "2031-02-08" && o.timeSlot === "14:00")).toMatchObject({
+      isAvailable: true,
+      note: "春节补班",
+    });
+  });
+});
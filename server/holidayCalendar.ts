@@ -0,0 +1,222 @@
+import { addDays, format, isValid, parseISO } from "date-fns";
+import type { BlockedDate, HolidayImportPlan, InsertBlockedDate } from "@shared/schema";
+import { storage } from "./storage";
+import { blockCoversDate } from "./schedule";
+
+// Imports statutory holidays and make-up working days (调休) from a calendar file.
+// Holidays become whole-day blocked periods; make-up days get date overrides copying the slots of a
+// chosen weekday. Planning compares against what is already in the schedule, so re-importing the same
+// file changes nothing.
+
+export type HolidayKind = "holiday" | "workday";
+
+export interface HolidayEntry {
+  date: string; // yyyy-MM-dd
+  name: string;
+  kind: HolidayKind;
+}
+
+export class HolidayCalendarParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HolidayCalendarParseError";
+    Object.setPrototypeOf(this, HolidayCalendarParseError.prototype);
+  }
+}
+
+// Accepts yyyy-MM-dd, yyyy/MM/dd or yyyyMMdd (optionally followed by a time, as in ICS DTSTART)
+function normalizeDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})[-/]?(\d{2})[-/]?(\d{2})/);
+  if (!match) return null;
+  const date = `${match[1]}-${match[2]}-${match[3]}`;
+  const parsed = parseISO(date);
+  return isValid(parsed) && format(parsed, "yyyy-MM-dd") === date ? date : null;
+}
+
+const WORKDAY_SUMMARY = /补班|上班|工作日|[（(]班[)）]/;
+const WORKDAY_TYPES = ["workday", "work", "班", "补班", "上班"];
+const HOLIDAY_TYPES = ["", "holiday", "off", "休", "假"];
+
+function parseIcs(content: string): HolidayEntry[] {
+  // Long ICS lines are folded onto continuation lines that start with a space or tab
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const entries: HolidayEntry[] = [];
+  let event: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      event = {};
+    } else if (line === "END:VEVENT" && event) {
+      const start = event.DTSTART ? normalizeDate(event.DTSTART) : null;
+      if (!start) {
+        throw new HolidayCalendarParseError(`无法识别的日期：${event.DTSTART ?? "缺少DTSTART"}`);
+      }
+      // DTEND of an all-day event is exclusive
+      const end = event.DTEND ? normalizeDate(event.DTEND) : null;
+      const name = (event.SUMMARY ?? "").replace(/\\([,;\\])/g, "$1").trim();
+      const kind: HolidayKind = WORKDAY_SUMMARY.test(name) ? "workday" : "holiday";
+      let day = parseISO(start);
+      do {
+        entries.push({ date: format(day, "yyyy-MM-dd"), name, kind });
+        day = addDays(day, 1);
+      } while (end && format(day, "yyyy-MM-dd") < end);
+      event = null;
+    } else if (event) {
+      const separator = line.indexOf(":");
+      if (separator > 0) {
+        // Drop parameters such as DTSTART;VALUE=DATE
+        const property = line.slice(0, separator).split(";")[0].toUpperCase();
+        event[property] = line.slice(separator + 1);
+      }
+    }
+  }
+  return entries;
+}
+
+// Either an array of days or an object with a `days` array (the common holiday-cn layout). A day has a
+// date, an optional name, and either `isOffDay` or `type` ("holiday" / "workday").
+function parseJson(content: string): HolidayEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new HolidayCalendarParseError("JSON格式错误");
+  }
+  const days = Array.isArray(data) ? data : (data as { days?: unknown } | null)?.days;
+  if (!Array.isArray(days)) {
+    throw new HolidayCalendarParseError("JSON中未找到日期列表");
+  }
+
+  return days.map((day: Record<string, unknown>, index) => {
+    const date = typeof day?.date === "string" ? normalizeDate(day.date) : null;
+    if (!date) {
+      throw new HolidayCalendarParseError(`第${index + 1}项的日期无效`);
+    }
+    const type = typeof day.type === "string" ? day.type.trim().toLowerCase() : "";
+    const kind: HolidayKind = day.isOffDay === false || WORKDAY_TYPES.includes(type) ? "workday" : "holiday";
+    return { date, name: typeof day.name === "string" ? day.name.trim() : "", kind };
+  });
+}
+
+// One day per line: date,name,type. type is empty/holiday/休 for days off, workday/班 for make-up days.
+// A header line is skipped.
+function parseCsv(content: string): HolidayEntry[] {
+  const entries: HolidayEntry[] = [];
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const [dateCell, name = "", type = ""] = line.split(",").map(cell => cell.trim().replace(/^"|"$/g, ""));
+    const date = normalizeDate(dateCell);
+    if (!date) {
+      if (index === 0) return;
+      throw new HolidayCalendarParseError(`第${index + 1}行的日期无效`);
+    }
+    const normalizedType = type.toLowerCase();
+    if (WORKDAY_TYPES.includes(normalizedType)) {
+      entries.push({ date, name, kind: "workday" });
+    } else if (HOLIDAY_TYPES.includes(normalizedType)) {
+      entries.push({ date, name, kind: "holiday" });
+    } else {
+      throw new HolidayCalendarParseError(`第${index + 1}行的类型无法识别：${type}`);
+    }
+  });
+  return entries;
+}
+
+// Detects the format from the content, then returns one entry per date sorted by date
+export function parseHolidayCalendar(content: string): HolidayEntry[] {
+  const trimmed = content.replace(/^\uFEFF/, "").trim();
+  const entries = trimmed.startsWith("BEGIN:VCALENDAR")
+    ? parseIcs(trimmed)
+    : trimmed.startsWith("[") || trimmed.startsWith("{")
+      ? parseJson(trimmed)
+      : parseCsv(trimmed);
+
+  const byDate = new Map<string, HolidayEntry>();
+  for (const entry of entries) {
+    const existing = byDate.get(entry.date);
+    if (existing && existing.kind !== entry.kind) {
+      throw new HolidayCalendarParseError(`${entry.date}同时被标记为假日和补班日`);
+    }
+    byDate.set(entry.date, entry);
+  }
+  if (byDate.size === 0) {
+    throw new HolidayCalendarParseError("文件中没有日期");
+  }
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+function isWholeDayBlocked(blocks: BlockedDate[], date: string): boolean {
+  return blocks.some(block => !block.startTime && blockCoversDate(block, date));
+}
+
+export async function planHolidayImport(
+  entries: HolidayEntry[],
+  workdayTemplateDay: number,
+): Promise<HolidayImportPlan> {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const upcoming = entries.filter(entry => entry.date >= today);
+  const [blocks, overrides] = await Promise.all([
+    storage.getBlockedDates(),
+    storage.getScheduleOverrides(today),
+  ]);
+
+  const holidays = upcoming
+    .filter(entry => entry.kind === "holiday")
+    .map(entry => ({ date: entry.date, name: entry.name, applied: isWholeDayBlocked(blocks, entry.date) }));
+
+  // Consecutive new holidays with the same name become one blocked period
+  const blockedPeriods: InsertBlockedDate[] = [];
+  for (const holiday of holidays.filter(h => !h.applied)) {
+    const last = blockedPeriods[blockedPeriods.length - 1];
+    const nextDay = last && format(addDays(parseISO(last.endDate ?? last.startDate), 1), "yyyy-MM-dd");
+    if (last && nextDay === holiday.date && last.reason === (holiday.name || null)) {
+      last.endDate = holiday.date;
+    } else {
+      blockedPeriods.push({ startDate: holiday.date, endDate: null, reason: holiday.name || null });
+    }
+  }
+
+  const workdays = await Promise.all(
+    upcoming
+      .filter(entry => entry.kind === "workday")
+      .map(async entry => {
+        const [own, template] = await Promise.all([
+          storage.getScheduleSettingsByDay(parseISO(entry.date).getDay(), entry.date),
+          storage.getScheduleSettingsByDay(workdayTemplateDay, entry.date),
+        ]);
+        // Times the date already offers, from its own weekly slots or an override
+        const offered = new Set(own.map(s => s.timeSlot));
+        for (const override of overrides.filter(o => o.date === entry.date && o.isAvailable)) {
+          offered.add(override.timeSlot);
+        }
+        const timeSlots = template.map(s => s.timeSlot).filter(time => !offered.has(time));
+        return { date: entry.date, name: entry.name, applied: timeSlots.length === 0, timeSlots };
+      })
+  );
+
+  return { holidays, workdays, blockedPeriods, skippedPastDates: entries.length - upcoming.length };
+}
+
+// Creates the blocked periods and make-up day overrides of a plan; returns the new blocked periods
+export async function applyHolidayImport(plan: HolidayImportPlan, workdayTemplateDay: number): Promise<BlockedDate[]> {
+  const created: BlockedDate[] = [];
+  for (const period of plan.blockedPeriods) {
+    created.push(await storage.createBlockedDate(period));
+  }
+  for (const workday of plan.workdays.filter(w => !w.applied)) {
+    const template = await storage.getScheduleSettingsByDay(workdayTemplateDay, workday.date);
+    for (const setting of template.filter(s => workday.timeSlots.includes(s.timeSlot))) {
+      await storage.upsertScheduleOverride({
+        date: workday.date,
+        timeSlot: setting.timeSlot,
+        isAvailable: true,
+        isOnlineAvailable: setting.isOnlineAvailable,
+        isOfflineAvailable: setting.isOfflineAvailable,
+        durationMinutes: setting.durationMinutes,
+        bufferMinutes: setting.bufferMinutes,
+        note: workday.name.includes("班") ? workday.name : `${workday.name}补班`,
+      });
+    }
+  }
+  return created;
+}
@@ -7,12 +7,19 @@ import { createServer } from "http";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
+import { getMailer } from "./mailer";
+import { startOutboxWorker } from "./outbox";
+import { startReminderScheduler } from "./reminders";
+import { startWaitlistScheduler } from "./waitlist";
+import { startPaymentScheduler } from "./payments";
 
 const PostgresStore = connectPg(session);
 
 declare module "express-session" {
   interface SessionData {
-    isAdmin?: boolean;
+    adminId?: string; // set only once every login factor has been verified
+    pendingAdminId?: string; // password verified, waiting for the TOTP step
+    slotHoldId?: string; // the client's current slot hold, replaced when they hold another slot
     userId?: string;
     userEmail?: string | null;
     userName?: string | null;
@@ -97,6 +104,8 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Refuses to start in production without an SMTP server
+  getMailer();
   await registerRoutes(httpServer, app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -129,6 +138,10 @@ app.use((req, res, next) => {
     },
     () => {
       log(`serving on port ${port}`);
+      startOutboxWorker();
+      startReminderScheduler();
+      startWaitlistScheduler();
+      startPaymentScheduler();
     },
   );
 })();
@@ -0,0 +1,148 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { SMTPServer, type SMTPServerAddress } from "smtp-server";
+import type { AddressInfo } from "net";
+import { eq } from "drizzle-orm";
+import { emailOutbox } from "@shared/schema";
+import { SmtpMailer, setMailer, type MailMessage } from "./mailer";
+import { enqueueEmail, processOutbox } from "./outbox";
+import { storage } from "./storage";
+import { db, pool } from "./db";
+
+interface ReceivedMail {
+  from: string;
+  to: string[];
+  raw: string;
+}
+
+// Local stand-in for the SMTP server, like MailHog in development. Recipients at reject.test are refused.
+const received: ReceivedMail[] = [];
+const smtp = new SMTPServer({
+  secure: false,
+  disabledCommands: ["STARTTLS"],
+  onAuth(auth, _session, callback) {
+    if (auth.username === "mailer" && auth.password === "secret") {
+      callback(null, { user: auth.username });
+    } else {
+      callback(new Error("Invalid username or password"));
+    }
+  },
+  onRcptTo(address: SMTPServerAddress, _session, callback) {
+    callback(address.address.endsWith("@reject.test") ? new Error("Mailbox unavailable") : undefined);
+  },
+  onData(stream, session, callback) {
+    const chunks: Buffer[] = [];
+    stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+    stream.on("end", () => {
+      received.push({
+        from: session.envelope.mailFrom ? session.envelope.mailFrom.address : "",
+        to: session.envelope.rcptTo.map(rcpt => rcpt.address),
+        raw: Buffer.concat(chunks).toString(),
+      });
+      callback();
+    });
+  },
+});
+let port: number;
+
+function createMailer(credentials = { user: "mailer", pass: "secret" }) {
+  return new SmtpMailer({ host: "127.0.0.1", port, secure: false, ...credentials }, "Counseling <no-reply@example.test>");
+}
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => smtp.listen(0, "127.0.0.1", resolve));
+  port = (smtp.server.address() as AddressInfo).port;
+});
+
+afterEach(() => {
+  received.length = 0;
+});
+
+afterAll(async () => {
+  await new Promise<void>(resolve => smtp.close(resolve));
+  await pool.end();
+});
+
+describe("SmtpMailer", () => {
+  it("delivers the message and its attachments through the SMTP server", async () => {
+    await createMailer().send({
+      to: "client@example.test",
+      subject: "Appointment confirmed",
+      text: "See you on Monday.",
+      attachments: [{ filename: "appointment.ics", content: "BEGIN:VCALENDAR", contentType: "text/calendar" }],
+    });
+
+    expect(received).toHaveLength(1);
+    expect(received[0].from).toBe("no-reply@example.test");
+    expect(received[0].to).toEqual(["client@example.test"]);
+    expect(received[0].raw).toContain("Subject: Appointment confirmed");
+    expect(received[0].raw).toContain("See you on Monday.");
+    expect(received[0].raw).toContain('filename=appointment.ics');
+  });
+
+  it("fails when the server refuses the credentials", async () => {
+    await expect(createMailer({ user: "mailer", pass: "wrong" }).send({
+      to: "client@example.test",
+      subject: "Appointment confirmed",
+      text: "See you on Monday.",
+    })).rejects.toThrow();
+    expect(received).toEqual([]);
+  });
+});
+
+// Queues mail that is due now. The queue's own timestamp has microseconds, so mail processed in the
+// millisecond it was queued would otherwise wait for the next poll.
+async function queueDueEmail(to: string) {
+  const queued = await storage.enqueueEmail({ to, subject: "Reminder", text: "Tomorrow at 10:00." });
+  await db.update(emailOutbox).set({ nextAttemptAt: new Date(Date.now() - 1000) }).where(eq(emailOutbox.id, queued.id));
+  return queued;
+}
+
+describe("processOutbox", () => {
+  beforeAll(() => {
+    setMailer(createMailer());
+  });
+
+  it("sends queued mail through the SMTP server and marks it sent", async () => {
+    const queued = await queueDueEmail("client@example.test");
+
+    await processOutbox();
+
+    expect(received.map(mail => mail.to)).toEqual([["client@example.test"]]);
+    const [email] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, queued.id));
+    expect(email).toMatchObject({ status: "sent", attempts: 1, lastError: null });
+  });
+
+  it("keeps mail the server refuses and schedules a retry", async () => {
+    const queued = await queueDueEmail("client@reject.test");
+
+    await processOutbox();
+
+    expect(received).toEqual([]);
+    const [email] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, queued.id));
+    expect(email.status).toBe("pending");
+    expect(email.attempts).toBe(1);
+    expect(email.lastError).toContain("Mailbox unavailable");
+    expect(email.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+  });
+});
+
+describe("enqueueEmail", () => {
+  it("keeps binary attachments intact through the queue", async () => {
+    const sent: MailMessage[] = [];
+    setMailer({ async send(message) { sent.push(message); } });
+    const content = Buffer.from([0x25, 0x50, 0x44, 0x46, 0x00, 0x80, 0xfe, 0xff]);
+
+    await enqueueEmail({
+      to: "client@example.test",
+      subject: "Receipt",
+      text: "Your receipt is attached.",
+      attachments: [{ filename: "receipt.pdf", content, contentType: "application/pdf" }],
+    });
+    await vi.waitFor(async () => {
+      await processOutbox();
+      expect(sent).toHaveLength(1);
+    });
+
+    expect(sent[0].attachments).toEqual([{ filename: "receipt.pdf", content, contentType: "application/pdf" }]);
+  });
+});
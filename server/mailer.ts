@@ -0,0 +1,83 @@
+import nodemailer from "nodemailer";
+
+export interface MailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Sends through any SMTP server, including a local stand-in such as MailHog or smtp4dev
+export class SmtpMailer implements Mailer {
+  private transport: nodemailer.Transporter;
+
+  constructor(
+    options: { host: string; port: number; secure: boolean; user?: string; pass?: string },
+    private from: string,
+  ) {
+    this.transport = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.sendMail({ from: this.from, ...message });
+  }
+}
+
+// Development fallback when no SMTP server is configured: prints the mail, links and tokens included,
+// to the server log. Never used in production.
+export class ConsoleMailer implements Mailer {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mailer] to=${message.to} subject=${message.subject}\n${message.text}`);
+  }
+}
+
+function createMailerFromEnv(): Mailer {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("SMTP_HOST must be set in production; without it mail would only be printed to the log");
+    }
+    return new ConsoleMailer();
+  }
+  return new SmtpMailer(
+    {
+      host,
+      port: parseInt(process.env.SMTP_PORT || "587", 10),
+      secure: process.env.SMTP_SECURE === "true",
+      user: process.env.SMTP_USER,
+      pass: process.env.SMTP_PASS,
+    },
+    process.env.MAIL_FROM || `秩序心理 <no-reply@${host}>`,
+  );
+}
+
+let mailer: Mailer | undefined;
+
+// Throws when the environment has no usable transport; called at startup so this fails fast
+export function getMailer(): Mailer {
+  if (!mailer) {
+    mailer = createMailerFromEnv();
+  }
+  return mailer;
+}
+
+// Swap the transport, e.g. for a capturing mailer in tests
+export function setMailer(next: Mailer): void {
+  mailer = next;
+}
@@ -0,0 +1,357 @@
+import { format, parseISO } from "date-fns";
+import { zhCN } from "date-fns/locale";
+import type { Appointment, BookingPolicy, Payment } from "@shared/schema";
+import { getChangeDeadline, getSessionStart } from "@shared/bookingPolicy";
+import { formatAmount } from "@shared/payments";
+import { enqueueEmail } from "./outbox";
+import { getBookingPolicy } from "./settings";
+import { createGuestAccessToken } from "./tokens";
+import type { MailMessage } from "./mailer";
+
+// Appointment lifecycle emails to the client and the counselor.
+//
+// Counselor copies go to COUNSELOR_EMAIL (comma-separated for several addresses); CLINIC_ADDRESS
+// is included for offline sessions. Everything is queued in the outbox, and notifyAppointmentEvent
+// never throws, so a notification problem cannot fail the API call that triggered it.
+
+const CLINIC_TIMEZONE = "Asia/Shanghai";
+
+export type AppointmentEvent = "created" | "confirmed" | "rescheduled" | "cancelled";
+
+function getCounselorEmails(): string[] {
+  return (process.env.COUNSELOR_EMAIL || "")
+    .split(",")
+    .map(email => email.trim())
+    .filter(Boolean);
+}
+
+function formatAppointmentDate(date: string): string {
+  return format(parseISO(date), "yyyy年M月d日 EEEE", { locale: zhCN });
+}
+
+// Wall-clock start time at the clinic
+export function getAppointmentStart(appointment: Pick<Appointment, "appointmentDate" | "appointmentTime">): Date {
+  return getSessionStart(appointment.appointmentDate, appointment.appointmentTime);
+}
+
+export function describeAppointment(appointment: Appointment): string {
+  const lines = [
+    `日期：${formatAppointmentDate(appointment.appointmentDate)}`,
+    `时间：${appointment.appointmentTime.substring(0, 5)}（${appointment.durationMinutes}分钟）`,
+    `类型：${appointment.consultationType === "regular" ? "一般咨询" : "公益低价咨询"}`,
+  ];
+  if (appointment.consultationMode === "online") {
+    lines.push("方式：线上咨询（视频），请提前确保网络稳定、环境安静保密，咨询师会在开始前发送会议信息");
+  } else {
+    const address = process.env.CLINIC_ADDRESS;
+    lines.push(`方式：线下咨询${address ? `，地址：${address}` : "，具体地址将另行告知"}`);
+  }
+  return lines.join("\n");
+}
+
+export function describeDeadline(appointment: Appointment, policy: BookingPolicy): string {
+  return `如需更改或取消，请于 ${format(getChangeDeadline(policy, appointment.appointmentDate), "yyyy年M月d日 HH:mm")} 前操作。`;
+}
+
+export function buildManageLink(appointment: Appointment, baseUrl: string | undefined): string | null {
+  if (!baseUrl || !appointment.contactEmail) return null;
+  const token = createGuestAccessToken("appointments", appointment.contactEmail);
+  return `${baseUrl}/appointments?email=${encodeURIComponent(appointment.contactEmail)}&access=${encodeURIComponent(token)}`;
+}
+
+function escapeIcsText(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\n/g, "\\n");
+}
+
+// RFC 5545 limits content lines to 75 octets; longer lines continue on lines starting with a space
+function foldIcsLine(line: string): string {
+  const parts: string[] = [];
+  let current = "";
+  let currentBytes = 0;
+  for (const char of Array.from(line)) {
+    const bytes = Buffer.byteLength(char);
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = "";
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function icsLocalDateTime(date: Date): string {
+  return format(date, "yyyyMMdd'T'HHmmss");
+}
+
+// Calendar invite for a confirmed session; times are wall-clock times at the clinic
+export function buildAppointmentIcs(appointment: Appointment): string {
+  const start = getAppointmentStart(appointment);
+  const end = new Date(start.getTime() + appointment.durationMinutes * 60 * 1000);
+  const location = appointment.consultationMode === "online" ? "线上（视频）" : process.env.CLINIC_ADDRESS || "线下";
+
+  return [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Counseling Appointments//ZH-CN",
+    "METHOD:PUBLISH",
+    "BEGIN:VTIMEZONE",
+    `TZID:${CLINIC_TIMEZONE}`,
+    "BEGIN:STANDARD",
+    "DTSTART:19700101T000000",
+    "TZOFFSETFROM:+0800",
+    "TZOFFSETTO:+0800",
+    "TZNAME:CST",
+    "END:STANDARD",
+    "END:VTIMEZONE",
+    "BEGIN:VEVENT",
+    `UID:appointment-${appointment.id}`,
+    `DTSTAMP:${new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "")}`,
+    `DTSTART;TZID=${CLINIC_TIMEZONE}:${icsLocalDateTime(start)}`,
+    `DTEND;TZID=${CLINIC_TIMEZONE}:${icsLocalDateTime(end)}`,
+    `SUMMARY:${escapeIcsText("心理咨询")}`,
+    `LOCATION:${escapeIcsText(location)}`,
+    `DESCRIPTION:${escapeIcsText(describeAppointment(appointment))}`,
+    "STATUS:CONFIRMED",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].map(foldIcsLine).join("\r\n");
+}
+
+const CLIENT_TEMPLATES: Record<AppointmentEvent, { subject: string; intro: string }> = {
+  created: {
+    subject: "我们已收到您的预约申请",
+    intro: "我们已收到您的咨询预约申请，咨询师将在24小时内确认。",
+  },
+  confirmed: {
+    subject: "您的咨询预约已确认",
+    intro: "您的咨询预约已确认，日历邀请见附件。",
+  },
+  rescheduled: {
+    subject: "您的咨询预约时间已更改",
+    intro: "您的咨询预约时间已更改，新的安排如下。",
+  },
+  cancelled: {
+    subject: "您的咨询预约已取消",
+    intro: "您的以下咨询预约已取消。如需重新预约，欢迎随时在网站上选择新的时间。",
+  },
+};
+
+const COUNSELOR_TEMPLATES: Record<AppointmentEvent, string> = {
+  created: "新的预约申请",
+  confirmed: "预约已确认",
+  rescheduled: "预约时间已更改",
+  cancelled: "预约已取消",
+};
+
+function buildClientEmail(
+  event: AppointmentEvent,
+  appointment: Appointment,
+  policy: BookingPolicy,
+  baseUrl: string | undefined,
+  previous?: Appointment
+): MailMessage | null {
+  if (!appointment.contactEmail) return null;
+  const template = CLIENT_TEMPLATES[event];
+  const intro = event === "created" && appointment.status === "pending_payment" && appointment.paymentDueAt
+    ? `我们已收到您的咨询预约申请，请在 ${format(appointment.paymentDueAt, "yyyy年M月d日 HH:mm")} 前通过下方链接完成付款，逾期未付款的预约将自动取消。`
+    : template.intro;
+  const sections = [`${appointment.name}，您好：`, intro, describeAppointment(appointment)];
+
+  if (event === "rescheduled" && previous) {
+    sections.push(`原预约时间：${formatAppointmentDate(previous.appointmentDate)} ${previous.appointmentTime.substring(0, 5)}`);
+  }
+  if (event !== "cancelled") {
+    sections.push(describeDeadline(appointment, policy));
+    const manageLink = buildManageLink(appointment, baseUrl);
+    if (manageLink) {
+      sections.push(`查看或管理预约：${manageLink}`);
+    }
+  }
+  sections.push("秩序心理");
+
+  return {
+    to: appointment.contactEmail,
+    subject: template.subject,
+    text: sections.join("\n\n"),
+    attachments: event === "confirmed"
+      ? [{ filename: "appointment.ics", content: buildAppointmentIcs(appointment), contentType: "text/calendar; charset=utf-8; method=PUBLISH" }]
+      : undefined,
+  };
+}
+
+function buildCounselorEmails(
+  event: AppointmentEvent,
+  appointment: Appointment,
+  baseUrl: string | undefined,
+  previous?: Appointment
+): MailMessage[] {
+  const title = COUNSELOR_TEMPLATES[event];
+  const sections = [
+    `${title}：${appointment.name}`,
+    describeAppointment(appointment),
+  ];
+  if (event === "rescheduled" && previous) {
+    sections.push(`原预约时间：${formatAppointmentDate(previous.appointmentDate)} ${previous.appointmentTime.substring(0, 5)}`);
+  }
+  sections.push(`联系电话：${appointment.contactPhone}${appointment.contactEmail ? `\n联系邮箱：${appointment.contactEmail}` : ""}`);
+  if (baseUrl) {
+    sections.push(`管理预约：${baseUrl}/admin/appointments`);
+  }
+
+  const subject = `[${title}] ${appointment.name} ${appointment.appointmentDate} ${appointment.appointmentTime.substring(0, 5)}`;
+  return getCounselorEmails().map(to => ({ to, subject, text: sections.join("\n\n") }));
+}
+
+// Pre-session reminder, scheduled by server/reminders.ts
+export function buildReminderEmail(
+  appointment: Appointment,
+  policy: BookingPolicy,
+  baseUrl: string | undefined
+): MailMessage | null {
+  if (!appointment.contactEmail) return null;
+  const start = getAppointmentStart(appointment);
+  const sections = [
+    `${appointment.name}，您好：`,
+    `温馨提醒，您的心理咨询将于 ${format(start, "M月d日 EEEE HH:mm", { locale: zhCN })} 开始。`,
+    describeAppointment(appointment),
+  ];
+  if (getChangeDeadline(policy, appointment.appointmentDate) > new Date()) {
+    sections.push(describeDeadline(appointment, policy));
+    const manageLink = buildManageLink(appointment, baseUrl);
+    if (manageLink) {
+      sections.push(`查看或管理预约：${manageLink}`);
+    }
+  } else {
+    sections.push("已过线上更改和取消的截止时间，如无法按时参加，请尽快通过留言联系咨询师。");
+  }
+  sections.push("秩序心理");
+
+  return {
+    to: appointment.contactEmail,
+    subject: `咨询提醒：${format(start, "M月d日 HH:mm")}`,
+    text: sections.join("\n\n"),
+  };
+}
+
+// Tells the client why their welfare proof was not accepted; never throws
+export async function notifyWelfareProofRejected(appointment: Appointment, baseUrl: string | undefined): Promise<void> {
+  if (!appointment.contactEmail) return;
+  const sections = [
+    `${appointment.name}，您好：`,
+    "很抱歉，您为以下公益低价咨询提交的证明材料未能通过审核，该预约暂时无法确认。",
+    describeAppointment(appointment),
+  ];
+  if (appointment.welfareProofReviewNote) {
+    sections.push(`原因：${appointment.welfareProofReviewNote}`);
+  }
+  sections.push("如有疑问或需要补充材料，请通过网站留言联系咨询师；也可以取消本预约后改约一般咨询。");
+  const manageLink = buildManageLink(appointment, baseUrl);
+  if (manageLink) {
+    sections.push(`查看或管理预约：${manageLink}`);
+  }
+  sections.push("秩序心理");
+
+  try {
+    await enqueueEmail({
+      to: appointment.contactEmail,
+      subject: "公益咨询证明材料未通过审核",
+      text: sections.join("\n\n"),
+    });
+  } catch (error) {
+    console.error(`Error queueing welfare proof notification for appointment ${appointment.id}:`, error);
+  }
+}
+
+// Tells the client why their transfer screenshot was not accepted; never throws
+export async function notifyPaymentProofRejected(
+  appointment: Appointment,
+  payment: Payment,
+  baseUrl: string | undefined
+): Promise<void> {
+  if (!appointment.contactEmail) return;
+  const sections = [
+    `${appointment.name}，您好：`,
+    "很抱歉，您为以下咨询预约提交的付款凭证未能核对通过。",
+    describeAppointment(appointment),
+  ];
+  if (payment.reviewNote) {
+    sections.push(`原因：${payment.reviewNote}`);
+  }
+  sections.push(
+    appointment.paymentDueAt
+      ? `请在 ${format(appointment.paymentDueAt, "yyyy年M月d日 HH:mm")} 前重新付款或上传凭证，逾期未付款的预约将自动取消。`
+      : "请重新付款或上传凭证；如有疑问，请通过网站留言联系咨询师。"
+  );
+  const manageLink = buildManageLink(appointment, baseUrl);
+  if (manageLink) {
+    sections.push(`查看或管理预约：${manageLink}`);
+  }
+  sections.push("秩序心理");
+
+  try {
+    await enqueueEmail({
+      to: appointment.contactEmail,
+      subject: "付款凭证未通过核对",
+      text: sections.join("\n\n"),
+    });
+  } catch (error) {
+    console.error(`Error queueing payment proof notification for payment ${payment.id}:`, error);
+  }
+}
+
+// Asks the counselor to refund a payment that arrived after its booking was released or cancelled;
+// never throws
+export async function notifyUnexpectedPayment(
+  appointment: Appointment,
+  payment: Payment,
+  baseUrl: string | undefined
+): Promise<void> {
+  const sections = [
+    `收到一笔无法用于预约的付款：${appointment.name}`,
+    describeAppointment(appointment),
+    `付款金额：${formatAmount(payment.amount)}（${payment.provider} ${payment.providerReference ?? payment.id}）`,
+    "该预约在付款到账前已被取消或释放，请核实后联系来访者并手动退款。",
+    `联系电话：${appointment.contactPhone}${appointment.contactEmail ? `\n联系邮箱：${appointment.contactEmail}` : ""}`,
+  ];
+  if (baseUrl) {
+    sections.push(`管理预约：${baseUrl}/admin/appointments`);
+  }
+
+  try {
+    for (const to of getCounselorEmails()) {
+      await enqueueEmail({
+        to,
+        subject: `[需退款] ${appointment.name} ${appointment.appointmentDate} ${appointment.appointmentTime.substring(0, 5)}`,
+        text: sections.join("\n\n"),
+      });
+    }
+  } catch (error) {
+    console.error(`Error queueing refund notification for payment ${payment.id}:`, error);
+  }
+}
+
+// Queues the client and counselor emails for an appointment transition.
+// `previous` is the appointment before a reschedule.
+export async function notifyAppointmentEvent(
+  event: AppointmentEvent,
+  appointment: Appointment,
+  options: { baseUrl?: string; previous?: Appointment } = {}
+): Promise<void> {
+  try {
+    const policy = await getBookingPolicy();
+    const emails = [
+      buildClientEmail(event, appointment, policy, options.baseUrl, options.previous),
+      ...buildCounselorEmails(event, appointment, options.baseUrl, options.previous),
+    ].filter((email): email is MailMessage => email !== null);
+
+    for (const email of emails) {
+      await enqueueEmail(email);
+    }
+  } catch (error) {
+    console.error(`Error queueing ${event} notification for appointment ${appointment.id}:`, error);
+  }
+}
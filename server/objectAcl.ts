@@ -1,8 +1,13 @@
 import { File } from "@google-cloud/storage";
+import { rolePermissions } from "@shared/permissions";
+import { storage } from "./storage";
 
 const ACL_POLICY_METADATA_KEY = "custom:aclPolicy";
 
-export enum ObjectAccessGroupType {}
+export enum ObjectAccessGroupType {
+  // Staff whose role grants the permission given as the group id
+  STAFF_PERMISSION = "staff_permission",
+}
 
 export interface ObjectAccessGroup {
   type: ObjectAccessGroupType;
@@ -44,10 +49,23 @@ abstract class BaseObjectAccessGroup implements ObjectAccessGroup {
   public abstract hasMember(userId: string): Promise<boolean>;
 }
 
+class StaffPermissionAccessGroup extends BaseObjectAccessGroup {
+  constructor(id: string) {
+    super(ObjectAccessGroupType.STAFF_PERMISSION, id);
+  }
+
+  public async hasMember(userId: string): Promise<boolean> {
+    const user = await storage.getUser(userId);
+    return !!user && (rolePermissions[user.role] as string[]).includes(this.id);
+  }
+}
+
 function createObjectAccessGroup(
   group: ObjectAccessGroup,
 ): BaseObjectAccessGroup {
   switch (group.type) {
+    case ObjectAccessGroupType.STAFF_PERMISSION:
+      return new StaffPermissionAccessGroup(group.id);
     default:
       throw new Error(`Unknown access group type: ${group.type}`);
   }
@@ -0,0 +1,69 @@
+import { storage } from "./storage";
+import { getMailer, type MailMessage } from "./mailer";
+
+// Persisted email queue. Callers enqueue and return immediately; delivery happens in the
+// background and is retried with exponential backoff, so an SMTP outage never fails an API call.
+
+const POLL_INTERVAL_MS = 30 * 1000;
+const BATCH_SIZE = 20;
+const MAX_ATTEMPTS = 6; // last retry about half an hour after the first attempt
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+
+let processing = false;
+
+export async function enqueueEmail(message: MailMessage): Promise<void> {
+  await storage.enqueueEmail({
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+    html: message.html ?? null,
+    attachments: message.attachments?.map(({ filename, content, contentType }) => ({
+      filename,
+      ...(Buffer.isBuffer(content) ? { content: content.toString("base64"), encoding: "base64" as const } : { content }),
+      contentType,
+    })) ?? null,
+  });
+  // Deliver right away instead of waiting for the next poll
+  setImmediate(() => void processOutbox());
+}
+
+export async function processOutbox(): Promise<void> {
+  if (processing) return;
+  processing = true;
+  try {
+    const due = await storage.getDueEmails(BATCH_SIZE);
+    for (const email of due) {
+      try {
+        await getMailer().send({
+          to: email.to,
+          subject: email.subject,
+          text: email.text,
+          html: email.html ?? undefined,
+          attachments: email.attachments?.map(({ filename, content, encoding, contentType }) => ({
+            filename,
+            content: encoding === "base64" ? Buffer.from(content, "base64") : content,
+            contentType,
+          })),
+        });
+        await storage.markEmailSent(email.id);
+      } catch (error) {
+        const attempts = email.attempts + 1;
+        const nextAttemptAt = attempts < MAX_ATTEMPTS
+          ? new Date(Date.now() + BASE_RETRY_DELAY_MS * 2 ** (attempts - 1))
+          : null;
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Error sending email ${email.id} (attempt ${attempts}):`, message);
+        await storage.markEmailFailed(email.id, message, nextAttemptAt);
+      }
+    }
+  } catch (error) {
+    console.error("Error processing email outbox:", error);
+  } finally {
+    processing = false;
+  }
+}
+
+export function startOutboxWorker(): void {
+  setInterval(() => void processOutbox(), POLL_INTERVAL_MS).unref();
+  void processOutbox();
+}
@@ -0,0 +1,199 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import Stripe from "stripe";
+
+// Online payment providers. server/payments.ts opens a hosted checkout with the configured provider,
+// and the provider reports the result to POST /api/payments/webhook/:provider.
+//
+// PAYMENT_PROVIDER selects the provider: "stripe" (STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET) or
+// "mock" (never in production). Without it, Stripe is used when STRIPE_SECRET_KEY is set, and the
+// mock provider outside production; otherwise online payment is unavailable.
+
+export interface CheckoutRequest {
+  paymentId: string;
+  amount: number; // fen
+  currency: string;
+  description: string;
+  successUrl: string;
+  cancelUrl: string;
+  expiresAt: Date;
+}
+
+export interface CheckoutSession {
+  reference: string;
+  url: string;
+  expiresAt: Date;
+}
+
+export interface PaymentEvent {
+  reference: string;
+  outcome: "succeeded" | "failed" | "expired";
+}
+
+// A webhook delivery that could not be verified
+export class PaymentWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PaymentWebhookError";
+  }
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckout(request: CheckoutRequest): Promise<CheckoutSession>;
+  // Verifies a webhook delivery and returns the payment result it carries, or null for events that
+  // do not settle a payment; throws PaymentWebhookError when the signature does not match
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent | null;
+}
+
+// Stripe only accepts checkout expiry between 30 minutes and 24 hours from now
+const STRIPE_MIN_EXPIRY_MS = 31 * 60 * 1000;
+const STRIPE_MAX_EXPIRY_MS = 23 * 60 * 60 * 1000;
+
+class StripeProvider implements PaymentProvider {
+  readonly name = "stripe";
+  private readonly stripe: Stripe;
+
+  constructor(secretKey: string, private readonly webhookSecret: string) {
+    this.stripe = new Stripe(secretKey);
+  }
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const now = Date.now();
+    const expiresAt = new Date(Math.min(
+      Math.max(request.expiresAt.getTime(), now + STRIPE_MIN_EXPIRY_MS),
+      now + STRIPE_MAX_EXPIRY_MS
+    ));
+    const session = await this.stripe.checkout.sessions.create({
+      mode: "payment",
+      client_reference_id: request.paymentId,
+      metadata: { paymentId: request.paymentId },
+      line_items: [{
+        quantity: 1,
+        price_data: {
+          currency: request.currency.toLowerCase(),
+          unit_amount: request.amount,
+          product_data: { name: request.description },
+        },
+      }],
+      success_url: request.successUrl,
+      cancel_url: request.cancelUrl,
+      expires_at: Math.floor(expiresAt.getTime() / 1000),
+    });
+    if (!session.url) {
+      throw new Error(`Stripe returned no checkout URL for session ${session.id}`);
+    }
+    return { reference: session.id, url: session.url, expiresAt };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent | null {
+    let event: Stripe.Event;
+    try {
+      event = this.stripe.webhooks.constructEvent(rawBody, headers["stripe-signature"] ?? "", this.webhookSecret);
+    } catch (error) {
+      throw new PaymentWebhookError(error instanceof Error ? error.message : "Invalid Stripe signature");
+    }
+
+    switch (event.type) {
+      // Delayed payment methods complete the session unpaid and report the result later
+      case "checkout.session.completed":
+        return event.data.object.payment_status === "paid"
+          ? { reference: event.data.object.id, outcome: "succeeded" }
+          : null;
+      case "checkout.session.async_payment_succeeded":
+        return { reference: event.data.object.id, outcome: "succeeded" };
+      case "checkout.session.async_payment_failed":
+        return { reference: event.data.object.id, outcome: "failed" };
+      case "checkout.session.expired":
+        return { reference: event.data.object.id, outcome: "expired" };
+      default:
+        return null;
+    }
+  }
+}
+
+interface MockCheckout extends CheckoutRequest {
+  reference: string;
+}
+
+const MOCK_SIGNATURE_HEADER = "x-mock-signature";
+
+// Development stand-in for a real provider. Its checkout page (GET /api/payments/mock/:reference)
+// lets the tester pick an outcome, which is delivered as a signed webhook like a real provider's.
+// Checkouts are kept in memory only.
+export class MockPaymentProvider implements PaymentProvider {
+  readonly name = "mock";
+  private readonly checkouts = new Map<string, MockCheckout>();
+
+  constructor(private readonly secret: string) {}
+
+  async createCheckout(request: CheckoutRequest): Promise<CheckoutSession> {
+    const reference = `mock_${randomUUID()}`;
+    this.checkouts.set(reference, { ...request, reference });
+    const url = `${new URL(request.successUrl).origin}/api/payments/mock/${reference}`;
+    return { reference, url, expiresAt: request.expiresAt };
+  }
+
+  getCheckout(reference: string): MockCheckout | undefined {
+    return this.checkouts.get(reference);
+  }
+
+  // Body and headers of the webhook the provider would send for this outcome
+  simulateWebhook(reference: string, outcome: PaymentEvent["outcome"]): { rawBody: Buffer; headers: IncomingHttpHeaders } {
+    const rawBody = Buffer.from(JSON.stringify({ reference, outcome }));
+    return { rawBody, headers: { [MOCK_SIGNATURE_HEADER]: this.sign(rawBody) } };
+  }
+
+  parseWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): PaymentEvent | null {
+    const signature = Buffer.from(String(headers[MOCK_SIGNATURE_HEADER] ?? ""));
+    const expected = Buffer.from(this.sign(rawBody));
+    if (signature.length !== expected.length || !timingSafeEqual(signature, expected)) {
+      throw new PaymentWebhookError("Invalid mock signature");
+    }
+    const event = JSON.parse(rawBody.toString("utf8")) as PaymentEvent;
+    return { reference: event.reference, outcome: event.outcome };
+  }
+
+  private sign(rawBody: Buffer): string {
+    return createHmac("sha256", this.secret).update(rawBody).digest("hex");
+  }
+}
+
+function createPaymentProvider(): PaymentProvider | null {
+  const configured = process.env.PAYMENT_PROVIDER
+    || (process.env.STRIPE_SECRET_KEY ? "stripe" : process.env.NODE_ENV !== "production" ? "mock" : "");
+
+  switch (configured) {
+    case "stripe": {
+      const secretKey = process.env.STRIPE_SECRET_KEY;
+      const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+      if (!secretKey || !webhookSecret) {
+        console.warn("Stripe payments need STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET; online payment is disabled");
+        return null;
+      }
+      return new StripeProvider(secretKey, webhookSecret);
+    }
+    case "mock":
+      // Anyone can "pay" through the mock checkout page
+      if (process.env.NODE_ENV === "production") {
+        console.warn("The mock payment provider is not available in production; online payment is disabled");
+        return null;
+      }
+      return new MockPaymentProvider(randomUUID());
+    case "":
+      return null;
+    default:
+      console.warn(`Unknown PAYMENT_PROVIDER "${configured}"; online payment is disabled`);
+      return null;
+  }
+}
+
+let provider: PaymentProvider | null | undefined;
+
+// The configured provider, or null when online payment is unavailable
+export function getPaymentProvider(): PaymentProvider | null {
+  if (provider === undefined) {
+    provider = createPaymentProvider();
+  }
+  return provider;
+}
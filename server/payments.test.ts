@@ -0,0 +1,133 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { defaultPaymentSettings, type Appointment, type StatusChangeActor } from "@shared/schema";
+import { booking } from "../test/fixtures";
+import { handlePaymentWebhook, releaseUnpaidAppointments, startCheckout } from "./payments";
+import { getPaymentProvider, MockPaymentProvider, PaymentWebhookError } from "./paymentProviders";
+import { savePaymentSettings } from "./settings";
+import { setMailer } from "./mailer";
+import { processOutbox } from "./outbox";
+import { storage } from "./storage";
+import { pool } from "./db";
+
+const BASE_URL = "http://localhost:5000";
+const client: StatusChangeActor = { actorType: "client", actorId: null, reason: null };
+
+let provider: MockPaymentProvider;
+
+// A client booking waiting to be paid online, due at paymentDueAt
+async function bookUnpaid(
+  date: string,
+  paymentDueAt: Date,
+  overrides: Parameters<typeof booking>[2] = {}
+): Promise<Appointment> {
+  return storage.createAppointment({ ...booking(date, "10:00", overrides), status: "pending_payment", paymentDueAt }, client);
+}
+
+// Opens a mock checkout for the appointment and returns its provider reference
+async function checkout(appointment: Appointment): Promise<string> {
+  await startCheckout(appointment, BASE_URL);
+  const [payment] = await storage.getPaymentsByAppointment(appointment.id);
+  return payment.providerReference!;
+}
+
+async function payOnline(reference: string, outcome: "succeeded" | "failed" = "succeeded") {
+  const { rawBody, headers } = provider.simulateWebhook(reference, outcome);
+  await handlePaymentWebhook(provider, rawBody, headers);
+}
+
+const inOneDay = () => new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+beforeAll(async () => {
+  // Lifecycle emails go through the outbox; they are not under test here
+  setMailer({ send: async () => {} });
+  await savePaymentSettings({
+    ...defaultPaymentSettings,
+    fees: { regular: { online: 30000, offline: 30000 }, welfare: { online: 5000, offline: 5000 } },
+    requirePrepayment: true,
+  });
+  const configured = getPaymentProvider();
+  if (!(configured instanceof MockPaymentProvider)) {
+    throw new Error("Payment tests need the mock provider; unset PAYMENT_PROVIDER and STRIPE_SECRET_KEY");
+  }
+  provider = configured;
+});
+
+afterAll(async () => {
+  await processOutbox();
+  await pool.end();
+});
+
+describe("handlePaymentWebhook", () => {
+  it("confirms a pending_payment booking when the checkout succeeds", async () => {
+    const appointment = await bookUnpaid("2030-04-01", inOneDay());
+    const reference = await checkout(appointment);
+
+    await payOnline(reference);
+
+    const [payment] = await storage.getPaymentsByAppointment(appointment.id);
+    expect(payment).toMatchObject({ status: "succeeded", amount: 30000 });
+    expect(payment.paidAt).not.toBeNull();
+    expect(await storage.getAppointment(appointment.id)).toMatchObject({ status: "confirmed", paymentDueAt: null });
+  });
+
+  it("leaves the booking unpaid when the checkout fails", async () => {
+    const appointment = await bookUnpaid("2030-04-02", inOneDay());
+    const reference = await checkout(appointment);
+
+    await payOnline(reference, "failed");
+
+    const [payment] = await storage.getPaymentsByAppointment(appointment.id);
+    expect(payment.status).toBe("failed");
+    expect((await storage.getAppointment(appointment.id))?.status).toBe("pending_payment");
+  });
+
+  it("keeps a paid welfare booking pending until its proof is approved", async () => {
+    const appointment = await bookUnpaid("2030-04-03", inOneDay(), { consultationType: "welfare" });
+    const reference = await checkout(appointment);
+
+    await payOnline(reference);
+
+    expect((await storage.getAppointment(appointment.id))?.status).toBe("pending");
+  });
+
+  it("rejects a delivery whose signature does not match its body", async () => {
+    const appointment = await bookUnpaid("2030-04-04", inOneDay());
+    const reference = await checkout(appointment);
+    const { headers } = provider.simulateWebhook(reference, "failed");
+    const forged = Buffer.from(JSON.stringify({ reference, outcome: "succeeded" }));
+
+    await expect(handlePaymentWebhook(provider, forged, headers)).rejects.toBeInstanceOf(PaymentWebhookError);
+
+    const [payment] = await storage.getPaymentsByAppointment(appointment.id);
+    expect(payment.status).toBe("pending");
+    expect((await storage.getAppointment(appointment.id))?.status).toBe("pending_payment");
+  });
+});
+
+describe("releaseUnpaidAppointments", () => {
+  it("cancels bookings left unpaid past their deadline", async () => {
+    const appointment = await bookUnpaid("2030-04-05", new Date(Date.now() - 60 * 1000));
+
+    await releaseUnpaidAppointments();
+
+    expect(await storage.getAppointment(appointment.id)).toMatchObject({ status: "cancelled", paymentDueAt: null });
+  });
+
+  it("does not cancel a booking paid after it was picked up for release", async () => {
+    const appointment = await bookUnpaid("2030-04-06", new Date(Date.now() - 60 * 1000));
+    const reference = await checkout(appointment);
+    // The job has already read the booking as overdue when the webhook arrives
+    const stale = await storage.getOverdueUnpaidAppointments(new Date());
+    await payOnline(reference);
+    const overdue = vi.spyOn(storage, "getOverdueUnpaidAppointments").mockResolvedValueOnce(stale);
+
+    try {
+      await releaseUnpaidAppointments();
+    } finally {
+      overdue.mockRestore();
+    }
+
+    expect(stale.map(a => a.id)).toContain(appointment.id);
+    expect((await storage.getAppointment(appointment.id))?.status).toBe("confirmed");
+  });
+});
@@ -0,0 +1,275 @@
+import type { IncomingHttpHeaders } from "http";
+import type { Appointment, Payment, OnsitePayment, PaymentReview, PaymentSettings } from "@shared/schema";
+import { getSessionStart } from "@shared/bookingPolicy";
+import { getAppointmentFee } from "@shared/payments";
+import { storage, InvalidStatusTransitionError } from "./storage";
+import { getPaymentSettings } from "./settings";
+import { getPaymentProvider, type PaymentProvider } from "./paymentProviders";
+import {
+  buildManageLink,
+  notifyAppointmentEvent,
+  notifyUnexpectedPayment,
+  notifyPaymentProofRejected,
+} from "./notifications";
+import { offerFreedSlot } from "./waitlist";
+
+// Paying for appointments. A pending_payment appointment has until its paymentDueAt (the payment
+// window from the payment settings, never past the session start) to be paid online. A successful
+// payment confirms it, and a background job releases bookings that stay unpaid and offers their slot
+// to the waitlist. Emails sent from webhooks and the background job need APP_BASE_URL for links.
+//
+// Clients can also pay outside any provider (bank transfer, QR code) and upload a screenshot. That
+// is a "manual" payment: staff reconcile it, and while it waits the booking is not released.
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+// An open checkout is handed out again unless it is about to expire
+const CHECKOUT_REUSE_MARGIN_MS = 5 * 60 * 1000;
+
+type Booking = Pick<Appointment, "consultationType" | "consultationMode" | "appointmentDate" | "appointmentTime">;
+
+export class PaymentUnavailableError extends Error {
+  constructor() {
+    super("Online payment is not available for this appointment");
+    this.name = "PaymentUnavailableError";
+  }
+}
+
+function getPaymentDeadline(settings: PaymentSettings, booking: Booking, now: Date): Date {
+  const windowEnd = new Date(now.getTime() + settings.paymentWindowHours * 60 * 60 * 1000);
+  const sessionStart = getSessionStart(booking.appointmentDate, booking.appointmentTime);
+  return sessionStart < windowEnd ? sessionStart : windowEnd;
+}
+
+// Payment deadline for a new client booking, or null when it need not be paid up front: it has no
+// fee, or neither the payment settings nor the client's attendance record require prepayment
+export async function getBookingPaymentDeadline(
+  booking: Booking,
+  attendanceRequiresPrepayment: boolean,
+  now: Date = new Date()
+): Promise<Date | null> {
+  const settings = await getPaymentSettings();
+  if (getAppointmentFee(settings, booking) === 0) return null;
+  if (!settings.requirePrepayment && !attendanceRequiresPrepayment) return null;
+  return getPaymentDeadline(settings, booking, now);
+}
+
+// Starts the payment deadline when staff move an appointment into pending_payment, and closes its
+// open checkouts when it leaves pending_payment. Returns the appointment as stored afterwards.
+export async function syncPaymentDeadline(previousStatus: Appointment["status"], appointment: Appointment): Promise<Appointment> {
+  if (previousStatus === appointment.status) return appointment;
+
+  if (appointment.status === "pending_payment") {
+    const settings = await getPaymentSettings();
+    // Without a fee there is nothing to pay online, so the booking is not released automatically
+    const dueAt = getAppointmentFee(settings, appointment) > 0
+      ? getPaymentDeadline(settings, appointment, new Date())
+      : null;
+    await storage.setPaymentDue(appointment.id, dueAt);
+    return { ...appointment, paymentDueAt: dueAt };
+  }
+  if (previousStatus === "pending_payment") {
+    await storage.expirePendingPayments(appointment.id);
+    await storage.setPaymentDue(appointment.id, null);
+    return { ...appointment, paymentDueAt: null };
+  }
+  return appointment;
+}
+
+function withQuery(url: string, query: string): string {
+  return `${url}${url.includes("?") ? "&" : "?"}${query}`;
+}
+
+// Hosted checkout URL for a pending_payment appointment; a checkout that is still open is reused.
+// Throws PaymentUnavailableError when there is no provider or nothing to pay, or no base URL for
+// the return links (which carry the guest's access token).
+export async function startCheckout(appointment: Appointment, baseUrl: string | undefined): Promise<string> {
+  const provider = getPaymentProvider();
+  const amount = getAppointmentFee(await getPaymentSettings(), appointment);
+  if (!provider || amount === 0 || !baseUrl) {
+    throw new PaymentUnavailableError();
+  }
+
+  const reuseAfter = Date.now() + CHECKOUT_REUSE_MARGIN_MS;
+  const open = (await storage.getPaymentsByAppointment(appointment.id)).find(payment =>
+    payment.status === "pending" &&
+    payment.provider === provider.name &&
+    payment.amount === amount &&
+    payment.checkoutUrl &&
+    payment.expiresAt &&
+    payment.expiresAt.getTime() > reuseAfter
+  );
+  if (open?.checkoutUrl) return open.checkoutUrl;
+
+  const payment = await storage.createPayment({
+    appointmentId: appointment.id,
+    amount,
+    currency: "CNY",
+    provider: provider.name,
+  });
+  const returnUrl = buildManageLink(appointment, baseUrl) ?? `${baseUrl}/appointments`;
+  try {
+    const session = await provider.createCheckout({
+      paymentId: payment.id,
+      amount,
+      currency: payment.currency,
+      description: `心理咨询 ${appointment.appointmentDate} ${appointment.appointmentTime.substring(0, 5)}`,
+      successUrl: withQuery(returnUrl, "payment=success"),
+      cancelUrl: withQuery(returnUrl, "payment=cancelled"),
+      expiresAt: appointment.paymentDueAt ?? new Date(Date.now() + 24 * 60 * 60 * 1000),
+    });
+    await storage.attachPaymentCheckout(payment.id, {
+      providerReference: session.reference,
+      checkoutUrl: session.url,
+      expiresAt: session.expiresAt,
+    });
+    return session.url;
+  } catch (error) {
+    await storage.completePayment(payment.id, "failed");
+    throw error;
+  }
+}
+
+const PAYMENT_CONFIRMATION_REASONS: Record<string, string> = {
+  manual: "转账已核对",
+  onsite: "线下收款已登记",
+};
+
+// Confirms the appointment a payment was for. Welfare bookings whose proof is still under review
+// move to pending instead and are confirmed by the reviewer. A payment for a booking that is no
+// longer awaiting payment is reported to the counselor for a refund.
+async function applySuccessfulPayment(payment: Payment, baseUrl: string | undefined): Promise<void> {
+  const appointment = await storage.getAppointment(payment.appointmentId);
+  if (!appointment) return;
+
+  const awaitingProof = appointment.consultationType === "welfare" && appointment.welfareProofStatus !== "approved";
+  let updated: Appointment | undefined;
+  try {
+    updated = appointment.status === "pending_payment"
+      ? await storage.updateAppointmentStatus(appointment.id, awaitingProof ? "pending" : "confirmed", {
+          actorType: "system",
+          actorId: null,
+          reason: PAYMENT_CONFIRMATION_REASONS[payment.provider] ?? "在线支付成功",
+        }, "pending_payment")
+      : undefined;
+  } catch (error) {
+    if (!(error instanceof InvalidStatusTransitionError)) throw error;
+  }
+  if (!updated) {
+    await notifyUnexpectedPayment(appointment, payment, baseUrl);
+    return;
+  }
+
+  updated = await syncPaymentDeadline(appointment.status, updated);
+  if (updated.status === "confirmed") {
+    await notifyAppointmentEvent("confirmed", updated, { baseUrl });
+  }
+}
+
+// Applies a verified webhook delivery. Throws PaymentWebhookError when it cannot be verified.
+export async function handlePaymentWebhook(
+  provider: PaymentProvider,
+  rawBody: Buffer,
+  headers: IncomingHttpHeaders
+): Promise<void> {
+  const event = provider.parseWebhook(rawBody, headers);
+  if (!event) return;
+
+  const payment = await storage.getPaymentByReference(provider.name, event.reference);
+  if (!payment) {
+    console.warn(`Ignoring ${provider.name} payment event for unknown checkout ${event.reference}`);
+    return;
+  }
+  const settled = await storage.completePayment(payment.id, event.outcome);
+  if (settled?.status === "succeeded") {
+    await applySuccessfulPayment(settled, process.env.APP_BASE_URL);
+  }
+}
+
+// Approves or rejects a pending manual payment. Approval settles the appointment like an online
+// payment; a rejection is explained to the client by email. Returns undefined when the payment is
+// not a pending manual payment.
+export async function reconcileManualPayment(
+  paymentId: string,
+  review: PaymentReview,
+  reviewerId: string,
+  baseUrl: string | undefined
+): Promise<Payment | undefined> {
+  const payment = await storage.reviewManualPayment(paymentId, {
+    status: review.decision === "approved" ? "succeeded" : "failed",
+    amount: review.decision === "approved" ? review.amount : undefined,
+    reviewerId,
+    note: review.note || null,
+  });
+  if (!payment) return undefined;
+
+  if (payment.status === "succeeded") {
+    await applySuccessfulPayment(payment, baseUrl);
+  } else {
+    const appointment = await storage.getAppointment(payment.appointmentId);
+    if (appointment) {
+      await notifyPaymentProofRejected(appointment, payment, baseUrl);
+    }
+  }
+  return payment;
+}
+
+// Records money staff took outside the system so it counts as paid (and can be receipted). A booking
+// still awaiting payment is settled as by any other payment.
+export async function recordOnsitePayment(
+  appointment: Appointment,
+  entry: OnsitePayment,
+  reviewerId: string,
+  baseUrl: string | undefined
+): Promise<Payment> {
+  const payment = await storage.recordOnsitePayment(appointment.id, {
+    amount: entry.amount,
+    reviewerId,
+    note: entry.note || null,
+  });
+  if (appointment.status === "pending_payment") {
+    await applySuccessfulPayment(payment, baseUrl);
+  }
+  return payment;
+}
+
+let running = false;
+
+// Cancels pending_payment appointments whose payment deadline has passed
+export async function releaseUnpaidAppointments(now: Date = new Date()): Promise<void> {
+  if (running) return;
+  running = true;
+  try {
+    const baseUrl = process.env.APP_BASE_URL;
+    for (const appointment of await storage.getOverdueUnpaidAppointments(now)) {
+      let released: Appointment | undefined;
+      try {
+        // Only if still unpaid: a payment or staff may have moved it on since it was fetched
+        released = await storage.updateAppointmentStatus(appointment.id, "cancelled", {
+          actorType: "system",
+          actorId: null,
+          reason: "超时未付款，已自动释放",
+        }, "pending_payment");
+      } catch (error) {
+        if (error instanceof InvalidStatusTransitionError) continue;
+        throw error;
+      }
+      if (!released) continue;
+
+      released = await syncPaymentDeadline(appointment.status, released);
+      await notifyAppointmentEvent("cancelled", released, { baseUrl });
+      if (baseUrl) {
+        await offerFreedSlot(released, baseUrl);
+      }
+    }
+  } catch (error) {
+    console.error("Error releasing unpaid appointments:", error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startPaymentScheduler(): void {
+  setInterval(() => void releaseUnpaidAppointments(), CHECK_INTERVAL_MS).unref();
+  void releaseUnpaidAppointments();
+}
@@ -0,0 +1,56 @@
+import type { Appointment, Payment } from "@shared/schema";
+import type { Permission } from "@shared/permissions";
+import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
+import { ObjectAccessGroupType, ObjectPermission, type ObjectAclPolicy } from "./objectAcl";
+
+// Proof documents (welfare eligibility, bank transfer screenshots) are uploaded by the client straight
+// to the private object directory. Once attached, the object gets an ACL that lets only staff with the
+// reviewing permission read it; the owner is the appointment or payment rather than a user, so the
+// uploader cannot read it back.
+
+// Accepted upload types and the extension the object is stored under
+export const PROOF_DOCUMENT_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "application/pdf": "pdf",
+};
+
+export async function proofDocumentExists(objectPath: string): Promise<boolean> {
+  try {
+    await new ObjectStorageService().getObjectEntityFile(objectPath);
+    return true;
+  } catch (error) {
+    if (error instanceof ObjectNotFoundError) return false;
+    throw error;
+  }
+}
+
+// Never throws; a document left without an ACL is simply unreadable through /objects
+async function protectProofDocument(objectPath: string, owner: string, reviewer: Permission): Promise<void> {
+  const policy: ObjectAclPolicy = {
+    owner,
+    visibility: "private",
+    aclRules: [
+      {
+        group: { type: ObjectAccessGroupType.STAFF_PERMISSION, id: reviewer },
+        permission: ObjectPermission.READ,
+      },
+    ],
+  };
+  try {
+    await new ObjectStorageService().trySetObjectEntityAclPolicy(objectPath, policy);
+  } catch (error) {
+    console.error(`Error protecting proof document for ${owner}:`, error);
+  }
+}
+
+export async function protectWelfareProof(appointment: Appointment): Promise<void> {
+  if (!appointment.welfareProofFile) return;
+  await protectProofDocument(appointment.welfareProofFile, `appointment:${appointment.id}`, "welfare:review");
+}
+
+export async function protectPaymentProof(payment: Payment): Promise<void> {
+  if (!payment.proofFile) return;
+  await protectProofDocument(payment.proofFile, `payment:${payment.id}`, "payments:reconcile");
+}
@@ -0,0 +1,46 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { defaultPaymentSettings, type StatusChangeActor, type User } from "@shared/schema";
+import { booking } from "../test/fixtures";
+import { generateReceipt } from "./receipts";
+import { savePaymentSettings } from "./settings";
+import { storage } from "./storage";
+import { pool } from "./db";
+
+const client: StatusChangeActor = { actorType: "client", actorId: null, reason: null };
+
+let staff: User;
+
+beforeAll(async () => {
+  await savePaymentSettings({ ...defaultPaymentSettings, counselorName: "测试咨询师" });
+  staff = await storage.createUser({
+    username: "receipt-staff",
+    email: "receipt-staff@example.com",
+    password: "not-a-real-hash",
+    name: "测试工作人员",
+    role: "admin",
+  });
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe("generateReceipt", () => {
+  it("issues no receipt without a recorded payment", async () => {
+    const appointment = await storage.createAppointment(booking("2030-05-01", "10:00"), client);
+
+    expect(await generateReceipt(appointment)).toBeNull();
+  });
+
+  it("draws the receipt with the packaged Chinese font and keeps its number", async () => {
+    const appointment = await storage.createAppointment(booking("2030-05-02", "10:00"), client);
+    await storage.recordOnsitePayment(appointment.id, { amount: 30000, reviewerId: staff.id, note: null });
+
+    const first = await generateReceipt(appointment);
+    const second = await generateReceipt(appointment);
+
+    expect(first!.pdf.subarray(0, 5).toString()).toBe("%PDF-");
+    expect(first!.pdf.toString("latin1")).toContain("NotoSansSC");
+    expect(second!.filename).toBe(first!.filename);
+  });
+});
@@ -0,0 +1,149 @@
+import { existsSync } from "fs";
+import { createRequire } from "module";
+import { format, parseISO } from "date-fns";
+import { zhCN } from "date-fns/locale";
+import PDFDocument from "pdfkit";
+import type { Appointment, Receipt } from "@shared/schema";
+import { formatAmount } from "@shared/payments";
+import { storage } from "./storage";
+import { getPaymentSettings } from "./settings";
+
+// PDF receipts for reimbursement. A receipt is issued the first time it is downloaded and keeps its
+// number, amount and counselor name from then on. The amount is what was recorded as paid: online,
+// by reconciled transfer, or on site as entered by staff. Without such a record there is no receipt.
+//
+// The PDF embeds a subset of a font with Chinese glyphs: Noto Sans SC from the
+// @expo-google-fonts/noto-sans-sc package (SIL Open Font License). RECEIPT_FONT_PATH can point to
+// another font instead, with RECEIPT_FONT_FAMILY naming the face inside a .ttc collection. The
+// counselor name comes from the payment settings.
+
+interface ReceiptFont {
+  path: string;
+  family?: string;
+}
+
+const BUNDLED_FONT = "@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf";
+
+// Found like any other dependency, from this module or, once built, from dist/index.cjs
+function resolveBundledFont(): string | null {
+  try {
+    return createRequire(typeof __filename === "string" ? __filename : import.meta.url).resolve(BUNDLED_FONT);
+  } catch {
+    return null;
+  }
+}
+
+// Why receipts cannot be produced at all, as opposed to an appointment that has nothing to receipt
+export class ReceiptUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReceiptUnavailableError";
+  }
+}
+
+function getReceiptFont(): ReceiptFont | null {
+  const configured = process.env.RECEIPT_FONT_PATH;
+  if (configured) {
+    return existsSync(configured) ? { path: configured, family: process.env.RECEIPT_FONT_FAMILY || undefined } : null;
+  }
+  const bundled = resolveBundledFont();
+  return bundled ? { path: bundled } : null;
+}
+
+function formatReceiptNumber(receipt: Pick<Receipt, "number">): string {
+  return `R${String(receipt.number).padStart(8, "0")}`;
+}
+
+// Amount to receipt, or 0 when the appointment has no recorded payment
+async function getReceiptAmount(appointment: Appointment): Promise<number> {
+  if (appointment.status === "cancelled") return 0;
+  return (await storage.getPaymentsByAppointment(appointment.id))
+    .filter(payment => payment.status === "succeeded")
+    .reduce((sum, payment) => sum + payment.amount, 0);
+}
+
+function renderReceipt(receipt: Receipt, appointment: Appointment, receiptFont: ReceiptFont): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: "A5",
+      margin: 48,
+      info: { Title: `收据 ${formatReceiptNumber(receipt)}`, Author: "秩序心理" },
+    });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    doc.registerFont("receipt", receiptFont.path, receiptFont.family);
+    doc.font("receipt");
+
+    const left = doc.page.margins.left;
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+    doc.fontSize(11).fillColor("#555555").text("秩序心理", { align: "center" });
+    doc.moveDown(0.3);
+    doc.fontSize(20).fillColor("#000000").text("收 据", { align: "center", characterSpacing: 4 });
+    doc.moveDown(1);
+
+    doc.fontSize(10).fillColor("#555555");
+    const metaTop = doc.y;
+    doc.text(`收据编号：${formatReceiptNumber(receipt)}`, left, metaTop, { width });
+    doc.text(`开具日期：${format(receipt.issuedAt, "yyyy年M月d日")}`, left, metaTop, { width, align: "right" });
+    doc.moveDown(0.8);
+    doc.moveTo(left, doc.y).lineTo(left + width, doc.y).strokeColor("#999999").stroke();
+    doc.moveDown(0.8);
+
+    const rows: [string, string][] = [
+      ["来访者", appointment.name],
+      ["咨询师", receipt.counselorName],
+      ["咨询日期", `${format(parseISO(appointment.appointmentDate), "yyyy年M月d日 EEEE", { locale: zhCN })} ${appointment.appointmentTime.substring(0, 5)}`],
+      ["咨询时长", `${appointment.durationMinutes}分钟`],
+      ["咨询类型", appointment.consultationType === "regular" ? "一般咨询" : "公益低价咨询"],
+      ["咨询方式", appointment.consultationMode === "online" ? "线上" : "线下"],
+    ];
+    doc.fontSize(12).fillColor("#000000");
+    for (const [label, value] of rows) {
+      const top = doc.y;
+      doc.fillColor("#555555").text(label, left, top, { width: 80 });
+      doc.fillColor("#000000").text(value, left + 90, top, { width: width - 90 });
+      doc.moveDown(0.6);
+    }
+
+    doc.moveDown(0.4);
+    doc.moveTo(left, doc.y).lineTo(left + width, doc.y).strokeColor("#999999").stroke();
+    doc.moveDown(0.8);
+    const amountTop = doc.y;
+    doc.fontSize(12).fillColor("#555555").text("金额", left, amountTop, { width: 80 });
+    doc.fontSize(16).fillColor("#000000").text(formatAmount(receipt.amount), left + 90, amountTop - 2, { width: width - 90 });
+
+    doc.moveDown(3);
+    doc.fontSize(9).fillColor("#777777").text("本收据根据付款记录开具，每次咨询仅开具一张，重复下载的收据编号相同。", left, doc.y, { width });
+
+    doc.end();
+  });
+}
+
+// The appointment's receipt as a PDF, issuing it on first download. Returns null when the appointment
+// has no recorded payment; throws ReceiptUnavailableError when receipts are not configured.
+export async function generateReceipt(appointment: Appointment): Promise<{ filename: string; pdf: Buffer } | null> {
+  const receiptFont = getReceiptFont();
+  if (!receiptFont) {
+    throw new ReceiptUnavailableError(`Receipt font not found at ${process.env.RECEIPT_FONT_PATH || BUNDLED_FONT}`);
+  }
+
+  let receipt = await storage.getReceiptByAppointment(appointment.id);
+  if (!receipt) {
+    const amount = await getReceiptAmount(appointment);
+    if (amount === 0) return null;
+    const { counselorName } = await getPaymentSettings();
+    if (!counselorName) {
+      throw new ReceiptUnavailableError("Counselor name for receipts is not set in the payment settings");
+    }
+    receipt = await storage.issueReceipt({ appointmentId: appointment.id, amount, currency: "CNY", counselorName });
+  }
+
+  return {
+    filename: `receipt-${formatReceiptNumber(receipt)}.pdf`,
+    pdf: await renderReceipt(receipt, appointment, receiptFont),
+  };
+}
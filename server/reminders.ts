@@ -0,0 +1,57 @@
+import { addHours, format } from "date-fns";
+import { storage } from "./storage";
+import { enqueueEmail } from "./outbox";
+import { buildReminderEmail, getAppointmentStart } from "./notifications";
+import { getBookingPolicy, getReminderSettings } from "./settings";
+
+// Background job that emails clients before their confirmed sessions. The offsets (hours before
+// the start) are configured in the admin center; each sent reminder is recorded in
+// appointment_reminders so restarts never send it twice.
+
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+let running = false;
+
+export async function sendDueReminders(now: Date = new Date()): Promise<void> {
+  if (running) return;
+  running = true;
+  try {
+    const settings = await getReminderSettings();
+    if (!settings.enabled || settings.offsetsHours.length === 0) return;
+
+    const maxOffset = Math.max(...settings.offsetsHours);
+    const appointments = await storage.getConfirmedAppointmentsBetween(
+      format(now, "yyyy-MM-dd"),
+      format(addHours(now, maxOffset), "yyyy-MM-dd")
+    );
+    const sent = await storage.getSentReminders(appointments.map(a => a.id));
+    const policy = await getBookingPolicy();
+    const baseUrl = process.env.APP_BASE_URL;
+
+    for (const appointment of appointments) {
+      const start = getAppointmentStart(appointment);
+      if (start <= now) continue;
+
+      // Only the nearest reminder that is due matters: after downtime, or for a booking made at
+      // short notice, the client gets one reminder rather than several at once
+      const dueOffsets = settings.offsetsHours.filter(offset => addHours(now, offset) >= start);
+      if (dueOffsets.length === 0) continue;
+      const offset = Math.min(...dueOffsets);
+      if (sent.some(r => r.appointmentId === appointment.id && r.offsetHours === offset)) continue;
+
+      const email = buildReminderEmail(appointment, policy, baseUrl);
+      if ((await storage.recordReminderSent(appointment.id, offset)) && email) {
+        await enqueueEmail(email);
+      }
+    }
+  } catch (error) {
+    console.error("Error sending appointment reminders:", error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startReminderScheduler(): void {
+  setInterval(() => void sendDueReminders(), CHECK_INTERVAL_MS).unref();
+  void sendDueReminders();
+}
@@ -1,30 +1,181 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import rateLimit from "express-rate-limit";
+import { storage, TimeSlotConflictError, InvalidStatusTransitionError } from "./storage";
 import {
+  activeAppointmentStatuses,
   insertAppointmentSchema,
   insertAnnouncementSchema,
   insertMessageSchema,
   insertConversationSchema,
   insertScheduleSettingSchema,
+  insertScheduleOverrideSchema,
+  insertScheduleTemplateSchema,
+  copyScheduleDaySchema,
   insertBlockedDateSchema,
+  insertSlotHoldSchema,
   visitorRegisterSchema,
   visitorLoginSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  guestAccessLinkSchema,
+  reminderSettingsSchema,
+  bookingPolicySchema,
+  sessionDurationsSchema,
+  holidayImportRequestSchema,
+  nextAvailableQuerySchema,
+  insertWaitlistEntrySchema,
+  availabilitySummaryQuerySchema,
+  welfareQuotaSchema,
+  welfareProofReviewSchema,
+  appointmentStatusChangeSchema,
+  appointmentRescheduleSchema,
+  attendancePolicySchema,
+  paymentSettingsSchema,
+  paymentProofSubmissionSchema,
+  paymentReviewSchema,
+  onsitePaymentSchema,
 } from "@shared/schema";
+import type {
+  Appointment,
+  InsertAppointment,
+  Conversation,
+  User,
+  SessionLength,
+  ScheduleTemplate,
+  StatusChangeActor,
+  PaymentProofStatus,
+  WaitlistEntry,
+} from "@shared/schema";
+import {
+  rolePermissions,
+  isStaffRole,
+  clinicalAppointmentFields,
+  type Permission,
+  type AdminSessionInfo,
+} from "@shared/permissions";
+import { checkBookingWindow, describeChangeCutoff, getChangeDeadline } from "@shared/bookingPolicy";
+import { templateRangesOverlap, type TemplateRange } from "@shared/scheduleTemplates";
+import { describeInvalidTransition } from "@shared/appointmentStatus";
+import { formatAmount, getAppointmentFee } from "@shared/payments";
 import { z } from "zod";
 import { upload } from "./upload";
-import { addDays, isAfter, startOfDay } from "date-fns";
+import { endOfMonth, format, parseISO } from "date-fns";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
 import bcrypt from "bcrypt";
+import QRCode from "qrcode";
+import {
+  generateTotpSecret,
+  buildOtpAuthUrl,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+} from "./totp";
+import { enqueueEmail } from "./outbox";
+import { notifyAppointmentEvent, notifyWelfareProofRejected } from "./notifications";
+import { offerFreedSlot, withdrawWaitlistOffer, resolveWaitlistClaim } from "./waitlist";
+import { checkWelfareQuota, loadWelfareCapacity, getWelfareQuotaStatus } from "./welfareQuota";
+import { PROOF_DOCUMENT_TYPES, proofDocumentExists, protectWelfareProof, protectPaymentProof } from "./proofDocuments";
+import { getAttendanceRecord } from "./attendance";
+import { checkSecondFactor, verifyStaffTotp } from "./twoFactor";
+import {
+  getBookingPaymentDeadline,
+  syncPaymentDeadline,
+  startCheckout,
+  handlePaymentWebhook,
+  reconcileManualPayment,
+  recordOnsitePayment,
+  PaymentUnavailableError,
+} from "./payments";
+import { getPaymentProvider, MockPaymentProvider, PaymentWebhookError } from "./paymentProviders";
+import { generateReceipt, ReceiptUnavailableError } from "./receipts";
+import {
+  getDaySchedule,
+  getAvailableSlots,
+  findNextAvailableSlots,
+  findAlternativeSlots,
+  getAvailabilitySummary,
+  findAppointmentsInBlock,
+  type SlotRequest,
+} from "./schedule";
+import {
+  parseHolidayCalendar,
+  planHolidayImport,
+  applyHolidayImport,
+  HolidayCalendarParseError,
+} from "./holidayCalendar";
+import {
+  getReminderSettings,
+  saveReminderSettings,
+  getBookingPolicy,
+  saveBookingPolicy,
+  getSessionDurations,
+  saveSessionDurations,
+  getWelfareQuota,
+  saveWelfareQuota,
+  getAttendancePolicy,
+  saveAttendancePolicy,
+  getPaymentSettings,
+  savePaymentSettings,
+} from "./settings";
+import {
+  createToken,
+  verifyToken,
+  fingerprint,
+  createGuestAccessToken,
+  EMAIL_VERIFICATION_TTL_MS,
+  PASSWORD_RESET_TTL_MS,
+  type GuestAccessScope,
+} from "./tokens";
+
+// Looked up on every request so that role changes take effect immediately
+async function getStaffPermissions(req: Request): Promise<Permission[]> {
+  if (!req.session?.adminId) return [];
+  const staff = await storage.getUser(req.session.adminId);
+  return staff ? rolePermissions[staff.role] : [];
+}
 
-const ADMIN_USERNAME = "jianjian0102";
-const ADMIN_PASSWORD_HASH = "$2b$10$ZDkMBlEUgct87nL49LFAku7WHpM6zDRcKBmAIZ4EyLVDZSQbgQEWu";
+async function staffCan(req: Request, permission: Permission): Promise<boolean> {
+  return (await getStaffPermissions(req)).includes(permission);
+}
 
-function requireAdmin(req: Request, res: Response, next: NextFunction) {
-  if (!req.session?.isAdmin) {
-    return res.status(401).json({ error: "未授权访问" });
+async function requireStaff(req: Request, res: Response, next: NextFunction) {
+  try {
+    if ((await getStaffPermissions(req)).length === 0) {
+      return res.status(401).json({ error: "未授权访问" });
+    }
+    next();
+  } catch (error) {
+    next(error);
   }
-  next();
+}
+
+function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const permissions = await getStaffPermissions(req);
+      if (permissions.length === 0) {
+        return res.status(401).json({ error: "未授权访问" });
+      }
+      if (!permissions.includes(permission)) {
+        return res.status(403).json({ error: "无权执行此操作" });
+      }
+      res.locals.permissions = permissions;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+function redactAppointment(appointment: Appointment, permissions: Permission[]) {
+  if (permissions.includes("appointments:clinical")) {
+    return appointment;
+  }
+  const redacted: Record<string, unknown> = { ...appointment };
+  for (const field of clinicalAppointmentFields) {
+    redacted[field] = null;
+  }
+  return redacted;
 }
 
 function requireUser(req: Request, res: Response, next: NextFunction) {
@@ -34,6 +185,196 @@ function requireUser(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
+// The session email only grants access to data booked under that address once the address is verified
+async function getVerifiedUserEmail(req: Request): Promise<string | null> {
+  if (!req.session?.userId) return null;
+  const user = await storage.getUser(req.session.userId);
+  return user?.email && user.emailVerifiedAt ? user.email : null;
+}
+
+// Who is changing an appointment's status in this request, for the status history
+function getStatusActor(req: Request, isStaff: boolean, reason?: string): StatusChangeActor {
+  return isStaff
+    ? { actorType: "staff", actorId: req.session.adminId ?? null, reason: reason || null }
+    : { actorType: "client", actorId: req.session?.userId ?? null, reason: reason || null };
+}
+
+// Base URL for links in outgoing mail. Only the configured APP_BASE_URL is used: most links carry a
+// token, and an origin taken from the request's Host header would let anyone have a victim's token
+// mailed to a site of their own. Without it, notifications go out without links.
+function getAppBaseUrl(): string | undefined {
+  return process.env.APP_BASE_URL || undefined;
+}
+
+// For mail that is nothing but a link with a token, which is not sent at all without APP_BASE_URL
+function requireAppBaseUrl(): string {
+  const baseUrl = process.env.APP_BASE_URL;
+  if (!baseUrl) {
+    throw new Error("APP_BASE_URL must be set to email links with tokens");
+  }
+  return baseUrl;
+}
+
+async function sendVerificationEmail(user: User, baseUrl: string): Promise<void> {
+  if (!user.email) return;
+  const token = createToken("verify-email", user.id, EMAIL_VERIFICATION_TTL_MS, { fp: fingerprint(user.email) });
+  const link = `${baseUrl}/verify-email?token=${encodeURIComponent(token)}`;
+  await enqueueEmail({
+    to: user.email,
+    subject: "请验证您的邮箱",
+    text: `${user.name || "您好"}，\n\n请点击以下链接验证您的邮箱，验证后该邮箱下的历史预约和留言将关联到您的账户：\n${link}\n\n链接24小时内有效。如非本人操作，请忽略此邮件。`,
+  });
+}
+
+async function sendPasswordResetEmail(user: User, baseUrl: string): Promise<void> {
+  if (!user.email) return;
+  // Bound to the current password hash, so the link stops working once it has been used
+  const token = createToken("reset-password", user.id, PASSWORD_RESET_TTL_MS, { fp: fingerprint(user.password) });
+  const link = `${baseUrl}/reset-password?token=${encodeURIComponent(token)}`;
+  await enqueueEmail({
+    to: user.email,
+    subject: "重置密码",
+    text: `${user.name || "您好"}，\n\n请点击以下链接设置新密码：\n${link}\n\n链接1小时内有效，且只能使用一次。如非本人操作，请忽略此邮件，您的密码不会改变。`,
+  });
+}
+
+// Marks the email verified and attaches appointments and conversations previously made with it
+async function completeEmailVerification(user: User): Promise<void> {
+  if (!user.email) return;
+  if (!user.emailVerifiedAt) {
+    await storage.markUserEmailVerified(user.id);
+  }
+  await storage.linkAppointmentsToUser(user.email, user.id);
+  await storage.linkConversationsToUser(user.email, user.id);
+}
+
+// Guests without an account reach their data through magic links carrying a guest-access token
+function hasGuestAccess(
+  token: unknown,
+  scope: GuestAccessScope,
+  email: string | null,
+  resourceId?: string
+): boolean {
+  if (typeof token !== "string" || !email) return false;
+  const payload = verifyToken(token, "guest-access");
+  if (!payload || payload.scope !== scope || payload.sub !== email) return false;
+  // Single-resource tokens do not unlock listings by email
+  return !payload.rid || payload.rid === resourceId;
+}
+
+async function canAccessAppointment(req: Request, appointment: Appointment, token: unknown): Promise<boolean> {
+  if (req.session?.userId && appointment.userId === req.session.userId) return true;
+  const verifiedEmail = await getVerifiedUserEmail(req);
+  if (verifiedEmail && verifiedEmail === appointment.contactEmail) return true;
+  return hasGuestAccess(token, "appointments", appointment.contactEmail, appointment.id);
+}
+
+async function canAccessConversation(req: Request, conversation: Conversation, token: unknown): Promise<boolean> {
+  if (req.session?.userId && conversation.userId === req.session.userId) return true;
+  const verifiedEmail = await getVerifiedUserEmail(req);
+  if (verifiedEmail && verifiedEmail === conversation.visitorEmail) return true;
+  return hasGuestAccess(token, "conversations", conversation.visitorEmail, conversation.id);
+}
+
+async function sendGuestAccessEmail(scope: GuestAccessScope, email: string, baseUrl: string): Promise<void> {
+  const token = createGuestAccessToken(scope, email);
+  const page = scope === "appointments" ? "appointments" : "messages";
+  const link = `${baseUrl}/${page}?email=${encodeURIComponent(email)}&access=${encodeURIComponent(token)}`;
+  const what = scope === "appointments" ? "预约记录" : "留言对话";
+  await enqueueEmail({
+    to: email,
+    subject: `查看您的${what}`,
+    text: `您好，\n\n请点击以下链接查看和管理您的${what}：\n${link}\n\n链接7天内有效，请勿转发给他人。如非本人操作，请忽略此邮件。`,
+  });
+}
+
+const SLOT_HOLD_MINUTES = 10;
+
+// Each hold blocks a slot for everyone else. A session keeps only its latest hold, and this caps how
+// many holds one address can place by starting new sessions.
+const slotHoldLimiter = rateLimit({
+  windowMs: SLOT_HOLD_MINUTES * 60 * 1000,
+  limit: 10,
+  standardHeaders: "draft-7",
+  legacyHeaders: false,
+  message: { error: "Too many holds", message: "操作过于频繁，请稍后再试" },
+});
+type SlotRejection = { error: string; message: string };
+
+// Checks that a date/time is open in the schedule for that date (weekly template plus date overrides)
+// for the consultation mode and long enough for the session. Returns how long a booking there
+// occupies the counselor.
+async function checkSlotBookable(
+  date: string,
+  time: string,
+  consultationMode: Appointment["consultationMode"],
+  consultationType: Appointment["consultationType"]
+): Promise<{ rejection: SlotRejection } | { sessionLength: SessionLength }> {
+  const schedule = await getDaySchedule(date);
+  if (schedule.isBlocked) {
+    return { rejection: { error: "Date blocked", message: "该日期不开放预约" } };
+  }
+
+  const slotSetting = schedule.slots.find(s => s.timeSlot === time.substring(0, 5));
+
+  if (!slotSetting) {
+    return { rejection: { error: "Time slot not available", message: "该时间段不可预约" } };
+  }
+
+  const isOnline = consultationMode === "online";
+  if (isOnline && !slotSetting.isOnlineAvailable) {
+    return { rejection: { error: "Online not available", message: "该时间段不支持线上咨询" } };
+  }
+  if (!isOnline && !slotSetting.isOfflineAvailable) {
+    return { rejection: { error: "Offline not available", message: "该时间段不支持线下咨询" } };
+  }
+
+  const durationMinutes = (await getSessionDurations())[consultationType];
+  if (durationMinutes > slotSetting.durationMinutes) {
+    return { rejection: { error: "Slot too short", message: "该时间段时长不足，无法安排此类咨询" } };
+  }
+
+  return { sessionLength: { durationMinutes, bufferMinutes: slotSetting.bufferMinutes } };
+}
+
+// Horizon and minimum notice from the booking policy; only clients are bound by it
+async function checkBookingPolicy(date: string, time: string): Promise<SlotRejection | null> {
+  const reason = checkBookingWindow(await getBookingPolicy(), date, time);
+  return reason ? { error: "Outside booking window", message: reason } : null;
+}
+
+// Weekly/monthly welfare caps and designated welfare slots; only clients are bound by them.
+// `moving` is the appointment being rescheduled.
+async function checkWelfareBooking(
+  date: string,
+  time: string,
+  consultationType: Appointment["consultationType"],
+  moving?: Appointment
+): Promise<SlotRejection | null> {
+  if (consultationType !== "welfare") return null;
+  const reason = await checkWelfareQuota(date, time, moving);
+  return reason ? { error: "Welfare quota", message: reason } : null;
+}
+
+// Adds the next open slots with the same mode and type to a 409, so the client can offer them in one click
+async function withAlternatives(rejection: SlotRejection, request: SlotRequest, isStaff: boolean) {
+  return { ...rejection, alternatives: await findAlternativeSlots(request, isStaff) };
+}
+
+const TIME_SLOT_CONFLICT: SlotRejection = {
+  error: "Time slot conflict",
+  message: "该时间段已被预约，请选择其他时间",
+};
+
+// Seasonal templates must not overlap, so each date has at most one; returns the conflicting template
+async function findOverlappingTemplate(
+  range: TemplateRange,
+  excludeId?: string
+): Promise<ScheduleTemplate | undefined> {
+  const templates = await storage.getScheduleTemplates();
+  return templates.find(template => template.id !== excludeId && templateRangesOverlap(template, range));
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
@@ -48,16 +389,22 @@ export async function registerRoutes(
         return res.status(400).json({ error: "请输入用户名和密码" });
       }
 
-      if (username !== ADMIN_USERNAME) {
+      const admin = await storage.getUserByUsername(username);
+      if (!admin || !isStaffRole(admin.role)) {
         return res.status(401).json({ error: "用户名或密码错误" });
       }
 
-      const isValidPassword = await bcrypt.compare(password, ADMIN_PASSWORD_HASH);
+      const isValidPassword = await bcrypt.compare(password, admin.password);
       if (!isValidPassword) {
         return res.status(401).json({ error: "用户名或密码错误" });
       }
 
-      req.session.isAdmin = true;
+      if (admin.totpEnabled) {
+        req.session.pendingAdminId = admin.id;
+        return res.json({ success: true, requiresTwoFactor: true });
+      }
+
+      req.session.adminId = admin.id;
       res.json({ success: true, message: "登录成功" });
     } catch (error) {
       console.error("Login error:", error);
@@ -65,6 +412,39 @@ export async function registerRoutes(
     }
   });
 
+  // Second login step for accounts with two-factor authentication
+  app.post("/api/admin/login/2fa", async (req: Request, res: Response) => {
+    try {
+      const { code, recoveryCode } = req.body;
+      const pendingAdminId = req.session.pendingAdminId;
+      if (!pendingAdminId) {
+        return res.status(401).json({ error: "请先输入用户名和密码" });
+      }
+
+      if (!code && !recoveryCode) {
+        return res.status(400).json({ error: "请输入验证码" });
+      }
+
+      const admin = await storage.getUser(pendingAdminId);
+      if (!admin || !isStaffRole(admin.role) || !admin.totpEnabled) {
+        delete req.session.pendingAdminId;
+        return res.status(401).json({ error: "请重新登录" });
+      }
+
+      const secondFactor = await checkSecondFactor(admin, { code, recoveryCode });
+      if (!secondFactor.ok) {
+        return res.status(secondFactor.locked ? 429 : 401).json({ error: secondFactor.error });
+      }
+
+      delete req.session.pendingAdminId;
+      req.session.adminId = admin.id;
+      res.json({ success: true, message: "登录成功" });
+    } catch (error) {
+      console.error("Two-factor login error:", error);
+      res.status(500).json({ error: "登录失败" });
+    }
+  });
+
   app.post("/api/admin/logout", (req: Request, res: Response) => {
     req.session.destroy((err) => {
       if (err) {
@@ -75,12 +455,149 @@ export async function registerRoutes(
     });
   });
 
-  app.get("/api/admin/me", (req: Request, res: Response) => {
-    res.json({ isAdmin: !!req.session?.isAdmin });
+  app.get("/api/admin/me", async (req: Request, res: Response) => {
+    try {
+      const admin = req.session?.adminId ? await storage.getUser(req.session.adminId) : undefined;
+      let info: AdminSessionInfo = { isAdmin: false, role: null, permissions: [], user: null };
+      if (admin && isStaffRole(admin.role)) {
+        info = {
+          isAdmin: true,
+          role: admin.role,
+          permissions: rolePermissions[admin.role],
+          user: { id: admin.id, username: admin.username, name: admin.name, email: admin.email },
+        };
+      }
+      res.json(info);
+    } catch (error) {
+      console.error("Error fetching admin info:", error);
+      res.status(500).json({ error: "获取管理员信息失败" });
+    }
+  });
+
+  // ============ ADMIN TWO-FACTOR AUTH API ============
+
+  // Two-factor status for the signed-in staff account
+  app.get("/api/admin/2fa", requireStaff, async (req: Request, res: Response) => {
+    try {
+      const admin = await storage.getUser(req.session.adminId!);
+      res.json({
+        enabled: !!admin?.totpEnabled,
+        recoveryCodesRemaining: admin?.totpRecoveryCodes?.length ?? 0,
+      });
+    } catch (error) {
+      console.error("Error fetching two-factor status:", error);
+      res.status(500).json({ error: "获取两步验证状态失败" });
+    }
+  });
+
+  // Start enrollment: generate a secret to scan with an authenticator app
+  app.post("/api/admin/2fa/setup", requireStaff, async (req: Request, res: Response) => {
+    try {
+      const admin = (await storage.getUser(req.session.adminId!))!;
+      if (admin.totpEnabled) {
+        return res.status(409).json({ error: "已启用两步验证" });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.updateUserTwoFactor(admin.id, { totpSecret: secret, totpLastUsedStep: null });
+
+      const otpauthUrl = buildOtpAuthUrl(admin.username || admin.email || admin.id, secret);
+      const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+      res.json({ secret, otpauthUrl, qrCodeDataUrl });
+    } catch (error) {
+      console.error("Error setting up two-factor auth:", error);
+      res.status(500).json({ error: "生成两步验证密钥失败" });
+    }
+  });
+
+  // Finish enrollment by confirming a code; returns the recovery codes once
+  app.post("/api/admin/2fa/enable", requireStaff, async (req: Request, res: Response) => {
+    try {
+      const { code } = req.body;
+      const admin = (await storage.getUser(req.session.adminId!))!;
+      if (admin.totpEnabled) {
+        return res.status(409).json({ error: "已启用两步验证" });
+      }
+      if (!admin.totpSecret) {
+        return res.status(400).json({ error: "请先生成两步验证密钥" });
+      }
+      if (!code || !(await verifyStaffTotp(admin, String(code)))) {
+        return res.status(400).json({ error: "验证码错误" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUserTwoFactor(admin.id, {
+        totpEnabled: true,
+        totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      });
+      res.json({ success: true, recoveryCodes });
+    } catch (error) {
+      console.error("Error enabling two-factor auth:", error);
+      res.status(500).json({ error: "启用两步验证失败" });
+    }
+  });
+
+  // Replace all recovery codes (requires a current code)
+  app.post("/api/admin/2fa/recovery-codes", requireStaff, async (req: Request, res: Response) => {
+    try {
+      const { code } = req.body;
+      const admin = (await storage.getUser(req.session.adminId!))!;
+      if (!admin.totpEnabled) {
+        return res.status(400).json({ error: "尚未启用两步验证" });
+      }
+      if (!code) {
+        return res.status(400).json({ error: "验证码错误" });
+      }
+      const secondFactor = await checkSecondFactor(admin, { code });
+      if (!secondFactor.ok) {
+        return res.status(secondFactor.locked ? 429 : 400).json({ error: secondFactor.error });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.updateUserTwoFactor(admin.id, {
+        totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      });
+      res.json({ success: true, recoveryCodes });
+    } catch (error) {
+      console.error("Error regenerating recovery codes:", error);
+      res.status(500).json({ error: "生成恢复码失败" });
+    }
+  });
+
+  // Turn two-factor authentication off (requires password and a current code)
+  app.post("/api/admin/2fa/disable", requireStaff, async (req: Request, res: Response) => {
+    try {
+      const { password, code } = req.body;
+      const admin = (await storage.getUser(req.session.adminId!))!;
+      if (!admin.totpEnabled) {
+        return res.status(400).json({ error: "尚未启用两步验证" });
+      }
+      if (!password || !(await bcrypt.compare(password, admin.password))) {
+        return res.status(400).json({ error: "密码错误" });
+      }
+      if (!code) {
+        return res.status(400).json({ error: "验证码错误" });
+      }
+      const secondFactor = await checkSecondFactor(admin, { code });
+      if (!secondFactor.ok) {
+        return res.status(secondFactor.locked ? 429 : 400).json({ error: secondFactor.error });
+      }
+
+      await storage.updateUserTwoFactor(admin.id, {
+        totpEnabled: false,
+        totpSecret: null,
+        totpLastUsedStep: null,
+        totpRecoveryCodes: null,
+      });
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error disabling two-factor auth:", error);
+      res.status(500).json({ error: "关闭两步验证失败" });
+    }
   });
 
   // Search users by email (admin only)
-  app.get("/api/admin/users/search", requireAdmin, async (req: Request, res: Response) => {
+  app.get("/api/admin/users/search", requirePermission("messages:manage"), async (req: Request, res: Response) => {
     try {
       const email = req.query.email as string;
       if (!email || email.length < 3) {
@@ -101,7 +618,7 @@ export async function registerRoutes(
   });
 
   // Admin start conversation with a user (by email)
-  app.post("/api/admin/conversations/initiate", requireAdmin, async (req: Request, res: Response) => {
+  app.post("/api/admin/conversations/initiate", requirePermission("messages:manage"), async (req: Request, res: Response) => {
     try {
       const { visitorEmail, visitorName, subject } = req.body;
 
@@ -123,9 +640,9 @@ export async function registerRoutes(
         subject: subject || "咨询师发起的对话",
       });
 
-      // Link to user if they have an account
+      // Link to user if they have an account with a verified email
       const user = await storage.getUserByEmail(visitorEmail);
-      if (user) {
+      if (user?.emailVerifiedAt) {
         await storage.linkConversationsToUser(visitorEmail, user.id);
       }
 
@@ -160,9 +677,12 @@ export async function registerRoutes(
         name: validatedData.name,
       });
 
-      // Link existing appointments and conversations to this user
-      await storage.linkAppointmentsToUser(validatedData.email, user.id);
-      await storage.linkConversationsToUser(validatedData.email, user.id);
+      // Existing appointments and conversations for this email are linked once it is verified
+      try {
+        await sendVerificationEmail(user, requireAppBaseUrl());
+      } catch (mailError) {
+        console.error("Error queueing verification email:", mailError);
+      }
 
       // Log in automatically
       req.session.userId = user.id;
@@ -171,8 +691,8 @@ export async function registerRoutes(
 
       res.json({
         success: true,
-        message: "注册成功",
-        user: { id: user.id, email: user.email, name: user.name }
+        message: "注册成功，请查收验证邮件",
+        user: { id: user.id, email: user.email, name: user.name, emailVerified: false }
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -205,7 +725,7 @@ export async function registerRoutes(
       res.json({
         success: true,
         message: "登录成功",
-        user: { id: user.id, email: user.email, name: user.name }
+        user: { id: user.id, email: user.email, name: user.name, emailVerified: !!user.emailVerifiedAt }
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -228,18 +748,148 @@ export async function registerRoutes(
   });
 
   // Get current user info
-  app.get("/api/auth/me", (req: Request, res: Response) => {
-    if (req.session?.userId) {
-      res.json({
-        isLoggedIn: true,
-        user: {
-          id: req.session.userId,
-          email: req.session.userEmail,
-          name: req.session.userName,
+  app.get("/api/auth/me", async (req: Request, res: Response) => {
+    try {
+      const user = req.session?.userId ? await storage.getUser(req.session.userId) : undefined;
+      if (user) {
+        res.json({
+          isLoggedIn: true,
+          user: {
+            id: user.id,
+            email: user.email,
+            name: user.name,
+            emailVerified: !!user.emailVerifiedAt,
+          }
+        });
+      } else {
+        res.json({ isLoggedIn: false, user: null });
+      }
+    } catch (error) {
+      console.error("Error fetching current user:", error);
+      res.status(500).json({ error: "获取用户信息失败" });
+    }
+  });
+
+  // Confirm email ownership from the link in the verification email
+  app.post("/api/auth/verify-email", async (req: Request, res: Response) => {
+    try {
+      const { token } = z.object({ token: z.string().min(1) }).parse(req.body);
+      const payload = verifyToken(token, "verify-email");
+      const user = payload ? await storage.getUser(payload.sub) : undefined;
+
+      // The token is bound to the address it was sent to, in case the account email changed since
+      if (!payload || !user?.email || payload.fp !== fingerprint(user.email)) {
+        return res.status(400).json({ error: "验证链接无效或已过期" });
+      }
+
+      await completeEmailVerification(user);
+      res.json({ success: true, message: "邮箱验证成功" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "验证链接无效或已过期" });
+      }
+      console.error("Email verification error:", error);
+      res.status(500).json({ error: "邮箱验证失败" });
+    }
+  });
+
+  // Send the verification email again
+  app.post("/api/auth/resend-verification", requireUser, async (req: Request, res: Response) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "请先登录" });
+      }
+      if (user.emailVerifiedAt) {
+        return res.status(400).json({ error: "邮箱已验证" });
+      }
+
+      await sendVerificationEmail(user, requireAppBaseUrl());
+      res.json({ success: true, message: "验证邮件已发送" });
+    } catch (error) {
+      console.error("Error resending verification email:", error);
+      res.status(500).json({ error: "发送验证邮件失败" });
+    }
+  });
+
+  // Request a password reset link. Always succeeds so that registered emails cannot be probed.
+  app.post("/api/auth/forgot-password", async (req: Request, res: Response) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+
+      // Staff accounts are managed with the admin:create script and protected by 2FA
+      const user = await storage.getUserByEmail(email);
+      if (user && user.role === "client") {
+        try {
+          await sendPasswordResetEmail(user, requireAppBaseUrl());
+        } catch (mailError) {
+          console.error("Error queueing password reset email:", mailError);
         }
-      });
-    } else {
-      res.json({ isLoggedIn: false, user: null });
+      }
+
+      res.json({ success: true, message: "如果该邮箱已注册，您将收到重置密码的邮件" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0].message });
+      }
+      console.error("Forgot password error:", error);
+      res.status(500).json({ error: "请求失败，请稍后重试" });
+    }
+  });
+
+  // Set a new password from the link in the reset email
+  app.post("/api/auth/reset-password", async (req: Request, res: Response) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      const payload = verifyToken(token, "reset-password");
+      const user = payload ? await storage.getUser(payload.sub) : undefined;
+
+      if (!payload || !user || user.role !== "client" || payload.fp !== fingerprint(user.password)) {
+        return res.status(400).json({ error: "重置链接无效或已过期" });
+      }
+
+      const hashedPassword = await bcrypt.hash(password, 10);
+      const updated = await storage.updateUser(user.id, { password: hashedPassword });
+
+      // Following a link sent to the address proves ownership of it
+      if (updated) {
+        await completeEmailVerification(updated);
+      }
+
+      res.json({ success: true, message: "密码已重置，请使用新密码登录" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0].message });
+      }
+      console.error("Password reset error:", error);
+      res.status(500).json({ error: "重置密码失败" });
+    }
+  });
+
+  // Email a guest a magic link to their appointments or conversation.
+  // Always succeeds so that the existence of bookings for an email cannot be probed.
+  app.post("/api/auth/access-link", async (req: Request, res: Response) => {
+    try {
+      const { email, scope } = guestAccessLinkSchema.parse(req.body);
+
+      const hasData = scope === "appointments"
+        ? (await storage.getAppointmentsByEmail(email)).length > 0
+        : !!(await storage.getConversationByEmail(email));
+      if (hasData) {
+        try {
+          await sendGuestAccessEmail(scope, email, requireAppBaseUrl());
+        } catch (mailError) {
+          console.error("Error queueing access link:", mailError);
+        }
+      }
+
+      res.json({ success: true, message: "如果该邮箱有相关记录，您将收到访问链接邮件" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors[0].message });
+      }
+      console.error("Access link error:", error);
+      res.status(500).json({ error: "请求失败，请稍后重试" });
     }
   });
 
@@ -267,11 +917,11 @@ export async function registerRoutes(
 
   // ============ APPOINTMENTS API ============
 
-  // Get all appointments (admin only)
-  app.get("/api/appointments", requireAdmin, async (req: Request, res: Response) => {
+  // Get all appointments (staff, clinical fields redacted per permissions)
+  app.get("/api/appointments", requirePermission("appointments:read"), async (req: Request, res: Response) => {
     try {
       const appointments = await storage.getAppointments();
-      res.json(appointments);
+      res.json(appointments.map(a => redactAppointment(a, res.locals.permissions)));
     } catch (error) {
       console.error("Error fetching appointments:", error);
       res.status(500).json({ error: "Failed to fetch appointments" });
@@ -282,9 +932,9 @@ export async function registerRoutes(
   app.get("/api/appointments/my", requireUser, async (req: Request, res: Response) => {
     try {
       const userId = req.session.userId!;
-      const userEmail = req.session.userEmail;
+      const userEmail = await getVerifiedUserEmail(req);
 
-      // Get appointments linked to userId or matching email
+      // Get appointments linked to userId or matching the verified email
       const appointments = await storage.getAppointmentsByUserId(userId, userEmail);
       res.json(appointments);
     } catch (error) {
@@ -294,9 +944,17 @@ export async function registerRoutes(
   });
 
   // Get appointments by email (for visitor history lookup) - MUST be before /:id
+  // Requires the guest access token from the emailed link
   app.get("/api/appointments/by-email/:email", async (req: Request, res: Response) => {
     try {
-      const appointments = await storage.getAppointmentsByEmail(decodeURIComponent(req.params.email));
+      const email = decodeURIComponent(req.params.email);
+      if (!hasGuestAccess(req.query.token, "appointments", email)) {
+        return res.status(403).json({
+          error: "Unauthorized",
+          message: "访问链接无效或已过期，请重新获取"
+        });
+      }
+      const appointments = await storage.getAppointmentsByEmail(email);
       res.json(appointments);
     } catch (error) {
       console.error("Error fetching appointments by email:", error);
@@ -304,77 +962,185 @@ export async function registerRoutes(
     }
   });
 
-  // Get single appointment (admin only)
-  app.get("/api/appointments/:id", requireAdmin, async (req: Request, res: Response) => {
+  // Get single appointment (staff, clinical fields redacted per permissions)
+  app.get("/api/appointments/:id", requirePermission("appointments:read"), async (req: Request, res: Response) => {
     try {
       const appointment = await storage.getAppointment(req.params.id);
       if (!appointment) {
         return res.status(404).json({ error: "Appointment not found" });
       }
-      res.json(appointment);
+      res.json(redactAppointment(appointment, res.locals.permissions));
     } catch (error) {
       console.error("Error fetching appointment:", error);
       res.status(500).json({ error: "Failed to fetch appointment" });
     }
   });
 
+  // Status changes of an appointment, oldest first
+  app.get("/api/appointments/:id/status-history", requirePermission("appointments:read"), async (req: Request, res: Response) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      res.json(await storage.getAppointmentStatusHistory(appointment.id));
+    } catch (error) {
+      console.error("Error fetching status history:", error);
+      res.status(500).json({ error: "Failed to fetch status history" });
+    }
+  });
+
+  // Attendance of the client who made an appointment, matched by account, email or phone
+  app.get("/api/appointments/:id/attendance", requirePermission("appointments:read"), async (req: Request, res: Response) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      res.json(await getAttendanceRecord({
+        email: appointment.contactEmail,
+        phone: appointment.contactPhone,
+        userId: appointment.userId,
+      }));
+    } catch (error) {
+      console.error("Error fetching attendance:", error);
+      res.status(500).json({ error: "Failed to fetch attendance" });
+    }
+  });
+
   // Create appointment
   app.post("/api/appointments", async (req: Request, res: Response) => {
     try {
       const validatedData = insertAppointmentSchema.parse(req.body);
 
-      // Check if date is blocked
-      const isBlocked = await storage.isDateBlocked(validatedData.appointmentDate);
-      if (isBlocked) {
-        return res.status(409).json({
-          error: "Date blocked",
-          message: "该日期不开放预约"
+      const isStaff = (await getStaffPermissions(req)).includes("appointments:manage");
+
+      // Welfare bookings carry a proof document; staff booking on a client's behalf may omit it
+      if (validatedData.consultationType !== "welfare") {
+        validatedData.welfareProofFile = null;
+      } else if (validatedData.welfareProofFile) {
+        if (!(await proofDocumentExists(validatedData.welfareProofFile))) {
+          return res.status(400).json({
+            error: "Welfare proof not found",
+            message: "证明材料未找到，请重新上传"
+          });
+        }
+      } else if (!isStaff) {
+        return res.status(400).json({
+          error: "Welfare proof required",
+          message: "公益低价咨询需上传证明材料"
         });
       }
 
-      // Check if time slot is configured for the consultation mode
-      const date = new Date(validatedData.appointmentDate);
-      const dayOfWeek = date.getDay();
-      const daySettings = await storage.getScheduleSettingsByDay(dayOfWeek);
-      const slotSetting = daySettings.find(s => s.timeSlot === validatedData.appointmentTime);
+      // Client bookings that must be paid first start as pending_payment
+      let paymentDueAt: Date | null = null;
+      let attendanceRequiresPrepayment = false;
+      if (!isStaff) {
+        const policyRejection =
+          (await checkBookingPolicy(validatedData.appointmentDate, validatedData.appointmentTime)) ??
+          (await checkWelfareBooking(validatedData.appointmentDate, validatedData.appointmentTime, validatedData.consultationType));
+        if (policyRejection) {
+          return res.status(409).json(await withAlternatives(policyRejection, validatedData, isStaff));
+        }
 
-      if (!slotSetting) {
-        return res.status(409).json({
-          error: "Time slot not available",
-          message: "该时间段不可预约"
-        });
-      }
+        const client = {
+          email: validatedData.contactEmail,
+          phone: validatedData.contactPhone,
+          userId: req.session?.userId,
+        };
+        const { maxActiveBookings } = await getBookingPolicy();
+        if (maxActiveBookings > 0) {
+          const activeCount = await storage.countUpcomingAppointments(client, format(new Date(), "yyyy-MM-dd"));
+          if (activeCount >= maxActiveBookings) {
+            return res.status(409).json({
+              error: "Booking limit reached",
+              message: `每位来访者最多同时保留${maxActiveBookings}个未完成的预约，请在现有预约结束或取消后再预约`
+            });
+          }
+        }
 
-      // Check if slot is available for the consultation mode
-      const isOnline = validatedData.consultationMode === "online";
-      if (isOnline && !slotSetting.isOnlineAvailable) {
-        return res.status(409).json({
-          error: "Online not available",
-          message: "该时间段不支持线上咨询"
-        });
-      }
-      if (!isOnline && !slotSetting.isOfflineAvailable) {
-        return res.status(409).json({
-          error: "Offline not available",
-          message: "该时间段不支持线下咨询"
-        });
+        const { requirement } = await getAttendanceRecord(client);
+        if (requirement === "approval") {
+          return res.status(409).json({
+            error: "Attendance policy",
+            message: "由于近期多次未到场或临时取消，新的预约需由咨询师安排，请通过留言联系咨询师"
+          });
+        }
+        attendanceRequiresPrepayment = requirement === "prepayment";
+        paymentDueAt = await getBookingPaymentDeadline(validatedData, attendanceRequiresPrepayment);
       }
 
-      // Check for time slot conflict (already booked)
-      const isAvailable = await storage.checkTimeSlotAvailable(
+      const slot = await checkSlotBookable(
         validatedData.appointmentDate,
-        validatedData.appointmentTime
+        validatedData.appointmentTime,
+        validatedData.consultationMode,
+        validatedData.consultationType
       );
+      if ("rejection" in slot) {
+        return res.status(409).json(await withAlternatives(slot.rejection, validatedData, isStaff));
+      }
 
-      if (!isAvailable) {
-        return res.status(409).json({
-          error: "Time slot conflict",
-          message: "该时间段已被预约，请选择其他时间"
-        });
+      // Staff booking a welfare session without a proof vouch for the client's eligibility themselves
+      const staffVouchesWelfare = isStaff && validatedData.consultationType === "welfare" && !validatedData.welfareProofFile;
+
+      // The hold this booking converts: the one offered through a waitlist claim link, or else the one
+      // this session placed. Hold ids from the body are not trusted, as they would free anyone's hold.
+      let holdId = req.session.slotHoldId;
+      let claimedEntry: WaitlistEntry | null = null;
+      if (typeof req.body.claimToken === "string") {
+        claimedEntry = await resolveWaitlistClaim(req.body.claimToken);
+        if (
+          !claimedEntry ||
+          claimedEntry.offeredDate !== validatedData.appointmentDate ||
+          claimedEntry.offeredTime!.substring(0, 5) !== validatedData.appointmentTime.substring(0, 5)
+        ) {
+          return res.status(409).json({ error: "Offer not found", message: "候补链接无效或已过期，请重新选择时间" });
+        }
+        holdId = claimedEntry.holdId!;
       }
 
-      const appointment = await storage.createAppointment(validatedData);
-      res.status(201).json(appointment);
+      // Overlaps are checked atomically with the insert; the client's own hold is released
+      let appointment: Appointment;
+      try {
+        appointment = await storage.createAppointment(
+          {
+            ...validatedData,
+            ...slot.sessionLength,
+            ...(paymentDueAt && { status: "pending_payment", paymentDueAt }),
+            ...(staffVouchesWelfare && {
+              welfareProofStatus: "approved",
+              welfareProofReviewedBy: req.session.adminId ?? null,
+              welfareProofReviewedAt: new Date(),
+              welfareProofReviewNote: "工作人员代为预约，未上传证明材料",
+            }),
+          },
+          getStatusActor(
+            req,
+            isStaff,
+            paymentDueAt && attendanceRequiresPrepayment ? "近期多次未到场或临时取消，需先付款" : undefined
+          ),
+          holdId
+        );
+      } catch (error) {
+        if (error instanceof TimeSlotConflictError) {
+          return res.status(409).json(await withAlternatives(TIME_SLOT_CONFLICT, validatedData, isStaff));
+        }
+        throw error;
+      }
+
+      if (claimedEntry) {
+        await storage.claimWaitlistOffer(claimedEntry.holdId!);
+      } else {
+        delete req.session.slotHoldId;
+      }
+      await protectWelfareProof(appointment);
+      await notifyAppointmentEvent("created", appointment, { baseUrl: getAppBaseUrl() });
+
+      // Lets a guest manage this booking without an account
+      const accessToken = appointment.contactEmail
+        ? createGuestAccessToken("appointments", appointment.contactEmail, appointment.id)
+        : undefined;
+      res.status(201).json({ ...appointment, accessToken });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Validation error", details: error.errors });
@@ -384,117 +1150,166 @@ export async function registerRoutes(
     }
   });
 
-  // Update appointment status (admin only)
-  app.patch("/api/appointments/:id/status", requireAdmin, async (req: Request, res: Response) => {
+  // Update appointment status (staff only)
+  app.patch("/api/appointments/:id/status", requirePermission("appointments:manage"), async (req: Request, res: Response) => {
     try {
-      const { status } = req.body;
-      if (!["pending", "pending_payment", "confirmed", "cancelled", "completed"].includes(status)) {
-        return res.status(400).json({ error: "Invalid status" });
+      const { status, reason } = appointmentStatusChangeSchema.parse(req.body);
+
+      const previous = await storage.getAppointment(req.params.id);
+      if (!previous) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      if (status === "confirmed" && previous.consultationType === "welfare" && previous.welfareProofStatus !== "approved") {
+        return res.status(409).json({
+          error: "Welfare proof not approved",
+          message: "请先审核通过公益咨询证明材料，再确认预约"
+        });
       }
 
-      const appointment = await storage.updateAppointmentStatus(req.params.id, status);
-      if (!appointment) {
+      const updated = await storage.updateAppointmentStatus(req.params.id, status, getStatusActor(req, true, reason));
+      if (!updated) {
         return res.status(404).json({ error: "Appointment not found" });
       }
-      res.json(appointment);
+      const appointment = await syncPaymentDeadline(previous.status, updated);
+
+      if (previous.status !== appointment.status && (status === "confirmed" || status === "cancelled")) {
+        await notifyAppointmentEvent(status, appointment, { baseUrl: getAppBaseUrl() });
+        if (status === "cancelled") {
+          await offerFreedSlot(appointment, getAppBaseUrl());
+        }
+      }
+      res.json(redactAppointment(appointment, res.locals.permissions));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(409).json({
+          error: "Invalid status transition",
+          message: describeInvalidTransition(error.from, error.to)
+        });
+      }
+      if (error instanceof TimeSlotConflictError) {
+        return res.status(409).json({
+          error: "Time slot conflict",
+          message: "该时间段已被预约，无法恢复此预约"
+        });
+      }
       console.error("Error updating appointment:", error);
       res.status(500).json({ error: "Failed to update appointment" });
     }
   });
 
-  // Update appointment (for modifying date/time) - requires email verification
+  // Approve or reject the welfare proof; a rejection is explained to the client by email
+  app.patch("/api/appointments/:id/welfare-proof", requirePermission("welfare:review"), async (req: Request, res: Response) => {
+    try {
+      const { decision, note } = welfareProofReviewSchema.parse(req.body);
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      if (appointment.consultationType !== "welfare") {
+        return res.status(400).json({ error: "Not a welfare booking", message: "该预约不是公益低价咨询" });
+      }
+      // Without a document, staff can still approve an eligibility they checked another way
+      if (!appointment.welfareProofFile && decision === "rejected") {
+        return res.status(400).json({ error: "No welfare proof", message: "该预约没有上传证明材料" });
+      }
+
+      const updated = await storage.reviewWelfareProof(appointment.id, decision, req.session.adminId!, note || null);
+      if (!updated) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      if (decision === "rejected" && appointment.welfareProofStatus !== "rejected") {
+        await notifyWelfareProofRejected(updated, getAppBaseUrl());
+      }
+      res.json(redactAppointment(updated, res.locals.permissions));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error reviewing welfare proof:", error);
+      res.status(500).json({ error: "Failed to review welfare proof" });
+    }
+  });
+
+  // Update appointment (for modifying date/time) - requires ownership
   app.patch("/api/appointments/:id", async (req: Request, res: Response) => {
     try {
+      const { accessToken, appointmentDate: newDate, appointmentTime: newTime } = appointmentRescheduleSchema.parse(req.body);
       const appointment = await storage.getAppointment(req.params.id);
       if (!appointment) {
         return res.status(404).json({ error: "Appointment not found" });
       }
 
-      // Verify ownership via email (unless admin)
-      const { verifyEmail } = req.body;
-      const isAdmin = req.session?.isAdmin;
-      if (!isAdmin && (!verifyEmail || verifyEmail !== appointment.contactEmail)) {
+      // Verify ownership via account or guest access token (unless staff managing appointments)
+      const staffPermissions = await getStaffPermissions(req);
+      const isStaff = staffPermissions.includes("appointments:manage");
+      if (!isStaff && !(await canAccessAppointment(req, appointment, accessToken))) {
         return res.status(403).json({
           error: "Unauthorized",
-          message: "邮箱验证失败，无权修改此预约"
+          message: "访问链接无效或已过期，无权修改此预约"
         });
       }
 
-      // Check modification deadline: 10:00 PM on the day before
-      const appointmentDate = new Date(appointment.appointmentDate);
-      const deadline = new Date(appointmentDate);
-      deadline.setDate(deadline.getDate() - 1);
-      deadline.setHours(22, 0, 0, 0);
-
-      if (new Date() > deadline) {
+      const policy = await getBookingPolicy();
+      if (!isStaff && new Date() > getChangeDeadline(policy, appointment.appointmentDate)) {
         return res.status(403).json({
           error: "Modification deadline passed",
-          message: "修改截止时间已过（咨询前一天22:00前）"
+          message: `修改截止时间已过（${describeChangeCutoff(policy)}）`
         });
       }
 
-      // If changing date/time, check for conflicts
-      const newDate = req.body.appointmentDate || appointment.appointmentDate;
-      const newTime = req.body.appointmentTime || appointment.appointmentTime;
-      const consultationMode = appointment.consultationMode;
+      // Finished and cancelled appointments keep their date and time
+      if (!(activeAppointmentStatuses as readonly string[]).includes(appointment.status)) {
+        return res.status(409).json({
+          error: "Appointment not active",
+          message: "该预约已结束或已取消，无法更改时间"
+        });
+      }
 
+      // If changing date/time, check for conflicts
+      const changes: Partial<InsertAppointment & SessionLength> = { appointmentDate: newDate, appointmentTime: newTime };
       if (newDate !== appointment.appointmentDate || newTime !== appointment.appointmentTime) {
-        // Check if new date is blocked
-        const isBlocked = await storage.isDateBlocked(newDate);
-        if (isBlocked) {
-          return res.status(409).json({
-            error: "Date blocked",
-            message: "该日期不开放预约"
-          });
+        if (!isStaff) {
+          const policyRejection =
+            (await checkBookingPolicy(newDate, newTime)) ??
+            (await checkWelfareBooking(newDate, newTime, appointment.consultationType, appointment));
+          if (policyRejection) {
+            return res.status(409).json(policyRejection);
+          }
         }
-
-        // Check if time slot is configured for the consultation mode
-        const date = new Date(newDate);
-        const dayOfWeek = date.getDay();
-        const daySettings = await storage.getScheduleSettingsByDay(dayOfWeek);
-        const slotSetting = daySettings.find(s => s.timeSlot === newTime);
-
-        if (!slotSetting) {
-          return res.status(409).json({
-            error: "Time slot not available",
-            message: "该时间段不可预约"
-          });
+        const slot = await checkSlotBookable(newDate, newTime, appointment.consultationMode, appointment.consultationType);
+        if ("rejection" in slot) {
+          return res.status(409).json(slot.rejection);
         }
+        // The new slot may have a different buffer, and the session length may have changed since booking
+        Object.assign(changes, slot.sessionLength);
+      }
 
-        // Check if slot is available for the consultation mode
-        const isOnline = consultationMode === "online";
-        if (isOnline && !slotSetting.isOnlineAvailable) {
-          return res.status(409).json({
-            error: "Online not available",
-            message: "该时间段不支持线上咨询"
-          });
-        }
-        if (!isOnline && !slotSetting.isOfflineAvailable) {
-          return res.status(409).json({
-            error: "Offline not available",
-            message: "该时间段不支持线下咨询"
-          });
-        }
+      // A date/time change is checked for overlaps atomically with the update
+      const updated = await storage.updateAppointment(req.params.id, changes);
 
-        const isAvailable = await storage.checkTimeSlotAvailable(newDate, newTime, req.params.id);
-        if (!isAvailable) {
-          return res.status(409).json({
-            error: "Time slot conflict",
-            message: "该时间段已被预约，请选择其他时间"
-          });
-        }
+      if (updated && (updated.appointmentDate !== appointment.appointmentDate || updated.appointmentTime !== appointment.appointmentTime)) {
+        await notifyAppointmentEvent("rescheduled", updated, { baseUrl: getAppBaseUrl(), previous: appointment });
       }
-
-      const updated = await storage.updateAppointment(req.params.id, req.body);
-      res.json(updated);
+      res.json(updated && isStaff ? redactAppointment(updated, staffPermissions) : updated);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      if (error instanceof TimeSlotConflictError) {
+        return res.status(409).json({
+          error: "Time slot conflict",
+          message: "该时间段已被预约，请选择其他时间"
+        });
+      }
       console.error("Error updating appointment:", error);
       res.status(500).json({ error: "Failed to update appointment" });
     }
   });
 
-  // Cancel appointment - requires email verification
+  // Cancel appointment - requires ownership
   app.post("/api/appointments/:id/cancel", async (req: Request, res: Response) => {
     try {
       const appointment = await storage.getAppointment(req.params.id);
@@ -502,45 +1317,450 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Appointment not found" });
       }
 
-      // Verify ownership via email (unless admin)
-      const { verifyEmail } = req.body;
-      const isAdmin = req.session?.isAdmin;
-      if (!isAdmin && (!verifyEmail || verifyEmail !== appointment.contactEmail)) {
+      // Verify ownership via account or guest access token (unless staff managing appointments)
+      const { accessToken } = req.body;
+      const staffPermissions = await getStaffPermissions(req);
+      const isStaff = staffPermissions.includes("appointments:manage");
+      if (!isStaff && !(await canAccessAppointment(req, appointment, accessToken))) {
+        return res.status(403).json({
+          error: "Unauthorized",
+          message: "访问链接无效或已过期，无权取消此预约"
+        });
+      }
+
+      const policy = await getBookingPolicy();
+      if (!isStaff && new Date() > getChangeDeadline(policy, appointment.appointmentDate)) {
+        return res.status(403).json({
+          error: "Cancellation deadline passed",
+          message: `取消截止时间已过（${describeChangeCutoff(policy)}）`
+        });
+      }
+
+      let updated = await storage.updateAppointmentStatus(req.params.id, "cancelled", getStatusActor(req, isStaff));
+      if (updated && appointment.status !== "cancelled") {
+        updated = await syncPaymentDeadline(appointment.status, updated);
+        await notifyAppointmentEvent("cancelled", updated, { baseUrl: getAppBaseUrl() });
+        await offerFreedSlot(updated, getAppBaseUrl());
+      }
+      res.json(updated && isStaff ? redactAppointment(updated, staffPermissions) : updated);
+    } catch (error) {
+      if (error instanceof InvalidStatusTransitionError) {
+        return res.status(409).json({
+          error: "Invalid status transition",
+          message: describeInvalidTransition(error.from, error.to)
+        });
+      }
+      console.error("Error cancelling appointment:", error);
+      res.status(500).json({ error: "Failed to cancel appointment" });
+    }
+  });
+
+  // Get booked slots for a date (for conflict detection)
+  app.get("/api/appointments/slots/:date", async (req: Request, res: Response) => {
+    try {
+      const bookedSlots = await storage.getBookedSlots(req.params.date);
+      res.json({ bookedSlots });
+    } catch (error) {
+      console.error("Error fetching booked slots:", error);
+      res.status(500).json({ error: "Failed to fetch booked slots" });
+    }
+  });
+
+  // ============ PAYMENTS API ============
+
+  // Fees and prepayment settings (public - shown with the booking)
+  app.get("/api/payment-settings", async (req: Request, res: Response) => {
+    try {
+      res.json({ ...(await getPaymentSettings()), onlinePaymentAvailable: getPaymentProvider() !== null });
+    } catch (error) {
+      console.error("Error fetching payment settings:", error);
+      res.status(500).json({ error: "Failed to fetch payment settings" });
+    }
+  });
+
+  // Update fees and prepayment settings (staff only); applies to bookings made afterwards
+  app.put("/api/payment-settings", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const validatedData = paymentSettingsSchema.parse(req.body);
+      res.json(await savePaymentSettings(validatedData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error updating payment settings:", error);
+      res.status(500).json({ error: "Failed to update payment settings" });
+    }
+  });
+
+  // Open a hosted checkout for an appointment awaiting payment (owner or guest access token)
+  app.post("/api/appointments/:id/checkout", async (req: Request, res: Response) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      if (!(await canAccessAppointment(req, appointment, req.body.accessToken))) {
         return res.status(403).json({
           error: "Unauthorized",
-          message: "邮箱验证失败，无权取消此预约"
+          message: "访问链接无效或已过期，无权支付此预约"
+        });
+      }
+      if (appointment.status !== "pending_payment") {
+        return res.status(409).json({
+          error: "Payment not due",
+          message: "该预约当前无需付款"
+        });
+      }
+
+      res.json({ url: await startCheckout(appointment, getAppBaseUrl()) });
+    } catch (error) {
+      if (error instanceof PaymentUnavailableError) {
+        return res.status(409).json({
+          error: "Payment unavailable",
+          message: "暂不支持在线支付，请通过留言联系咨询师"
         });
       }
+      console.error("Error starting checkout:", error);
+      res.status(500).json({ error: "Failed to start checkout" });
+    }
+  });
 
-      // Check cancellation deadline: 10:00 PM on the day before
-      const appointmentDate = new Date(appointment.appointmentDate);
-      const deadline = new Date(appointmentDate);
-      deadline.setDate(deadline.getDate() - 1);
-      deadline.setHours(22, 0, 0, 0);
+  // Signed upload URL for a transfer screenshot (owner or guest access token)
+  app.post("/api/appointments/:id/payment-proof/upload-url", async (req: Request, res: Response) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      if (!(await canAccessAppointment(req, appointment, req.body.accessToken))) {
+        return res.status(403).json({
+          error: "Unauthorized",
+          message: "访问链接无效或已过期，无权支付此预约"
+        });
+      }
+      const extension = PROOF_DOCUMENT_TYPES[req.body.contentType];
+      if (!extension) {
+        return res.status(400).json({ error: "Unsupported file type", message: "只支持 JPG、PNG、GIF 或 PDF 格式" });
+      }
+      const { uploadUrl, fileKey } = await new ObjectStorageService().getObjectEntityUploadURL(`payment.${extension}`);
+      res.json({ uploadUrl, fileKey });
+    } catch (error) {
+      console.error("Error getting payment proof upload URL:", error);
+      res.status(500).json({ error: "Failed to get upload URL" });
+    }
+  });
+
+  // Submit a transfer screenshot for an appointment awaiting payment (owner or guest access token)
+  app.post("/api/appointments/:id/payment-proof", async (req: Request, res: Response) => {
+    try {
+      const { proofFile } = paymentProofSubmissionSchema.parse(req.body);
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      if (!(await canAccessAppointment(req, appointment, req.body.accessToken))) {
+        return res.status(403).json({
+          error: "Unauthorized",
+          message: "访问链接无效或已过期，无权支付此预约"
+        });
+      }
+      if (appointment.status !== "pending_payment") {
+        return res.status(409).json({
+          error: "Payment not due",
+          message: "该预约当前无需付款"
+        });
+      }
+      const settings = await getPaymentSettings();
+      if (!settings.manualPaymentInstructions) {
+        return res.status(409).json({
+          error: "Manual payment unavailable",
+          message: "暂不支持转账付款，请通过留言联系咨询师"
+        });
+      }
+      const payments = await storage.getPaymentsByAppointment(appointment.id);
+      if (payments.some(payment => payment.provider === "manual" && payment.status === "pending")) {
+        return res.status(409).json({
+          error: "Payment proof pending",
+          message: "已提交的付款凭证正在核对中，请耐心等待"
+        });
+      }
+      if (!(await proofDocumentExists(proofFile))) {
+        return res.status(400).json({
+          error: "Payment proof not found",
+          message: "付款凭证未找到，请重新上传"
+        });
+      }
+
+      const payment = await storage.createPayment({
+        appointmentId: appointment.id,
+        amount: getAppointmentFee(settings, appointment),
+        currency: "CNY",
+        provider: "manual",
+        proofFile,
+      });
+      await protectPaymentProof(payment);
+      res.status(201).json({
+        id: payment.id,
+        status: payment.status,
+        amount: payment.amount,
+        reviewNote: payment.reviewNote,
+        createdAt: payment.createdAt,
+      } satisfies PaymentProofStatus);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error submitting payment proof:", error);
+      res.status(500).json({ error: "Failed to submit payment proof" });
+    }
+  });
+
+  // The client's own transfer screenshots and their reconciliation status, newest first
+  app.get("/api/appointments/:id/payment-proofs", async (req: Request, res: Response) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      if (!(await canAccessAppointment(req, appointment, req.query.token))) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      const payments = await storage.getPaymentsByAppointment(appointment.id);
+      res.json(payments
+        .filter(payment => payment.provider === "manual")
+        .map(({ id, status, amount, reviewNote, createdAt }): PaymentProofStatus => ({ id, status, amount, reviewNote, createdAt })));
+    } catch (error) {
+      console.error("Error fetching payment proofs:", error);
+      res.status(500).json({ error: "Failed to fetch payment proofs" });
+    }
+  });
+
+  // Transfer screenshots waiting to be reconciled, oldest first
+  app.get("/api/payments/review-queue", requirePermission("payments:reconcile"), async (req: Request, res: Response) => {
+    try {
+      const items = await storage.getPendingManualPayments();
+      res.json(items.map(item => ({ ...item, appointment: redactAppointment(item.appointment, res.locals.permissions) })));
+    } catch (error) {
+      console.error("Error fetching payment review queue:", error);
+      res.status(500).json({ error: "Failed to fetch payment review queue" });
+    }
+  });
+
+  // Approve (with the amount received) or reject a transfer screenshot; approval confirms the booking
+  app.patch("/api/payments/:id/review", requirePermission("payments:reconcile"), async (req: Request, res: Response) => {
+    try {
+      const review = paymentReviewSchema.parse(req.body);
+      const payment = await reconcileManualPayment(req.params.id, review, req.session.adminId!, getAppBaseUrl());
+      if (!payment) {
+        return res.status(409).json({
+          error: "Payment not pending",
+          message: "该付款凭证已处理或不存在"
+        });
+      }
+      res.json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error reviewing payment:", error);
+      res.status(500).json({ error: "Failed to review payment" });
+    }
+  });
+
+  // Payment attempts for an appointment (staff only), newest first
+  app.get("/api/appointments/:id/payments", requirePermission("appointments:read"), async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getPaymentsByAppointment(req.params.id));
+    } catch (error) {
+      console.error("Error fetching payments:", error);
+      res.status(500).json({ error: "Failed to fetch payments" });
+    }
+  });
+
+  // Records a payment taken on site (cash, card at the session), which makes it receiptable
+  app.post("/api/appointments/:id/payments", requirePermission("payments:reconcile"), async (req: Request, res: Response) => {
+    try {
+      const entry = onsitePaymentSchema.parse(req.body);
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      if (appointment.status === "cancelled") {
+        return res.status(409).json({
+          error: "Appointment cancelled",
+          message: "该预约已取消，无法登记收款"
+        });
+      }
+      const payment = await recordOnsitePayment(appointment, entry, req.session.adminId!, getAppBaseUrl());
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error recording payment:", error);
+      res.status(500).json({ error: "Failed to record payment" });
+    }
+  });
+
+  // Receipt PDF for an appointment with a recorded payment, for the client who booked it or staff.
+  // The first download issues the receipt and its number; later downloads return the same receipt.
+  app.get("/api/appointments/:id/receipt", async (req: Request, res: Response) => {
+    try {
+      const appointment = await storage.getAppointment(req.params.id);
+      if (!appointment) {
+        return res.status(404).json({ error: "Appointment not found" });
+      }
+      if (!(await staffCan(req, "appointments:read")) && !(await canAccessAppointment(req, appointment, req.query.token))) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      const receipt = await generateReceipt(appointment);
+      if (!receipt) {
+        return res.status(409).json({
+          error: "Not paid",
+          message: "该预约暂无付款记录，无法开具收据"
+        });
+      }
+      res.set("Cache-Control", "private, no-store");
+      res.attachment(receipt.filename).type("pdf").send(receipt.pdf);
+    } catch (error) {
+      if (error instanceof ReceiptUnavailableError) {
+        console.error("Receipts are not configured:", error.message);
+        return res.status(503).json({
+          error: "Receipt unavailable",
+          message: "暂时无法开具收据，请通过留言联系咨询师"
+        });
+      }
+      console.error("Error generating receipt:", error);
+      res.status(500).json({ error: "Failed to generate receipt" });
+    }
+  });
+
+  // Payment results reported by the provider; verified against the raw request body
+  app.post("/api/payments/webhook/:provider", async (req: Request, res: Response) => {
+    try {
+      const provider = getPaymentProvider();
+      if (!provider || provider.name !== req.params.provider) {
+        return res.status(404).json({ error: "Unknown payment provider" });
+      }
+      if (!Buffer.isBuffer(req.rawBody)) {
+        return res.status(400).json({ error: "Missing request body" });
+      }
+      await handlePaymentWebhook(provider, req.rawBody, req.headers);
+      res.json({ received: true });
+    } catch (error) {
+      if (error instanceof PaymentWebhookError) {
+        return res.status(400).json({ error: "Invalid signature" });
+      }
+      console.error("Error handling payment webhook:", error);
+      res.status(500).json({ error: "Failed to handle payment webhook" });
+    }
+  });
+
+  // Checkout page of the mock provider (development only)
+  app.get("/api/payments/mock/:reference", (req: Request, res: Response) => {
+    const provider = getPaymentProvider();
+    const checkout = provider instanceof MockPaymentProvider ? provider.getCheckout(req.params.reference) : undefined;
+    if (!checkout) {
+      return res.status(404).send("Checkout not found");
+    }
+    const action = `/api/payments/mock/${encodeURIComponent(checkout.reference)}`;
+    res.type("html").send(`<!DOCTYPE html>
+<html lang="zh-CN"><head><meta charset="utf-8"><title>模拟支付</title></head>
+<body style="font-family: sans-serif; max-width: 28rem; margin: 4rem auto;">
+<h1>模拟支付</h1>
+<p>${checkout.description}</p>
+<p>金额：${formatAmount(checkout.amount)}</p>
+<form method="post" action="${action}/succeeded"><button type="submit">支付成功</button></form>
+<form method="post" action="${action}/failed"><button type="submit">支付失败</button></form>
+<p><a href="${checkout.cancelUrl}">返回</a></p>
+</body></html>`);
+  });
+
+  // Delivers the chosen outcome of a mock checkout through the webhook path, then returns to the site
+  app.post("/api/payments/mock/:reference/:outcome", async (req: Request, res: Response) => {
+    try {
+      const provider = getPaymentProvider();
+      const mock = provider instanceof MockPaymentProvider ? provider : null;
+      const checkout = mock?.getCheckout(req.params.reference);
+      const outcome = req.params.outcome;
+      if (!mock || !checkout || (outcome !== "succeeded" && outcome !== "failed")) {
+        return res.status(404).send("Checkout not found");
+      }
+      const { rawBody, headers } = mock.simulateWebhook(checkout.reference, outcome);
+      await handlePaymentWebhook(mock, rawBody, headers);
+      res.redirect(303, outcome === "succeeded" ? checkout.successUrl : checkout.cancelUrl);
+    } catch (error) {
+      console.error("Error simulating payment:", error);
+      res.status(500).send("Failed to simulate payment");
+    }
+  });
+
+  // ============ WAITLIST API ============
+
+  // Join the waitlist for a date or a range of up to a week (public)
+  app.post("/api/waitlist", async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertWaitlistEntrySchema.parse(req.body);
+      if (validatedData.startDate < format(new Date(), "yyyy-MM-dd")) {
+        return res.status(400).json({ error: "Invalid date range", message: "候补日期不能早于今天" });
+      }
+      const entry = await storage.createWaitlistEntry({ ...validatedData, userId: req.session?.userId ?? null });
+      res.status(201).json(entry);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error joining waitlist:", error);
+      res.status(500).json({ error: "Failed to join waitlist" });
+    }
+  });
 
-      if (new Date() > deadline) {
-        return res.status(403).json({
-          error: "Cancellation deadline passed",
-          message: "取消截止时间已过（咨询前一天22:00前）"
-        });
+  // The offer behind a claim link; the booking page books it with the returned hold (public)
+  app.get("/api/waitlist/claim/:token", async (req: Request, res: Response) => {
+    try {
+      const entry = await resolveWaitlistClaim(req.params.token);
+      if (!entry) {
+        return res.status(404).json({ error: "Offer not found", message: "候补链接无效或已过期" });
       }
+      res.json({
+        name: entry.name,
+        contactEmail: entry.contactEmail,
+        contactPhone: entry.contactPhone,
+        consultationType: entry.consultationType,
+        consultationMode: entry.consultationMode,
+        appointmentDate: entry.offeredDate,
+        appointmentTime: entry.offeredTime!.substring(0, 5),
+        holdId: entry.holdId,
+        expiresAt: entry.offerExpiresAt,
+      });
+    } catch (error) {
+      console.error("Error fetching waitlist offer:", error);
+      res.status(500).json({ error: "Failed to fetch waitlist offer" });
+    }
+  });
 
-      const updated = await storage.updateAppointmentStatus(req.params.id, "cancelled");
-      res.json(updated);
+  app.get("/api/waitlist", requirePermission("appointments:read"), async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getWaitlistEntries());
     } catch (error) {
-      console.error("Error cancelling appointment:", error);
-      res.status(500).json({ error: "Failed to cancel appointment" });
+      console.error("Error fetching waitlist:", error);
+      res.status(500).json({ error: "Failed to fetch waitlist" });
     }
   });
 
-  // Get booked slots for a date (for conflict detection)
-  app.get("/api/appointments/slots/:date", async (req: Request, res: Response) => {
+  // Remove an entry (staff only); a pending offer is passed on to the next entry
+  app.delete("/api/waitlist/:id", requirePermission("appointments:manage"), async (req: Request, res: Response) => {
     try {
-      const bookedSlots = await storage.getBookedSlots(req.params.date);
-      res.json({ bookedSlots });
+      const previous = await storage.getWaitlistEntry(req.params.id);
+      const cancelled = await storage.cancelWaitlistEntry(req.params.id);
+      if (!previous || !cancelled) {
+        return res.status(404).json({ error: "Waitlist entry not found" });
+      }
+      await withdrawWaitlistOffer(previous, getAppBaseUrl());
+      res.json(cancelled);
     } catch (error) {
-      console.error("Error fetching booked slots:", error);
-      res.status(500).json({ error: "Failed to fetch booked slots" });
+      console.error("Error removing waitlist entry:", error);
+      res.status(500).json({ error: "Failed to remove waitlist entry" });
     }
   });
 
@@ -572,9 +1792,12 @@ export async function registerRoutes(
   });
 
   // Create announcement (admin only)
-  app.post("/api/announcements", requireAdmin, async (req: Request, res: Response) => {
+  app.post("/api/announcements", requirePermission("announcements:manage"), async (req: Request, res: Response) => {
     try {
-      const validatedData = insertAnnouncementSchema.parse(req.body);
+      const validatedData = insertAnnouncementSchema.parse({
+        ...req.body,
+        authorId: req.session.adminId,
+      });
       const announcement = await storage.createAnnouncement(validatedData);
       res.status(201).json(announcement);
     } catch (error) {
@@ -587,7 +1810,7 @@ export async function registerRoutes(
   });
 
   // Update announcement (admin only)
-  app.patch("/api/announcements/:id", requireAdmin, async (req: Request, res: Response) => {
+  app.patch("/api/announcements/:id", requirePermission("announcements:manage"), async (req: Request, res: Response) => {
     try {
       const announcement = await storage.updateAnnouncement(req.params.id, req.body);
       if (!announcement) {
@@ -601,7 +1824,7 @@ export async function registerRoutes(
   });
 
   // Delete announcement (admin only)
-  app.delete("/api/announcements/:id", requireAdmin, async (req: Request, res: Response) => {
+  app.delete("/api/announcements/:id", requirePermission("announcements:manage"), async (req: Request, res: Response) => {
     try {
       const success = await storage.deleteAnnouncement(req.params.id);
       if (!success) {
@@ -619,8 +1842,8 @@ export async function registerRoutes(
   // Initialize default schedule (called on app startup or first access)
   await storage.initializeDefaultSchedule();
 
-  // Get all schedule settings (admin only)
-  app.get("/api/schedule-settings", requireAdmin, async (req: Request, res: Response) => {
+  // Get all schedule settings (staff only)
+  app.get("/api/schedule-settings", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
     try {
       const settings = await storage.getScheduleSettings();
       res.json(settings);
@@ -636,57 +1859,138 @@ export async function registerRoutes(
       const dateStr = req.params.date;
       const mode = req.query.mode as "online" | "offline" | undefined;
 
-      // Check if date is blocked
-      const isBlocked = await storage.isDateBlocked(dateStr);
-      if (isBlocked) {
-        return res.json({ slots: [], isBlocked: true });
-      }
-
-      // Get day of week from date
-      const date = new Date(dateStr);
-      const dayOfWeek = date.getDay();
-
-      // Check 2 week limit for non-admin
-      const isAdmin = req.session && req.session.isAdmin;
-      if (!isAdmin) {
-        const today = startOfDay(new Date());
-        const maxDate = addDays(today, 14);
-        if (isAfter(date, maxDate)) {
-          // Return empty or error? UI should prevent this, but API should also enforce.
-          // Let's return empty slots to indicate unavailability.
-          return res.json({ slots: [], isBlocked: false });
-        }
+      // Clients only see slots the booking policy lets them book
+      const isStaff = (await getStaffPermissions(req)).length > 0;
+      const type = req.query.type === "welfare" ? "welfare" : "regular";
+      const { isBlocked, slots } = await getAvailableSlots(dateStr, {
+        consultationType: type,
+        durationMinutes: (await getSessionDurations())[type],
+        mode,
+        policy: await getBookingPolicy(),
+        isStaff,
+      });
+
+      res.json({ slots, isBlocked });
+    } catch (error) {
+      console.error("Error fetching available slots:", error);
+      res.status(500).json({ error: "Failed to fetch available slots" });
+    }
+  });
+
+  // Next open slots across the booking horizon (public)
+  app.get("/api/schedule/next-available", async (req: Request, res: Response) => {
+    try {
+      const query = nextAvailableQuerySchema.parse(req.query);
+      const isStaff = (await getStaffPermissions(req)).length > 0;
+      const slots = await findNextAvailableSlots(query.from ?? format(new Date(), "yyyy-MM-dd"), query.limit, {
+        consultationType: query.type,
+        durationMinutes: (await getSessionDurations())[query.type],
+        mode: query.mode,
+        policy: await getBookingPolicy(),
+        isStaff,
+      });
+      res.json({ slots });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error searching available slots:", error);
+      res.status(500).json({ error: "Failed to search available slots" });
+    }
+  });
+
+  // Open slot counts per day and mode for a month, so the calendar can disable full days (public)
+  app.get("/api/schedule/availability/:month", async (req: Request, res: Response) => {
+    try {
+      const query = availabilitySummaryQuerySchema.parse({ ...req.query, month: req.params.month });
+      const isStaff = (await getStaffPermissions(req)).length > 0;
+      const firstDay = parseISO(`${query.month}-01`);
+      const days = await getAvailabilitySummary(
+        format(firstDay, "yyyy-MM-dd"),
+        format(endOfMonth(firstDay), "yyyy-MM-dd"),
+        {
+          consultationType: query.type,
+          durationMinutes: (await getSessionDurations())[query.type],
+          policy: await getBookingPolicy(),
+          isStaff,
+        },
+      );
+      res.json({ days });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
       }
+      console.error("Error fetching availability summary:", error);
+      res.status(500).json({ error: "Failed to fetch availability summary" });
+    }
+  });
 
-      // Get schedule settings for this day
-      const daySettings = await storage.getScheduleSettingsByDay(dayOfWeek);
+  // Hold a time slot while the client fills in the intake form (public)
+  app.post("/api/schedule/holds", slotHoldLimiter, async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertSlotHoldSchema.parse({
+        ...req.body,
+        expiresAt: new Date(Date.now() + SLOT_HOLD_MINUTES * 60 * 1000),
+      });
 
-      // Get already booked slots
-      const bookedSlots = await storage.getBookedSlots(dateStr);
+      const isStaff = (await getStaffPermissions(req)).includes("appointments:manage");
+      const request = { ...validatedData, consultationType: validatedData.consultationType ?? "regular" };
+      if (!isStaff) {
+        const policyRejection =
+          (await checkBookingPolicy(validatedData.appointmentDate, validatedData.appointmentTime)) ??
+          (await checkWelfareBooking(validatedData.appointmentDate, validatedData.appointmentTime, request.consultationType));
+        if (policyRejection) {
+          return res.status(409).json(await withAlternatives(policyRejection, request, isStaff));
+        }
+      }
 
-      // Filter by mode if specified
-      const availableSlots = daySettings
-        .filter(s => {
-          if (mode === "online") return s.isOnlineAvailable;
-          if (mode === "offline") return s.isOfflineAvailable;
-          return s.isOnlineAvailable || s.isOfflineAvailable;
-        })
-        .map(s => ({
-          time: s.timeSlot,
-          isOnlineAvailable: s.isOnlineAvailable && !bookedSlots.includes(s.timeSlot),
-          isOfflineAvailable: s.isOfflineAvailable && !bookedSlots.includes(s.timeSlot),
-          isBooked: bookedSlots.includes(s.timeSlot),
-        }));
+      const slot = await checkSlotBookable(
+        validatedData.appointmentDate,
+        validatedData.appointmentTime,
+        validatedData.consultationMode,
+        request.consultationType
+      );
+      if ("rejection" in slot) {
+        return res.status(409).json(await withAlternatives(slot.rejection, request, isStaff));
+      }
 
-      res.json({ slots: availableSlots, isBlocked: false });
+      try {
+        // Holding another slot releases the one this client held before
+        const hold = await storage.createSlotHold({ ...validatedData, ...slot.sessionLength }, req.session.slotHoldId);
+        req.session.slotHoldId = hold.id;
+        res.status(201).json(hold);
+      } catch (error) {
+        if (error instanceof TimeSlotConflictError) {
+          return res.status(409).json(await withAlternatives(TIME_SLOT_CONFLICT, request, isStaff));
+        }
+        throw error;
+      }
     } catch (error) {
-      console.error("Error fetching available slots:", error);
-      res.status(500).json({ error: "Failed to fetch available slots" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error creating slot hold:", error);
+      res.status(500).json({ error: "Failed to hold time slot" });
     }
   });
 
-  // Create schedule setting (admin only)
-  app.post("/api/schedule-settings", requireAdmin, async (req: Request, res: Response) => {
+  // Release a slot hold (public - only the session that placed the hold may release it)
+  app.delete("/api/schedule/holds/:id", async (req: Request, res: Response) => {
+    try {
+      if (req.params.id !== req.session.slotHoldId) {
+        return res.status(404).json({ error: "Slot hold not found" });
+      }
+      await storage.deleteSlotHold(req.params.id);
+      delete req.session.slotHoldId;
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error releasing slot hold:", error);
+      res.status(500).json({ error: "Failed to release slot hold" });
+    }
+  });
+
+  // Create schedule setting (staff only)
+  app.post("/api/schedule-settings", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
     try {
       const validatedData = insertScheduleSettingSchema.parse(req.body);
       const setting = await storage.createScheduleSetting(validatedData);
@@ -700,22 +2004,26 @@ export async function registerRoutes(
     }
   });
 
-  // Update schedule setting (admin only)
-  app.patch("/api/schedule-settings/:id", requireAdmin, async (req: Request, res: Response) => {
+  // Update schedule setting (staff only)
+  app.patch("/api/schedule-settings/:id", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
     try {
-      const setting = await storage.updateScheduleSetting(req.params.id, req.body);
+      const validatedData = insertScheduleSettingSchema.partial().parse(req.body);
+      const setting = await storage.updateScheduleSetting(req.params.id, validatedData);
       if (!setting) {
         return res.status(404).json({ error: "Schedule setting not found" });
       }
       res.json(setting);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
       console.error("Error updating schedule setting:", error);
       res.status(500).json({ error: "Failed to update schedule setting" });
     }
   });
 
-  // Delete schedule setting (admin only)
-  app.delete("/api/schedule-settings/:id", requireAdmin, async (req: Request, res: Response) => {
+  // Delete schedule setting (staff only)
+  app.delete("/api/schedule-settings/:id", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
     try {
       const success = await storage.deleteScheduleSetting(req.params.id);
       if (!success) {
@@ -728,10 +2036,145 @@ export async function registerRoutes(
     }
   });
 
+  // Copy one weekday's slots to other weekdays of the same template (staff only)
+  app.post("/api/schedule-settings/copy-day", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const { templateId, fromDay, toDays } = copyScheduleDaySchema.parse(req.body);
+      const created = await storage.copyScheduleDay(templateId, fromDay, toDays);
+      res.json(created);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error copying schedule day:", error);
+      res.status(500).json({ error: "Failed to copy schedule day" });
+    }
+  });
+
+  // ============ SCHEDULE TEMPLATES API ============
+
+  // Get seasonal schedule templates (staff only)
+  app.get("/api/schedule-templates", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const templates = await storage.getScheduleTemplates();
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching schedule templates:", error);
+      res.status(500).json({ error: "Failed to fetch schedule templates" });
+    }
+  });
+
+  // Create a seasonal schedule template, by default starting from the regular weekly slots (staff only)
+  app.post("/api/schedule-templates", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertScheduleTemplateSchema.parse(req.body);
+      const { copyRegularSlots } = z.object({ copyRegularSlots: z.boolean().default(true) }).parse(req.body);
+      const overlapping = await findOverlappingTemplate(validatedData);
+      if (overlapping) {
+        return res.status(409).json({
+          error: "Template overlap",
+          message: `日期范围与“${overlapping.name}”重叠`,
+        });
+      }
+      const template = await storage.createScheduleTemplate(validatedData, copyRegularSlots);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error creating schedule template:", error);
+      res.status(500).json({ error: "Failed to create schedule template" });
+    }
+  });
+
+  // Rename a template or change its dates (staff only)
+  app.put("/api/schedule-templates/:id", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertScheduleTemplateSchema.parse(req.body);
+      const overlapping = await findOverlappingTemplate(validatedData, req.params.id);
+      if (overlapping) {
+        return res.status(409).json({
+          error: "Template overlap",
+          message: `日期范围与“${overlapping.name}”重叠`,
+        });
+      }
+      const template = await storage.updateScheduleTemplate(req.params.id, {
+        ...validatedData,
+        effectiveTo: validatedData.effectiveTo ?? null,
+      });
+      if (!template) {
+        return res.status(404).json({ error: "Schedule template not found" });
+      }
+      res.json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error updating schedule template:", error);
+      res.status(500).json({ error: "Failed to update schedule template" });
+    }
+  });
+
+  // Delete a template and its slots (staff only)
+  app.delete("/api/schedule-templates/:id", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const success = await storage.deleteScheduleTemplate(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: "Schedule template not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting schedule template:", error);
+      res.status(500).json({ error: "Failed to delete schedule template" });
+    }
+  });
+
+  // ============ SCHEDULE OVERRIDES API ============
+
+  // Get date overrides from today on (staff only)
+  app.get("/api/schedule-overrides", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const overrides = await storage.getScheduleOverrides(format(new Date(), "yyyy-MM-dd"));
+      res.json(overrides);
+    } catch (error) {
+      console.error("Error fetching schedule overrides:", error);
+      res.status(500).json({ error: "Failed to fetch schedule overrides" });
+    }
+  });
+
+  // Add, change or remove a slot on one date (staff only); replaces an existing override for the same time
+  app.post("/api/schedule-overrides", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const validatedData = insertScheduleOverrideSchema.parse(req.body);
+      const override = await storage.upsertScheduleOverride(validatedData);
+      res.status(201).json(override);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error saving schedule override:", error);
+      res.status(500).json({ error: "Failed to save schedule override" });
+    }
+  });
+
+  // Delete a date override, restoring the weekly schedule for that time (staff only)
+  app.delete("/api/schedule-overrides/:id", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const success = await storage.deleteScheduleOverride(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: "Schedule override not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting schedule override:", error);
+      res.status(500).json({ error: "Failed to delete schedule override" });
+    }
+  });
+
   // ============ BLOCKED DATES API ============
 
-  // Get all blocked dates (admin only)
-  app.get("/api/blocked-dates", requireAdmin, async (req: Request, res: Response) => {
+  // Get all blocked dates (staff only)
+  app.get("/api/blocked-dates", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
     try {
       const blockedDates = await storage.getBlockedDates();
       res.json(blockedDates);
@@ -741,12 +2184,24 @@ export async function registerRoutes(
     }
   });
 
-  // Create blocked date (admin only)
-  app.post("/api/blocked-dates", requireAdmin, async (req: Request, res: Response) => {
+  // Create blocked period (staff only). Existing bookings inside it are kept; they are returned as
+  // affectedAppointments so staff can contact or reschedule those clients.
+  app.post("/api/blocked-dates", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
     try {
       const validatedData = insertBlockedDateSchema.parse(req.body);
       const blockedDate = await storage.createBlockedDate(validatedData);
-      res.status(201).json(blockedDate);
+      const affected = await findAppointmentsInBlock(blockedDate);
+      res.status(201).json({
+        ...blockedDate,
+        affectedAppointments: affected.map(appointment => ({
+          id: appointment.id,
+          name: appointment.name,
+          appointmentDate: appointment.appointmentDate,
+          appointmentTime: appointment.appointmentTime,
+          consultationMode: appointment.consultationMode,
+          status: appointment.status,
+        })),
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Validation error", details: error.errors });
@@ -756,8 +2211,8 @@ export async function registerRoutes(
     }
   });
 
-  // Delete blocked date (admin only)
-  app.delete("/api/blocked-dates/:id", requireAdmin, async (req: Request, res: Response) => {
+  // Delete blocked date (staff only)
+  app.delete("/api/blocked-dates/:id", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
     try {
       const success = await storage.deleteBlockedDate(req.params.id);
       if (!success) {
@@ -770,10 +2225,191 @@ export async function registerRoutes(
     }
   });
 
+  // ============ HOLIDAY CALENDAR IMPORT API ============
+
+  // Preview what importing a holiday calendar would change (staff only)
+  app.post("/api/holiday-calendar/preview", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const { content, workdayTemplateDay } = holidayImportRequestSchema.parse(req.body);
+      const plan = await planHolidayImport(parseHolidayCalendar(content), workdayTemplateDay);
+      res.json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      if (error instanceof HolidayCalendarParseError) {
+        return res.status(400).json({ error: "Invalid calendar", message: error.message });
+      }
+      console.error("Error previewing holiday calendar:", error);
+      res.status(500).json({ error: "Failed to preview holiday calendar" });
+    }
+  });
+
+  // Import a holiday calendar (staff only). The plan is recomputed here, so entries applied since the
+  // preview, or by an earlier import of the same file, are skipped.
+  app.post("/api/holiday-calendar/import", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const { content, workdayTemplateDay } = holidayImportRequestSchema.parse(req.body);
+      const plan = await planHolidayImport(parseHolidayCalendar(content), workdayTemplateDay);
+      const created = await applyHolidayImport(plan, workdayTemplateDay);
+      const affected = (await Promise.all(created.map(findAppointmentsInBlock))).flat();
+      res.json({
+        blockedPeriods: created.length,
+        workdays: plan.workdays.filter(workday => !workday.applied).length,
+        affectedAppointments: affected.length,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      if (error instanceof HolidayCalendarParseError) {
+        return res.status(400).json({ error: "Invalid calendar", message: error.message });
+      }
+      console.error("Error importing holiday calendar:", error);
+      res.status(500).json({ error: "Failed to import holiday calendar" });
+    }
+  });
+
+  // ============ REMINDER SETTINGS API ============
+
+  // Get reminder settings (staff only)
+  app.get("/api/reminder-settings", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      res.json(await getReminderSettings());
+    } catch (error) {
+      console.error("Error fetching reminder settings:", error);
+      res.status(500).json({ error: "Failed to fetch reminder settings" });
+    }
+  });
+
+  // Update reminder settings (staff only)
+  app.put("/api/reminder-settings", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const validatedData = reminderSettingsSchema.parse(req.body);
+      res.json(await saveReminderSettings(validatedData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error updating reminder settings:", error);
+      res.status(500).json({ error: "Failed to update reminder settings" });
+    }
+  });
+
+  // Get session length per consultation type (public - shown with the prices)
+  app.get("/api/session-durations", async (req: Request, res: Response) => {
+    try {
+      res.json(await getSessionDurations());
+    } catch (error) {
+      console.error("Error fetching session durations:", error);
+      res.status(500).json({ error: "Failed to fetch session durations" });
+    }
+  });
+
+  // Update session lengths (staff only); existing bookings keep the length they were booked with
+  app.put("/api/session-durations", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const validatedData = sessionDurationsSchema.parse(req.body);
+      res.json(await saveSessionDurations(validatedData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error updating session durations:", error);
+      res.status(500).json({ error: "Failed to update session durations" });
+    }
+  });
+
+  // Get booking policy (public - the booking calendar and deadlines are rendered from it)
+  app.get("/api/booking-policy", async (req: Request, res: Response) => {
+    try {
+      res.json(await getBookingPolicy());
+    } catch (error) {
+      console.error("Error fetching booking policy:", error);
+      res.status(500).json({ error: "Failed to fetch booking policy" });
+    }
+  });
+
+  // Update booking policy (staff only)
+  app.put("/api/booking-policy", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const validatedData = bookingPolicySchema.parse(req.body);
+      res.json(await saveBookingPolicy(validatedData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error updating booking policy:", error);
+      res.status(500).json({ error: "Failed to update booking policy" });
+    }
+  });
+
+  // Get welfare quota settings (public - the booking page shows the designated slots)
+  app.get("/api/welfare-quota", async (req: Request, res: Response) => {
+    try {
+      res.json(await getWelfareQuota());
+    } catch (error) {
+      console.error("Error fetching welfare quota:", error);
+      res.status(500).json({ error: "Failed to fetch welfare quota" });
+    }
+  });
+
+  // Remaining welfare sessions in the week and month of a date (public)
+  app.get("/api/welfare-quota/status/:date", async (req: Request, res: Response) => {
+    try {
+      const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "日期格式应为yyyy-MM-dd").parse(req.params.date);
+      res.json(getWelfareQuotaStatus(await loadWelfareCapacity(date, date), date));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error fetching welfare quota status:", error);
+      res.status(500).json({ error: "Failed to fetch welfare quota status" });
+    }
+  });
+
+  // Update welfare quota (staff only); bookings already made are kept
+  app.put("/api/welfare-quota", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const validatedData = welfareQuotaSchema.parse(req.body);
+      res.json(await saveWelfareQuota(validatedData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error updating welfare quota:", error);
+      res.status(500).json({ error: "Failed to update welfare quota" });
+    }
+  });
+
+  // Get attendance policy (staff only)
+  app.get("/api/attendance-policy", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      res.json(await getAttendancePolicy());
+    } catch (error) {
+      console.error("Error fetching attendance policy:", error);
+      res.status(500).json({ error: "Failed to fetch attendance policy" });
+    }
+  });
+
+  // Update attendance policy (staff only)
+  app.put("/api/attendance-policy", requirePermission("schedule:manage"), async (req: Request, res: Response) => {
+    try {
+      const validatedData = attendancePolicySchema.parse(req.body);
+      res.json(await saveAttendancePolicy(validatedData));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: "Validation error", details: error.errors });
+      }
+      console.error("Error updating attendance policy:", error);
+      res.status(500).json({ error: "Failed to update attendance policy" });
+    }
+  });
+
   // ============ MESSAGES & CONVERSATIONS API ============
 
   // Get all conversations (admin view)
-  app.get("/api/conversations", requireAdmin, async (req: Request, res: Response) => {
+  app.get("/api/conversations", requirePermission("messages:manage"), async (req: Request, res: Response) => {
     try {
       const conversations = await storage.getConversations();
       res.json(conversations);
@@ -787,7 +2423,7 @@ export async function registerRoutes(
   app.get("/api/conversations/my", requireUser, async (req: Request, res: Response) => {
     try {
       const userId = req.session.userId!;
-      const userEmail = req.session.userEmail;
+      const userEmail = await getVerifiedUserEmail(req);
 
       const conversations = await storage.getConversationsByUserId(userId, userEmail);
 
@@ -806,9 +2442,16 @@ export async function registerRoutes(
   });
 
   // Get conversation by email (for visitors to find their existing conversation)
+  // Requires the guest access token from the emailed link
   app.get("/api/conversations/by-email/:email", async (req: Request, res: Response) => {
     try {
       const email = decodeURIComponent(req.params.email);
+      if (!hasGuestAccess(req.query.token, "conversations", email)) {
+        return res.status(403).json({
+          error: "Unauthorized",
+          message: "访问链接无效或已过期，请重新获取"
+        });
+      }
       const conversation = await storage.getConversationByEmail(email);
       if (!conversation) {
         return res.status(404).json({ error: "No conversation found for this email" });
@@ -821,7 +2464,7 @@ export async function registerRoutes(
     }
   });
 
-  // Get single conversation with messages - requires email verification for visitors
+  // Get single conversation with messages - requires ownership for visitors
   app.get("/api/conversations/:id", async (req: Request, res: Response) => {
     try {
       const conversation = await storage.getConversation(req.params.id);
@@ -829,22 +2472,15 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Conversation not found" });
       }
 
-      // Verify ownership via: admin, session userId, session email, or verifyEmail query param
-      const verifyEmail = req.query.verifyEmail as string;
-      const isAdmin = req.session?.isAdmin;
-      const sessionUserId = req.session?.userId;
-      const sessionEmail = req.session?.userEmail;
-
+      // Verify ownership via: admin, account, or guest access token query param
       const isOwner =
-        isAdmin ||
-        (sessionUserId && conversation.userId === sessionUserId) ||
-        (sessionEmail && conversation.visitorEmail === sessionEmail) ||
-        (verifyEmail && verifyEmail === conversation.visitorEmail);
+        (await staffCan(req, "messages:manage")) ||
+        (await canAccessConversation(req, conversation, req.query.token));
 
       if (!isOwner) {
         return res.status(403).json({
           error: "Unauthorized",
-          message: "邮箱验证失败，无权查看此对话"
+          message: "访问链接无效或已过期，无权查看此对话"
         });
       }
 
@@ -876,7 +2512,10 @@ export async function registerRoutes(
       }
 
       const conversation = await storage.createConversation(validatedData);
-      res.status(201).json(conversation);
+
+      // Lets a guest keep using this conversation without an account
+      const accessToken = createGuestAccessToken("conversations", validatedData.visitorEmail, conversation.id);
+      res.status(201).json({ ...conversation, accessToken });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ error: "Validation error", details: error.errors });
@@ -902,22 +2541,15 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Conversation not found" });
       }
 
-      // Verify ownership via: admin, session userId, session email, or verifyEmail query param
-      const verifyEmail = req.query.verifyEmail as string;
-      const isAdmin = req.session?.isAdmin;
-      const sessionUserId = req.session?.userId;
-      const sessionEmail = req.session?.userEmail;
-
+      // Verify ownership via: admin, account, or guest access token query param
       const isOwner =
-        isAdmin ||
-        (sessionUserId && conversation.userId === sessionUserId) ||
-        (sessionEmail && conversation.visitorEmail === sessionEmail) ||
-        (verifyEmail && verifyEmail === conversation.visitorEmail);
+        (await staffCan(req, "messages:manage")) ||
+        (await canAccessConversation(req, conversation, req.query.token));
 
       if (!isOwner) {
         return res.status(403).json({
           error: "Unauthorized",
-          message: "邮箱验证失败，无权查看此对话"
+          message: "访问链接无效或已过期，无权查看此对话"
         });
       }
 
@@ -936,10 +2568,17 @@ export async function registerRoutes(
         return res.status(404).json({ error: "Conversation not found" });
       }
 
-      const { senderType, verifyEmail } = req.body;
-      const isAdmin = req.session?.isAdmin;
+      const { senderType, accessToken } = req.body;
+      if (senderType !== "admin" && senderType !== "visitor") {
+        return res.status(400).json({
+          error: "Invalid sender type",
+          message: "发送者类型无效"
+        });
+      }
+
+      const isAdmin = await staffCan(req, "messages:manage");
 
-      // Admin can send as "admin", visitors must verify email
+      // Admin can send as "admin", visitors must own the conversation
       if (senderType === "admin" && !isAdmin) {
         return res.status(403).json({
           error: "Unauthorized",
@@ -947,14 +2586,12 @@ export async function registerRoutes(
         });
       }
 
-      // Visitors must verify their email matches the conversation
-      if (senderType === "visitor" && !isAdmin) {
-        if (!verifyEmail || verifyEmail !== conversation.visitorEmail) {
-          return res.status(403).json({
-            error: "Unauthorized",
-            message: "邮箱验证失败，无权在此对话中发送消息"
-          });
-        }
+      // Anyone else must be signed in to the owning account or hold a guest access token for it
+      if (!isAdmin && !(await canAccessConversation(req, conversation, accessToken))) {
+        return res.status(403).json({
+          error: "Unauthorized",
+          message: "访问链接无效或已过期，无权在此对话中发送消息"
+        });
       }
 
       const messageData = {
@@ -968,16 +2605,13 @@ export async function registerRoutes(
       let isFromAdmin = false;
 
       if (senderType === "admin") {
-        senderEmail = req.session?.userEmail || null;
+        const admin = await storage.getUser(req.session.adminId!);
+        senderEmail = admin?.email || null;
         isFromAdmin = true;
-      } else if (senderType === "visitor") {
+      } else {
         senderEmail = conversation.visitorEmail;
-        isFromAdmin = false;
       }
 
-      // Verify conversation belongs to user (or is admin)
-      // Here we skip strict check for now as visitor email verification is loosely coupled in this demo
-
       // Create message with optional image
       const message = await storage.createMessage({
         conversationId: req.params.id,
@@ -999,7 +2633,7 @@ export async function registerRoutes(
   });
 
   // Mark messages as read (admin only)
-  app.post("/api/conversations/:id/read", requireAdmin, async (req: Request, res: Response) => {
+  app.post("/api/conversations/:id/read", requirePermission("messages:manage"), async (req: Request, res: Response) => {
     try {
       await storage.markMessagesAsRead(req.params.id);
       res.status(200).json({ success: true });
@@ -1010,7 +2644,7 @@ export async function registerRoutes(
   });
 
   // Resolve conversation (admin only)
-  app.post("/api/conversations/:id/resolve", requireAdmin, async (req: Request, res: Response) => {
+  app.post("/api/conversations/:id/resolve", requirePermission("messages:manage"), async (req: Request, res: Response) => {
     try {
       const conversation = await storage.resolveConversation(req.params.id);
       if (!conversation) {
@@ -1026,11 +2660,14 @@ export async function registerRoutes(
   // ============ FILE UPLOAD API ============
 
   // Get upload URL for welfare proof documents
-  app.post("/api/upload", async (req: Request, res: Response) => {
+  app.post("/api/welfare-proof/upload-url", async (req: Request, res: Response) => {
     try {
-      const { filename, contentType } = req.body;
+      const extension = PROOF_DOCUMENT_TYPES[req.body?.contentType];
+      if (!extension) {
+        return res.status(400).json({ error: "Unsupported file type", message: "只支持 JPG、PNG、GIF 或 PDF 格式" });
+      }
       const objectStorageService = new ObjectStorageService();
-      const { uploadUrl, fileKey } = await objectStorageService.getObjectEntityUploadURL(filename);
+      const { uploadUrl, fileKey } = await objectStorageService.getObjectEntityUploadURL(`proof.${extension}`);
       res.json({ uploadUrl, fileKey });
     } catch (error) {
       console.error("Error getting upload URL:", error);
@@ -1038,11 +2675,15 @@ export async function registerRoutes(
     }
   });
 
-  // Serve uploaded files
+  // Serve uploaded files, subject to each object's ACL policy
   app.get("/objects/:objectPath(*)", async (req: Request, res: Response) => {
     const objectStorageService = new ObjectStorageService();
     try {
       const objectFile = await objectStorageService.getObjectEntityFile(req.path);
+      const userId = req.session?.adminId ?? req.session?.userId;
+      if (!(await objectStorageService.canAccessObjectEntity({ userId, objectFile }))) {
+        return res.status(userId ? 403 : 401).json({ error: "无权访问此文件" });
+      }
       objectStorageService.downloadObject(objectFile, res);
     } catch (error) {
       console.error("Error serving object:", error);
@@ -1053,7 +2694,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/admin/conversations/initiate", requireAdmin, async (req: Request, res: Response) => {
+  app.post("/api/admin/conversations/initiate", requirePermission("messages:manage"), async (req: Request, res: Response) => {
     try {
       const { visitorEmail, visitorName } = req.body;
       if (!visitorEmail) {
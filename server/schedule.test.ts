@@ -0,0 +1,101 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { defaultBookingPolicy, type StatusChangeActor } from "@shared/schema";
+import { booking, weeklySlots } from "../test/fixtures";
+import { findAlternativeSlots, findNextAvailableSlots, type AvailabilityOptions, type OpenSlot } from "./schedule";
+import { storage } from "./storage";
+import { pool } from "./db";
+
+const client: StatusChangeActor = { actorType: "client", actorId: null, reason: null };
+
+// 2031-03-03 is a Monday. Mondays offer 09:00 in both modes and 10:00 online only; Tuesdays 14:00
+// offline only and 15:00, which is too short for a regular session.
+const TODAY = new Date("2031-03-03T08:00:00");
+
+function onlineRegular(overrides: Partial<AvailabilityOptions> = {}): AvailabilityOptions {
+  return {
+    consultationType: "regular",
+    durationMinutes: 50,
+    mode: "online",
+    policy: defaultBookingPolicy,
+    isStaff: false,
+    ...overrides,
+  };
+}
+
+function times(slots: OpenSlot[]): string[] {
+  return slots.map(slot => `${slot.date} ${slot.time}`);
+}
+
+beforeAll(async () => {
+  await weeklySlots("2031-03-01", "2031-03-31", [
+    { dayOfWeek: 1, timeSlot: "09:00" },
+    { dayOfWeek: 1, timeSlot: "10:00", isOfflineAvailable: false },
+    { dayOfWeek: 2, timeSlot: "14:00", isOnlineAvailable: false },
+    { dayOfWeek: 2, timeSlot: "15:00", durationMinutes: 30 },
+  ]);
+  await storage.createAppointment(booking("2031-03-03", "09:00"), client);
+  await storage.createBlockedDate({ startDate: "2031-03-17", endDate: null, reason: "休息" });
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: TODAY, toFake: ["Date"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe("findNextAvailableSlots", () => {
+  it("returns the first open slots in time order, skipping booked ones", async () => {
+    const slots = await findNextAvailableSlots("2031-03-03", 3, onlineRegular());
+
+    expect(times(slots)).toEqual(["2031-03-03 10:00", "2031-03-10 09:00", "2031-03-10 10:00"]);
+    expect(slots.every(slot => slot.isOnlineAvailable && !slot.isBooked)).toBe(true);
+  });
+
+  it("offers only slots with the requested mode that are long enough for the session", async () => {
+    const slots = await findNextAvailableSlots("2031-03-03", 3, onlineRegular({ mode: "offline" }));
+
+    expect(times(slots)).toEqual(["2031-03-04 14:00", "2031-03-10 09:00", "2031-03-11 14:00"]);
+  });
+
+  it("starts from today when asked for a past date", async () => {
+    expect(await findNextAvailableSlots("2031-01-01", 3, onlineRegular())).toEqual(
+      await findNextAvailableSlots("2031-03-03", 3, onlineRegular())
+    );
+  });
+
+  it("skips blocked days and stops at the end of the booking horizon", async () => {
+    const policy = { ...defaultBookingPolicy, bookingHorizonDays: 28 };
+
+    expect(times(await findNextAvailableSlots("2031-03-16", 2, onlineRegular({ policy }))))
+      .toEqual(["2031-03-24 09:00", "2031-03-24 10:00"]);
+    // The 14-day horizon ends on 2031-03-17, which is blocked
+    expect(await findNextAvailableSlots("2031-03-16", 2, onlineRegular())).toEqual([]);
+  });
+
+  it("leaves out slots inside the minimum notice for clients but not for staff", async () => {
+    const policy = { ...defaultBookingPolicy, minNoticeHours: 4 };
+
+    expect(times(await findNextAvailableSlots("2031-03-03", 1, onlineRegular({ policy })))).toEqual(["2031-03-10 09:00"]);
+    expect(times(await findNextAvailableSlots("2031-03-03", 1, onlineRegular({ policy, isStaff: true })))).toEqual(["2031-03-03 10:00"]);
+  });
+});
+
+describe("findAlternativeSlots", () => {
+  it("offers the open slots from the rejected date onwards", async () => {
+    const request = { appointmentDate: "2031-03-10", consultationMode: "online", consultationType: "regular" } as const;
+
+    expect(times(await findAlternativeSlots(request, false))).toEqual(["2031-03-10 09:00", "2031-03-10 10:00"]);
+  });
+
+  it("searches from today when nothing is open after the rejected date", async () => {
+    const request = { appointmentDate: "2031-03-20", consultationMode: "online", consultationType: "regular" } as const;
+
+    expect(times(await findAlternativeSlots(request, false))).toEqual(["2031-03-03 10:00", "2031-03-10 09:00", "2031-03-10 10:00"]);
+  });
+});
@@ -0,0 +1,280 @@
+import { addDays, format, parseISO } from "date-fns";
+import type { Appointment, BlockedDate, BookingPolicy, ScheduleOverride, ScheduleSetting } from "@shared/schema";
+import { checkBookingWindow, getLatestBookableDate } from "@shared/bookingPolicy";
+import { findActiveTemplate } from "@shared/scheduleTemplates";
+import { storage, timeToMinutes, toTimeRange, rangesOverlap, type ScheduleSnapshot, type TimeRange } from "./storage";
+import { getBookingPolicy, getSessionDurations } from "./settings";
+import {
+  loadWelfareCapacity,
+  hasWelfareCapacity,
+  isDesignatedWelfareSlot,
+  type WelfareCapacity,
+} from "./welfareQuota";
+
+// Resolves what is bookable on a calendar date: the weekly template for the weekday with that date's
+// overrides applied, minus blocked periods. Both the availability endpoints and booking validation go
+// through here so they always agree. The resolvers work on a ScheduleSnapshot, so a single day and a
+// whole month are computed the same way.
+
+export type DaySlot = Pick<
+  ScheduleSetting,
+  "timeSlot" | "isOnlineAvailable" | "isOfflineAvailable" | "durationMinutes" | "bufferMinutes"
+>;
+
+export interface DaySchedule {
+  isBlocked: boolean;
+  slots: DaySlot[];
+}
+
+// `weekly` are the active weekly slots for the date's weekday, `overrides` the rows for the date
+export function mergeDaySlots(weekly: ScheduleSetting[], overrides: ScheduleOverride[]): DaySlot[] {
+  const slots = new Map<string, DaySlot>();
+  for (const setting of weekly) {
+    slots.set(setting.timeSlot, {
+      timeSlot: setting.timeSlot,
+      isOnlineAvailable: setting.isOnlineAvailable,
+      isOfflineAvailable: setting.isOfflineAvailable,
+      durationMinutes: setting.durationMinutes,
+      bufferMinutes: setting.bufferMinutes,
+    });
+  }
+  for (const override of overrides) {
+    if (!override.isAvailable) {
+      slots.delete(override.timeSlot);
+      continue;
+    }
+    slots.set(override.timeSlot, {
+      timeSlot: override.timeSlot,
+      isOnlineAvailable: override.isOnlineAvailable,
+      isOfflineAvailable: override.isOfflineAvailable,
+      durationMinutes: override.durationMinutes,
+      bufferMinutes: override.bufferMinutes,
+    });
+  }
+  return Array.from(slots.values()).sort((a, b) => a.timeSlot.localeCompare(b.timeSlot));
+}
+
+// Annual closures compare month and day only; a range such as 12-30 to 01-02 wraps around New Year
+export function blockCoversDate(block: BlockedDate, date: string): boolean {
+  const endDate = block.endDate ?? block.startDate;
+  if (!block.recursAnnually) {
+    return block.startDate <= date && date <= endDate;
+  }
+  const day = date.slice(5);
+  const start = block.startDate.slice(5);
+  const end = endDate.slice(5);
+  return start <= end ? start <= day && day <= end : day >= start || day <= end;
+}
+
+// The closed part of each covered day, or null when the whole day is closed
+function getBlockedRange(block: BlockedDate): TimeRange | null {
+  if (!block.startTime || !block.endTime) return null;
+  return { start: timeToMinutes(block.startTime), end: timeToMinutes(block.endTime) };
+}
+
+// A session is blocked when any of it falls in the closed hours; the buffer after it is not
+function sessionOverlapsBlock(time: string, durationMinutes: number, blocked: TimeRange): boolean {
+  const start = timeToMinutes(time);
+  return rangesOverlap({ start, end: start + durationMinutes }, blocked);
+}
+
+function resolveDaySchedule(date: string, snapshot: ScheduleSnapshot): DaySchedule {
+  const blockedRanges = snapshot.blocks.filter(block => blockCoversDate(block, date)).map(getBlockedRange);
+  if (blockedRanges.some(range => range === null)) {
+    return { isBlocked: true, slots: [] };
+  }
+
+  const templateId = findActiveTemplate(snapshot.templates, date)?.id ?? null;
+  const dayOfWeek = parseISO(date).getDay();
+  const weekly = snapshot.settings.filter(s => s.templateId === templateId && s.dayOfWeek === dayOfWeek);
+  const overrides = snapshot.overrides.filter(o => o.date === date);
+  const slots = mergeDaySlots(weekly, overrides).filter(slot =>
+    !blockedRanges.some(range => sessionOverlapsBlock(slot.timeSlot, slot.durationMinutes, range!))
+  );
+  return { isBlocked: false, slots };
+}
+
+export async function getDaySchedule(date: string): Promise<DaySchedule> {
+  return resolveDaySchedule(date, await storage.getScheduleSnapshot(date, date));
+}
+
+// A slot as offered for booking a session of a given length
+export interface AvailableSlot {
+  time: string;
+  durationMinutes: number;
+  isOnlineAvailable: boolean;
+  isOfflineAvailable: boolean;
+  isBooked: boolean;
+}
+
+export interface AvailabilityOptions {
+  consultationType: Appointment["consultationType"];
+  durationMinutes: number; // session length of the consultation type
+  mode?: Appointment["consultationMode"]; // only slots offering this mode
+  policy: BookingPolicy;
+  isStaff: boolean; // staff also see slots outside the booking window and the welfare quota
+}
+
+// The welfare quota applies to clients booking welfare sessions
+async function loadCapacityFor(
+  fromDate: string,
+  toDate: string,
+  options: AvailabilityOptions,
+): Promise<WelfareCapacity | null> {
+  return options.consultationType === "welfare" && !options.isStaff ? loadWelfareCapacity(fromDate, toDate) : null;
+}
+
+function resolveAvailableSlots(
+  date: string,
+  schedule: DaySchedule,
+  snapshot: ScheduleSnapshot,
+  welfare: WelfareCapacity | null,
+  { durationMinutes, mode, policy, isStaff }: AvailabilityOptions,
+): AvailableSlot[] {
+  if (welfare && !hasWelfareCapacity(welfare, date)) return [];
+  const occupied = snapshot.occupied.get(date) ?? [];
+  return schedule.slots
+    .filter(s => !welfare || isDesignatedWelfareSlot(welfare.quota, date, s.timeSlot))
+    .filter(s => isStaff || !checkBookingWindow(policy, date, s.timeSlot))
+    .filter(s => s.durationMinutes >= durationMinutes)
+    .filter(s => {
+      if (mode === "online") return s.isOnlineAvailable;
+      if (mode === "offline") return s.isOfflineAvailable;
+      return s.isOnlineAvailable || s.isOfflineAvailable;
+    })
+    .map(s => {
+      const range = toTimeRange(s.timeSlot, { durationMinutes, bufferMinutes: s.bufferMinutes });
+      const isBooked = occupied.some(r => rangesOverlap(r, range));
+      return {
+        time: s.timeSlot,
+        durationMinutes,
+        isOnlineAvailable: s.isOnlineAvailable && !isBooked,
+        isOfflineAvailable: s.isOfflineAvailable && !isBooked,
+        isBooked,
+      };
+    });
+}
+
+// Slots on a date that can host the session, with those overlapping a booking or hold marked booked
+export async function getAvailableSlots(
+  date: string,
+  options: AvailabilityOptions,
+): Promise<{ isBlocked: boolean; slots: AvailableSlot[] }> {
+  const [snapshot, welfare] = await Promise.all([
+    storage.getScheduleSnapshot(date, date),
+    loadCapacityFor(date, date, options),
+  ]);
+  const schedule = resolveDaySchedule(date, snapshot);
+  if (schedule.isBlocked) {
+    return { isBlocked: true, slots: [] };
+  }
+  return { isBlocked: false, slots: resolveAvailableSlots(date, schedule, snapshot, welfare, options) };
+}
+
+export interface OpenSlot extends AvailableSlot {
+  date: string;
+}
+
+function isOpenFor(slot: AvailableSlot, mode?: Appointment["consultationMode"]): boolean {
+  if (mode === "online") return slot.isOnlineAvailable;
+  if (mode === "offline") return slot.isOfflineAvailable;
+  return slot.isOnlineAvailable || slot.isOfflineAvailable;
+}
+
+// The first `limit` open slots from fromDate through the end of the booking horizon, in time order
+export async function findNextAvailableSlots(
+  fromDate: string,
+  limit: number,
+  options: AvailabilityOptions,
+): Promise<OpenSlot[]> {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const lastDate = format(getLatestBookableDate(options.policy), "yyyy-MM-dd");
+  const found: OpenSlot[] = [];
+
+  let date = fromDate < today ? today : fromDate;
+  if (date > lastDate) return found;
+
+  const [snapshot, welfare] = await Promise.all([
+    storage.getScheduleSnapshot(date, lastDate),
+    loadCapacityFor(date, lastDate, options),
+  ]);
+  while (date <= lastDate && found.length < limit) {
+    const schedule = resolveDaySchedule(date, snapshot);
+    const open = resolveAvailableSlots(date, schedule, snapshot, welfare, options)
+      .filter(s => isOpenFor(s, options.mode))
+      .slice(0, limit - found.length);
+    found.push(...open.map(s => ({ ...s, date })));
+    date = format(addDays(parseISO(date), 1), "yyyy-MM-dd");
+  }
+  return found;
+}
+
+const ALTERNATIVE_SLOT_COUNT = 3;
+
+export type SlotRequest = Pick<Appointment, "appointmentDate" | "consultationMode" | "consultationType">;
+
+// Open slots to offer instead of one that was rejected, with the same mode and type. Searches from the
+// requested date, or from today when nothing is open after it.
+export async function findAlternativeSlots(request: SlotRequest, isStaff: boolean): Promise<OpenSlot[]> {
+  const options = {
+    consultationType: request.consultationType,
+    durationMinutes: (await getSessionDurations())[request.consultationType],
+    mode: request.consultationMode,
+    policy: await getBookingPolicy(),
+    isStaff,
+  };
+  const alternatives = await findNextAvailableSlots(request.appointmentDate, ALTERNATIVE_SLOT_COUNT, options);
+  return alternatives.length > 0
+    ? alternatives
+    : findNextAvailableSlots(format(new Date(), "yyyy-MM-dd"), ALTERNATIVE_SLOT_COUNT, options);
+}
+
+export interface DayAvailability {
+  date: string;
+  isBlocked: boolean;
+  online: number; // open slots offering an online session
+  offline: number;
+}
+
+// Open slot counts for every date from fromDate through toDate inclusive, from a single snapshot.
+// options.mode is ignored; both modes are always counted.
+export async function getAvailabilitySummary(
+  fromDate: string,
+  toDate: string,
+  options: AvailabilityOptions,
+): Promise<DayAvailability[]> {
+  const [snapshot, welfare] = await Promise.all([
+    storage.getScheduleSnapshot(fromDate, toDate),
+    loadCapacityFor(fromDate, toDate, options),
+  ]);
+  const days: DayAvailability[] = [];
+  for (let date = fromDate; date <= toDate; date = format(addDays(parseISO(date), 1), "yyyy-MM-dd")) {
+    const schedule = resolveDaySchedule(date, snapshot);
+    const slots = schedule.isBlocked
+      ? []
+      : resolveAvailableSlots(date, schedule, snapshot, welfare, { ...options, mode: undefined });
+    days.push({
+      date,
+      isBlocked: schedule.isBlocked,
+      online: slots.filter(s => s.isOnlineAvailable).length,
+      offline: slots.filter(s => s.isOfflineAvailable).length,
+    });
+  }
+  return days;
+}
+
+// Upcoming pending/confirmed appointments that a blocked period lands on, so staff can reschedule them
+export async function findAppointmentsInBlock(block: BlockedDate): Promise<Appointment[]> {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const candidates = block.recursAnnually
+    ? await storage.getActiveAppointmentsBetween(today)
+    : await storage.getActiveAppointmentsBetween(
+        block.startDate > today ? block.startDate : today,
+        block.endDate ?? block.startDate,
+      );
+  const blockedRange = getBlockedRange(block);
+  return candidates.filter(appointment =>
+    blockCoversDate(block, appointment.appointmentDate) &&
+    (!blockedRange || sessionOverlapsBlock(appointment.appointmentTime, appointment.durationMinutes, blockedRange))
+  );
+}
@@ -0,0 +1,105 @@
+import { z } from "zod";
+import {
+  reminderSettingsSchema,
+  defaultReminderSettings,
+  bookingPolicySchema,
+  defaultBookingPolicy,
+  sessionDurationsSchema,
+  defaultSessionDurations,
+  welfareQuotaSchema,
+  defaultWelfareQuota,
+  attendancePolicySchema,
+  defaultAttendancePolicy,
+  paymentSettingsSchema,
+  defaultPaymentSettings,
+  type ReminderSettings,
+  type BookingPolicy,
+  type SessionDurations,
+  type WelfareQuota,
+  type AttendancePolicy,
+  type PaymentSettings,
+} from "@shared/schema";
+import { storage } from "./storage";
+
+// Admin-configurable settings persisted in app_settings, one JSON value per key
+
+const REMINDER_SETTINGS_KEY = "reminders";
+const BOOKING_POLICY_KEY = "booking-policy";
+const SESSION_DURATIONS_KEY = "session-durations";
+const WELFARE_QUOTA_KEY = "welfare-quota";
+const ATTENDANCE_POLICY_KEY = "attendance-policy";
+const PAYMENT_SETTINGS_KEY = "payment-settings";
+
+// Stored values are merged over the defaults, so fields added later get their default value;
+// anything that no longer validates falls back to the defaults entirely
+async function readSetting<T extends object>(key: string, schema: z.ZodType<T>, fallback: T): Promise<T> {
+  const stored = await storage.getSetting(key);
+  const parsed = schema.safeParse(
+    stored && typeof stored === "object" ? { ...fallback, ...stored } : fallback
+  );
+  return parsed.success ? parsed.data : fallback;
+}
+
+export async function getReminderSettings(): Promise<ReminderSettings> {
+  return readSetting(REMINDER_SETTINGS_KEY, reminderSettingsSchema, defaultReminderSettings);
+}
+
+export async function saveReminderSettings(settings: ReminderSettings): Promise<ReminderSettings> {
+  const normalized = {
+    enabled: settings.enabled,
+    offsetsHours: Array.from(new Set(settings.offsetsHours)).sort((a, b) => b - a),
+  };
+  await storage.setSetting(REMINDER_SETTINGS_KEY, normalized);
+  return normalized;
+}
+
+export async function getBookingPolicy(): Promise<BookingPolicy> {
+  return readSetting(BOOKING_POLICY_KEY, bookingPolicySchema, defaultBookingPolicy);
+}
+
+export async function saveBookingPolicy(policy: BookingPolicy): Promise<BookingPolicy> {
+  await storage.setSetting(BOOKING_POLICY_KEY, policy);
+  return policy;
+}
+
+export async function getSessionDurations(): Promise<SessionDurations> {
+  return readSetting(SESSION_DURATIONS_KEY, sessionDurationsSchema, defaultSessionDurations);
+}
+
+export async function saveSessionDurations(durations: SessionDurations): Promise<SessionDurations> {
+  await storage.setSetting(SESSION_DURATIONS_KEY, durations);
+  return durations;
+}
+
+export async function getWelfareQuota(): Promise<WelfareQuota> {
+  return readSetting(WELFARE_QUOTA_KEY, welfareQuotaSchema, defaultWelfareQuota);
+}
+
+export async function saveWelfareQuota(quota: WelfareQuota): Promise<WelfareQuota> {
+  const normalized = {
+    ...quota,
+    designatedSlots: quota.designatedSlots
+      .filter((slot, i, all) => all.findIndex(s => s.dayOfWeek === slot.dayOfWeek && s.time === slot.time) === i)
+      .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.time.localeCompare(b.time)),
+  };
+  await storage.setSetting(WELFARE_QUOTA_KEY, normalized);
+  return normalized;
+}
+
+export async function getAttendancePolicy(): Promise<AttendancePolicy> {
+  return readSetting(ATTENDANCE_POLICY_KEY, attendancePolicySchema, defaultAttendancePolicy);
+}
+
+export async function saveAttendancePolicy(policy: AttendancePolicy): Promise<AttendancePolicy> {
+  await storage.setSetting(ATTENDANCE_POLICY_KEY, policy);
+  return policy;
+}
+
+export async function getPaymentSettings(): Promise<PaymentSettings> {
+  return readSetting(PAYMENT_SETTINGS_KEY, paymentSettingsSchema, defaultPaymentSettings);
+}
+
+export async function savePaymentSettings(settings: PaymentSettings): Promise<PaymentSettings> {
+  await storage.setSetting(PAYMENT_SETTINGS_KEY, settings);
+  return settings;
+}
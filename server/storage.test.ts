@@ -0,0 +1,163 @@
+import { afterAll, describe, expect, it } from "vitest";
+import type { Appointment, StatusChangeActor } from "@shared/schema";
+import { booking } from "../test/fixtures";
+import { InvalidStatusTransitionError, storage, TimeSlotConflictError } from "./storage";
+import { pool } from "./db";
+
+const client: StatusChangeActor = { actorType: "client", actorId: null, reason: null };
+
+function holdFor(appointmentDate: string, appointmentTime: string) {
+  return {
+    appointmentDate,
+    appointmentTime,
+    consultationType: "regular" as const,
+    consultationMode: "online" as const,
+    durationMinutes: 50,
+    bufferMinutes: 10,
+    expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+  };
+}
+
+// Runs all of them at once and sorts the outcomes
+async function settleConcurrently(operations: Promise<Appointment | undefined>[]) {
+  const results = await Promise.allSettled(operations);
+  return {
+    succeeded: results.filter(r => r.status === "fulfilled"),
+    conflicts: results.filter(r => r.status === "rejected" && r.reason instanceof TimeSlotConflictError),
+    errors: results.filter(r => r.status === "rejected" && !(r.reason instanceof TimeSlotConflictError)),
+  };
+}
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe("storage.createAppointment", () => {
+  it("books a slot requested by several clients at once exactly once", async () => {
+    const { succeeded, conflicts, errors } = await settleConcurrently(
+      Array.from({ length: 6 }, (_, i) => storage.createAppointment(booking("2030-03-04", "10:00", { name: `来访者${i}` }), client))
+    );
+
+    expect(errors).toEqual([]);
+    expect(succeeded).toHaveLength(1);
+    expect(conflicts).toHaveLength(5);
+  });
+
+  // Different start times are not caught by the unique slot index, only by the day lock
+  it("books only one of several overlapping sessions requested at once", async () => {
+    const { succeeded, conflicts, errors } = await settleConcurrently(
+      ["14:00", "14:20", "14:40", "14:50"].map((time, i) => storage.createAppointment(booking("2030-03-05", time, { name: `来访者${i}` }), client))
+    );
+
+    expect(errors).toEqual([]);
+    expect(succeeded).toHaveLength(1);
+    expect(conflicts).toHaveLength(3);
+  });
+
+  it("still books sessions that do not overlap in parallel", async () => {
+    const { succeeded, errors } = await settleConcurrently(
+      ["09:00", "10:00", "11:00"].map((time, i) => storage.createAppointment(booking("2030-03-06", time, { name: `来访者${i}` }), client))
+    );
+
+    expect(errors).toEqual([]);
+    expect(succeeded).toHaveLength(3);
+  });
+
+  it("books a held slot with its own hold and releases the hold", async () => {
+    const hold = await storage.createSlotHold(holdFor("2030-03-10", "10:00"));
+
+    await storage.createAppointment(booking("2030-03-10", "10:00"), client, hold.id);
+
+    expect(await storage.deleteSlotHold(hold.id)).toBe(false);
+  });
+
+  it("does not let a hold for another slot free a held one", async () => {
+    await storage.createSlotHold(holdFor("2030-03-11", "10:00"));
+    const elsewhere = await storage.createSlotHold(holdFor("2030-03-11", "15:00"));
+
+    await expect(
+      storage.createAppointment(booking("2030-03-11", "10:00"), client, elsewhere.id)
+    ).rejects.toBeInstanceOf(TimeSlotConflictError);
+  });
+});
+
+describe("storage.updateAppointment", () => {
+  it("moves only one of several appointments rescheduled into the same slot at once", async () => {
+    const booked = await Promise.all(
+      ["09:00", "10:00", "11:00"].map((time, i) => storage.createAppointment(booking("2030-03-07", time, { name: `来访者${i}` }), client))
+    );
+
+    const { succeeded, conflicts, errors } = await settleConcurrently(
+      booked.map(appointment => storage.updateAppointment(appointment.id, { appointmentDate: "2030-03-08", appointmentTime: "15:00" }))
+    );
+
+    expect(errors).toEqual([]);
+    expect(succeeded).toHaveLength(1);
+    expect(conflicts).toHaveLength(2);
+  });
+
+  it("does not let a booking and a reschedule take the same slot at once", async () => {
+    const moving = await storage.createAppointment(booking("2030-03-09", "09:00"), client);
+
+    const { succeeded, conflicts, errors } = await settleConcurrently([
+      storage.updateAppointment(moving.id, { appointmentDate: "2030-03-09", appointmentTime: "16:00" }),
+      storage.createAppointment(booking("2030-03-09", "16:00", { name: "新来访者" }), client),
+    ]);
+
+    expect(errors).toEqual([]);
+    expect(succeeded).toHaveLength(1);
+    expect(conflicts).toHaveLength(1);
+  });
+});
+
+describe("storage.updateAppointmentStatus", () => {
+  it("records the booking and each change with who made it", async () => {
+    const staff = await storage.createUser({
+      username: "status-staff",
+      email: "status-staff@example.com",
+      password: "not-a-real-hash",
+      name: "测试工作人员",
+      role: "admin",
+    });
+    const appointment = await storage.createAppointment(booking("2030-03-12", "10:00"), client);
+
+    await storage.updateAppointmentStatus(appointment.id, "confirmed", { actorType: "staff", actorId: staff.id, reason: "已核实" });
+    await storage.updateAppointmentStatus(appointment.id, "confirmed", { actorType: "staff", actorId: staff.id, reason: null });
+    await storage.updateAppointmentStatus(appointment.id, "no_show", { actorType: "system", actorId: null, reason: null });
+
+    const history = await storage.getAppointmentStatusHistory(appointment.id);
+    // Setting the current status again records nothing
+    expect(history.map(({ fromStatus, toStatus, actorType, actorName, reason }) => ({ fromStatus, toStatus, actorType, actorName, reason }))).toEqual([
+      { fromStatus: null, toStatus: "pending", actorType: "client", actorName: "测试来访者", reason: null },
+      { fromStatus: "pending", toStatus: "confirmed", actorType: "staff", actorName: "测试工作人员", reason: "已核实" },
+      { fromStatus: "confirmed", toStatus: "no_show", actorType: "system", actorName: null, reason: null },
+    ]);
+  });
+
+  it("refuses a change the transition graph forbids and records nothing", async () => {
+    const appointment = await storage.createAppointment(booking("2030-03-13", "10:00"), client);
+
+    const error = await storage.updateAppointmentStatus(appointment.id, "completed", client).catch(e => e);
+
+    expect(error).toBeInstanceOf(InvalidStatusTransitionError);
+    expect(error).toMatchObject({ from: "pending", to: "completed" });
+    expect((await storage.getAppointment(appointment.id))!.status).toBe("pending");
+    expect(await storage.getAppointmentStatusHistory(appointment.id)).toHaveLength(1);
+  });
+
+  it("changes nothing when the status is no longer the expected one", async () => {
+    const appointment = await storage.createAppointment(booking("2030-03-13", "11:00"), client);
+
+    expect(await storage.updateAppointmentStatus(appointment.id, "cancelled", client, "pending_payment")).toBeUndefined();
+    expect((await storage.getAppointment(appointment.id))!.status).toBe("pending");
+  });
+
+  it("does not undo a cancellation once the slot has been booked again", async () => {
+    const cancelled = await storage.createAppointment(booking("2030-03-14", "10:00"), client);
+    await storage.updateAppointmentStatus(cancelled.id, "cancelled", client);
+    await storage.createAppointment(booking("2030-03-14", "10:20", { name: "新来访者" }), client);
+
+    await expect(storage.updateAppointmentStatus(cancelled.id, "pending", client)).rejects.toBeInstanceOf(TimeSlotConflictError);
+    expect(await storage.getAppointmentStatusHistory(cancelled.id)).toHaveLength(2);
+  });
+});
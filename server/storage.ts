@@ -1,15 +1,192 @@
 import {
-  users, appointments, announcements, messages, conversations, scheduleSettings, blockedDates,
+  users, appointments, activeAppointmentStatuses, announcements, messages, conversations, scheduleTemplates, scheduleSettings, scheduleOverrides, blockedDates, slotHolds, waitlistEntries, emailOutbox, appSettings, appointmentReminders, appointmentStatusHistory, payments, receipts,
   type User, type InsertUser,
   type Appointment, type InsertAppointment,
   type Announcement, type InsertAnnouncement,
   type Message, type InsertMessage,
   type Conversation, type InsertConversation,
+  type ScheduleTemplate, type InsertScheduleTemplate,
   type ScheduleSetting, type InsertScheduleSetting,
+  type ScheduleOverride, type InsertScheduleOverride,
   type BlockedDate, type InsertBlockedDate,
+  type SlotHold, type InsertSlotHold,
+  type WaitlistEntry, type InsertWaitlistEntry,
+  type Payment, type InsertPayment, type PaymentReviewItem,
+  type Receipt, type InsertReceipt,
+  type EmailOutbox, type InsertEmailOutbox,
+  type AppointmentReminder,
+  type SessionLength,
+  type StatusChangeActor,
+  type AppointmentStatusTimelineEntry,
 } from "@shared/schema";
+import { findActiveTemplate } from "@shared/scheduleTemplates";
+import { canTransitionStatus } from "@shared/appointmentStatus";
 import { db } from "./db";
-import { eq, and, or, desc, asc, sql } from "drizzle-orm";
+import { eq, and, or, ne, gt, gte, lt, lte, between, desc, asc, sql, inArray, isNull, notExists } from "drizzle-orm";
+
+type DbExecutor = Pick<typeof db, "select" | "execute">;
+
+export interface ClientIdentity {
+  email?: string | null;
+  phone?: string | null;
+  userId?: string | null;
+}
+
+// A past appointment's outcome for attendance statistics; cancelledAt is when it was last cancelled,
+// and null unless the client cancelled it themselves
+export type AttendanceOutcome = Pick<Appointment, "id" | "appointmentDate" | "appointmentTime" | "status"> & {
+  cancelledAt: Date | null;
+};
+
+const SLOT_UNIQUE_INDEX = "appointments_active_slot_idx";
+
+type WelfareProofReviewField = "welfareProofStatus" | "welfareProofReviewedBy" | "welfareProofReviewedAt" | "welfareProofReviewNote";
+
+export class TimeSlotConflictError extends Error {
+  constructor() {
+    super("Time slot conflict");
+    this.name = "TimeSlotConflictError";
+    Object.setPrototypeOf(this, TimeSlotConflictError.prototype);
+  }
+}
+
+export class InvalidStatusTransitionError extends Error {
+  constructor(public readonly from: Appointment["status"], public readonly to: Appointment["status"]) {
+    super(`Invalid status transition from ${from} to ${to}`);
+    this.name = "InvalidStatusTransitionError";
+    Object.setPrototypeOf(this, InvalidStatusTransitionError.prototype);
+  }
+}
+
+function isSlotUniqueViolation(error: unknown): boolean {
+  const pgError = error as { code?: string; constraint?: string } | null;
+  return pgError?.code === "23505" && pgError.constraint === SLOT_UNIQUE_INDEX;
+}
+
+// Minutes since midnight that a booking keeps the counselor busy, buffer included; end is exclusive
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// "HH:mm" or "HH:mm:ss" to minutes since midnight
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+export function toTimeRange(time: string, length: SessionLength): TimeRange {
+  const start = timeToMinutes(time);
+  return { start, end: start + length.durationMinutes + length.bufferMinutes };
+}
+
+export function rangesOverlap(a: TimeRange, b: TimeRange): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+// Serializes concurrent bookings on the same day until the surrounding transaction ends.
+// Sessions of different lengths can overlap without sharing a start time, so the whole day is locked.
+async function lockScheduleDay(executor: DbExecutor, date: string): Promise<void> {
+  await executor.execute(sql`select pg_advisory_xact_lock(hashtext(${`appointment-day:${date}`}))`);
+}
+
+// Time ranges taken on a date by active appointments and unexpired holds
+async function getOccupiedRangesOn(
+  executor: DbExecutor,
+  date: string,
+  exclude: { appointmentId?: string; holdId?: string } = {},
+): Promise<TimeRange[]> {
+  const appointmentConditions = [
+    eq(appointments.appointmentDate, date),
+    inArray(appointments.status, [...activeAppointmentStatuses]),
+  ];
+  if (exclude.appointmentId) {
+    appointmentConditions.push(ne(appointments.id, exclude.appointmentId));
+  }
+
+  const booked = await executor
+    .select({
+      time: appointments.appointmentTime,
+      durationMinutes: appointments.durationMinutes,
+      bufferMinutes: appointments.bufferMinutes,
+    })
+    .from(appointments)
+    .where(and(...appointmentConditions));
+
+  const holdConditions = [
+    eq(slotHolds.appointmentDate, date),
+    gt(slotHolds.expiresAt, new Date()),
+  ];
+  if (exclude.holdId) {
+    holdConditions.push(ne(slotHolds.id, exclude.holdId));
+  }
+
+  const held = await executor
+    .select({
+      time: slotHolds.appointmentTime,
+      durationMinutes: slotHolds.durationMinutes,
+      bufferMinutes: slotHolds.bufferMinutes,
+    })
+    .from(slotHolds)
+    .where(and(...holdConditions));
+
+  return [...booked, ...held].map(b => toTimeRange(b.time, b));
+}
+
+// A time is free when the booking would not overlap any active appointment or another client's hold
+async function isTimeRangeFree(
+  executor: DbExecutor,
+  date: string,
+  time: string,
+  length: SessionLength,
+  exclude: { appointmentId?: string; holdId?: string } = {},
+): Promise<boolean> {
+  const candidate = toTimeRange(time, length);
+  const occupied = await getOccupiedRangesOn(executor, date, exclude);
+  return !occupied.some(range => rangesOverlap(range, candidate));
+}
+
+function copySlot(setting: ScheduleSetting, templateId: string | null, dayOfWeek: number): InsertScheduleSetting {
+  return {
+    templateId,
+    dayOfWeek,
+    timeSlot: setting.timeSlot,
+    durationMinutes: setting.durationMinutes,
+    bufferMinutes: setting.bufferMinutes,
+    isOnlineAvailable: setting.isOnlineAvailable,
+    isOfflineAvailable: setting.isOfflineAvailable,
+    isActive: setting.isActive,
+  };
+}
+
+// Matches appointments booked under any of the client's identifiers; undefined when there are none
+function matchClient(client: ClientIdentity) {
+  const identifiers = [
+    client.email ? eq(appointments.contactEmail, client.email) : undefined,
+    client.phone ? eq(appointments.contactPhone, client.phone) : undefined,
+    client.userId ? eq(appointments.userId, client.userId) : undefined,
+  ].filter(condition => condition !== undefined);
+  return identifiers.length > 0 ? or(...identifiers) : undefined;
+}
+
+function formatSlotTime(time: string): string {
+  if (time.length > 5 && time.includes(':')) {
+    return time.substring(0, 5);
+  }
+  return time;
+}
+
+// Everything availability is computed from for a date range, loaded in one round of queries so that a
+// month can be resolved without a query per day
+export interface ScheduleSnapshot {
+  templates: ScheduleTemplate[];
+  settings: ScheduleSetting[]; // active weekly slots of every template and the regular schedule
+  overrides: ScheduleOverride[];
+  blocks: BlockedDate[]; // one-off periods overlapping the range plus every annual closure
+  occupied: Map<string, TimeRange[]>; // by date; active appointments and unexpired holds
+}
+
+export type UserTwoFactorFields = Pick<User, "totpSecret" | "totpEnabled" | "totpLastUsedStep" | "totpRecoveryCodes" | "totpFailedAttempts" | "totpLockedUntil">;
 
 export interface IStorage {
   // Users
@@ -18,18 +195,49 @@ export interface IStorage {
   getUserByEmail(email: string): Promise<User | undefined>;
   searchUsersByEmail(emailQuery: string): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined>;
+  updateUserTwoFactor(id: string, data: Partial<UserTwoFactorFields>): Promise<User | undefined>;
+  // Counts a wrong second-factor code; the maxAttempts-th in a row locks the second step until lockUntil
+  recordTwoFactorFailure(id: string, maxAttempts: number, lockUntil: Date): Promise<User | undefined>;
   createVisitorUser(data: { email: string; password: string; name: string }): Promise<User>;
+  markUserEmailVerified(id: string): Promise<User | undefined>;
 
   // Appointments
   getAppointments(): Promise<Appointment[]>;
   getAppointment(id: string): Promise<Appointment | undefined>;
   getAppointmentsByEmail(email: string): Promise<Appointment[]>;
   getAppointmentsByUserId(userId: string, email?: string | null): Promise<Appointment[]>;
-  createAppointment(appointment: InsertAppointment): Promise<Appointment>;
-  updateAppointment(id: string, data: Partial<InsertAppointment>): Promise<Appointment | undefined>;
-  updateAppointmentStatus(id: string, status: "pending" | "confirmed" | "cancelled" | "completed"): Promise<Appointment | undefined>;
-  checkTimeSlotAvailable(date: string, time: string, excludeAppointmentId?: string): Promise<boolean>;
+  // createAppointment/updateAppointment/updateAppointmentStatus throw TimeSlotConflictError when the
+  // booking would overlap another one. Status changes are recorded in the status history;
+  // updateAppointmentStatus throws InvalidStatusTransitionError for a change the transition graph forbids
+  // The status defaults to pending, and the welfare proof review to pending when a proof is attached.
+  // holdId must be a hold the caller owns; it is released, and frees its slot for this booking only
+  // when it is for the same date and time
+  createAppointment(
+    appointment: InsertAppointment & SessionLength & Partial<Pick<Appointment, "status" | "paymentDueAt" | WelfareProofReviewField>>,
+    actor: StatusChangeActor,
+    holdId?: string
+  ): Promise<Appointment>;
+  updateAppointment(id: string, data: Partial<InsertAppointment & SessionLength>): Promise<Appointment | undefined>;
+  // With expectedStatus, nothing changes (and undefined is returned) unless the appointment is still in that status
+  updateAppointmentStatus(
+    id: string,
+    status: Appointment["status"],
+    actor: StatusChangeActor,
+    expectedStatus?: Appointment["status"]
+  ): Promise<Appointment | undefined>;
+  getAppointmentStatusHistory(appointmentId: string): Promise<AppointmentStatusTimelineEntry[]>;
+  reviewWelfareProof(id: string, status: "approved" | "rejected", reviewerId: string, note: string | null): Promise<Appointment | undefined>;
+  checkTimeSlotAvailable(date: string, time: string, length: SessionLength, excludeAppointmentId?: string): Promise<boolean>;
   getBookedSlots(date: string): Promise<string[]>;
+  // Active appointments on or after fromDate matching any of the client's identifiers
+  countUpcomingAppointments(client: ClientIdentity, fromDate: string): Promise<number>;
+  // Completed, no-show and cancelled appointments on or after fromDate matching any of the client's identifiers
+  getAttendanceOutcomes(client: ClientIdentity, fromDate: string): Promise<AttendanceOutcome[]>;
+  // Active appointments from fromDate through toDate inclusive, or with no end when toDate is omitted
+  getActiveAppointmentsBetween(fromDate: string, toDate?: string): Promise<Appointment[]>;
+  // Welfare sessions that were not cancelled, per date from fromDate through toDate inclusive
+  countWelfareSessionsByDate(fromDate: string, toDate: string): Promise<{ date: string; count: number }[]>;
   linkAppointmentsToUser(email: string, userId: string): Promise<void>;
 
   // Announcements
@@ -51,19 +259,107 @@ export interface IStorage {
   resolveConversation(id: string): Promise<Conversation | undefined>;
   linkConversationsToUser(email: string, userId: string): Promise<void>;
 
+  // Schedule Templates (deleting a template deletes its slots)
+  getScheduleTemplates(): Promise<ScheduleTemplate[]>;
+  // copyRegularSlots starts the template with a copy of the regular weekly slots
+  createScheduleTemplate(template: InsertScheduleTemplate, copyRegularSlots: boolean): Promise<ScheduleTemplate>;
+  updateScheduleTemplate(id: string, data: Partial<InsertScheduleTemplate>): Promise<ScheduleTemplate | undefined>;
+  deleteScheduleTemplate(id: string): Promise<boolean>;
+
   // Schedule Settings
   getScheduleSettings(): Promise<ScheduleSetting[]>;
-  getScheduleSettingsByDay(dayOfWeek: number): Promise<ScheduleSetting[]>;
+  // Active slots for the weekday in the template in effect on `date`
+  getScheduleSettingsByDay(dayOfWeek: number, date: string): Promise<ScheduleSetting[]>;
   createScheduleSetting(setting: InsertScheduleSetting): Promise<ScheduleSetting>;
   updateScheduleSetting(id: string, data: Partial<InsertScheduleSetting>): Promise<ScheduleSetting | undefined>;
   deleteScheduleSetting(id: string): Promise<boolean>;
+  // Replaces the target weekdays' slots with copies of the source day's, within one template
+  copyScheduleDay(templateId: string | null, fromDay: number, toDays: number[]): Promise<ScheduleSetting[]>;
+
+  // Schedule Overrides
+  getScheduleOverrides(fromDate: string): Promise<ScheduleOverride[]>;
+  // Replaces the override for the same date and time, if any
+  upsertScheduleOverride(override: InsertScheduleOverride): Promise<ScheduleOverride>;
+  deleteScheduleOverride(id: string): Promise<boolean>;
   initializeDefaultSchedule(): Promise<void>;
 
   // Blocked Dates
   getBlockedDates(): Promise<BlockedDate[]>;
-  isDateBlocked(date: string): Promise<boolean>;
   createBlockedDate(blockedDate: InsertBlockedDate): Promise<BlockedDate>;
   deleteBlockedDate(id: string): Promise<boolean>;
+
+  // Availability, fromDate through toDate inclusive
+  getScheduleSnapshot(fromDate: string, toDate: string): Promise<ScheduleSnapshot>;
+
+  // Slot Holds (createSlotHold throws TimeSlotConflictError when the slot is taken). The hold named
+  // by replaceHoldId is released first, even when the new one cannot be placed.
+  createSlotHold(hold: InsertSlotHold & SessionLength, replaceHoldId?: string): Promise<SlotHold>;
+  deleteSlotHold(id: string): Promise<boolean>;
+
+  // Waitlist. Status changes only apply from the expected status and return undefined otherwise,
+  // so concurrent offers and claims cannot both win.
+  createWaitlistEntry(entry: InsertWaitlistEntry & { userId?: string | null }): Promise<WaitlistEntry>;
+  getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined>;
+  // Waiting and offered entries first, each group oldest first
+  getWaitlistEntries(): Promise<WaitlistEntry[]>;
+  // Waiting entries whose range includes the date, oldest first
+  getWaitingEntriesFor(date: string): Promise<WaitlistEntry[]>;
+  markWaitlistOffered(
+    id: string,
+    offer: Pick<WaitlistEntry, "offeredDate" | "offeredTime" | "holdId" | "offerExpiresAt">
+  ): Promise<WaitlistEntry | undefined>;
+  claimWaitlistOffer(holdId: string): Promise<WaitlistEntry | undefined>;
+  cancelWaitlistEntry(id: string): Promise<WaitlistEntry | undefined>;
+  // Offers past their deadline, and waiting entries whose range ended before today
+  expireWaitlistEntries(now: Date, today: string): Promise<WaitlistEntry[]>;
+
+  // Payments. Completion returns undefined when the payment was already settled, so a webhook
+  // delivered twice is processed once. Success is also accepted for a payment expired on our side,
+  // since the provider may still take money for a checkout it has not closed yet.
+  createPayment(payment: InsertPayment): Promise<Payment>;
+  getPayment(id: string): Promise<Payment | undefined>;
+  getPaymentByReference(provider: string, reference: string): Promise<Payment | undefined>;
+  // Newest first
+  getPaymentsByAppointment(appointmentId: string): Promise<Payment[]>;
+  attachPaymentCheckout(id: string, checkout: Pick<Payment, "providerReference" | "checkoutUrl" | "expiresAt">): Promise<Payment | undefined>;
+  completePayment(id: string, status: "succeeded" | "failed" | "expired"): Promise<Payment | undefined>;
+  expirePendingPayments(appointmentId: string): Promise<void>;
+  setPaymentDue(appointmentId: string, dueAt: Date | null): Promise<void>;
+  // pending_payment appointments whose payment deadline has passed, except those with a transfer
+  // screenshot waiting to be reconciled
+  getOverdueUnpaidAppointments(now: Date): Promise<Appointment[]>;
+  // Manual payments waiting to be reconciled, oldest first
+  getPendingManualPayments(): Promise<PaymentReviewItem[]>;
+  // Settles a pending manual payment; approval records the amount actually received
+  reviewManualPayment(
+    id: string,
+    review: { status: "succeeded" | "failed"; amount?: number; reviewerId: string; note: string | null }
+  ): Promise<Payment | undefined>;
+  // A payment staff took outside the system, recorded as already succeeded
+  recordOnsitePayment(
+    appointmentId: string,
+    entry: { amount: number; reviewerId: string; note: string | null }
+  ): Promise<Payment>;
+
+  // Receipts. Issuing is idempotent: an appointment that already has a receipt gets it back unchanged.
+  getReceiptByAppointment(appointmentId: string): Promise<Receipt | undefined>;
+  issueReceipt(receipt: InsertReceipt): Promise<Receipt>;
+
+  // Email Outbox
+  enqueueEmail(email: InsertEmailOutbox): Promise<EmailOutbox>;
+  getDueEmails(limit: number): Promise<EmailOutbox[]>;
+  markEmailSent(id: string): Promise<void>;
+  markEmailFailed(id: string, error: string, nextAttemptAt: Date | null): Promise<void>;
+
+  // App Settings (raw JSON; callers validate with the matching schema)
+  getSetting(key: string): Promise<unknown | undefined>;
+  setSetting(key: string, value: unknown): Promise<void>;
+
+  // Appointment Reminders
+  getConfirmedAppointmentsBetween(startDate: string, endDate: string): Promise<Appointment[]>;
+  getSentReminders(appointmentIds: string[]): Promise<AppointmentReminder[]>;
+  // Returns false if the reminder was already recorded
+  recordReminderSent(appointmentId: string, offsetHours: number): Promise<boolean>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -95,6 +391,29 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined> {
+    const [updated] = await db.update(users).set(data).where(eq(users.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async updateUserTwoFactor(id: string, data: Partial<UserTwoFactorFields>): Promise<User | undefined> {
+    const [updated] = await db.update(users).set(data).where(eq(users.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async recordTwoFactorFailure(id: string, maxAttempts: number, lockUntil: Date): Promise<User | undefined> {
+    const locks = sql`${users.totpFailedAttempts} + 1 >= ${maxAttempts}`;
+    const [updated] = await db
+      .update(users)
+      .set({
+        totpFailedAttempts: sql`case when ${locks} then 0 else ${users.totpFailedAttempts} + 1 end`,
+        totpLockedUntil: sql`case when ${locks} then ${lockUntil} else ${users.totpLockedUntil} end`,
+      })
+      .where(eq(users.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
   async createVisitorUser(data: { email: string; password: string; name: string }): Promise<User> {
     const [user] = await db.insert(users).values({
       email: data.email,
@@ -105,6 +424,15 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async markUserEmailVerified(id: string): Promise<User | undefined> {
+    const [updated] = await db
+      .update(users)
+      .set({ emailVerifiedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
   // Appointments
   async getAppointments(): Promise<Appointment[]> {
     return db.select().from(appointments).orderBy(desc(appointments.createdAt));
@@ -123,48 +451,167 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(appointments.appointmentDate), desc(appointments.appointmentTime));
   }
 
-  async createAppointment(appointment: InsertAppointment): Promise<Appointment> {
-    const [created] = await db.insert(appointments).values(appointment).returning();
-    return created;
+  async createAppointment(
+    appointment: InsertAppointment & SessionLength & Partial<Pick<Appointment, "status" | "paymentDueAt" | WelfareProofReviewField>>,
+    actor: StatusChangeActor,
+    holdId?: string
+  ): Promise<Appointment> {
+    try {
+      return await db.transaction(async (tx) => {
+        await lockScheduleDay(tx, appointment.appointmentDate);
+        const [hold] = holdId ? await tx.select().from(slotHolds).where(eq(slotHolds.id, holdId)) : [];
+        const holdsThisSlot = hold?.appointmentDate === appointment.appointmentDate &&
+          hold.appointmentTime.substring(0, 5) === appointment.appointmentTime.substring(0, 5);
+        const exclude = holdsThisSlot ? { holdId: hold.id } : {};
+        if (!(await isTimeRangeFree(tx, appointment.appointmentDate, appointment.appointmentTime, appointment, exclude))) {
+          throw new TimeSlotConflictError();
+        }
+        // The client's own hold is converted into the appointment
+        if (hold) {
+          await tx.delete(slotHolds).where(eq(slotHolds.id, hold.id));
+        }
+        // An uploaded welfare proof waits for the counselor's review unless the caller already settled it
+        const [created] = await tx
+          .insert(appointments)
+          .values({ ...appointment, welfareProofStatus: appointment.welfareProofStatus ?? (appointment.welfareProofFile ? "pending" : null) })
+          .returning();
+        await tx.insert(appointmentStatusHistory).values({ ...actor, appointmentId: created.id, toStatus: created.status });
+        return created;
+      });
+    } catch (error) {
+      if (isSlotUniqueViolation(error)) {
+        throw new TimeSlotConflictError();
+      }
+      throw error;
+    }
   }
 
-  async updateAppointment(id: string, data: Partial<InsertAppointment>): Promise<Appointment | undefined> {
-    const [updated] = await db
-      .update(appointments)
-      .set({ ...data, updatedAt: new Date() })
-      .where(eq(appointments.id, id))
-      .returning();
-    return updated || undefined;
+  async updateAppointment(id: string, data: Partial<InsertAppointment & SessionLength>): Promise<Appointment | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const changesTime = data.appointmentDate || data.appointmentTime ||
+          data.durationMinutes !== undefined || data.bufferMinutes !== undefined;
+        if (changesTime) {
+          const [current] = await tx.select().from(appointments).where(eq(appointments.id, id)).for("update");
+          if (!current) return undefined;
+
+          const date = data.appointmentDate || current.appointmentDate;
+          const time = data.appointmentTime || current.appointmentTime;
+          const length = {
+            durationMinutes: data.durationMinutes ?? current.durationMinutes,
+            bufferMinutes: data.bufferMinutes ?? current.bufferMinutes,
+          };
+          await lockScheduleDay(tx, date);
+          if (
+            (activeAppointmentStatuses as readonly string[]).includes(current.status) &&
+            !(await isTimeRangeFree(tx, date, time, length, { appointmentId: id }))
+          ) {
+            throw new TimeSlotConflictError();
+          }
+        }
+
+        const [updated] = await tx
+          .update(appointments)
+          .set({ ...data, updatedAt: new Date() })
+          .where(eq(appointments.id, id))
+          .returning();
+
+        // Reminders sent so far referred to the old time
+        if (data.appointmentDate || data.appointmentTime) {
+          await tx.delete(appointmentReminders).where(eq(appointmentReminders.appointmentId, id));
+        }
+        return updated || undefined;
+      });
+    } catch (error) {
+      if (isSlotUniqueViolation(error)) {
+        throw new TimeSlotConflictError();
+      }
+      throw error;
+    }
+  }
+
+  async updateAppointmentStatus(
+    id: string,
+    status: Appointment["status"],
+    actor: StatusChangeActor,
+    expectedStatus?: Appointment["status"]
+  ): Promise<Appointment | undefined> {
+    const isActive = (value: string) => (activeAppointmentStatuses as readonly string[]).includes(value);
+    try {
+      return await db.transaction(async (tx) => {
+        const [current] = await tx.select().from(appointments).where(eq(appointments.id, id)).for("update");
+        if (!current) return undefined;
+        if (expectedStatus && current.status !== expectedStatus) return undefined;
+        if (current.status === status) return current;
+        if (!canTransitionStatus(current.status, status)) {
+          throw new InvalidStatusTransitionError(current.status, status);
+        }
+
+        // Re-activating a cancelled appointment must not overlap anything booked since
+        if (isActive(status) && !isActive(current.status)) {
+          await lockScheduleDay(tx, current.appointmentDate);
+          if (!(await isTimeRangeFree(tx, current.appointmentDate, current.appointmentTime, current, { appointmentId: id }))) {
+            throw new TimeSlotConflictError();
+          }
+        }
+
+        const [updated] = await tx
+          .update(appointments)
+          .set({ status, updatedAt: new Date() })
+          .where(eq(appointments.id, id))
+          .returning();
+        await tx.insert(appointmentStatusHistory).values({
+          ...actor,
+          appointmentId: id,
+          fromStatus: current.status,
+          toStatus: status,
+        });
+        return updated;
+      });
+    } catch (error) {
+      // Re-activating a cancelled appointment whose slot has since been taken
+      if (isSlotUniqueViolation(error)) {
+        throw new TimeSlotConflictError();
+      }
+      throw error;
+    }
+  }
+
+  async getAppointmentStatusHistory(appointmentId: string): Promise<AppointmentStatusTimelineEntry[]> {
+    const rows = await db
+      .select({ entry: appointmentStatusHistory, userName: users.name, username: users.username, clientName: appointments.name })
+      .from(appointmentStatusHistory)
+      .innerJoin(appointments, eq(appointmentStatusHistory.appointmentId, appointments.id))
+      .leftJoin(users, eq(appointmentStatusHistory.actorId, users.id))
+      .where(eq(appointmentStatusHistory.appointmentId, appointmentId))
+      .orderBy(asc(appointmentStatusHistory.createdAt));
+    // Guests have no account, so client changes fall back to the name on the booking
+    return rows.map(({ entry, userName, username, clientName }) => ({
+      ...entry,
+      actorName:
+        entry.actorType === "staff" ? userName || username :
+        entry.actorType === "client" ? userName || clientName :
+        null,
+    }));
   }
 
-  async updateAppointmentStatus(id: string, status: "pending" | "confirmed" | "cancelled" | "completed"): Promise<Appointment | undefined> {
+  async reviewWelfareProof(id: string, status: "approved" | "rejected", reviewerId: string, note: string | null): Promise<Appointment | undefined> {
     const [updated] = await db
       .update(appointments)
-      .set({ status, updatedAt: new Date() })
+      .set({
+        welfareProofStatus: status,
+        welfareProofReviewedBy: reviewerId,
+        welfareProofReviewedAt: new Date(),
+        welfareProofReviewNote: note,
+        updatedAt: new Date(),
+      })
       .where(eq(appointments.id, id))
       .returning();
     return updated || undefined;
   }
 
-  async checkTimeSlotAvailable(date: string, time: string, excludeAppointmentId?: string): Promise<boolean> {
-    const conditions = [
-      eq(appointments.appointmentDate, date),
-      eq(appointments.appointmentTime, time),
-      or(
-        eq(appointments.status, "pending"),
-        eq(appointments.status, "confirmed")
-      )
-    ];
-    
-    const existing = await db
-      .select()
-      .from(appointments)
-      .where(and(...conditions));
-    
-    if (excludeAppointmentId) {
-      return existing.filter(a => a.id !== excludeAppointmentId).length === 0;
-    }
-    return existing.length === 0;
+  async checkTimeSlotAvailable(date: string, time: string, length: SessionLength, excludeAppointmentId?: string): Promise<boolean> {
+    return isTimeRangeFree(db, date, time, length, { appointmentId: excludeAppointmentId });
   }
 
   async getBookedSlots(date: string): Promise<string[]> {
@@ -174,19 +621,89 @@ export class DatabaseStorage implements IStorage {
       .where(
         and(
           eq(appointments.appointmentDate, date),
-          or(
-            eq(appointments.status, "pending"),
-            eq(appointments.status, "confirmed")
-          )
+          inArray(appointments.status, [...activeAppointmentStatuses])
         )
       );
-    return booked.map(b => {
-      const time = b.time;
-      if (time.length > 5 && time.includes(':')) {
-        return time.substring(0, 5);
-      }
-      return time;
-    });
+    return booked.map(b => formatSlotTime(b.time));
+  }
+
+  async getActiveAppointmentsBetween(fromDate: string, toDate?: string): Promise<Appointment[]> {
+    return db
+      .select()
+      .from(appointments)
+      .where(
+        and(
+          gte(appointments.appointmentDate, fromDate),
+          toDate ? lte(appointments.appointmentDate, toDate) : undefined,
+          inArray(appointments.status, [...activeAppointmentStatuses])
+        )
+      )
+      .orderBy(asc(appointments.appointmentDate), asc(appointments.appointmentTime));
+  }
+
+  async countWelfareSessionsByDate(fromDate: string, toDate: string): Promise<{ date: string; count: number }[]> {
+    return db
+      .select({ date: appointments.appointmentDate, count: sql<number>`count(*)::int` })
+      .from(appointments)
+      .where(
+        and(
+          eq(appointments.consultationType, "welfare"),
+          between(appointments.appointmentDate, fromDate, toDate),
+          ne(appointments.status, "cancelled")
+        )
+      )
+      .groupBy(appointments.appointmentDate);
+  }
+
+  async countUpcomingAppointments(client: ClientIdentity, fromDate: string): Promise<number> {
+    const isClient = matchClient(client);
+    if (!isClient) return 0;
+
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(appointments)
+      .where(
+        and(
+          isClient,
+          gte(appointments.appointmentDate, fromDate),
+          inArray(appointments.status, [...activeAppointmentStatuses])
+        )
+      );
+    return result?.count ?? 0;
+  }
+
+  async getAttendanceOutcomes(client: ClientIdentity, fromDate: string): Promise<AttendanceOutcome[]> {
+    const isClient = matchClient(client);
+    if (!isClient) return [];
+
+    // Cancellations by staff or the system (e.g. unpaid bookings released) do not count against the
+    // client, nor do those from before the status history recorded who cancelled
+    const rows = await db
+      .select({
+        id: appointments.id,
+        appointmentDate: appointments.appointmentDate,
+        appointmentTime: appointments.appointmentTime,
+        status: appointments.status,
+        cancelledAt: sql<Date | null>`max(${appointmentStatusHistory.createdAt})`.mapWith(appointmentStatusHistory.createdAt),
+        cancelledBy: sql<StatusChangeActor["actorType"] | null>`(array_agg(${appointmentStatusHistory.actorType} order by ${appointmentStatusHistory.createdAt} desc))[1]`,
+      })
+      .from(appointments)
+      .leftJoin(
+        appointmentStatusHistory,
+        and(eq(appointmentStatusHistory.appointmentId, appointments.id), eq(appointmentStatusHistory.toStatus, "cancelled"))
+      )
+      .where(
+        and(
+          isClient,
+          gte(appointments.appointmentDate, fromDate),
+          inArray(appointments.status, ["completed", "no_show", "cancelled"])
+        )
+      )
+      .groupBy(appointments.id);
+    return rows.map(({ cancelledAt, cancelledBy, ...outcome }) => ({
+      ...outcome,
+      cancelledAt: outcome.status === "cancelled" && cancelledBy === "client" ? cancelledAt : null,
+    }));
   }
 
   async getAppointmentsByUserId(userId: string, email?: string | null): Promise<Appointment[]> {
@@ -332,16 +849,55 @@ export class DatabaseStorage implements IStorage {
       .where(eq(conversations.visitorEmail, email));
   }
 
+  // Schedule Templates
+  async getScheduleTemplates(): Promise<ScheduleTemplate[]> {
+    return db.select().from(scheduleTemplates).orderBy(asc(scheduleTemplates.effectiveFrom));
+  }
+
+  async createScheduleTemplate(template: InsertScheduleTemplate, copyRegularSlots: boolean): Promise<ScheduleTemplate> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(scheduleTemplates).values(template).returning();
+      if (copyRegularSlots) {
+        const regular = await tx.select().from(scheduleSettings).where(isNull(scheduleSettings.templateId));
+        if (regular.length > 0) {
+          await tx.insert(scheduleSettings).values(regular.map(setting => copySlot(setting, created.id, setting.dayOfWeek)));
+        }
+      }
+      return created;
+    });
+  }
+
+  async updateScheduleTemplate(id: string, data: Partial<InsertScheduleTemplate>): Promise<ScheduleTemplate | undefined> {
+    const [updated] = await db
+      .update(scheduleTemplates)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(scheduleTemplates.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteScheduleTemplate(id: string): Promise<boolean> {
+    const result = await db.delete(scheduleTemplates).where(eq(scheduleTemplates.id, id)).returning();
+    return result.length > 0;
+  }
+
   // Schedule Settings
   async getScheduleSettings(): Promise<ScheduleSetting[]> {
     return db.select().from(scheduleSettings).orderBy(scheduleSettings.dayOfWeek, scheduleSettings.timeSlot);
   }
 
-  async getScheduleSettingsByDay(dayOfWeek: number): Promise<ScheduleSetting[]> {
+  async getScheduleSettingsByDay(dayOfWeek: number, date: string): Promise<ScheduleSetting[]> {
+    const template = findActiveTemplate(await this.getScheduleTemplates(), date);
     return db
       .select()
       .from(scheduleSettings)
-      .where(and(eq(scheduleSettings.dayOfWeek, dayOfWeek), eq(scheduleSettings.isActive, true)))
+      .where(
+        and(
+          template ? eq(scheduleSettings.templateId, template.id) : isNull(scheduleSettings.templateId),
+          eq(scheduleSettings.dayOfWeek, dayOfWeek),
+          eq(scheduleSettings.isActive, true)
+        )
+      )
       .orderBy(scheduleSettings.timeSlot);
   }
 
@@ -364,6 +920,51 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  async copyScheduleDay(templateId: string | null, fromDay: number, toDays: number[]): Promise<ScheduleSetting[]> {
+    const targets = toDays.filter(day => day !== fromDay);
+    if (targets.length === 0) return [];
+    const inTemplate = templateId ? eq(scheduleSettings.templateId, templateId) : isNull(scheduleSettings.templateId);
+
+    return db.transaction(async (tx) => {
+      const source = await tx
+        .select()
+        .from(scheduleSettings)
+        .where(and(inTemplate, eq(scheduleSettings.dayOfWeek, fromDay)));
+      await tx.delete(scheduleSettings).where(and(inTemplate, inArray(scheduleSettings.dayOfWeek, targets)));
+      if (source.length === 0) return [];
+      return tx
+        .insert(scheduleSettings)
+        .values(targets.flatMap(day => source.map(setting => copySlot(setting, templateId, day))))
+        .returning();
+    });
+  }
+
+  // Schedule Overrides
+  async getScheduleOverrides(fromDate: string): Promise<ScheduleOverride[]> {
+    return db
+      .select()
+      .from(scheduleOverrides)
+      .where(gte(scheduleOverrides.date, fromDate))
+      .orderBy(scheduleOverrides.date, scheduleOverrides.timeSlot);
+  }
+
+  async upsertScheduleOverride(override: InsertScheduleOverride): Promise<ScheduleOverride> {
+    const [saved] = await db
+      .insert(scheduleOverrides)
+      .values(override)
+      .onConflictDoUpdate({
+        target: [scheduleOverrides.date, scheduleOverrides.timeSlot],
+        set: { ...override, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteScheduleOverride(id: string): Promise<boolean> {
+    const result = await db.delete(scheduleOverrides).where(eq(scheduleOverrides.id, id)).returning();
+    return result.length > 0;
+  }
+
   async initializeDefaultSchedule(): Promise<void> {
     const existing = await db.select().from(scheduleSettings).limit(1);
     if (existing.length > 0) return;
@@ -387,12 +988,7 @@ export class DatabaseStorage implements IStorage {
 
   // Blocked Dates
   async getBlockedDates(): Promise<BlockedDate[]> {
-    return db.select().from(blockedDates).orderBy(desc(blockedDates.date));
-  }
-
-  async isDateBlocked(date: string): Promise<boolean> {
-    const [blocked] = await db.select().from(blockedDates).where(eq(blockedDates.date, date));
-    return !!blocked;
+    return db.select().from(blockedDates).orderBy(desc(blockedDates.startDate));
   }
 
   async createBlockedDate(blockedDate: InsertBlockedDate): Promise<BlockedDate> {
@@ -404,6 +1000,403 @@ export class DatabaseStorage implements IStorage {
     const result = await db.delete(blockedDates).where(eq(blockedDates.id, id)).returning();
     return result.length > 0;
   }
+
+  // Availability
+  async getScheduleSnapshot(fromDate: string, toDate: string): Promise<ScheduleSnapshot> {
+    const [templates, settings, overrides, blocks, booked, held] = await Promise.all([
+      this.getScheduleTemplates(),
+      db
+        .select()
+        .from(scheduleSettings)
+        .where(eq(scheduleSettings.isActive, true))
+        .orderBy(scheduleSettings.timeSlot),
+      db
+        .select()
+        .from(scheduleOverrides)
+        .where(between(scheduleOverrides.date, fromDate, toDate)),
+      db
+        .select()
+        .from(blockedDates)
+        .where(
+          or(
+            eq(blockedDates.recursAnnually, true),
+            and(
+              lte(blockedDates.startDate, toDate),
+              gte(sql`coalesce(${blockedDates.endDate}, ${blockedDates.startDate})`, fromDate)
+            )
+          )
+        ),
+      db
+        .select({
+          date: appointments.appointmentDate,
+          time: appointments.appointmentTime,
+          durationMinutes: appointments.durationMinutes,
+          bufferMinutes: appointments.bufferMinutes,
+        })
+        .from(appointments)
+        .where(
+          and(
+            between(appointments.appointmentDate, fromDate, toDate),
+            inArray(appointments.status, [...activeAppointmentStatuses])
+          )
+        ),
+      db
+        .select({
+          date: slotHolds.appointmentDate,
+          time: slotHolds.appointmentTime,
+          durationMinutes: slotHolds.durationMinutes,
+          bufferMinutes: slotHolds.bufferMinutes,
+        })
+        .from(slotHolds)
+        .where(and(between(slotHolds.appointmentDate, fromDate, toDate), gt(slotHolds.expiresAt, new Date()))),
+    ]);
+
+    const occupied = new Map<string, TimeRange[]>();
+    for (const b of [...booked, ...held]) {
+      const ranges = occupied.get(b.date) ?? [];
+      ranges.push(toTimeRange(b.time, b));
+      occupied.set(b.date, ranges);
+    }
+    return { templates, settings, overrides, blocks, occupied };
+  }
+
+  // Slot Holds
+  async createSlotHold(hold: InsertSlotHold & SessionLength, replaceHoldId?: string): Promise<SlotHold> {
+    if (replaceHoldId) {
+      await db.delete(slotHolds).where(eq(slotHolds.id, replaceHoldId));
+    }
+    return db.transaction(async (tx) => {
+      // Expired holds are ignored by availability checks; this just keeps the table small
+      await tx.delete(slotHolds).where(lt(slotHolds.expiresAt, new Date()));
+
+      await lockScheduleDay(tx, hold.appointmentDate);
+      if (!(await isTimeRangeFree(tx, hold.appointmentDate, hold.appointmentTime, hold))) {
+        throw new TimeSlotConflictError();
+      }
+      const [created] = await tx.insert(slotHolds).values(hold).returning();
+      return created;
+    });
+  }
+
+  async deleteSlotHold(id: string): Promise<boolean> {
+    const result = await db.delete(slotHolds).where(eq(slotHolds.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // Waitlist
+  async createWaitlistEntry(entry: InsertWaitlistEntry & { userId?: string | null }): Promise<WaitlistEntry> {
+    const [created] = await db.insert(waitlistEntries).values(entry).returning();
+    return created;
+  }
+
+  async getWaitlistEntry(id: string): Promise<WaitlistEntry | undefined> {
+    const [entry] = await db.select().from(waitlistEntries).where(eq(waitlistEntries.id, id));
+    return entry;
+  }
+
+  async getWaitlistEntries(): Promise<WaitlistEntry[]> {
+    return db
+      .select()
+      .from(waitlistEntries)
+      .orderBy(
+        sql`case when ${waitlistEntries.status} in ('waiting', 'offered') then 0 else 1 end`,
+        asc(waitlistEntries.createdAt)
+      );
+  }
+
+  async getWaitingEntriesFor(date: string): Promise<WaitlistEntry[]> {
+    return db
+      .select()
+      .from(waitlistEntries)
+      .where(
+        and(
+          eq(waitlistEntries.status, "waiting"),
+          lte(waitlistEntries.startDate, date),
+          gte(waitlistEntries.endDate, date)
+        )
+      )
+      .orderBy(asc(waitlistEntries.createdAt));
+  }
+
+  async markWaitlistOffered(
+    id: string,
+    offer: Pick<WaitlistEntry, "offeredDate" | "offeredTime" | "holdId" | "offerExpiresAt">
+  ): Promise<WaitlistEntry | undefined> {
+    const [updated] = await db
+      .update(waitlistEntries)
+      .set({ ...offer, status: "offered", updatedAt: new Date() })
+      .where(and(eq(waitlistEntries.id, id), eq(waitlistEntries.status, "waiting")))
+      .returning();
+    return updated;
+  }
+
+  async claimWaitlistOffer(holdId: string): Promise<WaitlistEntry | undefined> {
+    const [updated] = await db
+      .update(waitlistEntries)
+      .set({ status: "claimed", updatedAt: new Date() })
+      .where(and(eq(waitlistEntries.holdId, holdId), eq(waitlistEntries.status, "offered")))
+      .returning();
+    return updated;
+  }
+
+  async cancelWaitlistEntry(id: string): Promise<WaitlistEntry | undefined> {
+    const [updated] = await db
+      .update(waitlistEntries)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(and(eq(waitlistEntries.id, id), inArray(waitlistEntries.status, ["waiting", "offered"])))
+      .returning();
+    return updated;
+  }
+
+  async expireWaitlistEntries(now: Date, today: string): Promise<WaitlistEntry[]> {
+    return db
+      .update(waitlistEntries)
+      .set({ status: "expired", updatedAt: new Date() })
+      .where(
+        or(
+          and(eq(waitlistEntries.status, "offered"), lt(waitlistEntries.offerExpiresAt, now)),
+          and(eq(waitlistEntries.status, "waiting"), lt(waitlistEntries.endDate, today))
+        )
+      )
+      .returning();
+  }
+
+  // Payments
+  async createPayment(payment: InsertPayment): Promise<Payment> {
+    const [created] = await db.insert(payments).values(payment).returning();
+    return created;
+  }
+
+  async getPayment(id: string): Promise<Payment | undefined> {
+    const [payment] = await db.select().from(payments).where(eq(payments.id, id));
+    return payment;
+  }
+
+  async getPaymentByReference(provider: string, reference: string): Promise<Payment | undefined> {
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(and(eq(payments.provider, provider), eq(payments.providerReference, reference)));
+    return payment;
+  }
+
+  async getPaymentsByAppointment(appointmentId: string): Promise<Payment[]> {
+    return db
+      .select()
+      .from(payments)
+      .where(eq(payments.appointmentId, appointmentId))
+      .orderBy(desc(payments.createdAt));
+  }
+
+  async attachPaymentCheckout(
+    id: string,
+    checkout: Pick<Payment, "providerReference" | "checkoutUrl" | "expiresAt">
+  ): Promise<Payment | undefined> {
+    const [updated] = await db
+      .update(payments)
+      .set({ ...checkout, updatedAt: new Date() })
+      .where(eq(payments.id, id))
+      .returning();
+    return updated;
+  }
+
+  async completePayment(id: string, status: "succeeded" | "failed" | "expired"): Promise<Payment | undefined> {
+    const [updated] = await db
+      .update(payments)
+      .set({ status, paidAt: status === "succeeded" ? new Date() : null, updatedAt: new Date() })
+      .where(and(
+        eq(payments.id, id),
+        inArray(payments.status, status === "succeeded" ? ["pending", "expired"] : ["pending"])
+      ))
+      .returning();
+    return updated;
+  }
+
+  async expirePendingPayments(appointmentId: string): Promise<void> {
+    await db
+      .update(payments)
+      .set({ status: "expired", updatedAt: new Date() })
+      .where(and(eq(payments.appointmentId, appointmentId), eq(payments.status, "pending")));
+  }
+
+  async setPaymentDue(appointmentId: string, dueAt: Date | null): Promise<void> {
+    await db
+      .update(appointments)
+      .set({ paymentDueAt: dueAt, updatedAt: new Date() })
+      .where(eq(appointments.id, appointmentId));
+  }
+
+  async getOverdueUnpaidAppointments(now: Date): Promise<Appointment[]> {
+    return db
+      .select()
+      .from(appointments)
+      .where(and(
+        eq(appointments.status, "pending_payment"),
+        lte(appointments.paymentDueAt, now),
+        notExists(
+          db.select({ id: payments.id })
+            .from(payments)
+            .where(and(
+              eq(payments.appointmentId, appointments.id),
+              eq(payments.provider, "manual"),
+              eq(payments.status, "pending")
+            ))
+        )
+      ));
+  }
+
+  async getPendingManualPayments(): Promise<PaymentReviewItem[]> {
+    const rows = await db
+      .select({ payment: payments, appointment: appointments })
+      .from(payments)
+      .innerJoin(appointments, eq(payments.appointmentId, appointments.id))
+      .where(and(eq(payments.provider, "manual"), eq(payments.status, "pending")))
+      .orderBy(asc(payments.createdAt));
+    return rows.map(({ payment, appointment }) => ({ ...payment, appointment }));
+  }
+
+  async reviewManualPayment(
+    id: string,
+    review: { status: "succeeded" | "failed"; amount?: number; reviewerId: string; note: string | null }
+  ): Promise<Payment | undefined> {
+    const now = new Date();
+    const [updated] = await db
+      .update(payments)
+      .set({
+        status: review.status,
+        ...(review.amount !== undefined && { amount: review.amount }),
+        paidAt: review.status === "succeeded" ? now : null,
+        reviewedBy: review.reviewerId,
+        reviewedAt: now,
+        reviewNote: review.note,
+        updatedAt: now,
+      })
+      .where(and(eq(payments.id, id), eq(payments.provider, "manual"), eq(payments.status, "pending")))
+      .returning();
+    return updated;
+  }
+
+  async recordOnsitePayment(
+    appointmentId: string,
+    entry: { amount: number; reviewerId: string; note: string | null }
+  ): Promise<Payment> {
+    const now = new Date();
+    const [created] = await db
+      .insert(payments)
+      .values({
+        appointmentId,
+        amount: entry.amount,
+        provider: "onsite",
+        status: "succeeded",
+        paidAt: now,
+        reviewedBy: entry.reviewerId,
+        reviewedAt: now,
+        reviewNote: entry.note,
+      })
+      .returning();
+    return created;
+  }
+
+  // Receipts
+  async getReceiptByAppointment(appointmentId: string): Promise<Receipt | undefined> {
+    const [receipt] = await db.select().from(receipts).where(eq(receipts.appointmentId, appointmentId));
+    return receipt;
+  }
+
+  async issueReceipt(receipt: InsertReceipt): Promise<Receipt> {
+    // Numbers must run without gaps, so they are allocated one issue at a time and only once it is
+    // certain that the appointment has no receipt yet; a failed insert rolls its number back.
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('receipt-number'))`);
+      const [existing] = await tx.select().from(receipts).where(eq(receipts.appointmentId, receipt.appointmentId));
+      if (existing) return existing;
+
+      const [{ lastNumber }] = await tx
+        .select({ lastNumber: sql<number>`coalesce(max(${receipts.number}), 0)`.mapWith(Number) })
+        .from(receipts);
+      const [created] = await tx
+        .insert(receipts)
+        .values({ ...receipt, number: lastNumber + 1 })
+        .returning();
+      return created;
+    });
+  }
+
+  // Email Outbox
+  async enqueueEmail(email: InsertEmailOutbox): Promise<EmailOutbox> {
+    const [created] = await db.insert(emailOutbox).values(email).returning();
+    return created;
+  }
+
+  async getDueEmails(limit: number): Promise<EmailOutbox[]> {
+    return db
+      .select()
+      .from(emailOutbox)
+      .where(and(eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, new Date())))
+      .orderBy(asc(emailOutbox.nextAttemptAt))
+      .limit(limit);
+  }
+
+  async markEmailSent(id: string): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set({ status: "sent", sentAt: new Date(), attempts: sql`${emailOutbox.attempts} + 1`, lastError: null })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // Schedules a retry at nextAttemptAt, or gives up when it is null
+  async markEmailFailed(id: string, error: string, nextAttemptAt: Date | null): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set({
+        status: nextAttemptAt ? "pending" : "failed",
+        attempts: sql`${emailOutbox.attempts} + 1`,
+        lastError: error,
+        ...(nextAttemptAt && { nextAttemptAt }),
+      })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // App Settings
+  async getSetting(key: string): Promise<unknown | undefined> {
+    const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, key));
+    return setting?.value;
+  }
+
+  async setSetting(key: string, value: unknown): Promise<void> {
+    await db
+      .insert(appSettings)
+      .values({ key, value })
+      .onConflictDoUpdate({ target: appSettings.key, set: { value, updatedAt: new Date() } });
+  }
+
+  // Appointment Reminders
+  async getConfirmedAppointmentsBetween(startDate: string, endDate: string): Promise<Appointment[]> {
+    return db
+      .select()
+      .from(appointments)
+      .where(
+        and(
+          eq(appointments.status, "confirmed"),
+          between(appointments.appointmentDate, startDate, endDate)
+        )
+      )
+      .orderBy(asc(appointments.appointmentDate), asc(appointments.appointmentTime));
+  }
+
+  async getSentReminders(appointmentIds: string[]): Promise<AppointmentReminder[]> {
+    if (appointmentIds.length === 0) return [];
+    return db.select().from(appointmentReminders).where(inArray(appointmentReminders.appointmentId, appointmentIds));
+  }
+
+  async recordReminderSent(appointmentId: string, offsetHours: number): Promise<boolean> {
+    const inserted = await db
+      .insert(appointmentReminders)
+      .values({ appointmentId, offsetHours })
+      .onConflictDoNothing()
+      .returning();
+    return inserted.length > 0;
+  }
 }
 
 export const storage = new DatabaseStorage();
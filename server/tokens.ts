@@ -0,0 +1,74 @@
+import { createHmac, createHash, timingSafeEqual } from "crypto";
+
+// Stateless signed tokens: base64url(JSON payload) + "." + HMAC-SHA256 signature
+
+export type TokenPurpose = "verify-email" | "reset-password" | "guest-access" | "waitlist-claim";
+
+export interface TokenPayload {
+  purpose: TokenPurpose;
+  sub: string; // user id, the guest's email for guest-access, or the waitlist entry id for waitlist-claim
+  exp: number; // unix milliseconds
+  fp?: string; // fingerprint of the state the token is bound to
+  scope?: string; // kind of resource a guest-access token opens
+  rid?: string; // single resource a guest-access token is limited to
+}
+
+type TokenClaims = Pick<TokenPayload, "fp" | "scope" | "rid">;
+
+export const EMAIL_VERIFICATION_TTL_MS = 24 * 60 * 60 * 1000;
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+export const GUEST_ACCESS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function getSecret(): string {
+  return process.env.TOKEN_SECRET || process.env.SESSION_SECRET || "fallback-secret-change-me";
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", getSecret()).update(data).digest("base64url");
+}
+
+// Short digest used to bind a token to mutable state (the email being verified, the current
+// password hash). Once that state changes the token no longer matches, which makes reset links single-use.
+export function fingerprint(value: string): string {
+  return createHash("sha256").update(value).digest("base64url").slice(0, 16);
+}
+
+export function createToken(purpose: TokenPurpose, sub: string, ttlMs: number, claims: TokenClaims = {}): string {
+  const payload: TokenPayload = { purpose, sub, exp: Date.now() + ttlMs, ...claims };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+// Returns the payload if the signature is valid, the purpose matches and the token has not expired
+export function verifyToken(token: string, purpose: TokenPurpose): TokenPayload | null {
+  const [data, signature, ...rest] = token.split(".");
+  if (!data || !signature || rest.length > 0) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(data, "base64url").toString("utf8"));
+  } catch {
+    return null;
+  }
+
+  if (payload.purpose !== purpose || typeof payload.sub !== "string" || payload.exp < Date.now()) {
+    return null;
+  }
+  return payload;
+}
+
+// The subject of a guest-access token is the guest's email. It opens either every resource of
+// its scope owned by that email, or only the single resource named in `rid`.
+export type GuestAccessScope = "appointments" | "conversations";
+
+export function createGuestAccessToken(scope: GuestAccessScope, email: string, resourceId?: string): string {
+  return createToken("guest-access", email, GUEST_ACCESS_TTL_MS, { scope, ...(resourceId && { rid: resourceId }) });
+}
@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { currentTimeStep, generateRecoveryCodes, generateTotp, hashRecoveryCode, verifyTotp } from "./totp";
+
+// The RFC 6238 Appendix B SHA1 key "12345678901234567890", base32 encoded
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("generateTotp", () => {
+  // Appendix B lists 8-digit codes; 6-digit codes are their last six digits
+  it.each([
+    [59, "287082"],
+    [1111111109, "081804"],
+    [1111111111, "050471"],
+    [1234567890, "005924"],
+    [2000000000, "279037"],
+    [20000000000, "353130"],
+  ])("matches the RFC 6238 test vector at %i seconds", (seconds, expected) => {
+    expect(generateTotp(RFC_SECRET, currentTimeStep(seconds * 1000))).toBe(expected);
+  });
+});
+
+describe("verifyTotp", () => {
+  const now = 1111111111 * 1000;
+  const step = currentTimeStep(now);
+
+  it("accepts the current code and returns its step", () => {
+    vi.useFakeTimers({ now });
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step))).toBe(step);
+  });
+
+  it("accepts codes one step either side for clock drift, but not two", () => {
+    vi.useFakeTimers({ now });
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1))).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1))).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2))).toBeNull();
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 2))).toBeNull();
+  });
+
+  it("rejects a code from a step at or before the last one used", () => {
+    vi.useFakeTimers({ now });
+    const code = generateTotp(RFC_SECRET, step);
+    expect(verifyTotp(RFC_SECRET, code, step)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), step - 1)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, code, step - 1)).toBe(step);
+  });
+
+  it("ignores spaces and rejects codes that are not six digits", () => {
+    vi.useFakeTimers({ now });
+    const code = generateTotp(RFC_SECRET, step);
+    expect(verifyTotp(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, code.slice(1))).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "abcdef")).toBeNull();
+  });
+});
+
+describe("recovery codes", () => {
+  it("generates distinct codes in the ABCDE-FGHIJ format", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(10);
+    expect(new Set(codes).size).toBe(10);
+    for (const code of codes) {
+      expect(code).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/);
+    }
+  });
+
+  it("hashes codes regardless of case and separators", () => {
+    expect(hashRecoveryCode("abcde fghij")).toBe(hashRecoveryCode("ABCDE-FGHIJ"));
+    expect(hashRecoveryCode("ABCDE-FGHIJ")).not.toBe(hashRecoveryCode("ABCDE-FGHIK"));
+  });
+});
@@ -0,0 +1,78 @@
+import { afterAll, describe, expect, it } from "vitest";
+import type { User } from "@shared/schema";
+import { checkSecondFactor, MAX_TWO_FACTOR_ATTEMPTS } from "./twoFactor";
+import { generateRecoveryCodes, generateTotp, generateTotpSecret, hashRecoveryCode } from "./totp";
+import { storage } from "./storage";
+import { pool } from "./db";
+
+let staffCount = 0;
+
+// A staff account with 2FA enabled, and the recovery codes it was given
+async function enrolledStaff(): Promise<{ staff: User; recoveryCodes: string[] }> {
+  staffCount++;
+  const created = await storage.createUser({
+    username: `staff-2fa-${staffCount}`,
+    email: `staff-2fa-${staffCount}@example.com`,
+    password: "not-a-real-hash",
+    name: "测试工作人员",
+    role: "admin",
+  });
+  const recoveryCodes = generateRecoveryCodes();
+  const staff = await storage.updateUserTwoFactor(created.id, {
+    totpSecret: generateTotpSecret(),
+    totpEnabled: true,
+    totpRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+  });
+  return { staff: staff!, recoveryCodes };
+}
+
+// The account as stored now; the checks work on the row the route loaded
+async function reload(staff: User): Promise<User> {
+  return (await storage.getUser(staff.id))!;
+}
+
+afterAll(async () => {
+  await pool.end();
+});
+
+describe("checkSecondFactor", () => {
+  it("accepts a current code once", async () => {
+    const { staff } = await enrolledStaff();
+    const code = generateTotp(staff.totpSecret!);
+
+    expect(await checkSecondFactor(staff, { code })).toEqual({ ok: true });
+    expect(await checkSecondFactor(await reload(staff), { code })).toMatchObject({ ok: false, locked: false });
+  });
+
+  it("accepts each recovery code once", async () => {
+    const { staff, recoveryCodes } = await enrolledStaff();
+
+    expect(await checkSecondFactor(staff, { recoveryCode: recoveryCodes[0] })).toEqual({ ok: true });
+    const used = await reload(staff);
+    expect(used.totpRecoveryCodes).toHaveLength(recoveryCodes.length - 1);
+    expect(await checkSecondFactor(used, { recoveryCode: recoveryCodes[0] })).toMatchObject({ ok: false, locked: false });
+    expect(await checkSecondFactor(await reload(staff), { recoveryCode: recoveryCodes[1] })).toEqual({ ok: true });
+  });
+
+  it("locks the second step after repeated wrong codes and refuses even a correct one", async () => {
+    const { staff } = await enrolledStaff();
+
+    for (let i = 1; i < MAX_TWO_FACTOR_ATTEMPTS; i++) {
+      expect(await checkSecondFactor(await reload(staff), { code: "000000" })).toMatchObject({ ok: false, locked: false });
+    }
+    expect(await checkSecondFactor(await reload(staff), { recoveryCode: "AAAAA-AAAAA" })).toMatchObject({ ok: false, locked: true });
+
+    const locked = await reload(staff);
+    expect(locked.totpLockedUntil!.getTime()).toBeGreaterThan(Date.now());
+    expect(await checkSecondFactor(locked, { code: generateTotp(staff.totpSecret!) })).toMatchObject({ ok: false, locked: true });
+  });
+
+  it("clears the count of wrong codes on success", async () => {
+    const { staff } = await enrolledStaff();
+    await checkSecondFactor(staff, { code: "000000" });
+    expect((await reload(staff)).totpFailedAttempts).toBe(1);
+
+    expect(await checkSecondFactor(await reload(staff), { code: generateTotp(staff.totpSecret!) })).toEqual({ ok: true });
+    expect((await reload(staff)).totpFailedAttempts).toBe(0);
+  });
+});
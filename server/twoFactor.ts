@@ -0,0 +1,68 @@
+import { format } from "date-fns";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { hashRecoveryCode, verifyTotp } from "./totp";
+
+// The second factor of a staff account with 2FA enabled. Every endpoint that asks for a code checks
+// it here, so wrong codes count toward one lockout wherever they are tried.
+
+// Wrong second-factor codes in a row before the account's second step is locked, and for how long.
+// Kept on the account, so signing in with the password again does not reset them.
+export const MAX_TWO_FACTOR_ATTEMPTS = 5;
+export const TWO_FACTOR_LOCK_MINUTES = 15;
+
+export type SecondFactorResult =
+  | { ok: true }
+  | { ok: false; locked: boolean; error: string };
+
+function lockedOut(until: Date): SecondFactorResult {
+  return { ok: false, locked: true, error: `尝试次数过多，请于 ${format(until, "HH:mm")} 后再试` };
+}
+
+// Verifies a TOTP code for a staff account with 2FA enabled, recording the step so it cannot be reused
+export async function verifyStaffTotp(staff: User, code: string): Promise<boolean> {
+  if (!staff.totpSecret) return false;
+  const step = verifyTotp(staff.totpSecret, code, staff.totpLastUsedStep);
+  if (step === null) return false;
+  await storage.updateUserTwoFactor(staff.id, { totpLastUsedStep: step });
+  return true;
+}
+
+// Consumes a recovery code; each code works once
+async function consumeRecoveryCode(staff: User, code: string): Promise<boolean> {
+  const hash = hashRecoveryCode(code);
+  const remaining = staff.totpRecoveryCodes || [];
+  if (!remaining.includes(hash)) return false;
+  await storage.updateUserTwoFactor(staff.id, {
+    totpRecoveryCodes: remaining.filter(h => h !== hash),
+  });
+  return true;
+}
+
+// Checks a TOTP code, or a recovery code where allowed. A failure counts toward the lockout, and
+// while the account is locked no code is checked at all; a success clears the count.
+export async function checkSecondFactor(
+  staff: User,
+  credentials: { code?: unknown; recoveryCode?: unknown },
+  now: Date = new Date()
+): Promise<SecondFactorResult> {
+  if (staff.totpLockedUntil && staff.totpLockedUntil > now) {
+    return lockedOut(staff.totpLockedUntil);
+  }
+
+  const { code, recoveryCode } = credentials;
+  const isValid = code
+    ? await verifyStaffTotp(staff, String(code))
+    : !!recoveryCode && (await consumeRecoveryCode(staff, String(recoveryCode)));
+  if (!isValid) {
+    const lockUntil = new Date(now.getTime() + TWO_FACTOR_LOCK_MINUTES * 60 * 1000);
+    const updated = await storage.recordTwoFactorFailure(staff.id, MAX_TWO_FACTOR_ATTEMPTS, lockUntil);
+    if (updated?.totpLockedUntil && updated.totpLockedUntil > now) {
+      return lockedOut(updated.totpLockedUntil);
+    }
+    return { ok: false, locked: false, error: code ? "验证码错误" : "恢复码无效" };
+  }
+
+  await storage.updateUserTwoFactor(staff.id, { totpFailedAttempts: 0, totpLockedUntil: null });
+  return { ok: true };
+}
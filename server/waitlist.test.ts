@@ -0,0 +1,160 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Appointment, InsertWaitlistEntry, StatusChangeActor, WaitlistEntry } from "@shared/schema";
+import { getSessionStart } from "@shared/bookingPolicy";
+import { booking, weeklySlots } from "../test/fixtures";
+import { expireWaitlistOffers, offerFreedSlot, resolveWaitlistClaim, WAITLIST_CLAIM_MINUTES } from "./waitlist";
+import { setMailer, type MailMessage } from "./mailer";
+import { processOutbox } from "./outbox";
+import { storage } from "./storage";
+import { pool } from "./db";
+
+const BASE_URL = "http://localhost:5000";
+const client: StatusChangeActor = { actorType: "client", actorId: null, reason: null };
+
+// 2031-04-14 is a Monday. Mondays offer 10:00 in both modes and 14:00 online only.
+const NOW = new Date("2031-04-14T08:00:00");
+
+const sent: MailMessage[] = [];
+
+// Waits for the offer email to the address and returns the claim token in its link
+async function claimTokenSentTo(email: string): Promise<string> {
+  let token = "";
+  await vi.waitFor(async () => {
+    await processOutbox();
+    const offer = sent.find(message => message.to === email);
+    expect(offer).toBeDefined();
+    token = decodeURIComponent(offer!.text.match(/\/booking\?claim=(\S+)/)![1]);
+  });
+  return token;
+}
+
+let entryCount = 0;
+
+async function joinWaitlist(
+  startDate: string,
+  overrides: Partial<InsertWaitlistEntry> = {}
+): Promise<WaitlistEntry> {
+  entryCount++;
+  return storage.createWaitlistEntry({
+    name: `候补${entryCount}`,
+    contactEmail: `waitlist-${entryCount}@example.test`,
+    consultationType: "regular",
+    consultationMode: "online",
+    startDate,
+    endDate: startDate,
+    ...overrides,
+  });
+}
+
+// A booking in the slot, cancelled so the slot is free again
+async function cancelledBooking(date: string, time: string): Promise<Appointment> {
+  const appointment = await storage.createAppointment(booking(date, time), client);
+  return (await storage.updateAppointmentStatus(appointment.id, "cancelled", client))!;
+}
+
+async function statusOf(entry: WaitlistEntry) {
+  return (await storage.getWaitlistEntry(entry.id))!.status;
+}
+
+beforeAll(async () => {
+  await weeklySlots("2031-04-01", "2031-04-30", [
+    { dayOfWeek: 1, timeSlot: "10:00" },
+    { dayOfWeek: 1, timeSlot: "14:00", isOfflineAvailable: false },
+  ]);
+  setMailer({ async send(message) { sent.push(message); } });
+  process.env.APP_BASE_URL = BASE_URL;
+});
+
+beforeEach(() => {
+  vi.useFakeTimers({ now: NOW, toFake: ["Date"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+afterAll(async () => {
+  delete process.env.APP_BASE_URL;
+  await pool.end();
+});
+
+describe("offerFreedSlot", () => {
+  it("holds the slot for the oldest entry it suits and emails a claim link", async () => {
+    const offline = await joinWaitlist("2031-04-21", { consultationMode: "offline" });
+    const first = await joinWaitlist("2031-04-21");
+    const later = await joinWaitlist("2031-04-20", { endDate: "2031-04-26" });
+    const freed = await cancelledBooking("2031-04-21", "14:00");
+
+    await offerFreedSlot(freed, undefined);
+    expect(await statusOf(first)).toBe("waiting");
+
+    await offerFreedSlot(freed, BASE_URL);
+
+    const offered = (await storage.getWaitlistEntry(first.id))!;
+    expect(offered).toMatchObject({ status: "offered", offeredDate: "2031-04-21", offeredTime: "14:00:00" });
+    expect(offered.offerExpiresAt).toEqual(new Date(NOW.getTime() + WAITLIST_CLAIM_MINUTES * 60 * 1000));
+    // The 14:00 slot is online only
+    expect(await statusOf(offline)).toBe("waiting");
+    expect(await statusOf(later)).toBe("waiting");
+
+    const claim = await resolveWaitlistClaim(await claimTokenSentTo(first.contactEmail));
+    expect(claim?.id).toBe(first.id);
+    // The held slot is closed to everyone else
+    await expect(storage.createAppointment(booking("2031-04-21", "14:00"), client)).rejects.toThrow();
+  });
+
+  it("keeps the offer no longer than the start of the session", async () => {
+    const entry = await joinWaitlist("2031-04-14");
+
+    await offerFreedSlot(await cancelledBooking("2031-04-14", "10:00"), BASE_URL);
+
+    expect((await storage.getWaitlistEntry(entry.id))!.offerExpiresAt).toEqual(getSessionStart("2031-04-14", "10:00"));
+  });
+});
+
+describe("claiming an offer", () => {
+  it("books the held slot and then stops accepting the link", async () => {
+    const entry = await joinWaitlist("2031-04-28");
+    await offerFreedSlot(await cancelledBooking("2031-04-28", "14:00"), BASE_URL);
+    const token = await claimTokenSentTo(entry.contactEmail);
+    const offered = (await resolveWaitlistClaim(token))!;
+
+    await storage.createAppointment(booking("2031-04-28", "14:00"), client, offered.holdId!);
+    expect(await storage.claimWaitlistOffer(offered.holdId!)).toMatchObject({ id: entry.id, status: "claimed" });
+
+    expect(await resolveWaitlistClaim(token)).toBeNull();
+  });
+
+  it("rejects a link that was tampered with", async () => {
+    const entry = await joinWaitlist("2031-04-28");
+    await offerFreedSlot(await cancelledBooking("2031-04-28", "10:00"), BASE_URL);
+    const token = await claimTokenSentTo(entry.contactEmail);
+
+    expect(await resolveWaitlistClaim(`${token.slice(0, -2)}xx`)).toBeNull();
+  });
+});
+
+describe("expireWaitlistOffers", () => {
+  it("ends an unclaimed offer and passes the slot to the next entry", async () => {
+    const first = await joinWaitlist("2031-04-14");
+    const next = await joinWaitlist("2031-04-14");
+    await offerFreedSlot(await cancelledBooking("2031-04-14", "14:00"), BASE_URL);
+    const firstToken = await claimTokenSentTo(first.contactEmail);
+
+    vi.setSystemTime(NOW.getTime() + (WAITLIST_CLAIM_MINUTES + 1) * 60 * 1000);
+    await expireWaitlistOffers();
+
+    expect(await statusOf(first)).toBe("expired");
+    expect(await resolveWaitlistClaim(firstToken)).toBeNull();
+    expect(await storage.getWaitlistEntry(next.id)).toMatchObject({ status: "offered", offeredDate: "2031-04-14", offeredTime: "14:00:00" });
+    await claimTokenSentTo(next.contactEmail);
+  });
+
+  it("ends entries whose dates have passed", async () => {
+    const past = await joinWaitlist("2031-04-10", { endDate: "2031-04-13" });
+
+    await expireWaitlistOffers();
+
+    expect(await statusOf(past)).toBe("expired");
+  });
+});
@@ -0,0 +1,171 @@
+import { format, parseISO } from "date-fns";
+import { zhCN } from "date-fns/locale";
+import type { Appointment, SlotHold, WaitlistEntry } from "@shared/schema";
+import { checkBookingWindow, getSessionStart } from "@shared/bookingPolicy";
+import { storage, TimeSlotConflictError } from "./storage";
+import { getDaySchedule } from "./schedule";
+import { enqueueEmail } from "./outbox";
+import { getBookingPolicy, getSessionDurations } from "./settings";
+import { checkWelfareQuota } from "./welfareQuota";
+import { createToken, fingerprint, verifyToken } from "./tokens";
+import type { MailMessage } from "./mailer";
+
+// Waitlist for full days. When a booking is cancelled, its slot is offered to the earliest waiting
+// entry it suits: a slot hold keeps it for that client and they are emailed a claim link. An offer
+// that is not claimed in time expires, ending that entry, and a background job passes the slot on to
+// the next one. Re-offering from the background job needs APP_BASE_URL for the links.
+
+export const WAITLIST_CLAIM_MINUTES = 120;
+
+const CHECK_INTERVAL_MS = 60 * 1000;
+
+interface FreedSlot {
+  date: string;
+  time: string;
+}
+
+function describeWaitlistRange(entry: WaitlistEntry): string {
+  const start = format(parseISO(entry.startDate), "M月d日", { locale: zhCN });
+  return entry.startDate === entry.endDate
+    ? start
+    : `${start}至${format(parseISO(entry.endDate), "M月d日", { locale: zhCN })}`;
+}
+
+function buildOfferEmail(entry: WaitlistEntry, baseUrl: string): MailMessage {
+  const token = createToken("waitlist-claim", entry.id, entry.offerExpiresAt!.getTime() - Date.now(), {
+    fp: fingerprint(entry.holdId!),
+  });
+  const link = `${baseUrl}/booking?claim=${encodeURIComponent(token)}`;
+  const start = getSessionStart(entry.offeredDate!, entry.offeredTime!);
+  const kind = `${entry.consultationType === "regular" ? "一般咨询" : "公益低价咨询"}（${entry.consultationMode === "online" ? "线上" : "线下"}）`;
+
+  return {
+    to: entry.contactEmail,
+    subject: `候补通知：${format(start, "M月d日 HH:mm")}有空位`,
+    text: [
+      `${entry.name}，您好：`,
+      `您在${describeWaitlistRange(entry)}候补的${kind}有空位了：${format(start, "yyyy年M月d日 EEEE HH:mm", { locale: zhCN })}。`,
+      `我们已为您保留该时段至 ${format(entry.offerExpiresAt!, "M月d日 HH:mm")}，请在此之前通过以下链接完成预约：\n${link}`,
+      "逾期未预约，该时段将让给下一位候补的来访者，您的候补也将结束；如仍需要，可重新登记候补。",
+      "秩序心理",
+    ].join("\n\n"),
+  };
+}
+
+// Offers the slot to the first waiting entry it suits. Entries are skipped when the slot does not
+// offer their mode, is too short for their consultation type, or is outside the welfare quota.
+async function offerSlot(slot: FreedSlot, baseUrl: string): Promise<WaitlistEntry | undefined> {
+  const entries = await storage.getWaitingEntriesFor(slot.date);
+  if (entries.length === 0) return undefined;
+
+  const time = slot.time.substring(0, 5);
+  if (checkBookingWindow(await getBookingPolicy(), slot.date, time)) return undefined;
+  const setting = (await getDaySchedule(slot.date)).slots.find(s => s.timeSlot === time);
+  if (!setting) return undefined;
+
+  const durations = await getSessionDurations();
+  const claimDeadline = new Date(Date.now() + WAITLIST_CLAIM_MINUTES * 60 * 1000);
+  const sessionStart = getSessionStart(slot.date, time);
+  const expiresAt = sessionStart < claimDeadline ? sessionStart : claimDeadline;
+
+  for (const entry of entries) {
+    const offersMode = entry.consultationMode === "online" ? setting.isOnlineAvailable : setting.isOfflineAvailable;
+    const durationMinutes = durations[entry.consultationType];
+    if (!offersMode || durationMinutes > setting.durationMinutes) continue;
+    if (entry.consultationType === "welfare" && (await checkWelfareQuota(slot.date, time))) continue;
+
+    let hold: SlotHold;
+    try {
+      hold = await storage.createSlotHold({
+        appointmentDate: slot.date,
+        appointmentTime: time,
+        consultationType: entry.consultationType,
+        consultationMode: entry.consultationMode,
+        expiresAt,
+        durationMinutes,
+        bufferMinutes: setting.bufferMinutes,
+      });
+    } catch (error) {
+      // Taken again in the meantime, at least for a session of this length
+      if (error instanceof TimeSlotConflictError) continue;
+      throw error;
+    }
+
+    const offered = await storage.markWaitlistOffered(entry.id, {
+      offeredDate: slot.date,
+      offeredTime: time,
+      holdId: hold.id,
+      offerExpiresAt: expiresAt,
+    });
+    if (!offered) {
+      // The entry got another offer or was cancelled concurrently
+      await storage.deleteSlotHold(hold.id);
+      continue;
+    }
+    await enqueueEmail(buildOfferEmail(offered, baseUrl));
+    return offered;
+  }
+  return undefined;
+}
+
+// Called after a booking is cancelled. Never throws, so a waitlist problem cannot fail the cancellation.
+// Nothing is offered without a base URL, since the offer is only usable through its claim link.
+export async function offerFreedSlot(appointment: Appointment, baseUrl: string | undefined): Promise<void> {
+  if (!baseUrl) return;
+  try {
+    await offerSlot({ date: appointment.appointmentDate, time: appointment.appointmentTime }, baseUrl);
+  } catch (error) {
+    console.error(`Error offering the slot of appointment ${appointment.id} to the waitlist:`, error);
+  }
+}
+
+// Staff removed an entry; an outstanding offer is withdrawn and the slot passed on
+export async function withdrawWaitlistOffer(entry: WaitlistEntry, baseUrl: string | undefined): Promise<void> {
+  if (entry.status !== "offered" || !entry.holdId || !entry.offeredDate || !entry.offeredTime) return;
+  try {
+    await storage.deleteSlotHold(entry.holdId);
+    if (baseUrl) {
+      await offerSlot({ date: entry.offeredDate, time: entry.offeredTime }, baseUrl);
+    }
+  } catch (error) {
+    console.error(`Error passing on the waitlist offer of entry ${entry.id}:`, error);
+  }
+}
+
+// The entry behind a claim link, if the link is genuine and its offer still stands
+export async function resolveWaitlistClaim(token: string): Promise<WaitlistEntry | null> {
+  const payload = verifyToken(token, "waitlist-claim");
+  if (!payload) return null;
+  const entry = await storage.getWaitlistEntry(payload.sub);
+  if (!entry || entry.status !== "offered" || !entry.holdId || payload.fp !== fingerprint(entry.holdId)) {
+    return null;
+  }
+  return entry.offerExpiresAt && entry.offerExpiresAt > new Date() ? entry : null;
+}
+
+let running = false;
+
+export async function expireWaitlistOffers(now: Date = new Date()): Promise<void> {
+  if (running) return;
+  running = true;
+  try {
+    const expired = await storage.expireWaitlistEntries(now, format(now, "yyyy-MM-dd"));
+    const baseUrl = process.env.APP_BASE_URL;
+    if (!baseUrl) return;
+
+    for (const entry of expired) {
+      if (entry.offeredDate && entry.offeredTime && entry.offerExpiresAt && entry.offerExpiresAt <= now) {
+        await offerSlot({ date: entry.offeredDate, time: entry.offeredTime }, baseUrl);
+      }
+    }
+  } catch (error) {
+    console.error("Error expiring waitlist offers:", error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startWaitlistScheduler(): void {
+  setInterval(() => void expireWaitlistOffers(), CHECK_INTERVAL_MS).unref();
+  void expireWaitlistOffers();
+}
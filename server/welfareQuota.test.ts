@@ -0,0 +1,116 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { defaultWelfareQuota, type StatusChangeActor, type WelfareQuota } from "@shared/schema";
+import { booking } from "../test/fixtures";
+import {
+  checkWelfareQuota,
+  getWelfareQuotaStatus,
+  hasWelfareCapacity,
+  isDesignatedWelfareSlot,
+  loadWelfareCapacity,
+} from "./welfareQuota";
+import { saveWelfareQuota } from "./settings";
+import { storage } from "./storage";
+import { pool } from "./db";
+
+const client: StatusChangeActor = { actorType: "client", actorId: null, reason: null };
+
+// Welfare sessions may be booked on Mondays, Tuesdays and Wednesdays at 10:00
+const quota: WelfareQuota = {
+  weeklyLimit: 2,
+  monthlyLimit: 3,
+  designatedSlots: [
+    { dayOfWeek: 1, time: "10:00" },
+    { dayOfWeek: 2, time: "10:00" },
+    { dayOfWeek: 3, time: "10:00" },
+  ],
+};
+
+function welfare(date: string) {
+  return storage.createAppointment(booking(date, "10:00", { consultationType: "welfare" }), client);
+}
+
+// 2031-06-16 and 2031-06-30 are Mondays; the week of 2031-06-30 runs into July. June ends up full.
+beforeAll(async () => {
+  await saveWelfareQuota(quota);
+  await welfare("2031-06-16");
+  await welfare("2031-06-17");
+  const cancelled = await welfare("2031-06-18");
+  await storage.updateAppointmentStatus(cancelled.id, "cancelled", client);
+  await storage.createAppointment(booking("2031-06-19", "10:00"), client);
+  await welfare("2031-06-30");
+});
+
+afterAll(async () => {
+  await saveWelfareQuota(defaultWelfareQuota);
+  await pool.end();
+});
+
+describe("getWelfareQuotaStatus", () => {
+  it("counts welfare sessions that are not cancelled in the week and month of the date", async () => {
+    const status = getWelfareQuotaStatus(await loadWelfareCapacity("2031-06-18", "2031-06-18"), "2031-06-18");
+
+    expect(status).toEqual({
+      weekly: { limit: 2, remaining: 0, from: "2031-06-16", to: "2031-06-22" },
+      monthly: { limit: 3, remaining: 0, from: "2031-06-01", to: "2031-06-30" },
+      designatedSlots: quota.designatedSlots,
+    });
+  });
+
+  it("counts the whole of a week that crosses into the next month", async () => {
+    const capacity = await loadWelfareCapacity("2031-07-01", "2031-07-01");
+
+    expect(getWelfareQuotaStatus(capacity, "2031-07-01")).toMatchObject({
+      weekly: { remaining: 1, from: "2031-06-30", to: "2031-07-06" },
+      monthly: { remaining: 3 },
+    });
+    expect(hasWelfareCapacity(capacity, "2031-07-01")).toBe(true);
+  });
+
+  it("treats a limit of 0 as unlimited", () => {
+    const capacity = { quota: defaultWelfareQuota, booked: new Map([["2031-06-16", 9]]) };
+
+    expect(getWelfareQuotaStatus(capacity, "2031-06-16")).toEqual({ weekly: null, monthly: null, designatedSlots: [] });
+    expect(hasWelfareCapacity(capacity, "2031-06-16")).toBe(true);
+  });
+});
+
+describe("hasWelfareCapacity", () => {
+  it("needs room in both the week and the month", async () => {
+    const capacity = await loadWelfareCapacity("2031-06-16", "2031-07-06");
+
+    // The week of 2031-06-23 is empty but June is full
+    expect(hasWelfareCapacity(capacity, "2031-06-24")).toBe(false);
+    expect(hasWelfareCapacity(capacity, "2031-06-18")).toBe(false);
+    expect(hasWelfareCapacity(capacity, "2031-07-02")).toBe(true);
+  });
+});
+
+describe("isDesignatedWelfareSlot", () => {
+  it("allows only the designated weekday and time", () => {
+    expect(isDesignatedWelfareSlot(quota, "2031-06-16", "10:00:00")).toBe(true);
+    expect(isDesignatedWelfareSlot(quota, "2031-06-16", "14:00")).toBe(false);
+    expect(isDesignatedWelfareSlot(quota, "2031-06-19", "10:00")).toBe(false);
+  });
+
+  it("allows any slot when none are designated", () => {
+    expect(isDesignatedWelfareSlot(defaultWelfareQuota, "2031-06-19", "14:00")).toBe(true);
+  });
+});
+
+describe("checkWelfareQuota", () => {
+  it("refuses slots that are not designated before looking at the counts", async () => {
+    expect(await checkWelfareQuota("2031-07-03", "10:00")).toContain("该时段不提供");
+  });
+
+  it("refuses a full week or month", async () => {
+    expect(await checkWelfareQuota("2031-06-18", "10:00")).toContain("本周");
+    expect(await checkWelfareQuota("2031-06-24", "10:00")).toContain("本月");
+    expect(await checkWelfareQuota("2031-07-01", "10:00")).toBeNull();
+  });
+
+  it("does not count a rescheduled session against itself", async () => {
+    expect(await checkWelfareQuota("2031-06-18", "10:00", { appointmentDate: "2031-06-16", status: "confirmed" })).toBeNull();
+    // A cancelled session was not counted in the first place
+    expect(await checkWelfareQuota("2031-06-18", "10:00", { appointmentDate: "2031-06-18", status: "cancelled" })).toContain("本周");
+  });
+});
@@ -0,0 +1,100 @@
+import { endOfMonth, endOfWeek, format, parseISO, startOfMonth, startOfWeek } from "date-fns";
+import type { Appointment, WelfareQuota, WelfareQuotaStatus } from "@shared/schema";
+import { storage } from "./storage";
+import { getWelfareQuota } from "./settings";
+
+// Weekly and monthly caps on welfare sessions, and the slots they may be booked in. Availability
+// hides welfare slots once a period is full; bookings are checked again when they are made.
+
+interface Period {
+  from: string;
+  to: string;
+}
+
+function weekOf(date: string): Period {
+  const day = parseISO(date);
+  return {
+    from: format(startOfWeek(day, { weekStartsOn: 1 }), "yyyy-MM-dd"),
+    to: format(endOfWeek(day, { weekStartsOn: 1 }), "yyyy-MM-dd"),
+  };
+}
+
+function monthOf(date: string): Period {
+  const day = parseISO(date);
+  return { from: format(startOfMonth(day), "yyyy-MM-dd"), to: format(endOfMonth(day), "yyyy-MM-dd") };
+}
+
+export interface WelfareCapacity {
+  quota: WelfareQuota;
+  booked: Map<string, number>; // sessions per date, over every week and month the loaded range touches
+}
+
+// Loads what is needed to evaluate the quota for any date from fromDate through toDate
+export async function loadWelfareCapacity(fromDate: string, toDate: string): Promise<WelfareCapacity> {
+  const quota = await getWelfareQuota();
+  const booked = new Map<string, number>();
+  if (quota.weeklyLimit > 0 || quota.monthlyLimit > 0) {
+    const [startWeek, startMonth, endWeek, endMonth] = [weekOf(fromDate), monthOf(fromDate), weekOf(toDate), monthOf(toDate)];
+    const from = startWeek.from < startMonth.from ? startWeek.from : startMonth.from;
+    const to = endWeek.to > endMonth.to ? endWeek.to : endMonth.to;
+    for (const { date, count } of await storage.countWelfareSessionsByDate(from, to)) {
+      booked.set(date, count);
+    }
+  }
+  return { quota, booked };
+}
+
+function countBooked(capacity: WelfareCapacity, period: Period): number {
+  let total = 0;
+  capacity.booked.forEach((count, date) => {
+    if (period.from <= date && date <= period.to) total += count;
+  });
+  return total;
+}
+
+export function getWelfareQuotaStatus(capacity: WelfareCapacity, date: string): WelfareQuotaStatus {
+  const describe = (limit: number, period: Period) =>
+    limit > 0 ? { limit, remaining: Math.max(0, limit - countBooked(capacity, period)), ...period } : null;
+  return {
+    weekly: describe(capacity.quota.weeklyLimit, weekOf(date)),
+    monthly: describe(capacity.quota.monthlyLimit, monthOf(date)),
+    designatedSlots: capacity.quota.designatedSlots,
+  };
+}
+
+export function hasWelfareCapacity(capacity: WelfareCapacity, date: string): boolean {
+  const status = getWelfareQuotaStatus(capacity, date);
+  return (status.weekly?.remaining ?? 1) > 0 && (status.monthly?.remaining ?? 1) > 0;
+}
+
+export function isDesignatedWelfareSlot(quota: WelfareQuota, date: string, time: string): boolean {
+  if (quota.designatedSlots.length === 0) return true;
+  const dayOfWeek = parseISO(date).getDay();
+  return quota.designatedSlots.some(slot => slot.dayOfWeek === dayOfWeek && slot.time === time.substring(0, 5));
+}
+
+// Why a client cannot book a welfare session at this date and time, or null if the quota allows it.
+// `moving` is the client's own welfare appointment when rescheduling; it does not count against itself.
+export async function checkWelfareQuota(
+  date: string,
+  time: string,
+  moving?: Pick<Appointment, "appointmentDate" | "status">
+): Promise<string | null> {
+  const capacity = await loadWelfareCapacity(date, date);
+  if (!isDesignatedWelfareSlot(capacity.quota, date, time)) {
+    return "该时段不提供公益低价咨询，请选择其他时间";
+  }
+
+  const ownCount = moving && moving.status !== "cancelled" ? capacity.booked.get(moving.appointmentDate) : undefined;
+  if (moving && ownCount) {
+    capacity.booked.set(moving.appointmentDate, ownCount - 1);
+  }
+  const status = getWelfareQuotaStatus(capacity, date);
+  if (status.weekly?.remaining === 0) {
+    return "本周公益低价咨询名额已满，请选择其他周的时间";
+  }
+  if (status.monthly?.remaining === 0) {
+    return "本月公益低价咨询名额已满，请选择其他月份的时间";
+  }
+  return null;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { appointmentStatusTransitions, canTransitionStatus, describeInvalidTransition, type AppointmentStatus } from "./appointmentStatus";
+
+const statuses = Object.keys(appointmentStatusTransitions) as AppointmentStatus[];
+
+describe("canTransitionStatus", () => {
+  it("follows a booking from request to the end of the session", () => {
+    expect(canTransitionStatus("pending", "pending_payment")).toBe(true);
+    expect(canTransitionStatus("pending_payment", "confirmed")).toBe(true);
+    expect(canTransitionStatus("confirmed", "completed")).toBe(true);
+    expect(canTransitionStatus("confirmed", "no_show")).toBe(true);
+  });
+
+  it("does not skip confirmation or move back from a held session", () => {
+    expect(canTransitionStatus("pending", "completed")).toBe(false);
+    expect(canTransitionStatus("pending", "no_show")).toBe(false);
+    expect(canTransitionStatus("confirmed", "pending")).toBe(false);
+  });
+
+  it("lets every open booking be cancelled and a cancellation be undone only to pending", () => {
+    expect(statuses.filter(status => canTransitionStatus(status, "cancelled"))).toEqual(["pending", "pending_payment", "confirmed"]);
+    expect(appointmentStatusTransitions.cancelled).toEqual(["pending"]);
+  });
+
+  it("keeps completed final and lets a no-show be corrected to completed only", () => {
+    expect(statuses.filter(status => canTransitionStatus("completed", status))).toEqual([]);
+    expect(statuses.filter(status => canTransitionStatus("no_show", status))).toEqual(["completed"]);
+  });
+
+  it("never lists a status as a transition to itself", () => {
+    expect(statuses.filter(status => canTransitionStatus(status, status))).toEqual([]);
+  });
+});
+
+describe("describeInvalidTransition", () => {
+  it("names both statuses as the admin UI shows them", () => {
+    expect(describeInvalidTransition("completed", "cancelled")).toBe("预约状态不能从“已结束”改为“已取消”");
+  });
+});
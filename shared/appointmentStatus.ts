@@ -0,0 +1,35 @@
+import type { Appointment } from "./schema";
+
+// Appointment status transitions shared by the API (enforcement) and the admin UI (offered actions).
+
+export type AppointmentStatus = Appointment["status"];
+
+export const appointmentStatusLabels: Record<AppointmentStatus, string> = {
+  pending: "待确认",
+  pending_payment: "待付款",
+  confirmed: "待咨询",
+  completed: "已结束",
+  cancelled: "已取消",
+  no_show: "未到场",
+};
+
+// Statuses each status may move to; completed is final
+export const appointmentStatusTransitions: Record<AppointmentStatus, readonly AppointmentStatus[]> = {
+  pending: ["pending_payment", "confirmed", "cancelled"],
+  // Paid, but the booking still waits for the counselor (e.g. a welfare proof under review)
+  pending_payment: ["confirmed", "pending", "cancelled"],
+  confirmed: ["completed", "cancelled", "no_show"],
+  // A cancellation made by mistake can be undone while the slot is still free
+  cancelled: ["pending"],
+  completed: [],
+  // A client marked absent by mistake did attend
+  no_show: ["completed"],
+};
+
+export function canTransitionStatus(from: AppointmentStatus, to: AppointmentStatus): boolean {
+  return appointmentStatusTransitions[from].includes(to);
+}
+
+export function describeInvalidTransition(from: AppointmentStatus, to: AppointmentStatus): string {
+  return `预约状态不能从“${appointmentStatusLabels[from]}”改为“${appointmentStatusLabels[to]}”`;
+}
@@ -0,0 +1,51 @@
+import { addDays, addHours, parseISO, startOfDay, subDays } from "date-fns";
+import type { BookingPolicy } from "./schema";
+
+// Booking policy rules shared by the API (enforcement) and the client (calendar limits, deadlines).
+// All times are wall-clock times at the clinic.
+
+export function getSessionStart(date: string, time: string): Date {
+  return parseISO(`${date}T${time.substring(0, 5)}:00`);
+}
+
+// Last calendar day a client may book
+export function getLatestBookableDate(policy: BookingPolicy, now: Date = new Date()): Date {
+  return addDays(startOfDay(now), policy.bookingHorizonDays);
+}
+
+// Returns why a client may not book a session at this date/time, or null if the policy allows it
+export function checkBookingWindow(
+  policy: BookingPolicy,
+  date: string,
+  time: string,
+  now: Date = new Date()
+): string | null {
+  const start = getSessionStart(date, time);
+  if (start < addHours(now, policy.minNoticeHours)) {
+    return policy.minNoticeHours > 0
+      ? `请至少提前${policy.minNoticeHours}小时预约`
+      : "该时间已过，请选择其他时间";
+  }
+  if (startOfDay(start) > getLatestBookableDate(policy, now)) {
+    return `仅可预约未来${policy.bookingHorizonDays}天内的时间`;
+  }
+  return null;
+}
+
+// Last moment a client may reschedule or cancel a session on this date
+export function getChangeDeadline(policy: BookingPolicy, appointmentDate: string): Date {
+  const [hours, minutes] = policy.changeCutoffTime.split(":").map(Number);
+  const deadline = subDays(parseISO(appointmentDate), policy.changeCutoffDaysBefore);
+  deadline.setHours(hours, minutes, 0, 0);
+  return deadline;
+}
+
+// e.g. "咨询前一天22:00前"
+export function describeChangeCutoff(policy: BookingPolicy): string {
+  const day = policy.changeCutoffDaysBefore === 0
+    ? "咨询当天"
+    : policy.changeCutoffDaysBefore === 1
+      ? "咨询前一天"
+      : `咨询前${policy.changeCutoffDaysBefore}天`;
+  return `${day}${policy.changeCutoffTime}前`;
+}
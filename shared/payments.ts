@@ -0,0 +1,14 @@
+import type { Appointment, PaymentSettings } from "./schema";
+
+// Fee rules shared by the API (charging) and the client (showing prices). Amounts are in fen.
+
+export function getAppointmentFee(
+  settings: PaymentSettings,
+  session: Pick<Appointment, "consultationType" | "consultationMode">
+): number {
+  return settings.fees[session.consultationType][session.consultationMode];
+}
+
+export function formatAmount(amount: number): string {
+  return `¥${(amount / 100).toFixed(2)}`;
+}
@@ -0,0 +1,50 @@
+import type { Appointment, User } from "./schema";
+
+export type Permission =
+  | "appointments:read" // view appointments, without clinical intake fields
+  | "appointments:clinical" // view clinical intake fields
+  | "appointments:manage" // change status, reschedule or cancel on the client's behalf
+  | "welfare:review" // view welfare proof documents and approve or reject them
+  | "payments:reconcile" // view payment screenshots and approve or reject manual payments
+  | "schedule:manage" // weekly schedule and blocked dates
+  | "messages:manage" // read and reply to client conversations
+  | "announcements:manage";
+
+export const rolePermissions: Record<User["role"], Permission[]> = {
+  admin: [
+    "appointments:read",
+    "appointments:clinical",
+    "appointments:manage",
+    "welfare:review",
+    "payments:reconcile",
+    "schedule:manage",
+    "messages:manage",
+    "announcements:manage",
+  ],
+  // Front-desk assistant: scheduling only, never clinical data or counselor messages
+  assistant: ["appointments:read", "appointments:manage", "payments:reconcile", "schedule:manage"],
+  client: [],
+};
+
+// Roles that may sign in to the admin area
+export function isStaffRole(role: User["role"]): boolean {
+  return rolePermissions[role].length > 0;
+}
+
+// Intake fields only visible with "appointments:clinical"
+export const clinicalAppointmentFields = [
+  "hasMentalDiagnosis",
+  "mentalDiagnosisDetails",
+  "currentMedication",
+  "previousCounselingDetails",
+  "consultationTopics",
+  "situationDescription",
+] as const satisfies readonly (keyof Appointment)[];
+
+// Shape of GET /api/admin/me
+export interface AdminSessionInfo {
+  isAdmin: boolean; // signed in to the admin area, whatever the role
+  role: User["role"] | null;
+  permissions: Permission[];
+  user: { id: string; username: string | null; name: string | null; email: string | null } | null;
+}
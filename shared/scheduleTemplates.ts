@@ -0,0 +1,22 @@
+import type { ScheduleTemplate } from "./schema";
+
+// Which seasonal schedule template applies on a date. Shared by the API (availability) and the admin
+// editors, so both show the same weekly slots for a date.
+
+export type TemplateRange = Pick<ScheduleTemplate, "effectiveFrom"> & Partial<Pick<ScheduleTemplate, "effectiveTo">>;
+
+export function templateCoversDate(template: TemplateRange, date: string): boolean {
+  return template.effectiveFrom <= date && (!template.effectiveTo || date <= template.effectiveTo);
+}
+
+// The template in effect on the date, or undefined for the regular schedule. Ranges are kept from
+// overlapping; should they overlap anyway, the one that started last wins.
+export function findActiveTemplate<T extends TemplateRange>(templates: T[], date: string): T | undefined {
+  return templates
+    .filter(template => templateCoversDate(template, date))
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0];
+}
+
+export function templateRangesOverlap(a: TemplateRange, b: TemplateRange): boolean {
+  return (!a.effectiveTo || b.effectiveFrom <= a.effectiveTo) && (!b.effectiveTo || a.effectiveFrom <= b.effectiveTo);
+}
@@ -1,24 +1,42 @@
 import { sql } from "drizzle-orm";
 import { relations } from "drizzle-orm";
-import { pgTable, text, varchar, integer, boolean, timestamp, date, time, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, boolean, timestamp, date, time, jsonb, pgEnum, uniqueIndex, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // Enums
-export const userRoleEnum = pgEnum("user_role", ["admin", "client"]);
+export const userRoleEnum = pgEnum("user_role", ["admin", "assistant", "client"]);
 export const consultationTypeEnum = pgEnum("consultation_type", ["regular", "welfare"]);
 export const consultationModeEnum = pgEnum("consultation_mode", ["online", "offline"]);
-export const appointmentStatusEnum = pgEnum("appointment_status", ["pending", "pending_payment", "confirmed", "cancelled", "completed"]);
+export const appointmentStatusEnum = pgEnum("appointment_status", ["pending", "pending_payment", "confirmed", "cancelled", "completed", "no_show"]);
 export const genderEnum = pgEnum("gender", ["male", "female", "other"]);
+export const emailOutboxStatusEnum = pgEnum("email_outbox_status", ["pending", "sent", "failed"]);
+export const statusActorEnum = pgEnum("status_actor", ["staff", "client", "system"]);
+export const welfareProofStatusEnum = pgEnum("welfare_proof_status", ["pending", "approved", "rejected"]);
+export const paymentStatusEnum = pgEnum("payment_status", ["pending", "succeeded", "failed", "expired"]);
+export const waitlistStatusEnum = pgEnum("waitlist_status", ["waiting", "offered", "claimed", "expired", "cancelled"]);
 
-// Users table (supports both admin and visitor accounts)
+// Appointment statuses that occupy their time slot
+export const activeAppointmentStatuses = ["pending", "pending_payment", "confirmed"] as const;
+
+// Users table (supports staff and visitor accounts)
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  username: text("username").unique(), // For admin login
+  username: text("username").unique(), // For admin/assistant login
   email: text("email").unique(), // For visitor login
   password: text("password").notNull(),
   name: text("name"), // Visitor display name
   role: userRoleEnum("role").notNull().default("client"),
+  emailVerifiedAt: timestamp("email_verified_at"), // past appointments/conversations are linked only once verified
+
+  // TOTP two-factor authentication (staff accounts)
+  totpSecret: text("totp_secret"), // base32; set but not enabled while enrollment is pending
+  totpEnabled: boolean("totp_enabled").notNull().default(false),
+  totpLastUsedStep: integer("totp_last_used_step"), // rejects replay of an already used code
+  totpRecoveryCodes: text("totp_recovery_codes").array(), // sha256 hashes of unused recovery codes
+  totpFailedAttempts: integer("totp_failed_attempts").notNull().default(0), // wrong codes since the last lockout or success
+  totpLockedUntil: timestamp("totp_locked_until"), // second step refused until then
+
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -35,6 +53,9 @@ export const appointments = pgTable("appointments", {
   consultationType: consultationTypeEnum("consultation_type").notNull(),
   consultationMode: consultationModeEnum("consultation_mode").notNull(),
   status: appointmentStatusEnum("status").notNull().default("pending"),
+  // Set by the server from the session length and the slot's buffer when booked
+  durationMinutes: integer("duration_minutes").notNull().default(50),
+  bufferMinutes: integer("buffer_minutes").notNull().default(10),
 
   // Personal info
   name: text("name").notNull(),
@@ -63,10 +84,27 @@ export const appointments = pgTable("appointments", {
   dataCollectionConsent: boolean("data_collection_consent").notNull().default(false),
   confidentialityConsent: boolean("confidentiality_consent").notNull().default(false),
 
+  // Welfare proof document (private object path) and the counselor's review of it;
+  // a welfare booking cannot be confirmed until the proof is approved
+  welfareProofFile: text("welfare_proof_file"),
+  welfareProofStatus: welfareProofStatusEnum("welfare_proof_status"),
+  welfareProofReviewedBy: varchar("welfare_proof_reviewed_by").references(() => users.id),
+  welfareProofReviewedAt: timestamp("welfare_proof_reviewed_at"),
+  welfareProofReviewNote: text("welfare_proof_review_note"),
+
+  // Set when the appointment enters pending_payment; unpaid bookings are released after it
+  paymentDueAt: timestamp("payment_due_at"),
+
   // Metadata
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  // At most one active appointment per start time - the database-level backstop against double-booking;
+  // overlapping sessions are rejected by the range check in storage
+  uniqueIndex("appointments_active_slot_idx")
+    .on(table.appointmentDate, table.appointmentTime)
+    .where(sql`${table.status} in ('pending', 'pending_payment', 'confirmed')`),
+]);
 
 // Announcements table
 export const announcements = pgTable("announcements", {
@@ -106,10 +144,25 @@ export const conversations = pgTable("conversations", {
 });
 
 // Schedule settings table (admin configurable time slots)
+// Seasonal variants of the weekly schedule (e.g. summer hours). A template applies from effectiveFrom
+// through effectiveTo inclusive (open-ended when null); dates no template covers use the regular
+// schedule, i.e. the schedule_settings rows without a template.
+export const scheduleTemplates = pgTable("schedule_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  effectiveFrom: date("effective_from").notNull(),
+  effectiveTo: date("effective_to"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const scheduleSettings = pgTable("schedule_settings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  templateId: varchar("template_id").references(() => scheduleTemplates.id, { onDelete: "cascade" }), // null = regular schedule
   dayOfWeek: integer("day_of_week").notNull(), // 0-6, 0=Sunday
   timeSlot: text("time_slot").notNull(), // e.g. "10:00"
+  durationMinutes: integer("duration_minutes").notNull().default(60), // sessions must fit within the slot
+  bufferMinutes: integer("buffer_minutes").notNull().default(10), // kept free after a session before the next may start
   isOnlineAvailable: boolean("is_online_available").notNull().default(true),
   isOfflineAvailable: boolean("is_offline_available").notNull().default(true),
   isActive: boolean("is_active").notNull().default(true),
@@ -117,14 +170,163 @@ export const scheduleSettings = pgTable("schedule_settings", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Date-specific changes to the weekly schedule. A row replaces the weekly slot starting at the same
+// time on that date, or adds a slot if the weekly schedule has none; isAvailable = false removes it.
+export const scheduleOverrides = pgTable("schedule_overrides", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  date: date("date").notNull(),
+  timeSlot: text("time_slot").notNull(), // e.g. "10:00"
+  isAvailable: boolean("is_available").notNull().default(true),
+  isOnlineAvailable: boolean("is_online_available").notNull().default(true),
+  isOfflineAvailable: boolean("is_offline_available").notNull().default(true),
+  durationMinutes: integer("duration_minutes").notNull().default(60),
+  bufferMinutes: integer("buffer_minutes").notNull().default(10),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("schedule_overrides_date_slot_idx").on(table.date, table.timeSlot),
+]);
+
 // Blocked dates table (for holidays or specific days off)
+// A period runs from startDate to endDate inclusive. With startTime/endTime only that part of each day
+// is closed. Annual closures repeat on the same month/day range every year, whatever the stored year.
 export const blockedDates = pgTable("blocked_dates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  date: date("date").notNull(),
+  startDate: date("date").notNull(),
+  endDate: date("end_date"), // null for a single day
+  startTime: text("start_time"), // e.g. "14:00"; null closes the whole day
+  endTime: text("end_time"),
+  recursAnnually: boolean("recurs_annually").notNull().default(false),
   reason: text("reason"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Slot holds table (short-lived reservations while a client fills in the intake form)
+export const slotHolds = pgTable("slot_holds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentDate: date("appointment_date").notNull(),
+  appointmentTime: time("appointment_time").notNull(),
+  consultationType: consultationTypeEnum("consultation_type").notNull().default("regular"),
+  consultationMode: consultationModeEnum("consultation_mode").notNull(),
+  durationMinutes: integer("duration_minutes").notNull().default(50),
+  bufferMinutes: integer("buffer_minutes").notNull().default(10),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Clients waiting for a slot on a date, or anywhere in a range of up to a week. When a booking is
+// cancelled the freed slot is offered to the earliest matching entry: a hold is placed for it and the
+// client gets a claim link that is valid until offerExpiresAt.
+export const waitlistEntries = pgTable("waitlist_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id),
+  name: text("name").notNull(),
+  contactEmail: text("contact_email").notNull(),
+  contactPhone: text("contact_phone"),
+  consultationType: consultationTypeEnum("consultation_type").notNull(),
+  consultationMode: consultationModeEnum("consultation_mode").notNull(),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date").notNull(),
+  status: waitlistStatusEnum("status").notNull().default("waiting"),
+  // The current or last offer
+  offeredDate: date("offered_date"),
+  offeredTime: time("offered_time"),
+  holdId: varchar("hold_id"),
+  offerExpiresAt: timestamp("offer_expires_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("waitlist_entries_status_idx").on(table.status, table.createdAt),
+]);
+
+// Clinic-wide settings edited in the admin center, one JSON value per key
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Payments for appointments, one row per checkout attempt. Amounts are in fen (分).
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentId: varchar("appointment_id").notNull().references(() => appointments.id),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull().default("CNY"),
+  provider: text("provider").notNull(), // name of the PaymentProvider that handles it, "manual" or "onsite"
+  providerReference: text("provider_reference"), // the provider's checkout id, matched by webhooks
+  checkoutUrl: text("checkout_url"),
+  status: paymentStatusEnum("status").notNull().default("pending"),
+  expiresAt: timestamp("expires_at"),
+  paidAt: timestamp("paid_at"),
+
+  // Manual payments (bank transfer, QR code): the client's screenshot and its reconciliation
+  proofFile: text("proof_file"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNote: text("review_note"),
+
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("payments_provider_reference_idx").on(table.provider, table.providerReference),
+  index("payments_appointment_idx").on(table.appointmentId),
+]);
+
+// Receipts for paid or completed appointments, at most one per appointment. `number` is the
+// sequential receipt series; amount and counselor name are fixed when the receipt is first issued.
+export const receipts = pgTable("receipts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  number: integer("number").notNull().unique(), // consecutive, allocated by storage.issueReceipt
+  appointmentId: varchar("appointment_id").notNull().unique().references(() => appointments.id),
+  amount: integer("amount").notNull(), // fen
+  currency: text("currency").notNull().default("CNY"),
+  counselorName: text("counselor_name").notNull(),
+  issuedAt: timestamp("issued_at").defaultNow().notNull(),
+});
+
+// Every status an appointment has been in, with who moved it there and why
+export const appointmentStatusHistory = pgTable("appointment_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentId: varchar("appointment_id").notNull().references(() => appointments.id, { onDelete: "cascade" }),
+  fromStatus: appointmentStatusEnum("from_status"), // null for the booking itself
+  toStatus: appointmentStatusEnum("to_status").notNull(),
+  actorType: statusActorEnum("actor_type").notNull(),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }), // null for guests and the system
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("appointment_status_history_appointment_idx").on(table.appointmentId),
+]);
+
+// Reminders already sent, so restarts and overlapping runs never send one twice
+export const appointmentReminders = pgTable("appointment_reminders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  appointmentId: varchar("appointment_id").notNull().references(() => appointments.id, { onDelete: "cascade" }),
+  offsetHours: integer("offset_hours").notNull(),
+  sentAt: timestamp("sent_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("appointment_reminders_offset_idx").on(table.appointmentId, table.offsetHours),
+]);
+
+// Outgoing email queue - API handlers enqueue, a background worker delivers and retries
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  to: text("to").notNull(),
+  subject: text("subject").notNull(),
+  text: text("text").notNull(),
+  html: text("html"),
+  attachments: jsonb("attachments").$type<{ filename: string; content: string; encoding?: "base64"; contentType?: string }[]>(), // binary content as base64
+  status: emailOutboxStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("email_outbox_due_idx").on(table.status, table.nextAttemptAt),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   announcements: many(announcements),
@@ -151,7 +353,9 @@ export const messagesRelations = relations(messages, ({ one }) => ({
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
+  email: true,
   password: true,
+  name: true,
   role: true,
 });
 
@@ -168,11 +372,81 @@ export const visitorLoginSchema = z.object({
   password: z.string().min(1, "请输入密码"),
 });
 
+// Visitor password reset schemas
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("请输入有效的邮箱地址"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "链接无效"),
+  password: z.string().min(6, "密码至少需要6个字符"),
+});
+
+// Guest magic-link request schema
+export const guestAccessLinkSchema = z.object({
+  email: z.string().email("请输入有效的邮箱地址"),
+  scope: z.enum(["appointments", "conversations"]),
+});
+
 export const insertAppointmentSchema = createInsertSchema(appointments).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   status: true,
+  durationMinutes: true,
+  bufferMinutes: true,
+  welfareProofStatus: true,
+  welfareProofReviewedBy: true,
+  welfareProofReviewedAt: true,
+  welfareProofReviewNote: true,
+  paymentDueAt: true,
+}).extend({
+  // Object path returned by POST /api/welfare-proof/upload-url
+  welfareProofFile: z.string().regex(/^\/objects\/uploads\/[\w-]+(\.\w+)?$/, "证明材料无效，请重新上传").nullish(),
+});
+
+// Moving an appointment (PATCH /api/appointments/:id); nothing else about a booking can be changed there
+export const appointmentRescheduleSchema = z.object({
+  appointmentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "日期格式应为yyyy-MM-dd"),
+  appointmentTime: z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, "时间格式应为HH:mm"),
+  accessToken: z.string().optional(),
+});
+
+export const appointmentStatusChangeSchema = z.object({
+  status: z.enum(appointmentStatusEnum.enumValues),
+  reason: z.string().trim().max(500, "原因最多500字").optional(),
+});
+
+export const welfareProofReviewSchema = z.object({
+  decision: z.enum(["approved", "rejected"]),
+  note: z.string().trim().max(500, "备注最多500字").optional(),
+}).refine((data) => data.decision === "approved" || !!data.note, {
+  message: "驳回时请填写原因",
+  path: ["note"],
+});
+
+// Money taken by staff outside the system (cash or card at the session), recorded so it can be receipted
+export const onsitePaymentSchema = z.object({
+  amount: z.number().int().min(1, "实收金额须大于0").max(10_000_000, "金额过大"), // fen
+  note: z.string().trim().max(500, "备注最多500字").optional(),
+});
+
+// Object path returned by POST /api/appointments/:id/payment-proof/upload-url
+export const paymentProofSubmissionSchema = z.object({
+  proofFile: z.string().regex(/^\/objects\/uploads\/[\w-]+(\.\w+)?$/, "付款凭证无效，请重新上传"),
+});
+
+// Reconciling a manual payment; the amount actually received is entered on approval
+export const paymentReviewSchema = z.object({
+  decision: z.enum(["approved", "rejected"]),
+  amount: z.number().int().min(1, "实收金额须大于0").max(10_000_000, "金额过大").optional(), // fen
+  note: z.string().trim().max(500, "备注最多500字").optional(),
+}).refine((data) => data.decision === "rejected" || data.amount !== undefined, {
+  message: "请填写实收金额",
+  path: ["amount"],
+}).refine((data) => data.decision === "approved" || !!data.note, {
+  message: "驳回时请填写原因",
+  path: ["note"],
 });
 
 export const insertAnnouncementSchema = createInsertSchema(announcements).omit({
@@ -194,15 +468,227 @@ export const insertConversationSchema = createInsertSchema(conversations).omit({
   isResolved: true,
 });
 
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "时间格式应为HH:mm");
+
 export const insertScheduleSettingSchema = createInsertSchema(scheduleSettings).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
+}).extend({
+  durationMinutes: z.number().int().min(15, "时段时长至少15分钟").max(480, "时段时长最多480分钟").optional(),
+  bufferMinutes: z.number().int().min(0).max(120, "间隔时间最多120分钟").optional(),
+});
+
+export const insertScheduleTemplateSchema = createInsertSchema(scheduleTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "请输入名称").max(50, "名称最多50个字"),
+}).refine(d => !d.effectiveTo || d.effectiveTo >= d.effectiveFrom, {
+  message: "结束日期不能早于开始日期",
+  path: ["effectiveTo"],
+});
+
+// Replaces the slots of the target weekdays with copies of the source day's slots, within one template
+export const copyScheduleDaySchema = z.object({
+  templateId: z.string().nullable(),
+  fromDay: z.number().int().min(0).max(6),
+  toDays: z.array(z.number().int().min(0).max(6)).min(1, "请选择要复制到的日期"),
+});
+
+export const insertScheduleOverrideSchema = createInsertSchema(scheduleOverrides).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  timeSlot: timeOfDaySchema,
+  durationMinutes: z.number().int().min(15, "时段时长至少15分钟").max(480, "时段时长最多480分钟").optional(),
+  bufferMinutes: z.number().int().min(0).max(120, "间隔时间最多120分钟").optional(),
 });
 
 export const insertBlockedDateSchema = createInsertSchema(blockedDates).omit({
   id: true,
   createdAt: true,
+}).extend({
+  startTime: timeOfDaySchema.nullish(),
+  endTime: timeOfDaySchema.nullish(),
+})
+  // Annual closures may wrap around New Year, e.g. 12-30 to 01-02
+  .refine(d => !d.endDate || d.recursAnnually || d.endDate >= d.startDate, {
+    message: "结束日期不能早于开始日期",
+    path: ["endDate"],
+  })
+  .refine(d => !d.startTime === !d.endTime, {
+    message: "请同时填写开始和结束时间",
+    path: ["endTime"],
+  })
+  .refine(d => !d.startTime || !d.endTime || d.startTime < d.endTime, {
+    message: "结束时间需晚于开始时间",
+    path: ["endTime"],
+  });
+
+export const insertSlotHoldSchema = createInsertSchema(slotHolds).omit({
+  id: true,
+  createdAt: true,
+  durationMinutes: true,
+  bufferMinutes: true,
+});
+
+export const WAITLIST_MAX_RANGE_DAYS = 7;
+
+export const insertWaitlistEntrySchema = createInsertSchema(waitlistEntries).pick({
+  name: true,
+  contactEmail: true,
+  contactPhone: true,
+  consultationType: true,
+  consultationMode: true,
+  startDate: true,
+  endDate: true,
+}).extend({
+  name: z.string().trim().min(1, "请输入您的姓名").max(50, "姓名最多50个字"),
+  contactEmail: z.string().email("请输入有效的邮箱地址"),
+  contactPhone: z.string().trim().max(30).nullish(),
+})
+  .refine(d => d.endDate >= d.startDate, {
+    message: "结束日期不能早于开始日期",
+    path: ["endDate"],
+  })
+  // Date-only strings parse as UTC midnight, so the difference is a whole number of days
+  .refine(d => (Date.parse(d.endDate) - Date.parse(d.startDate)) / 86_400_000 < WAITLIST_MAX_RANGE_DAYS, {
+    message: `候补时间范围最多${WAITLIST_MAX_RANGE_DAYS}天`,
+    path: ["endDate"],
+  });
+
+// Reminder settings (stored in app_settings under "reminders")
+export const reminderSettingsSchema = z.object({
+  enabled: z.boolean(),
+  offsetsHours: z
+    .array(z.number().int().min(1, "提醒时间至少提前1小时").max(168, "提醒时间最多提前7天"))
+    .max(5, "最多设置5个提醒时间"),
+});
+
+export const defaultReminderSettings: z.infer<typeof reminderSettingsSchema> = {
+  enabled: true,
+  offsetsHours: [24, 2],
+};
+
+// Session length per consultation type, in minutes (stored in app_settings under "session-durations")
+const sessionMinutes = z.number().int().min(15, "咨询时长至少15分钟").max(240, "咨询时长最多240分钟");
+export const sessionDurationsSchema = z.object({
+  regular: sessionMinutes,
+  welfare: sessionMinutes,
+});
+
+export const defaultSessionDurations: z.infer<typeof sessionDurationsSchema> = {
+  regular: 50,
+  welfare: 50,
+};
+
+// Booking policy (stored in app_settings under "booking-policy"); staff are not bound by it
+export const bookingPolicySchema = z.object({
+  bookingHorizonDays: z.number().int().min(1, "至少开放1天").max(365, "最多开放365天"),
+  minNoticeHours: z.number().int().min(0).max(336, "最短提前时间不能超过14天"),
+  // Clients may reschedule or cancel until this time, this many days before the session
+  changeCutoffDaysBefore: z.number().int().min(0).max(30, "最多提前30天"),
+  changeCutoffTime: timeOfDaySchema,
+  maxActiveBookings: z.number().int().min(0).max(20, "最多20个"), // 0 = unlimited
+});
+
+export const defaultBookingPolicy: z.infer<typeof bookingPolicySchema> = {
+  bookingHorizonDays: 14,
+  minNoticeHours: 0,
+  changeCutoffDaysBefore: 1,
+  changeCutoffTime: "22:00",
+  maxActiveBookings: 0,
+};
+
+// Welfare session quota (stored in app_settings under "welfare-quota"); staff are not bound by it.
+// Weeks run Monday to Sunday; cancelled sessions do not count.
+export const welfareQuotaSchema = z.object({
+  weeklyLimit: z.number().int().min(0).max(100, "每周最多100次"), // 0 = unlimited
+  monthlyLimit: z.number().int().min(0).max(400, "每月最多400次"), // 0 = unlimited
+  // Weekly slots welfare sessions may be booked in; empty = any slot
+  designatedSlots: z
+    .array(z.object({ dayOfWeek: z.number().int().min(0).max(6), time: timeOfDaySchema }))
+    .max(100, "最多指定100个时段"),
+});
+
+export const defaultWelfareQuota: z.infer<typeof welfareQuotaSchema> = {
+  weeklyLimit: 0,
+  monthlyLimit: 0,
+  designatedSlots: [],
+};
+
+// Attendance policy (stored in app_settings under "attendance-policy"); staff are not bound by it.
+// A cancellation is late when it happens less than lateCancelHours before the session.
+export const attendancePolicySchema = z.object({
+  lateCancelHours: z.number().int().min(1, "至少1小时").max(168, "最多168小时"),
+  lookbackDays: z.number().int().min(30, "至少统计30天").max(730, "最多统计730天"),
+  noShowThreshold: z.number().int().min(0).max(20, "最多20次"), // 0 = not enforced
+  lateCancelThreshold: z.number().int().min(0).max(20, "最多20次"), // 0 = not enforced
+  // What a client who reaches a threshold must do: pay before the booking is confirmed,
+  // or ask the counselor, who books on their behalf
+  action: z.enum(["prepayment", "approval"]),
+});
+
+export const defaultAttendancePolicy: z.infer<typeof attendancePolicySchema> = {
+  lateCancelHours: 24,
+  lookbackDays: 365,
+  noShowThreshold: 0,
+  lateCancelThreshold: 0,
+  action: "prepayment",
+};
+
+const feeSchema = z.number().int().min(0).max(10_000_000, "金额过大"); // fen
+
+// Consultation fees and online payment (stored in app_settings under "payment-settings").
+// Amounts are in fen; a session with a fee of 0 is never asked to pay.
+export const paymentSettingsSchema = z.object({
+  fees: z.object({
+    regular: z.object({ online: feeSchema, offline: feeSchema }),
+    welfare: z.object({ online: feeSchema, offline: feeSchema }),
+  }),
+  // New client bookings with a fee start as pending_payment instead of pending
+  requirePrepayment: z.boolean(),
+  // How long a pending_payment booking is kept before it is released (never past the session start)
+  paymentWindowHours: z.number().int().min(1, "至少1小时").max(168, "最多168小时"),
+  // Bank account or QR code details shown to clients; when empty, clients cannot submit a transfer screenshot
+  manualPaymentInstructions: z.string().trim().max(1000, "最多1000字"),
+  // Printed on receipts as the counselor who held the session
+  counselorName: z.string().trim().max(50, "最多50字"),
+});
+
+export const defaultPaymentSettings: z.infer<typeof paymentSettingsSchema> = {
+  fees: {
+    regular: { online: 0, offline: 0 },
+    welfare: { online: 0, offline: 0 },
+  },
+  requirePrepayment: false,
+  paymentWindowHours: 24,
+  manualPaymentInstructions: "",
+  counselorName: "",
+};
+
+// Query of GET /api/schedule/next-available; `from` defaults to today
+export const nextAvailableQuerySchema = z.object({
+  mode: z.enum(consultationModeEnum.enumValues).optional(),
+  type: z.enum(consultationTypeEnum.enumValues).default("regular"),
+  limit: z.coerce.number().int().min(1).max(20).default(5),
+  from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "日期格式应为yyyy-MM-dd").optional(),
+});
+
+// Params of GET /api/schedule/availability/:month?type=: per-day open slot counts for one calendar month
+export const availabilitySummaryQuerySchema = z.object({
+  month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "月份格式应为yyyy-MM"),
+  type: z.enum(consultationTypeEnum.enumValues).default("regular"),
+});
+
+// Holiday calendar import: the raw ICS, JSON or CSV text, and the weekday whose slots make-up
+// working days (调休) take
+export const holidayImportRequestSchema = z.object({
+  content: z.string().min(1, "请上传日历文件").max(100_000, "文件过大"),
+  workdayTemplateDay: z.number().int().min(0).max(6).default(1),
 });
 
 // Types
@@ -211,6 +697,13 @@ export type User = typeof users.$inferSelect;
 
 export type InsertAppointment = z.infer<typeof insertAppointmentSchema>;
 export type Appointment = typeof appointments.$inferSelect;
+export type WelfareProofReview = z.infer<typeof welfareProofReviewSchema>;
+export type AppointmentStatusChange = z.infer<typeof appointmentStatusChangeSchema>;
+export type AppointmentStatusHistoryEntry = typeof appointmentStatusHistory.$inferSelect;
+// Who made a status change; stored with each history entry
+export type StatusChangeActor = Pick<AppointmentStatusHistoryEntry, "actorType" | "actorId" | "reason">;
+// Shape of GET /api/appointments/:id/status-history; actorName is the staff member's or client's name
+export type AppointmentStatusTimelineEntry = AppointmentStatusHistoryEntry & { actorName: string | null };
 
 export type InsertAnnouncement = z.infer<typeof insertAnnouncementSchema>;
 export type Announcement = typeof announcements.$inferSelect;
@@ -224,5 +717,72 @@ export type Conversation = typeof conversations.$inferSelect;
 export type InsertScheduleSetting = z.infer<typeof insertScheduleSettingSchema>;
 export type ScheduleSetting = typeof scheduleSettings.$inferSelect;
 
+export type InsertScheduleTemplate = z.infer<typeof insertScheduleTemplateSchema>;
+export type ScheduleTemplate = typeof scheduleTemplates.$inferSelect;
+export type CopyScheduleDay = z.infer<typeof copyScheduleDaySchema>;
+
+export type InsertScheduleOverride = z.infer<typeof insertScheduleOverrideSchema>;
+export type ScheduleOverride = typeof scheduleOverrides.$inferSelect;
+
 export type InsertBlockedDate = z.infer<typeof insertBlockedDateSchema>;
 export type BlockedDate = typeof blockedDates.$inferSelect;
+
+export type InsertSlotHold = z.infer<typeof insertSlotHoldSchema>;
+export type SlotHold = typeof slotHolds.$inferSelect;
+
+export type InsertWaitlistEntry = z.infer<typeof insertWaitlistEntrySchema>;
+export type WaitlistEntry = typeof waitlistEntries.$inferSelect;
+
+// Only written by the server (no request validation needed)
+export type InsertPayment = Pick<typeof payments.$inferInsert, "appointmentId" | "amount" | "currency" | "provider" | "providerReference" | "checkoutUrl" | "expiresAt" | "proofFile">;
+export type Payment = typeof payments.$inferSelect;
+export type PaymentReview = z.infer<typeof paymentReviewSchema>;
+export type OnsitePayment = z.infer<typeof onsitePaymentSchema>;
+// Shape of GET /api/payments/review-queue
+export type PaymentReviewItem = Payment & { appointment: Appointment };
+// What a client sees of their own manual payments (GET /api/appointments/:id/payment-proofs)
+export type PaymentProofStatus = Pick<Payment, "id" | "status" | "amount" | "reviewNote" | "createdAt">;
+export type InsertReceipt = Pick<typeof receipts.$inferInsert, "appointmentId" | "amount" | "currency" | "counselorName">;
+export type Receipt = typeof receipts.$inferSelect;
+export type InsertEmailOutbox = Pick<typeof emailOutbox.$inferInsert, "to" | "subject" | "text" | "html" | "attachments">;
+export type EmailOutbox = typeof emailOutbox.$inferSelect;
+
+export type ReminderSettings = z.infer<typeof reminderSettingsSchema>;
+export type AppointmentReminder = typeof appointmentReminders.$inferSelect;
+
+export type BookingPolicy = z.infer<typeof bookingPolicySchema>;
+export type WelfareQuota = z.infer<typeof welfareQuotaSchema>;
+export type AttendancePolicy = z.infer<typeof attendancePolicySchema>;
+export type PaymentSettings = z.infer<typeof paymentSettingsSchema>;
+// GET /api/payment-settings; online payment is unavailable when no payment provider is configured
+export type PublicPaymentSettings = PaymentSettings & { onlinePaymentAvailable: boolean };
+
+// Welfare sessions left in the week and month containing a date; null when that period is unlimited
+export interface WelfareQuotaStatus {
+  weekly: { limit: number; remaining: number; from: string; to: string } | null;
+  monthly: { limit: number; remaining: number; from: string; to: string } | null;
+  designatedSlots: WelfareQuota["designatedSlots"];
+}
+
+// A client's attendance within the attendance policy's lookback window, and what the policy
+// requires of their next booking (null when no threshold is reached)
+export interface AttendanceRecord {
+  since: string;
+  completed: number;
+  noShows: number;
+  lateCancellations: number;
+  requirement: AttendancePolicy["action"] | null;
+}
+export type SessionDurations = z.infer<typeof sessionDurationsSchema>;
+// How long a booking occupies the counselor: the session plus the buffer after it
+export type SessionLength = Pick<Appointment, "durationMinutes" | "bufferMinutes">;
+
+export type HolidayImportRequest = z.infer<typeof holidayImportRequestSchema>;
+
+// What a holiday import would change; entries already reflected in the schedule are marked applied
+export interface HolidayImportPlan {
+  holidays: { date: string; name: string; applied: boolean }[];
+  workdays: { date: string; name: string; applied: boolean; timeSlots: string[] }[]; // slots to add
+  blockedPeriods: InsertBlockedDate[];
+  skippedPastDates: number;
+}
@@ -0,0 +1,40 @@
+import type { InsertAppointment, InsertScheduleSetting, ScheduleTemplate, SessionLength } from "@shared/schema";
+import { storage } from "../server/storage";
+
+// A complete client booking form for the given slot
+export function booking(
+  appointmentDate: string,
+  appointmentTime: string,
+  overrides: Partial<InsertAppointment & SessionLength> = {}
+): InsertAppointment & SessionLength {
+  return {
+    appointmentDate,
+    appointmentTime,
+    consultationType: "regular",
+    consultationMode: "online",
+    durationMinutes: 50,
+    bufferMinutes: 10,
+    name: "测试来访者",
+    gender: "female",
+    birthDate: "1990-01-01",
+    contactPhone: "13800000000",
+    situationDescription: "测试",
+    dataCollectionConsent: true,
+    confidentialityConsent: true,
+    ...overrides,
+  };
+}
+
+// Weekly slots that apply only from effectiveFrom through effectiveTo, as a schedule template. The test
+// files share one database, so each keeps its schedule to its own dates.
+export async function weeklySlots(
+  effectiveFrom: string,
+  effectiveTo: string,
+  slots: (Pick<InsertScheduleSetting, "dayOfWeek" | "timeSlot"> & Partial<InsertScheduleSetting>)[]
+): Promise<ScheduleTemplate> {
+  const template = await storage.createScheduleTemplate({ name: `测试 ${effectiveFrom}`, effectiveFrom, effectiveTo }, false);
+  for (const slot of slots) {
+    await storage.createScheduleSetting({ durationMinutes: 60, bufferMinutes: 10, ...slot, templateId: template.id });
+  }
+  return template;
+}
@@ -0,0 +1,4 @@
+import { inject } from "vitest";
+
+// server/db.ts connects on import, so this has to be set before any test file loads it
+process.env.DATABASE_URL = inject("databaseUrl");
@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    // One throwaway Postgres for the whole run; test files share it, so they run one at a time
+    globalSetup: ["test/globalSetup.ts"],
+    setupFiles: ["test/setup.ts"],
+    fileParallelism: false,
+    testTimeout: 30_000,
+  },
+});